@@ -11,9 +11,15 @@ import { AuthModule } from './modules/auth.module'
 import { UserController } from './controllers/user.controller'
 import { AdminController } from './controllers/admin.controller'
 import { MetricsController } from './controllers/metrics.controller'
+import { ArticleController } from './controllers/article.controller'
+import { EntityController } from './controllers/entity.controller'
 import { MetricsService } from './common/services/metrics.service'
 import { MetricsInterceptor } from './common/interceptors/metrics.interceptor'
 import { UserService } from './services/user.service'
+import { ArticleService } from './services/article.service'
+import { EntityService } from './services/entity.service'
+import { TopicService } from './services/topic.service'
+import { ArticleVectorRepository } from './repositories/article-vector.repository'
 import { WinstonModule } from 'nest-winston'
 import { getWinstonConfig } from './common/config/winston.config'
 
@@ -48,15 +54,27 @@ const ROOT_ENV = resolve(process.cwd(), '../../.env')
         port: parseInt(process.env.REDIS_PORT ?? '6379'),
       },
     }),
+    // Processed by the worker; admins queue topic model training on it
+    BullModule.registerQueue({
+      name: 'enrichment-queue',
+      connection: {
+        host: process.env.REDIS_HOST,
+        port: parseInt(process.env.REDIS_PORT ?? '6379'),
+      },
+    }),
     PrismaModule,
     AuthModule
   ],
-  controllers: [AppController, UserController, AdminController, MetricsController],
+  controllers: [AppController, UserController, AdminController, MetricsController, ArticleController, EntityController],
   providers: [
     AppService, 
     AddJobService, 
     MetricsService,
     UserService,
+    ArticleService,
+    EntityService,
+    TopicService,
+    ArticleVectorRepository,
     {
       provide: 'APP_INTERCEPTOR',
       useClass: MetricsInterceptor,
@@ -1,19 +1,26 @@
 import { 
+  Body,
   Controller, 
   Delete, 
   Get, 
   Param, 
+  Post,
+  Put,
   Query, 
   UseGuards,
   ParseIntPipe,
+  ParseEnumPipe,
   DefaultValuePipe
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiQuery, ApiBody } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { AdminGuard } from '../common/guards/admin.guard';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
-import { JwtPayload } from '@snag/share';
+import { MergeSuggestionStatus } from '@prisma/client';
+import { CreateGazetteerEntryDto, GAZETTEER_TYPES, JwtPayload, SetArticleTopicsDto, TOPICS } from '@snag/share';
 import { UserService } from '../services/user.service';
+import { EntityService } from '../services/entity.service';
+import { TopicService } from '../services/topic.service';
 
 @ApiTags('Admin')
 @ApiBearerAuth()
@@ -23,7 +30,11 @@ import { UserService } from '../services/user.service';
 })
 @UseGuards(JwtAuthGuard, AdminGuard) // Both JWT auth and admin role required
 export class AdminController {
-  constructor(private readonly userService: UserService) {}
+  constructor(
+    private readonly userService: UserService,
+    private readonly entityService: EntityService,
+    private readonly topicService: TopicService
+  ) {}
 
   @Delete('users/:userId')
   @ApiOperation({ 
@@ -152,4 +163,381 @@ export class AdminController {
   async getUserById(@Param('userId') userId: string) {
     return await this.userService.findUserById(userId);
   }
+
+  @Get('gazetteer')
+  @ApiOperation({ 
+    summary: 'List gazetteer entries (Admin only)',
+    description: 'Names the entity extractor recognizes in addition to its built-in lists of people, organizations and places.'
+  })
+  @ApiQuery({ 
+    name: 'type', 
+    required: false, 
+    description: 'Only entries of this entity type',
+    enum: GAZETTEER_TYPES
+  })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Gazetteer entries retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        count: { type: 'number', example: 1 },
+        entries: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              type: { type: 'string', example: 'org' },
+              name: { type: 'string', example: 'Deutsche Bank' },
+              createdAt: { type: 'string' }
+            }
+          }
+        }
+      }
+    }
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  async getGazetteerEntries(@Query('type') type?: string) {
+    return await this.entityService.getGazetteerEntries(type);
+  }
+
+  @Post('gazetteer')
+  @ApiOperation({ 
+    summary: 'Add a gazetteer entry (Admin only)',
+    description: 'Teach the entity extractor a name. Names are matched case-sensitively as written; the worker picks new entries up within five minutes and applies them to articles extracted from then on.'
+  })
+  @ApiBody({ type: CreateGazetteerEntryDto })
+  @ApiResponse({ 
+    status: 201, 
+    description: 'Gazetteer entry created successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        type: { type: 'string', example: 'org' },
+        name: { type: 'string', example: 'Deutsche Bank' },
+        createdAt: { type: 'string' }
+      }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid type or name' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 409, description: 'Name already listed for this type' })
+  async addGazetteerEntry(@Body() payload: CreateGazetteerEntryDto) {
+    return await this.entityService.addGazetteerEntry(payload);
+  }
+
+  @Delete('gazetteer/:entryId')
+  @ApiOperation({ 
+    summary: 'Delete a gazetteer entry (Admin only)',
+    description: 'Stop recognizing a name. Entities and article links extracted earlier are kept.'
+  })
+  @ApiParam({ 
+    name: 'entryId', 
+    description: 'The ID of the gazetteer entry to delete',
+    example: 'cmf1k2j3h0000ab12cd34ef56'
+  })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Gazetteer entry deleted successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Gazetteer entry deleted successfully' },
+        deletedEntry: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', example: 'org' },
+            name: { type: 'string', example: 'Deutsche Bank' }
+          }
+        }
+      }
+    }
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Gazetteer entry not found' })
+  async deleteGazetteerEntry(@Param('entryId') entryId: string) {
+    return await this.entityService.deleteGazetteerEntry(entryId);
+  }
+
+  @Get('entities/merge-suggestions')
+  @ApiOperation({ 
+    summary: 'List entity merge suggestions (Admin only)',
+    description: 'Entities the worker believes are the same thing under different names ("Apple Inc." and "Apple", "AAPL" and Apple), scored by name similarity and how often they appear in the same articles. Pending suggestions come best first.'
+  })
+  @ApiQuery({ 
+    name: 'status', 
+    required: false, 
+    description: 'Suggestion status (default PENDING)',
+    enum: MergeSuggestionStatus
+  })
+  @ApiQuery({ 
+    name: 'limit', 
+    required: false, 
+    description: 'Number of suggestions to return (max 200)',
+    example: 50
+  })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Merge suggestions retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', example: 'PENDING' },
+        count: { type: 'number' },
+        suggestions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              sourceId: { type: 'string' },
+              sourceType: { type: 'string', example: 'org' },
+              sourceValue: { type: 'string', example: 'Apple Inc' },
+              targetId: { type: 'string' },
+              targetType: { type: 'string', example: 'org' },
+              targetValue: { type: 'string', example: 'Apple' },
+              reason: { type: 'string', example: 'same-name' },
+              nameSimilarity: { type: 'number', example: 1 },
+              cooccurrence: { type: 'number', example: 0.42 },
+              score: { type: 'number', example: 0.855 },
+              status: { type: 'string', example: 'PENDING' },
+              createdAt: { type: 'string' },
+              decidedAt: { type: 'string', nullable: true },
+              decidedBy: { type: 'string', nullable: true }
+            }
+          }
+        }
+      }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid status' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  async getMergeSuggestions(
+    @Query('status', new ParseEnumPipe(MergeSuggestionStatus, { optional: true })) status?: MergeSuggestionStatus,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number = 50
+  ) {
+    // Ensure reasonable limits
+    if (limit > 200) limit = 200;
+    if (limit < 1) limit = 1;
+
+    return await this.entityService.getMergeSuggestions(status, limit);
+  }
+
+  @Post('entities/merge-suggestions/:suggestionId/approve')
+  @ApiOperation({ 
+    summary: 'Approve an entity merge (Admin only)',
+    description: 'Merge the source entity into the target in one transaction: its article links move to the target, its name becomes an alias the extractor resolves to the target, and the source entity is deleted.'
+  })
+  @ApiParam({ 
+    name: 'suggestionId', 
+    description: 'The ID of the merge suggestion',
+    example: 'cmf1k2j3h0000ab12cd34ef56'
+  })
+  @ApiResponse({ 
+    status: 201, 
+    description: 'Entities merged successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Entities merged successfully' },
+        suggestion: { type: 'object' },
+        movedLinks: { type: 'number', example: 12 }
+      }
+    }
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Merge suggestion not found' })
+  @ApiResponse({ status: 409, description: 'Suggestion already decided or outdated' })
+  async approveMergeSuggestion(
+    @Param('suggestionId') suggestionId: string,
+    @CurrentUser() admin: JwtPayload
+  ) {
+    return await this.entityService.approveMergeSuggestion(suggestionId, admin.sub);
+  }
+
+  @Post('entities/merge-suggestions/:suggestionId/reject')
+  @ApiOperation({ 
+    summary: 'Reject an entity merge (Admin only)',
+    description: 'Keep both entities apart. A rejected pair is never suggested again.'
+  })
+  @ApiParam({ 
+    name: 'suggestionId', 
+    description: 'The ID of the merge suggestion',
+    example: 'cmf1k2j3h0000ab12cd34ef56'
+  })
+  @ApiResponse({ 
+    status: 201, 
+    description: 'Merge suggestion rejected',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Merge suggestion rejected' },
+        suggestion: { type: 'object' }
+      }
+    }
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Merge suggestion not found' })
+  @ApiResponse({ status: 409, description: 'Suggestion already decided' })
+  async rejectMergeSuggestion(
+    @Param('suggestionId') suggestionId: string,
+    @CurrentUser() admin: JwtPayload
+  ) {
+    return await this.entityService.rejectMergeSuggestion(suggestionId, admin.sub);
+  }
+
+  @Put('articles/:articleId/topics')
+  @ApiOperation({ 
+    summary: 'Label the topics of an article (Admin only)',
+    description: 'Record which topics an article is about, as training data for the topic classifier. Topics left out count as wrong. Labels take effect when the classifier is retrained.'
+  })
+  @ApiParam({ 
+    name: 'articleId', 
+    description: 'The ID of the article to label',
+    example: 'cmf1k2j3h0000ab12cd34ef56'
+  })
+  @ApiBody({ type: SetArticleTopicsDto })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Topic label saved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        label: {
+          type: 'object',
+          properties: {
+            articleId: { type: 'string' },
+            topics: { type: 'array', items: { type: 'string', enum: [...TOPICS] }, example: ['ECONOMICS', 'POLITICS'] },
+            labeledBy: { type: 'string' },
+            createdAt: { type: 'string' },
+            updatedAt: { type: 'string' }
+          }
+        },
+        classified: {
+          type: 'object',
+          description: 'What the current classifier assigned, for comparison',
+          properties: {
+            topics: { type: 'array', items: { type: 'string' }, example: ['ECONOMICS'] },
+            scores: { type: 'object', nullable: true, example: { ECONOMICS: 0.91, TECHNOLOGY: 0.04, POLITICS: 0.38 } }
+          }
+        }
+      }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Unknown topic' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Article not found' })
+  async setArticleTopics(
+    @Param('articleId') articleId: string,
+    @Body() payload: SetArticleTopicsDto,
+    @CurrentUser() admin: JwtPayload
+  ) {
+    return await this.topicService.setArticleTopics(articleId, payload, admin.sub);
+  }
+
+  @Delete('articles/:articleId/topics')
+  @ApiOperation({ 
+    summary: 'Remove the topic label of an article (Admin only)',
+    description: 'Stop training on this article. Its classified topics are unchanged.'
+  })
+  @ApiParam({ 
+    name: 'articleId', 
+    description: 'The ID of the labeled article',
+    example: 'cmf1k2j3h0000ab12cd34ef56'
+  })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Topic label deleted successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Topic label deleted successfully' },
+        deletedLabel: { type: 'object' }
+      }
+    }
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  @ApiResponse({ status: 404, description: 'Article has no topic label' })
+  async deleteArticleTopics(@Param('articleId') articleId: string) {
+    return await this.topicService.deleteArticleTopics(articleId);
+  }
+
+  @Get('topics/models')
+  @ApiOperation({ 
+    summary: 'List trained topic models (Admin only)',
+    description: 'Topic classifiers trained so far, newest first. The newest one classifies articles; each model records how many bundled, labeled and feedback examples it learned from.'
+  })
+  @ApiQuery({ 
+    name: 'limit', 
+    required: false, 
+    description: 'Number of models to return (max 50)',
+    example: 10
+  })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Topic models retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        current: { type: 'object', nullable: true },
+        labels: { type: 'number', example: 42 },
+        models: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              examples: { type: 'object', example: { fixtures: 89, labels: 42, feedback: 17 } },
+              trainedBy: { type: 'string', nullable: true },
+              createdAt: { type: 'string' }
+            }
+          }
+        }
+      }
+    }
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  async getTopicModels(
+    @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number = 10
+  ) {
+    // Ensure reasonable limits
+    if (limit > 50) limit = 50;
+    if (limit < 1) limit = 1;
+
+    return await this.topicService.getTopicModels(limit);
+  }
+
+  @Post('topics/retrain')
+  @ApiOperation({ 
+    summary: 'Retrain the topic classifier (Admin only)',
+    description: 'Queue training of a new topic model from the bundled examples, admin topic labels and reader feedback ("topic:ECONOMICS" or "off-topic" reasons). Once trained, the newest 1000 articles are classified again.'
+  })
+  @ApiResponse({ 
+    status: 201, 
+    description: 'Topic model training queued',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Topic model training queued' },
+        jobId: { type: 'string', nullable: true, example: 'topic_model_29312345' }
+      }
+    }
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin role required' })
+  async retrainTopicModel(@CurrentUser() admin: JwtPayload) {
+    return await this.topicService.retrainTopicModel(admin.sub);
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,209 @@
+import { Controller, Get, Param, Query, UseGuards, ParseIntPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { JwtPayload } from '@snag/share';
+import { ArticleService } from '../services/article.service';
+
+@ApiTags('Articles')
+@ApiBearerAuth()
+@Controller({
+  version: '1',
+  path: 'articles'
+})
+@UseGuards(JwtAuthGuard)
+export class ArticleController {
+  constructor(private readonly articleService: ArticleService) {}
+
+  @Get()
+  @ApiOperation({ 
+    summary: 'Get the article feed',
+    description: 'Most recent articles, filtered to the languages the user accepts (see PUT /v1/users/preferences/languages). Articles whose language could not be detected are always included.'
+  })
+  @ApiQuery({ 
+    name: 'lang', 
+    required: false, 
+    description: 'Comma-separated ISO 639-1 codes overriding the stored preference',
+    example: 'en,fr'
+  })
+  @ApiQuery({ 
+    name: 'limit', 
+    required: false, 
+    description: 'Number of articles to return (max 100)',
+    example: 20
+  })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Feed retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        languages: { type: 'array', items: { type: 'string' } },
+        count: { type: 'number' },
+        articles: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              title: { type: 'string' },
+              url: { type: 'string' },
+              outlet: { type: 'string' },
+              author: { type: 'string', nullable: true },
+              lang: { type: 'string', nullable: true },
+              paywalled: { type: 'boolean' },
+              publishedAt: { type: 'string' }
+            }
+          }
+        }
+      }
+    }
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  async getFeed(
+    @CurrentUser() user: JwtPayload,
+    @Query('lang') lang?: string,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number
+  ) {
+    // Ensure reasonable limits
+    const take = Math.min(Math.max(limit ?? 20, 1), 100);
+    const languages = lang
+      ? lang.split(',').map((code) => code.trim().toLowerCase()).filter(Boolean)
+      : undefined;
+
+    return await this.articleService.getFeed(user.sub, take, languages);
+  }
+
+  @Get(':articleId/similar')
+  @ApiOperation({ 
+    summary: 'Get articles similar to an article',
+    description: 'Nearest articles by embedding (cosine similarity), most similar first. `embedded` is false and the list empty while the article has not been embedded yet.'
+  })
+  @ApiParam({ 
+    name: 'articleId', 
+    description: 'The ID of the article',
+    example: 'cmeweg8e70000oq91q9kkjcbk'
+  })
+  @ApiQuery({ 
+    name: 'limit', 
+    required: false, 
+    description: 'Number of articles to return (max 50)',
+    example: 10
+  })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Similar articles retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        article: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            title: { type: 'string' },
+            url: { type: 'string' },
+            outlet: { type: 'string' },
+            publishedAt: { type: 'string' }
+          }
+        },
+        embedded: { type: 'boolean' },
+        count: { type: 'number' },
+        articles: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              title: { type: 'string' },
+              url: { type: 'string' },
+              outlet: { type: 'string', nullable: true },
+              lang: { type: 'string', nullable: true },
+              paywalled: { type: 'boolean' },
+              publishedAt: { type: 'string' },
+              similarity: { type: 'number' }
+            }
+          }
+        }
+      }
+    }
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 404, description: 'Article not found' })
+  async getSimilarArticles(
+    @Param('articleId') articleId: string,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number
+  ) {
+    // Ensure reasonable limits
+    const take = Math.min(Math.max(limit ?? 10, 1), 50);
+
+    return await this.articleService.getSimilarArticles(articleId, take);
+  }
+
+  @Get(':articleId/engagement')
+  @ApiOperation({ 
+    summary: 'Get engagement history for an article',
+    description: 'Score and comment-count snapshots recorded each time the source was polled, oldest first, with the per-hour change over the returned window.'
+  })
+  @ApiParam({ 
+    name: 'articleId', 
+    description: 'The ID of the article',
+    example: 'cmeweg8e70000oq91q9kkjcbk'
+  })
+  @ApiQuery({ 
+    name: 'hours', 
+    required: false, 
+    description: 'Only return snapshots from the last N hours (max 720)',
+    example: 24
+  })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Engagement history retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        article: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            title: { type: 'string' },
+            url: { type: 'string' },
+            outlet: { type: 'string' },
+            publishedAt: { type: 'string' }
+          }
+        },
+        snapshots: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              capturedAt: { type: 'string' },
+              score: { type: 'number', nullable: true },
+              comments: { type: 'number', nullable: true }
+            }
+          }
+        },
+        latest: { type: 'object', nullable: true },
+        velocity: {
+          type: 'object',
+          properties: {
+            scorePerHour: { type: 'number', nullable: true },
+            commentsPerHour: { type: 'number', nullable: true }
+          }
+        }
+      }
+    }
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 404, description: 'Article not found' })
+  async getEngagementHistory(
+    @Param('articleId') articleId: string,
+    @Query('hours', new ParseIntPipe({ optional: true })) hours?: number
+  ) {
+    // Ensure reasonable limits
+    if (hours !== undefined) {
+      hours = Math.min(Math.max(hours, 1), 720);
+    }
+
+    return await this.articleService.getEngagementHistory(articleId, hours);
+  }
+}
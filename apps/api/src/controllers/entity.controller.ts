@@ -0,0 +1,82 @@
+import { Controller, Get, Param, Query, UseGuards, ParseIntPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { EntityService } from '../services/entity.service';
+
+@ApiTags('Entities')
+@ApiBearerAuth()
+@Controller({
+  version: '1',
+  path: 'entities'
+})
+@UseGuards(JwtAuthGuard)
+export class EntityController {
+  constructor(private readonly entityService: EntityService) {}
+
+  @Get('tickers/:symbol/articles')
+  @ApiOperation({ 
+    summary: 'Get articles mentioning a stock ticker',
+    description: 'Most recent articles linked to a ticker, recognized from cashtags ($AAPL), exchange-prefixed symbols (NASDAQ:MSFT) or the name of a listed company. `meta` holds the exchange and company from the symbol directory.'
+  })
+  @ApiParam({ 
+    name: 'symbol', 
+    description: 'Ticker symbol, case-insensitive',
+    example: 'AAPL'
+  })
+  @ApiQuery({ 
+    name: 'limit', 
+    required: false, 
+    description: 'Number of articles to return (max 100)',
+    example: 20
+  })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Articles retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        ticker: {
+          type: 'object',
+          properties: {
+            symbol: { type: 'string', example: 'AAPL' },
+            meta: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                exchange: { type: 'string', example: 'NASDAQ' },
+                company: { type: 'string', example: 'Apple Inc.' }
+              }
+            }
+          }
+        },
+        count: { type: 'number' },
+        articles: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              title: { type: 'string' },
+              url: { type: 'string' },
+              outlet: { type: 'string', nullable: true },
+              lang: { type: 'string', nullable: true },
+              paywalled: { type: 'boolean' },
+              publishedAt: { type: 'string' }
+            }
+          }
+        }
+      }
+    }
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 404, description: 'No article mentions the ticker' })
+  async getTickerArticles(
+    @Param('symbol') symbol: string,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number
+  ) {
+    // Ensure reasonable limits
+    const take = Math.min(Math.max(limit ?? 20, 1), 100);
+
+    return await this.entityService.getTickerArticles(symbol, take);
+  }
+}
@@ -1,8 +1,9 @@
-import { Controller, Get, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { Body, Controller, Get, Put, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiBody } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
-import { JwtPayload } from '@snag/share';
+import { JwtPayload, UpdateDigestScheduleDto, UpdateLanguagesDto } from '@snag/share';
+import { UserService } from '../services/user.service';
 
 @ApiTags('Users')
 @ApiBearerAuth()
@@ -12,6 +13,7 @@ import { JwtPayload } from '@snag/share';
 })
 @UseGuards(JwtAuthGuard)
 export class UserController {
+  constructor(private readonly userService: UserService) {}
 
   @Get('profile')
   @ApiOperation({ summary: 'Get current user profile' })
@@ -69,4 +71,100 @@ export class UserController {
       }
     };
   }
-} 
\ No newline at end of file
+
+  @Get('preferences/languages')
+  @ApiOperation({ 
+    summary: 'Get accepted article languages',
+    description: 'ISO 639-1 codes the article feed is filtered to. An empty list accepts every language.'
+  })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Accepted languages retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        languages: { type: 'array', items: { type: 'string' }, example: ['en', 'fr'] }
+      }
+    }
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getLanguages(@CurrentUser() user: JwtPayload) {
+    return await this.userService.getLanguages(user.sub);
+  }
+
+  @Put('preferences/languages')
+  @ApiOperation({ 
+    summary: 'Set accepted article languages',
+    description: 'Replace the list of ISO 639-1 codes the article feed is filtered to. Send an empty list to accept every language.'
+  })
+  @ApiBody({ type: UpdateLanguagesDto })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Accepted languages updated successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        languages: { type: 'array', items: { type: 'string' }, example: ['en', 'fr'] }
+      }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid language code' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async updateLanguages(
+    @CurrentUser() user: JwtPayload,
+    @Body() payload: UpdateLanguagesDto
+  ) {
+    return await this.userService.updateLanguages(user.sub, payload.languages);
+  }
+
+  @Get('preferences/digest-schedule')
+  @ApiOperation({ 
+    summary: 'Get digest schedule',
+    description: 'Local delivery time and ISO weekdays (1 = Monday) of the digest, in the user timezone, with the next run in UTC.'
+  })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Digest schedule retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        timezone: { type: 'string', example: 'Europe/Berlin' },
+        time: { type: 'string', example: '07:00' },
+        days: { type: 'array', items: { type: 'integer' }, example: [1, 2, 3, 4, 5] },
+        nextDigestAt: { type: 'string', format: 'date-time', nullable: true }
+      }
+    }
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getDigestSchedule(@CurrentUser() user: JwtPayload) {
+    return await this.userService.getDigestSchedule(user.sub);
+  }
+
+  @Put('preferences/digest-schedule')
+  @ApiOperation({ 
+    summary: 'Set digest schedule',
+    description: 'Set the local delivery time and ISO weekdays of the digest, and optionally the timezone. Send no days to pause digests. The next run is scheduled within minutes.'
+  })
+  @ApiBody({ type: UpdateDigestScheduleDto })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Digest schedule updated successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        timezone: { type: 'string', example: 'Europe/Berlin' },
+        time: { type: 'string', example: '07:00' },
+        days: { type: 'array', items: { type: 'integer' }, example: [1, 2, 3, 4, 5] },
+        nextDigestAt: { type: 'string', format: 'date-time', nullable: true }
+      }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid time, weekday or timezone' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async updateDigestSchedule(
+    @CurrentUser() user: JwtPayload,
+    @Body() payload: UpdateDigestScheduleDto
+  ) {
+    return await this.userService.updateDigestSchedule(user.sub, payload);
+  }
+}
\ No newline at end of file
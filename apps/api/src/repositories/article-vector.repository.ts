@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+export interface SimilarArticleRow {
+  id: string;
+  title: string;
+  url: string;
+  outlet: string | null;
+  lang: string | null;
+  paywalled: boolean;
+  publishedAt: Date;
+  similarity: number;
+}
+
+/**
+ * k-NN queries on the pgvector `Article.embedding` column, which the Prisma
+ * client cannot read. Ordering by cosine distance (`<=>`) to a constant
+ * vector lets Postgres use the HNSW index.
+ */
+@Injectable()
+export class ArticleVectorRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Articles closest to the given one, most similar first, or null when it
+   * has no embedding yet. Only vectors from the same model are compared.
+   */
+  async findSimilarArticles(articleId: string, limit: number): Promise<SimilarArticleRow[] | null> {
+    const [target] = await this.prisma.$queryRaw<Array<{ embedding: string; embeddingModel: string }>>(Prisma.sql`
+      SELECT "embedding"::text AS "embedding", "embeddingModel"
+      FROM "Article"
+      WHERE "id" = ${articleId} AND "embedding" IS NOT NULL AND "embeddingModel" IS NOT NULL
+    `);
+
+    if (!target) {
+      return null;
+    }
+
+    const rows = await this.prisma.$queryRaw<SimilarArticleRow[]>(Prisma.sql`
+      SELECT a."id", a."title", a."url", a."outlet", a."lang", a."paywalled", a."publishedAt",
+        1 - (a."embedding" <=> ${target.embedding}::vector) AS "similarity"
+      FROM "Article" a
+      WHERE a."embedding" IS NOT NULL
+        AND a."embeddingModel" = ${target.embeddingModel}
+        AND a."id" <> ${articleId}
+      ORDER BY a."embedding" <=> ${target.embedding}::vector
+      LIMIT ${limit}
+    `);
+
+    return rows.map((row) => ({ ...row, similarity: Math.round(Number(row.similarity) * 1000) / 1000 }));
+  }
+}
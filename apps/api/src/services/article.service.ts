@@ -0,0 +1,154 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { ArticleVectorRepository } from '../repositories/article-vector.repository';
+import { BaseService } from '../common/base/base.service';
+import { WithAuthErrorHandling } from '../common/decorators/auto-error-handler.decorator';
+
+@Injectable()
+export class ArticleService extends BaseService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly articleVectorRepository: ArticleVectorRepository
+  ) {
+    super(ArticleService.name);
+  }
+
+  /**
+   * Most recent articles in the languages the user accepts. An explicit
+   * `languages` list overrides the stored preference; an empty one accepts all.
+   */
+  @WithAuthErrorHandling()
+  async getFeed(userId: string, limit: number = 20, languages?: string[]) {
+    const accepted = languages ?? (await this.prisma.preference.findUnique({
+      where: { userId },
+      select: { languages: true }
+    }))?.languages ?? [];
+
+    this.logger.log(`Fetching feed for user ${userId} (languages: ${accepted.join(', ') || 'all'})`);
+
+    const articles = await this.prisma.article.findMany({
+      // Articles whose language could not be determined are kept rather than hidden
+      where: accepted.length > 0 ? { OR: [{ lang: { in: accepted } }, { lang: null }] } : {},
+      orderBy: { publishedAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        title: true,
+        url: true,
+        outlet: true,
+        author: true,
+        lang: true,
+        paywalled: true,
+        publishedAt: true,
+      }
+    });
+
+    return {
+      languages: accepted,
+      count: articles.length,
+      articles
+    };
+  }
+
+  /**
+   * Nearest articles by embedding. An article that has not been embedded yet
+   * has no neighbours rather than being an error.
+   */
+  @WithAuthErrorHandling()
+  async getSimilarArticles(articleId: string, limit: number = 10) {
+    this.logger.log(`Fetching articles similar to: ${articleId}`);
+
+    const article = await this.prisma.article.findUnique({
+      where: { id: articleId },
+      select: {
+        id: true,
+        title: true,
+        url: true,
+        outlet: true,
+        publishedAt: true,
+      }
+    });
+
+    if (!article) {
+      this.logger.warn(`Article not found with ID: ${articleId}`);
+      throw new NotFoundException(`Article with ID ${articleId} not found`);
+    }
+
+    const similar = await this.articleVectorRepository.findSimilarArticles(articleId, limit);
+
+    return {
+      article,
+      embedded: similar !== null,
+      count: similar?.length ?? 0,
+      articles: similar ?? []
+    };
+  }
+
+  @WithAuthErrorHandling()
+  async getEngagementHistory(articleId: string, hours?: number) {
+    this.logger.log(`Fetching engagement history for article: ${articleId}`);
+
+    const article = await this.prisma.article.findUnique({
+      where: { id: articleId },
+      select: {
+        id: true,
+        title: true,
+        url: true,
+        outlet: true,
+        publishedAt: true,
+      }
+    });
+
+    if (!article) {
+      this.logger.warn(`Article not found with ID: ${articleId}`);
+      throw new NotFoundException(`Article with ID ${articleId} not found`);
+    }
+
+    const snapshots = await this.prisma.articleMetric.findMany({
+      where: {
+        articleId,
+        ...(hours ? { capturedAt: { gte: new Date(Date.now() - hours * 60 * 60 * 1000) } } : {})
+      },
+      orderBy: { capturedAt: 'asc' },
+      select: {
+        capturedAt: true,
+        score: true,
+        comments: true,
+      }
+    });
+
+    this.logger.log(`Found ${snapshots.length} engagement snapshots for article ${articleId}`);
+
+    return {
+      article,
+      snapshots,
+      latest: snapshots.length > 0 ? snapshots[snapshots.length - 1] : null,
+      velocity: this.calculateVelocity(snapshots)
+    };
+  }
+
+  /**
+   * Change per hour between the first and last snapshot of the window
+   */
+  private calculateVelocity(snapshots: Array<{ capturedAt: Date; score: number | null; comments: number | null }>) {
+    if (snapshots.length < 2) {
+      return { scorePerHour: null, commentsPerHour: null };
+    }
+
+    const first = snapshots[0];
+    const last = snapshots[snapshots.length - 1];
+    const hours = (last.capturedAt.getTime() - first.capturedAt.getTime()) / (60 * 60 * 1000);
+
+    if (hours <= 0) {
+      return { scorePerHour: null, commentsPerHour: null };
+    }
+
+    const perHour = (from: number | null, to: number | null) =>
+      from === null || to === null ? null : Math.round(((to - from) / hours) * 100) / 100;
+
+    return {
+      scorePerHour: perHour(first.score, last.score),
+      commentsPerHour: perHour(first.comments, last.comments)
+    };
+  }
+}
@@ -49,7 +49,8 @@ export class AuthService extends BaseService {
         passwordHash,
         createdAt: new Date(),
         role: 'USER',
-        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+        // The client's timezone, which digest times are local to; the server's as a fallback
+        timezone: registerUser.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone
       },
       select: { id: true, email: true, role: true }
     });
@@ -0,0 +1,259 @@
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { MergeSuggestionStatus, Prisma } from '@prisma/client';
+import { CreateGazetteerEntryDto } from '@snag/share';
+import { PrismaService } from '../prisma/prisma.service';
+import { BaseService } from '../common/base/base.service';
+import { WithAuthErrorHandling } from '../common/decorators/auto-error-handler.decorator';
+
+@Injectable()
+export class EntityService extends BaseService {
+  constructor(private readonly prisma: PrismaService) {
+    super(EntityService.name);
+  }
+
+  /**
+   * Most recent articles linked to a stock ticker. Symbols are stored upper
+   * case, class shares with a dot ("BRK.B"). A ticker merged into another
+   * entity returns that entity's articles.
+   */
+  @WithAuthErrorHandling()
+  async getTickerArticles(symbol: string, limit: number = 20) {
+    const value = symbol.trim().toUpperCase();
+    this.logger.log(`Fetching articles for ticker: ${value}`);
+
+    const select = { id: true, type: true, value: true, meta: true };
+    const alias = await this.prisma.entityAlias.findUnique({
+      where: { type_value: { type: 'ticker', value } },
+      select: { entity: { select } }
+    });
+    const ticker = alias?.entity ?? await this.prisma.entity.findUnique({
+      where: { type_value: { type: 'ticker', value } },
+      select
+    });
+
+    if (!ticker) {
+      this.logger.warn(`Ticker not found: ${value}`);
+      throw new NotFoundException(`No articles mention ticker ${value}`);
+    }
+
+    const links = await this.prisma.articleEntity.findMany({
+      where: { entityId: ticker.id },
+      orderBy: { article: { publishedAt: 'desc' } },
+      take: limit,
+      select: {
+        article: {
+          select: {
+            id: true,
+            title: true,
+            url: true,
+            outlet: true,
+            lang: true,
+            paywalled: true,
+            publishedAt: true,
+          }
+        }
+      }
+    });
+
+    return {
+      ticker: {
+        symbol: value,
+        meta: ticker.meta
+      },
+      entity: {
+        id: ticker.id,
+        type: ticker.type,
+        value: ticker.value
+      },
+      count: links.length,
+      articles: links.map((link) => link.article)
+    };
+  }
+
+  /**
+   * Names added to the entity extractor's gazetteer, on top of its built-in lists
+   */
+  @WithAuthErrorHandling()
+  async getGazetteerEntries(type?: string) {
+    const entries = await this.prisma.gazetteerEntry.findMany({
+      where: type ? { type } : {},
+      orderBy: [{ type: 'asc' }, { name: 'asc' }]
+    });
+
+    return {
+      count: entries.length,
+      entries
+    };
+  }
+
+  /**
+   * The worker picks new names up within a few minutes; articles already
+   * processed only gain the entity when their extraction runs again
+   */
+  @WithAuthErrorHandling()
+  async addGazetteerEntry(payload: CreateGazetteerEntryDto) {
+    const name = payload.name.trim();
+    this.logger.log(`Adding ${payload.type} "${name}" to the gazetteer`);
+
+    try {
+      return await this.prisma.gazetteerEntry.create({
+        data: { type: payload.type, name }
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException(`"${name}" is already listed as ${payload.type}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stops future matches; entities and links already extracted are kept
+   */
+  @WithAuthErrorHandling()
+  async deleteGazetteerEntry(entryId: string) {
+    const entry = await this.prisma.gazetteerEntry.findUnique({ where: { id: entryId } });
+    if (!entry) {
+      throw new NotFoundException(`Gazetteer entry ${entryId} not found`);
+    }
+
+    await this.prisma.gazetteerEntry.delete({ where: { id: entryId } });
+    this.logger.log(`Removed ${entry.type} "${entry.name}" from the gazetteer`);
+
+    return {
+      message: 'Gazetteer entry deleted successfully',
+      deletedEntry: entry
+    };
+  }
+
+  /**
+   * Proposed entity merges, best first
+   */
+  @WithAuthErrorHandling()
+  async getMergeSuggestions(status: MergeSuggestionStatus = MergeSuggestionStatus.PENDING, limit: number = 50) {
+    const suggestions = await this.prisma.entityMergeSuggestion.findMany({
+      where: { status },
+      orderBy: status === MergeSuggestionStatus.PENDING
+        ? [{ score: 'desc' }, { createdAt: 'asc' }]
+        : { decidedAt: 'desc' },
+      take: limit
+    });
+
+    return {
+      status,
+      count: suggestions.length,
+      suggestions
+    };
+  }
+
+  /**
+   * Merge the suggestion's source entity into its target in one transaction:
+   * article links move to the target, the source's name (and any aliases it
+   * had) become aliases of the target, and the source is deleted. Extraction
+   * links those names to the target from then on.
+   */
+  @WithAuthErrorHandling()
+  async approveMergeSuggestion(suggestionId: string, adminId: string) {
+    this.logger.log(`Admin ${adminId} approving entity merge suggestion: ${suggestionId}`);
+
+    return await this.prisma.$transaction(async (tx) => {
+      const suggestion = await this.findPendingSuggestion(tx, suggestionId);
+
+      const [source, target] = await Promise.all([
+        tx.entity.findUnique({ where: { id: suggestion.sourceId } }),
+        tx.entity.findUnique({ where: { id: suggestion.targetId } })
+      ]);
+      if (!source || !target) {
+        throw new ConflictException('One of the entities no longer exists; the suggestion is outdated');
+      }
+
+      const links = await tx.articleEntity.findMany({
+        where: { entityId: source.id },
+        select: { articleId: true }
+      });
+      await tx.articleEntity.createMany({
+        data: links.map((link) => ({ articleId: link.articleId, entityId: target.id })),
+        skipDuplicates: true
+      });
+      await tx.articleEntity.deleteMany({ where: { entityId: source.id } });
+
+      await tx.entityAlias.updateMany({
+        where: { entityId: source.id },
+        data: { entityId: target.id }
+      });
+      await tx.entityAlias.upsert({
+        where: { type_value: { type: source.type, value: source.value } },
+        create: { type: source.type, value: source.value, entityId: target.id },
+        update: { entityId: target.id }
+      });
+
+      // A ticker merged into its company's org keeps its listing on the org
+      if (source.meta !== null && target.meta === null) {
+        await tx.entity.update({
+          where: { id: target.id },
+          data: { meta: source.meta as Prisma.InputJsonValue }
+        });
+      }
+
+      await tx.entity.delete({ where: { id: source.id } });
+
+      const approved = await tx.entityMergeSuggestion.update({
+        where: { id: suggestionId },
+        data: {
+          status: MergeSuggestionStatus.APPROVED,
+          decidedAt: new Date(),
+          decidedBy: adminId
+        }
+      });
+      // Other open suggestions about the source point at an entity that is gone
+      await tx.entityMergeSuggestion.deleteMany({
+        where: {
+          status: MergeSuggestionStatus.PENDING,
+          OR: [{ sourceId: source.id }, { targetId: source.id }]
+        }
+      });
+
+      this.logger.log(`Merged entity ${source.type}:${source.value} into ${target.type}:${target.value} (${links.length} links)`);
+
+      return {
+        message: 'Entities merged successfully',
+        suggestion: approved,
+        movedLinks: links.length
+      };
+    });
+  }
+
+  /**
+   * Rejected pairs are never suggested again
+   */
+  @WithAuthErrorHandling()
+  async rejectMergeSuggestion(suggestionId: string, adminId: string) {
+    this.logger.log(`Admin ${adminId} rejecting entity merge suggestion: ${suggestionId}`);
+
+    await this.findPendingSuggestion(this.prisma, suggestionId);
+    const rejected = await this.prisma.entityMergeSuggestion.update({
+      where: { id: suggestionId },
+      data: {
+        status: MergeSuggestionStatus.REJECTED,
+        decidedAt: new Date(),
+        decidedBy: adminId
+      }
+    });
+
+    return {
+      message: 'Merge suggestion rejected',
+      suggestion: rejected
+    };
+  }
+
+  private async findPendingSuggestion(client: Prisma.TransactionClient, suggestionId: string) {
+    const suggestion = await client.entityMergeSuggestion.findUnique({ where: { id: suggestionId } });
+    if (!suggestion) {
+      throw new NotFoundException(`Merge suggestion ${suggestionId} not found`);
+    }
+    if (suggestion.status !== MergeSuggestionStatus.PENDING) {
+      throw new ConflictException(`Merge suggestion ${suggestionId} was already ${suggestion.status.toLowerCase()}`);
+    }
+    return suggestion;
+  }
+}
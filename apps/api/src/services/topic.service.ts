@@ -0,0 +1,109 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { SetArticleTopicsDto } from '@snag/share';
+import { PrismaService } from '../prisma/prisma.service';
+import { BaseService } from '../common/base/base.service';
+import { WithAuthErrorHandling } from '../common/decorators/auto-error-handler.decorator';
+
+@Injectable()
+export class TopicService extends BaseService {
+  constructor(
+    private readonly prisma: PrismaService,
+    @InjectQueue('enrichment-queue') private readonly enrichmentQueue: Queue
+  ) {
+    super(TopicService.name);
+  }
+
+  /**
+   * Label an article for the topic classifier. Labels take effect with the
+   * next retraining; the article's current topics are left as they are.
+   */
+  @WithAuthErrorHandling()
+  async setArticleTopics(articleId: string, payload: SetArticleTopicsDto, adminId: string) {
+    const article = await this.prisma.article.findUnique({
+      where: { id: articleId },
+      select: { id: true, topics: true, topicScores: true }
+    });
+    if (!article) {
+      throw new NotFoundException(`Article ${articleId} not found`);
+    }
+
+    const topics = [...new Set(payload.topics)];
+    this.logger.log(`Admin ${adminId} labeling article ${articleId} as ${topics.join(', ') || 'no topic'}`);
+
+    const label = await this.prisma.topicLabel.upsert({
+      where: { articleId },
+      create: { articleId, topics, labeledBy: adminId },
+      update: { topics, labeledBy: adminId }
+    });
+
+    return {
+      label,
+      classified: {
+        topics: article.topics,
+        scores: article.topicScores
+      }
+    };
+  }
+
+  @WithAuthErrorHandling()
+  async deleteArticleTopics(articleId: string) {
+    const label = await this.prisma.topicLabel.findUnique({ where: { articleId } });
+    if (!label) {
+      throw new NotFoundException(`Article ${articleId} has no topic label`);
+    }
+
+    await this.prisma.topicLabel.delete({ where: { articleId } });
+    this.logger.log(`Removed the topic label of article ${articleId}`);
+
+    return {
+      message: 'Topic label deleted successfully',
+      deletedLabel: label
+    };
+  }
+
+  /**
+   * Recently trained topic models, newest first; the newest one classifies
+   */
+  @WithAuthErrorHandling()
+  async getTopicModels(limit: number = 10) {
+    const [models, labels] = await Promise.all([
+      this.prisma.topicModel.findMany({
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        select: { id: true, examples: true, trainedBy: true, createdAt: true }
+      }),
+      this.prisma.topicLabel.count()
+    ]);
+
+    return {
+      current: models[0] ?? null,
+      labels,
+      models
+    };
+  }
+
+  /**
+   * Queue training on the worker, which then rescores the newest articles
+   */
+  @WithAuthErrorHandling()
+  async retrainTopicModel(adminId: string) {
+    this.logger.log(`Admin ${adminId} requested topic model training`);
+
+    const job = await this.enrichmentQueue.add(
+      'train-topic-model',
+      { trainedBy: adminId },
+      {
+        jobId: `topic_model_${Math.floor(Date.now() / 60000)}`, // at most one training per minute, as the worker queues it
+        removeOnComplete: 100,
+        removeOnFail: 50
+      }
+    );
+
+    return {
+      message: 'Topic model training queued',
+      jobId: job.id ?? null
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { Injectable, NotFoundException, ForbiddenException, Logger } from '@nestjs/common';
 import { PrismaClient } from '@prisma/client';
+import { DEFAULT_DIGEST_DAYS, DEFAULT_DIGEST_TIME, UpdateDigestScheduleDto } from '@snag/share';
 import { BaseService } from '../common/base/base.service';
 import { WithAuthErrorHandling } from '../common/decorators/auto-error-handler.decorator';
 
@@ -95,4 +96,83 @@ export class UserService extends BaseService {
       }
     };
   }
-} 
\ No newline at end of file
+
+  @WithAuthErrorHandling()
+  async getLanguages(userId: string) {
+    const preference = await this.prisma.preference.findUnique({
+      where: { userId },
+      select: { languages: true }
+    });
+
+    return { languages: preference?.languages ?? [] };
+  }
+
+  @WithAuthErrorHandling()
+  async updateLanguages(userId: string, languages: string[]) {
+    this.logger.log(`Updating accepted languages for user ${userId}: ${languages.join(', ') || 'all'}`);
+
+    // Users get a Preference row lazily, on their first change
+    const unique = [...new Set(languages)];
+    const preference = await this.prisma.preference.upsert({
+      where: { userId },
+      create: { userId, languages: unique },
+      update: { languages: unique },
+      select: { languages: true }
+    });
+
+    return { languages: preference.languages };
+  }
+
+  @WithAuthErrorHandling()
+  async getDigestSchedule(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        timezone: true,
+        nextDigestAt: true,
+        preferences: { select: { digestTime: true, digestDays: true } }
+      }
+    });
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    return {
+      timezone: user.timezone,
+      time: user.preferences?.digestTime ?? DEFAULT_DIGEST_TIME,
+      days: user.preferences?.digestDays ?? DEFAULT_DIGEST_DAYS,
+      nextDigestAt: user.nextDigestAt
+    };
+  }
+
+  /**
+   * Clearing `nextDigestAt` has the worker schedule the next run from the new
+   * settings within minutes; a run it already queued is then skipped
+   */
+  @WithAuthErrorHandling()
+  async updateDigestSchedule(userId: string, payload: UpdateDigestScheduleDto) {
+    const days = [...new Set(payload.days)].sort((a, b) => a - b);
+    this.logger.log(`Updating digest schedule for user ${userId}: ${payload.time} on days ${days.join(',') || 'none'}${payload.timezone ? ` (${payload.timezone})` : ''}`);
+
+    const [user, preference] = await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { nextDigestAt: null, ...(payload.timezone ? { timezone: payload.timezone } : {}) },
+        select: { timezone: true }
+      }),
+      this.prisma.preference.upsert({
+        where: { userId },
+        create: { userId, digestTime: payload.time, digestDays: days },
+        update: { digestTime: payload.time, digestDays: days },
+        select: { digestTime: true, digestDays: true }
+      })
+    ]);
+
+    return {
+      timezone: user.timezone,
+      time: preference.digestTime,
+      days: preference.digestDays,
+      nextDigestAt: null
+    };
+  }
+}
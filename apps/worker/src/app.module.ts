@@ -7,13 +7,35 @@ import { ScheduleModule } from '@nestjs/schedule';
 import { WinstonModule } from 'nest-winston';
 import { TestingProcessor } from './processors/testing-processor';
 import { NewsProcessor } from './processors/news-processor';
+import { EnrichmentProcessor } from './processors/enrichment-processor';
+import { EmbeddingProcessor } from './processors/embedding-processor';
+import { ClusteringProcessor } from './processors/clustering-processor';
+import { DigestProcessor } from './processors/digest-processor';
 import { ScheduledTasksService } from './tasks/scheduled-tasks.service';
 import { NewsSchedulerService } from './tasks/news-scheduler.service';
 import { SchedulerController } from './controllers/scheduler.controller';
 import { QueueManagementController } from './controllers/queue-management.controller';
-import { HackerNewsService } from './sources';
+import { HackerNewsItemCache, HackerNewsService, NewsSourceRegistry, RssService } from './sources';
+import { OutboundHttpService } from './http';
+import { BlobStorageService } from './storage';
 import { NewsStorageService } from './database/news-storage.service';
+import { DuplicateResolutionService } from './database/duplicate-resolution.service';
+import { PrismaService } from './database/prisma.service';
+import { VectorRepository } from './database/vector.repository';
+import { RedisService } from './common/services/redis.service';
 import { NewsQueueService } from './services/news-queue.service';
+import { EnrichmentQueueService } from './services/enrichment-queue.service';
+import { EmbeddingQueueService } from './services/embedding-queue.service';
+import { ClusteringQueueService } from './services/clustering-queue.service';
+import { DigestQueueService } from './services/digest-queue.service';
+import { ContentExtractionService } from './enrichment/extraction/content-extraction.service';
+import { EntityExtractionService } from './enrichment/entities/entity-extraction.service';
+import { EntityMergeSuggestionService } from './enrichment/entities/entity-merge-suggestion.service';
+import { TopicClassificationService } from './enrichment/topics/topic-classification.service';
+import { EmbeddingService } from './embeddings';
+import { SummarizationService } from './summarization';
+import { DigestService } from './digests';
+import { ClusterMaintenanceService, ClusteringService } from './clustering';
 import { QueueModule } from './common/modules/queue.module';
 import { getWinstonConfig } from './common/config/winston.config';
 
@@ -43,11 +65,37 @@ import { getWinstonConfig } from './common/config/winston.config';
     AppService, 
     TestingProcessor,
     NewsProcessor,
+    EnrichmentProcessor,
+    EmbeddingProcessor,
+    ClusteringProcessor,
+    DigestProcessor,
     ScheduledTasksService, 
     NewsSchedulerService, 
+    OutboundHttpService,
+    NewsSourceRegistry,
     HackerNewsService,
+    HackerNewsItemCache,
+    RssService,
+    PrismaService,
+    VectorRepository,
+    RedisService,
+    BlobStorageService,
     NewsStorageService,
-    NewsQueueService
+    DuplicateResolutionService,
+    NewsQueueService,
+    EnrichmentQueueService,
+    EmbeddingQueueService,
+    ClusteringQueueService,
+    DigestQueueService,
+    ContentExtractionService,
+    EntityExtractionService,
+    EntityMergeSuggestionService,
+    TopicClassificationService,
+    EmbeddingService,
+    ClusteringService,
+    ClusterMaintenanceService,
+    SummarizationService,
+    DigestService
   ],
 })
 export class AppModule {}
@@ -0,0 +1,405 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ClusterEvent } from '@prisma/client';
+import { PrismaService } from '../database/prisma.service';
+import { VectorRepository } from '../database/vector.repository';
+import { cosine, EmbeddingService } from '../embeddings';
+import { redirectClusterReferences } from './cluster-references';
+import { ClusteringService } from './clustering.service';
+import {
+  intraSimilarity,
+  meanVector,
+  MemberVector,
+  splitInTwo,
+} from './cluster-split';
+
+export interface MaintenanceResult {
+  frozen: number;
+  merged: number;
+  split: number;
+}
+
+// Merged clusters can themselves be merged again; stop following after this many
+const MAX_MERGE_HOPS = 20;
+
+/**
+ * Keeps clusters in shape once they exist: freezes clusters no article joined
+ * for a while, merges clusters whose centroids converged and splits clusters
+ * whose members drifted apart. Every change is written to `ClusterHistory`.
+ */
+@Injectable()
+export class ClusterMaintenanceService {
+  private readonly logger = new Logger(ClusterMaintenanceService.name);
+  private readonly freezeHours: number;
+  private readonly mergeThreshold: number;
+  private readonly splitThreshold: number;
+  private readonly splitMinMembers: number;
+  private readonly batchLimit = 500;
+  private readonly neighbourLimit = 5;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly vectorRepository: VectorRepository,
+    private readonly embeddingService: EmbeddingService,
+    private readonly clusteringService: ClusteringService,
+    configService: ConfigService,
+  ) {
+    this.freezeHours = this.number(configService, 'CLUSTER_FREEZE_HOURS', 72);
+    this.mergeThreshold = this.number(
+      configService,
+      'CLUSTER_MERGE_THRESHOLD',
+      0.6,
+    );
+    this.splitThreshold = this.number(
+      configService,
+      'CLUSTER_SPLIT_THRESHOLD',
+      0.4,
+    );
+    this.splitMinMembers = this.number(
+      configService,
+      'CLUSTER_SPLIT_MIN_MEMBERS',
+      4,
+    );
+  }
+
+  async runMaintenance(): Promise<MaintenanceResult> {
+    const frozen = await this.freezeIdleClusters();
+    const merged = await this.mergeConvergedClusters();
+    const split = await this.splitIncoherentClusters();
+
+    this.logger.log(
+      `🧹 Cluster maintenance: ${frozen} frozen, ${merged} merged, ${split} split`,
+    );
+    return { frozen, merged, split };
+  }
+
+  /**
+   * Current ID of a cluster, following merges; null if it never existed
+   */
+  async resolveClusterId(clusterId: string): Promise<string | null> {
+    let current = clusterId;
+
+    for (let hop = 0; hop <= MAX_MERGE_HOPS; hop++) {
+      const exists = await this.prisma.cluster.findUnique({
+        where: { id: current },
+        select: { id: true },
+      });
+      if (exists) {
+        return current;
+      }
+
+      const merge = await this.prisma.clusterHistory.findFirst({
+        where: { clusterId: current, event: ClusterEvent.MERGED },
+        orderBy: { createdAt: 'desc' },
+        select: { relatedClusterId: true },
+      });
+      if (!merge?.relatedClusterId) {
+        return null;
+      }
+      current = merge.relatedClusterId;
+    }
+
+    return null;
+  }
+
+  /**
+   * Events of a cluster and of the clusters merged into or split off from it
+   */
+  async getHistory(clusterId: string) {
+    const resolvedId = await this.resolveClusterId(clusterId);
+    const events = await this.prisma.clusterHistory.findMany({
+      where: {
+        OR: [
+          { clusterId },
+          { relatedClusterId: clusterId },
+          ...(resolvedId && resolvedId !== clusterId
+            ? [{ clusterId: resolvedId }, { relatedClusterId: resolvedId }]
+            : []),
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return { clusterId, resolvedId, events };
+  }
+
+  private async freezeIdleClusters(): Promise<number> {
+    const cutoff = new Date(Date.now() - this.freezeHours * 60 * 60 * 1000);
+    const idle = await this.prisma.cluster.findMany({
+      where: { frozenAt: null, lastMemberAt: { lt: cutoff } },
+      select: { id: true },
+    });
+
+    if (idle.length === 0) {
+      return 0;
+    }
+
+    const clusterIds = idle.map((cluster) => cluster.id);
+    const frozenAt = new Date();
+    await this.prisma.$transaction([
+      this.prisma.cluster.updateMany({
+        where: { id: { in: clusterIds } },
+        data: { frozenAt },
+      }),
+      this.prisma.clusterHistory.createMany({
+        data: clusterIds.map((clusterId) => ({
+          clusterId,
+          event: ClusterEvent.FROZEN,
+          createdAt: frozenAt,
+        })),
+      }),
+    ]);
+
+    return clusterIds.length;
+  }
+
+  private async mergeConvergedClusters(): Promise<number> {
+    const clusters = await this.prisma.cluster.findMany({
+      where: { frozenAt: null, centroidSize: { gt: 0 } },
+      orderBy: { lastMemberAt: 'desc' },
+      take: this.batchLimit,
+      select: { id: true },
+    });
+
+    const mergedAway = new Set<string>();
+
+    for (const { id } of clusters) {
+      if (mergedAway.has(id)) {
+        continue;
+      }
+
+      const current = await this.vectorRepository.getCentroid(id);
+      if (!current?.centroid) {
+        continue;
+      }
+
+      const [nearest] = await this.vectorRepository.findNearestClusters(
+        current.centroid,
+        this.neighbourLimit,
+        id,
+      );
+      if (!nearest || nearest.similarity < this.mergeThreshold) {
+        continue;
+      }
+
+      const absorbedId = await this.mergeClusters(
+        id,
+        nearest.clusterId,
+        nearest.similarity,
+      );
+      if (absorbedId) {
+        mergedAway.add(absorbedId);
+      }
+    }
+
+    return mergedAway.size;
+  }
+
+  /**
+   * Move the smaller cluster's members and references into the larger one,
+   * then delete it; returns the ID of the deleted cluster
+   */
+  private async mergeClusters(
+    a: string,
+    b: string,
+    similarity: number,
+  ): Promise<string | null> {
+    const clusters = await this.prisma.cluster.findMany({
+      where: { id: { in: [a, b] } },
+      select: {
+        id: true,
+        createdAt: true,
+        lastMemberAt: true,
+        _count: { select: { members: true } },
+      },
+    });
+    // Bigger cluster survives, the older one on a tie
+    clusters.sort(
+      (x, y) =>
+        y._count.members - x._count.members ||
+        x.createdAt.getTime() - y.createdAt.getTime(),
+    );
+    const [survivor, absorbed] = clusters;
+    if (!absorbed) {
+      return null;
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const members = await tx.clusterMember.findMany({
+        where: { clusterId: absorbed.id },
+        select: { articleId: true, similarity: true },
+      });
+
+      await tx.clusterMember.deleteMany({ where: { clusterId: absorbed.id } });
+      await tx.clusterMember.createMany({
+        data: members.map((member) => ({ ...member, clusterId: survivor.id })),
+        skipDuplicates: true,
+      });
+
+      await redirectClusterReferences(tx, absorbed.id, survivor.id);
+
+      await tx.clusterHistory.create({
+        data: {
+          clusterId: absorbed.id,
+          event: ClusterEvent.MERGED,
+          relatedClusterId: survivor.id,
+          articleIds: members.map((member) => member.articleId),
+          similarity: this.round(similarity),
+        },
+      });
+
+      await tx.cluster.delete({ where: { id: absorbed.id } });
+      if (absorbed.lastMemberAt > survivor.lastMemberAt) {
+        await tx.cluster.update({
+          where: { id: survivor.id },
+          data: { lastMemberAt: absorbed.lastMemberAt },
+        });
+      }
+    });
+
+    await this.vectorRepository.recomputeCentroid(
+      survivor.id,
+      this.embeddingService.model,
+    );
+    await this.clusteringService.refreshClusterRepresentative(survivor.id);
+    await this.clusteringService.refreshClusterTopics(survivor.id);
+    await this.clusteringService.touchCluster(survivor.id);
+
+    this.logger.log(
+      `🔗 Merged cluster ${absorbed.id} into ${survivor.id} (similarity ${this.round(similarity)})`,
+    );
+    return absorbed.id;
+  }
+
+  private async splitIncoherentClusters(): Promise<number> {
+    const clusters = await this.prisma.cluster.findMany({
+      // centroidSize counts members with a vector, which is all a split can use
+      where: { frozenAt: null, centroidSize: { gte: this.splitMinMembers } },
+      orderBy: { lastMemberAt: 'desc' },
+      take: this.batchLimit,
+      select: { id: true, members: { select: { articleId: true } } },
+    });
+
+    let split = 0;
+
+    for (const cluster of clusters) {
+      const vectors = await this.vectorRepository.getArticleEmbeddings(
+        cluster.members.map((member) => member.articleId),
+        this.embeddingService.model,
+      );
+      if (vectors.size < this.splitMinMembers) {
+        continue;
+      }
+
+      const members = [...vectors].map(([id, vector]) => ({ id, vector }));
+      const coherence = intraSimilarity(members.map((member) => member.vector));
+      if (coherence >= this.splitThreshold) {
+        continue;
+      }
+
+      const groups = splitInTwo(members);
+      if (!groups) {
+        continue;
+      }
+
+      await this.splitCluster(
+        cluster.id,
+        cluster.members.map((member) => member.articleId),
+        groups.split,
+        coherence,
+      );
+      split++;
+    }
+
+    return split;
+  }
+
+  /**
+   * Move `moving` into a new cluster. The original keeps its ID, and with it
+   * every digest item, bookmark and feedback pointing at it.
+   */
+  private async splitCluster(
+    clusterId: string,
+    memberIds: string[],
+    moving: MemberVector[],
+    coherence: number,
+  ): Promise<void> {
+    const movingIds = moving.map((member) => member.id);
+    const staying = memberIds.filter((id) => !movingIds.includes(id));
+    const centre = meanVector(moving.map((member) => member.vector));
+
+    const newClusterId = await this.prisma.$transaction(async (tx) => {
+      const cluster = await tx.cluster.findUniqueOrThrow({
+        where: { id: clusterId },
+        select: { representativeId: true, lastMemberAt: true },
+      });
+
+      // Representatives are unique; hand over before the member moves.
+      // Both clusters get a proper pick once the split is done.
+      if (movingIds.includes(cluster.representativeId)) {
+        await tx.cluster.update({
+          where: { id: clusterId },
+          data: { representativeId: staying[0] },
+        });
+      }
+
+      await tx.clusterMember.deleteMany({
+        where: { clusterId, articleId: { in: movingIds } },
+      });
+      const created = await tx.cluster.create({
+        data: {
+          representativeId: movingIds[0],
+          lastMemberAt: cluster.lastMemberAt,
+          members: {
+            createMany: {
+              data: moving.map((member) => ({
+                articleId: member.id,
+                similarity: this.round(cosine(member.vector, centre)),
+              })),
+            },
+          },
+        },
+      });
+
+      await tx.clusterHistory.create({
+        data: {
+          clusterId,
+          event: ClusterEvent.SPLIT,
+          relatedClusterId: created.id,
+          articleIds: movingIds,
+          similarity: this.round(coherence),
+        },
+      });
+
+      return created.id;
+    });
+
+    for (const id of [clusterId, newClusterId]) {
+      await this.vectorRepository.recomputeCentroid(
+        id,
+        this.embeddingService.model,
+      );
+      await this.clusteringService.refreshClusterRepresentative(id);
+      await this.clusteringService.refreshClusterTopics(id);
+    }
+    // The new cluster starts at its first version
+    await this.clusteringService.touchCluster(clusterId);
+
+    this.logger.log(
+      `✂️ Split ${movingIds.length} articles off cluster ${clusterId} into ${newClusterId} (intra-similarity ${this.round(coherence)})`,
+    );
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+
+  private number(
+    configService: ConfigService,
+    key: string,
+    fallback: number,
+  ): number {
+    const value = parseFloat(configService.get<string>(key) ?? '');
+    return isNaN(value) || value <= 0 ? fallback : value;
+  }
+}
@@ -0,0 +1,36 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Point digest items, bookmarks and feedback of one cluster at another before
+ * it is deleted. A user who bookmarked both keeps the bookmark they already
+ * had on the target.
+ */
+export async function redirectClusterReferences(
+  tx: Prisma.TransactionClient,
+  fromId: string,
+  toId: string,
+): Promise<void> {
+  await tx.digestItem.updateMany({
+    where: { clusterId: fromId },
+    data: { clusterId: toId },
+  });
+  await tx.feedback.updateMany({
+    where: { clusterId: fromId },
+    data: { clusterId: toId },
+  });
+
+  const existing = await tx.bookmark.findMany({
+    where: { clusterId: toId },
+    select: { userId: true },
+  });
+  await tx.bookmark.deleteMany({
+    where: {
+      clusterId: fromId,
+      userId: { in: existing.map((bookmark) => bookmark.userId) },
+    },
+  });
+  await tx.bookmark.updateMany({
+    where: { clusterId: fromId },
+    data: { clusterId: toId },
+  });
+}
@@ -0,0 +1,55 @@
+import { pickRepresentative, RepresentativeCandidate } from './representative';
+
+export interface RetentionMember extends RepresentativeCandidate {
+  createdAt: Date;
+  representsOther: boolean; // already the representative of another cluster
+}
+
+export interface RetentionCluster {
+  id: string;
+  representativeId: string;
+  members: RetentionMember[];
+}
+
+export interface RetentionPlan {
+  reassign: Array<{ clusterId: string; representativeId: string }>;
+  remove: string[];
+}
+
+/**
+ * What has to happen to clusters before retention deletes the articles
+ * created before `cutoff`: a cluster whose representative expires gets the
+ * best member that stays instead, and one where no member can take over is
+ * removed. Clusters whose representative stays need nothing.
+ */
+export function planClusterRetention(
+  clusters: RetentionCluster[],
+  cutoff: Date,
+): RetentionPlan {
+  const plan: RetentionPlan = { reassign: [], remove: [] };
+
+  for (const cluster of clusters) {
+    const current = cluster.members.find(
+      (member) => member.id === cluster.representativeId,
+    );
+    if (current && current.createdAt >= cutoff) {
+      continue;
+    }
+
+    const representative = pickRepresentative(
+      cluster.members.filter(
+        (member) => member.createdAt >= cutoff && !member.representsOther,
+      ),
+    );
+    if (representative) {
+      plan.reassign.push({
+        clusterId: cluster.id,
+        representativeId: representative.id,
+      });
+    } else {
+      plan.remove.push(cluster.id);
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,104 @@
+import { cosine } from '../embeddings/embedding-codec';
+
+export interface MemberVector {
+  id: string;
+  vector: Float32Array;
+}
+
+export interface ClusterSplit {
+  keep: MemberVector[]; // the larger group, stays in the cluster
+  split: MemberVector[]; // moves to a new cluster
+}
+
+export function meanVector(vectors: Float32Array[]): Float32Array {
+  const mean = new Float32Array(vectors[0]?.length ?? 0);
+  for (const vector of vectors) {
+    for (let i = 0; i < mean.length; i++) {
+      mean[i] += vector[i] / vectors.length;
+    }
+  }
+  return mean;
+}
+
+/**
+ * How tightly members sit around their centroid: the mean cosine similarity
+ * of each member vector to the mean vector
+ */
+export function intraSimilarity(vectors: Float32Array[]): number {
+  if (vectors.length === 0) {
+    return 0;
+  }
+  const centroid = meanVector(vectors);
+  let sum = 0;
+  for (const vector of vectors) {
+    sum += cosine(vector, centroid);
+  }
+  return sum / vectors.length;
+}
+
+/**
+ * Two-way 2-means split on cosine similarity, seeded with the member farthest
+ * from the centroid and the member farthest from that one. Null when the
+ * members cannot be told apart.
+ */
+export function splitInTwo(
+  members: MemberVector[],
+  maxIterations = 10,
+): ClusterSplit | null {
+  if (members.length < 2) {
+    return null;
+  }
+
+  const centroid = meanVector(members.map((member) => member.vector));
+  const seedA = farthestFrom(members, centroid);
+  const seedB = farthestFrom(members, seedA.vector);
+  if (seedA === seedB) {
+    return null;
+  }
+
+  let centres = [seedA.vector, seedB.vector];
+  let assignment: number[] = [];
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = members.map(({ vector }) =>
+      cosine(vector, centres[0]) >= cosine(vector, centres[1]) ? 0 : 1,
+    );
+    if (next.every((group, i) => group === assignment[i])) {
+      break;
+    }
+    assignment = next;
+
+    const groups = [0, 1].map((group) =>
+      members.filter((_, i) => assignment[i] === group),
+    );
+    if (groups.some((group) => group.length === 0)) {
+      return null;
+    }
+    centres = groups.map((group) =>
+      meanVector(group.map((member) => member.vector)),
+    );
+  }
+
+  const [first, second] = [0, 1].map((group) =>
+    members.filter((_, i) => assignment[i] === group),
+  );
+  return first.length >= second.length
+    ? { keep: first, split: second }
+    : { keep: second, split: first };
+}
+
+function farthestFrom(
+  members: MemberVector[],
+  point: Float32Array,
+): MemberVector {
+  let farthest = members[0];
+  let lowest = Infinity;
+  for (const member of members) {
+    const similarity = cosine(member.vector, point);
+    if (similarity < lowest) {
+      lowest = similarity;
+      farthest = member;
+    }
+  }
+  return farthest;
+}
@@ -0,0 +1,396 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../database/prisma.service';
+import { VectorRepository } from '../database/vector.repository';
+import { EmbeddingService } from '../embeddings';
+import {
+  assignTopics,
+  averageTopicScores,
+  TopicScores,
+} from '../enrichment/topics/topic-classifier';
+import { pickRepresentative } from './representative';
+import {
+  cosineSimilarity,
+  STORY_TEXT_LENGTH,
+  storyTerms,
+  StoryTerms,
+} from './story-similarity';
+
+export interface ClusteringResult {
+  processed: number;
+  assigned: number; // joined an existing cluster
+  created: number; // started a new cluster
+  representativesChanged: number;
+}
+
+interface PoolEntry {
+  articleId: string;
+  clusterId: string;
+  terms: StoryTerms;
+}
+
+@Injectable()
+export class ClusteringService {
+  private readonly logger = new Logger(ClusteringService.name);
+  private readonly windowHours: number;
+  private readonly similarityThreshold: number;
+  private readonly maxCandidates: number;
+  private readonly sweepLimit = 500;
+  // Nearest neighbours fetched per article; the window and cluster filters
+  // are applied after the index scan, so ask for a few more than one
+  private readonly neighbourLimit = 10;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly embeddingService: EmbeddingService,
+    private readonly vectorRepository: VectorRepository,
+    configService: ConfigService,
+  ) {
+    this.windowHours = this.number(configService, 'CLUSTER_WINDOW_HOURS', 48);
+    this.similarityThreshold = this.number(
+      configService,
+      'CLUSTER_SIMILARITY_THRESHOLD',
+      0.3,
+    );
+    this.maxCandidates = this.number(
+      configService,
+      'CLUSTER_MAX_CANDIDATES',
+      2000,
+    );
+  }
+
+  /**
+   * Assign articles that are not in a cluster yet. Each joins the cluster of
+   * its most similar recently published clustered article when that clears
+   * the threshold, otherwise it starts a cluster of its own. Articles with an
+   * embedding are matched by a k-NN query on the vector index, the rest by
+   * comparing story terms. Without IDs, sweeps unclustered articles published
+   * inside the window.
+   */
+  async clusterArticles(articleIds?: string[]): Promise<ClusteringResult> {
+    const result: ClusteringResult = {
+      processed: 0,
+      assigned: 0,
+      created: 0,
+      representativesChanged: 0,
+    };
+
+    const windowStart = new Date(
+      Date.now() - this.windowHours * 60 * 60 * 1000,
+    );
+    const targets = await this.prisma.article.findMany({
+      where: {
+        clusterMembers: { none: {} },
+        ...(articleIds
+          ? { id: { in: articleIds } }
+          : { publishedAt: { gte: windowStart } }),
+      },
+      orderBy: { publishedAt: 'asc' },
+      take: articleIds ? undefined : this.sweepLimit,
+      select: { id: true, title: true, cleanedText: true },
+    });
+
+    if (targets.length === 0) {
+      return result;
+    }
+
+    const vectors = await this.vectorRepository.getArticleEmbeddings(
+      targets.map((article) => article.id),
+      this.embeddingService.model,
+    );
+    // Term pool for articles without an embedding, loaded on first use
+    let pool: PoolEntry[] | null = null;
+    const touched = new Set<string>();
+    const changed = new Set<string>(); // joined or created, for topics
+
+    for (const article of targets) {
+      const terms = storyTerms(article.title, article.cleanedText);
+      const vector = vectors.get(article.id);
+
+      let match: { clusterId: string; similarity: number } | null;
+      if (vector) {
+        match = await this.findNearestMatch(vector, windowStart);
+      } else {
+        pool ??= await this.loadCandidatePool(windowStart);
+        match = this.findBestMatch(terms, pool);
+      }
+
+      let clusterId: string;
+      if (match && match.similarity >= this.similarityThreshold) {
+        clusterId = match.clusterId;
+        await this.prisma.cluster.update({
+          where: { id: clusterId },
+          data: {
+            lastMemberAt: new Date(),
+            version: { increment: 1 },
+            members: {
+              create: {
+                articleId: article.id,
+                similarity: this.round(match.similarity),
+              },
+            },
+          },
+        });
+        touched.add(clusterId);
+        result.assigned++;
+      } else {
+        const cluster = await this.prisma.cluster.create({
+          data: {
+            representativeId: article.id,
+            members: { create: { articleId: article.id, similarity: 1 } },
+          },
+        });
+        clusterId = cluster.id;
+        result.created++;
+      }
+      changed.add(clusterId);
+
+      if (vector) {
+        await this.embeddingService.addToCentroid(clusterId, vector);
+      }
+
+      // Later targets in this run can join the cluster just formed; the
+      // vector query already sees it in the database
+      pool?.push({ articleId: article.id, clusterId, terms });
+      result.processed++;
+    }
+
+    for (const clusterId of touched) {
+      if (await this.refreshClusterRepresentative(clusterId)) {
+        result.representativesChanged++;
+      }
+    }
+    // Articles are usually classified after they are clustered; the ones
+    // classified first carry their topics into the cluster here
+    for (const clusterId of changed) {
+      await this.refreshClusterTopics(clusterId);
+    }
+
+    this.logger.log(
+      `🧩 Clustered ${result.processed} articles: ${result.assigned} joined existing clusters, ${result.created} new clusters, ${result.representativesChanged} representatives changed`,
+    );
+    return result;
+  }
+
+  /**
+   * Re-pick the representative of the article's cluster, e.g. after extraction
+   * filled in its body, author or paywall flag
+   */
+  async refreshRepresentativeFor(articleId: string): Promise<boolean> {
+    const membership = await this.prisma.clusterMember.findFirst({
+      where: { articleId },
+      select: { clusterId: true },
+    });
+    return membership
+      ? this.refreshClusterRepresentative(membership.clusterId)
+      : false;
+  }
+
+  /**
+   * Pick the member with the best source reputation and completeness,
+   * preferring free articles; returns whether the representative changed
+   */
+  async refreshClusterRepresentative(clusterId: string): Promise<boolean> {
+    const cluster = await this.prisma.cluster.findUnique({
+      where: { id: clusterId },
+      select: {
+        representativeId: true,
+        members: {
+          select: {
+            article: {
+              select: {
+                id: true,
+                author: true,
+                lang: true,
+                paywalled: true,
+                cleanedText: true,
+                publishedAt: true,
+                source: { select: { reputation: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!cluster) {
+      return false;
+    }
+
+    const representative = pickRepresentative(
+      cluster.members.map(({ article }) => ({
+        id: article.id,
+        reputation: article.source.reputation,
+        paywalled: article.paywalled,
+        hasAuthor: !!article.author,
+        hasLanguage: !!article.lang,
+        textLength: article.cleanedText.length,
+        publishedAt: article.publishedAt,
+      })),
+    );
+
+    if (!representative || representative.id === cluster.representativeId) {
+      return false;
+    }
+
+    await this.prisma.cluster.update({
+      where: { id: clusterId },
+      data: { representativeId: representative.id },
+    });
+    return true;
+  }
+
+  /**
+   * Bump the version of a cluster whose members or their text changed, so
+   * summaries cached for the previous version are made again
+   */
+  async touchCluster(clusterId: string): Promise<void> {
+    await this.prisma.cluster.updateMany({
+      where: { id: clusterId },
+      data: { version: { increment: 1 } },
+    });
+  }
+
+  /**
+   * Bump the clusters of an article whose title or text changed
+   */
+  async touchClustersOf(articleId: string): Promise<void> {
+    await this.prisma.cluster.updateMany({
+      where: { members: { some: { articleId } } },
+      data: { version: { increment: 1 } },
+    });
+  }
+
+  /**
+   * Average the topic scores of the classified members; the cluster takes
+   * the topics that average clears
+   */
+  async refreshClusterTopics(clusterId: string): Promise<void> {
+    const members = await this.prisma.clusterMember.findMany({
+      where: { clusterId, article: { topicModelId: { not: null } } },
+      select: { article: { select: { topicScores: true } } },
+    });
+    const scores = averageTopicScores(
+      members.map(({ article }) => article.topicScores as TopicScores),
+    );
+
+    await this.prisma.cluster.updateMany({
+      where: { id: clusterId },
+      data: {
+        topics: scores ? assignTopics(scores) : [],
+        topicScores: scores ?? Prisma.DbNull,
+      },
+    });
+  }
+
+  async getStats() {
+    const windowStart = new Date(
+      Date.now() - this.windowHours * 60 * 60 * 1000,
+    );
+    const [clusters, frozen, clusteredArticles, unclusteredInWindow, largest] =
+      await Promise.all([
+        this.prisma.cluster.count(),
+        this.prisma.cluster.count({ where: { frozenAt: { not: null } } }),
+        this.prisma.clusterMember.count(),
+        this.prisma.article.count({
+          where: {
+            clusterMembers: { none: {} },
+            publishedAt: { gte: windowStart },
+          },
+        }),
+        this.prisma.cluster.findMany({
+          orderBy: { members: { _count: 'desc' } },
+          take: 5,
+          select: {
+            id: true,
+            createdAt: true,
+            representative: { select: { title: true, outlet: true } },
+            _count: { select: { members: true } },
+          },
+        }),
+      ]);
+
+    return {
+      clusters,
+      frozen,
+      clusteredArticles,
+      unclusteredInWindow,
+      windowHours: this.windowHours,
+      similarityThreshold: this.similarityThreshold,
+      largestClusters: largest.map((cluster) => ({
+        id: cluster.id,
+        createdAt: cluster.createdAt,
+        title: cluster.representative.title,
+        outlet: cluster.representative.outlet,
+        members: cluster._count.members,
+      })),
+    };
+  }
+
+  /**
+   * Members of clusters that are not frozen, published inside the window,
+   * newest first, with the lead of their text only
+   */
+  private async loadCandidatePool(windowStart: Date): Promise<PoolEntry[]> {
+    const rows = await this.prisma.$queryRaw<
+      Array<{ id: string; title: string; text: string; clusterId: string }>
+    >(Prisma.sql`
+      SELECT a."id", a."title", left(a."cleanedText", ${STORY_TEXT_LENGTH}) AS "text", m."clusterId"
+      FROM "Article" a
+      JOIN "ClusterMember" m ON m."articleId" = a."id"
+      JOIN "Cluster" c ON c."id" = m."clusterId" AND c."frozenAt" IS NULL
+      WHERE a."publishedAt" >= ${windowStart}
+      ORDER BY a."publishedAt" DESC
+      LIMIT ${this.maxCandidates}
+    `);
+
+    return rows.map((row) => ({
+      articleId: row.id,
+      clusterId: row.clusterId,
+      terms: storyTerms(row.title, row.text),
+    }));
+  }
+
+  private async findNearestMatch(
+    vector: Float32Array,
+    windowStart: Date,
+  ): Promise<{ clusterId: string; similarity: number } | null> {
+    const [nearest] = await this.vectorRepository.findNearestArticles(vector, {
+      model: this.embeddingService.model,
+      limit: this.neighbourLimit,
+      publishedSince: windowStart,
+      inActiveCluster: true,
+    });
+    return nearest?.clusterId
+      ? { clusterId: nearest.clusterId, similarity: nearest.similarity }
+      : null;
+  }
+
+  private findBestMatch(
+    terms: StoryTerms,
+    pool: PoolEntry[],
+  ): { clusterId: string; similarity: number } | null {
+    let best: { clusterId: string; similarity: number } | null = null;
+    for (const entry of pool) {
+      const similarity = cosineSimilarity(terms, entry.terms);
+      if (similarity > 0 && (!best || similarity > best.similarity)) {
+        best = { clusterId: entry.clusterId, similarity };
+      }
+    }
+    return best;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+
+  private number(
+    configService: ConfigService,
+    key: string,
+    fallback: number,
+  ): number {
+    const value = parseFloat(configService.get<string>(key) ?? '');
+    return isNaN(value) || value <= 0 ? fallback : value;
+  }
+}
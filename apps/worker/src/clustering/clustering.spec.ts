@@ -0,0 +1,233 @@
+import { planClusterRetention, RetentionMember } from './cluster-retention';
+import { intraSimilarity, splitInTwo } from './cluster-split';
+import { pickRepresentative, RepresentativeCandidate } from './representative';
+import { cosineSimilarity, storyTerms } from './story-similarity';
+
+describe('story similarity', () => {
+  it('should fold plurals and drop stopwords', () => {
+    expect([...storyTerms('The banks and the policies').keys()]).toEqual([
+      'bank',
+      'policy',
+    ]);
+  });
+
+  it('should weight title terms above body terms', () => {
+    const terms = storyTerms('Inflation cools', 'Inflation data out today');
+    expect(terms.get('inflation')).toBe(3);
+    expect(terms.get('data')).toBe(1);
+  });
+
+  it('should score two reports of the same story above unrelated ones', () => {
+    const a = storyTerms(
+      'Central bank holds interest rates steady',
+      'The central bank left its benchmark interest rate unchanged on Thursday as inflation eased.',
+    );
+    const b = storyTerms(
+      'Interest rates unchanged as central bank waits on inflation',
+      'Policymakers kept the benchmark rate where it was, pointing to slowing inflation.',
+    );
+    const c = storyTerms(
+      'New Rust release speeds up compile times',
+      'The compiler team shipped improvements to code generation and linking.',
+    );
+
+    expect(cosineSimilarity(a, b)).toBeGreaterThan(0.4);
+    expect(cosineSimilarity(a, c)).toBe(0);
+  });
+
+  it('should return 0 for empty stories', () => {
+    expect(cosineSimilarity(new Map(), storyTerms('Anything'))).toBe(0);
+  });
+});
+
+describe('pickRepresentative', () => {
+  const candidate = (
+    overrides: Partial<RepresentativeCandidate>,
+  ): RepresentativeCandidate => ({
+    id: 'a',
+    reputation: 50,
+    paywalled: false,
+    hasAuthor: true,
+    hasLanguage: true,
+    textLength: 3000,
+    publishedAt: new Date('2025-09-01T10:00:00Z'),
+    ...overrides,
+  });
+
+  it('should prefer reputable, complete articles', () => {
+    const picked = pickRepresentative([
+      candidate({ id: 'teaser', reputation: 90, textLength: 150 }),
+      candidate({ id: 'full', reputation: 80 }),
+      candidate({ id: 'blog', reputation: 20 }),
+    ]);
+    expect(picked?.id).toBe('full');
+  });
+
+  it('should prefer a free member over a paywalled one', () => {
+    const picked = pickRepresentative([
+      candidate({ id: 'paywalled', reputation: 100, paywalled: true }),
+      candidate({ id: 'free', reputation: 30, textLength: 400 }),
+    ]);
+    expect(picked?.id).toBe('free');
+  });
+
+  it('should break ties by publish time', () => {
+    const picked = pickRepresentative([
+      candidate({ id: 'later', publishedAt: new Date('2025-09-01T12:00:00Z') }),
+      candidate({ id: 'first' }),
+    ]);
+    expect(picked?.id).toBe('first');
+  });
+
+  it('should return null without candidates', () => {
+    expect(pickRepresentative([])).toBeNull();
+  });
+});
+
+describe('cluster split', () => {
+  const member = (id: string, values: number[]) => ({
+    id,
+    vector: new Float32Array(values),
+  });
+
+  it('should rate a tight cluster above a drifted one', () => {
+    const tight = [
+      [1, 0.1, 0],
+      [1, 0, 0.1],
+      [0.9, 0.1, 0.1],
+    ].map((values) => new Float32Array(values));
+    const drifted = [
+      [1, 0, 0],
+      [0, 1, 0],
+      [0, 0, 1],
+    ].map((values) => new Float32Array(values));
+
+    expect(intraSimilarity(tight)).toBeGreaterThan(0.9);
+    expect(intraSimilarity(drifted)).toBeLessThan(0.6);
+  });
+
+  it('should separate two stories and keep the larger in place', () => {
+    const result = splitInTwo([
+      member('rates-1', [1, 0.1, 0]),
+      member('rust-1', [0, 0.1, 1]),
+      member('rates-2', [0.9, 0, 0.1]),
+      member('rates-3', [1, 0.2, 0]),
+      member('rust-2', [0.1, 0, 1]),
+    ]);
+
+    expect(result?.keep.map((m) => m.id).sort()).toEqual([
+      'rates-1',
+      'rates-2',
+      'rates-3',
+    ]);
+    expect(result?.split.map((m) => m.id).sort()).toEqual(['rust-1', 'rust-2']);
+  });
+
+  it('should not split identical members', () => {
+    expect(
+      splitInTwo([
+        member('a', [1, 0]),
+        member('b', [1, 0]),
+        member('c', [1, 0]),
+      ]),
+    ).toBeNull();
+  });
+});
+
+describe('planClusterRetention', () => {
+  const cutoff = new Date('2025-09-01T00:00:00Z');
+  const expired = new Date('2025-08-01T00:00:00Z');
+  const kept = new Date('2025-09-10T00:00:00Z');
+  const member = (overrides: Partial<RetentionMember>): RetentionMember => ({
+    id: 'a',
+    reputation: 50,
+    paywalled: false,
+    hasAuthor: true,
+    hasLanguage: true,
+    textLength: 3000,
+    publishedAt: kept,
+    createdAt: kept,
+    representsOther: false,
+    ...overrides,
+  });
+
+  it('should hand an expiring representative over to the best member that stays', () => {
+    const plan = planClusterRetention(
+      [
+        {
+          id: 'story',
+          representativeId: 'old',
+          members: [
+            member({ id: 'old', createdAt: expired, reputation: 100 }),
+            member({ id: 'also-old', createdAt: expired, reputation: 90 }),
+            member({ id: 'blog', reputation: 10 }),
+            member({ id: 'wire', reputation: 80 }),
+          ],
+        },
+      ],
+      cutoff,
+    );
+
+    expect(plan).toEqual({
+      reassign: [{ clusterId: 'story', representativeId: 'wire' }],
+      remove: [],
+    });
+  });
+
+  it('should remove a cluster whose members all expire', () => {
+    const plan = planClusterRetention(
+      [
+        {
+          id: 'story',
+          representativeId: 'old',
+          members: [
+            member({ id: 'old', createdAt: expired }),
+            member({ id: 'older', createdAt: expired }),
+          ],
+        },
+      ],
+      cutoff,
+    );
+
+    expect(plan).toEqual({ reassign: [], remove: ['story'] });
+  });
+
+  it('should not pick a member that represents another cluster', () => {
+    const plan = planClusterRetention(
+      [
+        {
+          id: 'story',
+          representativeId: 'old',
+          members: [
+            member({ id: 'old', createdAt: expired }),
+            member({ id: 'busy', representsOther: true }),
+            member({ id: 'free', reputation: 10 }),
+          ],
+        },
+      ],
+      cutoff,
+    );
+
+    expect(plan.reassign).toEqual([
+      { clusterId: 'story', representativeId: 'free' },
+    ]);
+  });
+
+  it('should leave clusters whose representative stays', () => {
+    const plan = planClusterRetention(
+      [
+        {
+          id: 'story',
+          representativeId: 'new',
+          members: [
+            member({ id: 'new' }),
+            member({ id: 'old', createdAt: expired }),
+          ],
+        },
+      ],
+      cutoff,
+    );
+
+    expect(plan).toEqual({ reassign: [], remove: [] });
+  });
+});
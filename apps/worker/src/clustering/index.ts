@@ -0,0 +1,7 @@
+export * from './clustering.service';
+export * from './representative';
+export * from './story-similarity';
+export * from './cluster-maintenance.service';
+export * from './cluster-split';
+export * from './cluster-references';
+export * from './cluster-retention';
@@ -0,0 +1,65 @@
+/**
+ * What the representative choice looks at for each cluster member
+ */
+export interface RepresentativeCandidate {
+  id: string;
+  reputation: number; // Source.reputation, 0..100
+  paywalled: boolean;
+  hasAuthor: boolean;
+  hasLanguage: boolean;
+  textLength: number;
+  publishedAt: Date;
+}
+
+// Extracted bodies are usually well past this; feed summaries are not
+const FULL_TEXT_LENGTH = 2000;
+
+/**
+ * Half source reputation, half completeness of the stored article
+ */
+export function representativeScore(
+  candidate: RepresentativeCandidate,
+): number {
+  const completeness =
+    (candidate.hasAuthor ? 0.2 : 0) +
+    (candidate.hasLanguage ? 0.2 : 0) +
+    0.6 * Math.min(candidate.textLength / FULL_TEXT_LENGTH, 1);
+
+  return 0.5 * (candidate.reputation / 100) + 0.5 * completeness;
+}
+
+/**
+ * Free members always win over paywalled ones, then the higher score,
+ * then whoever published first
+ */
+export function pickRepresentative<T extends RepresentativeCandidate>(
+  candidates: T[],
+): T | null {
+  let best: T | null = null;
+  let bestScore = -Infinity;
+
+  for (const candidate of candidates) {
+    const score = representativeScore(candidate);
+    if (!best || compare(candidate, score, best, bestScore) < 0) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function compare(
+  a: RepresentativeCandidate,
+  aScore: number,
+  b: RepresentativeCandidate,
+  bScore: number,
+): number {
+  if (a.paywalled !== b.paywalled) {
+    return a.paywalled ? 1 : -1;
+  }
+  if (aScore !== bScore) {
+    return bScore - aScore;
+  }
+  return a.publishedAt.getTime() - b.publishedAt.getTime();
+}
@@ -0,0 +1,66 @@
+import { isStopword, normalizeTitle } from '../common/utils/text.util';
+
+/**
+ * Weighted bag of terms describing a story: title terms count double,
+ * the lead of the body fills in context. Compared with cosine similarity.
+ */
+export type StoryTerms = Map<string, number>;
+
+// Only the lead is used; it carries the who/what/where of a news story
+export const STORY_TEXT_LENGTH = 600;
+
+const TITLE_WEIGHT = 2;
+
+export function storyTerms(title: string, text?: string | null): StoryTerms {
+  const terms: StoryTerms = new Map();
+
+  const add = (value: string, weight: number) => {
+    for (const token of normalizeTitle(value).split(' ')) {
+      const term = stem(token);
+      if (term.length > 2 && !isStopword(term)) {
+        terms.set(term, (terms.get(term) ?? 0) + weight);
+      }
+    }
+  };
+
+  add(title, TITLE_WEIGHT);
+  if (text && text !== title) {
+    add(text.slice(0, STORY_TEXT_LENGTH), 1);
+  }
+
+  return terms;
+}
+
+export function cosineSimilarity(a: StoryTerms, b: StoryTerms): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+
+  // Iterate the smaller map for the dot product
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [term, weight] of small) {
+    dot += weight * (large.get(term) ?? 0);
+  }
+
+  return dot === 0 ? 0 : dot / (norm(a) * norm(b));
+}
+
+function norm(terms: StoryTerms): number {
+  let sum = 0;
+  for (const weight of terms.values()) {
+    sum += weight * weight;
+  }
+  return Math.sqrt(sum);
+}
+
+// Plural folding only; anything smarter is left to embeddings
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) {
+    return `${token.slice(0, -3)}y`;
+  }
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
@@ -0,0 +1,48 @@
+/**
+ * Source-agnostic article shape handed to NewsStorageService.
+ * Every source maps its own payload (HN items, feed entries, ...) into this.
+ */
+export interface NormalizedArticle {
+  externalId: string;
+  title: string;
+  url: string;
+  author?: string;
+  publishedAt?: string; // ISO-8601, kept as a string so job data stays JSON-serializable
+  summary?: string;
+  score?: number; // engagement counters, snapshotted into ArticleMetric on every poll
+  comments?: number;
+  hash?: string; // precomputed content hash, derived from the fields above when omitted
+}
+
+/**
+ * Reference to a freshly stored article, handed to the enrichment stages.
+ * The missing* flags record which fields the source did not provide.
+ */
+export interface SavedArticleRef {
+  id: string;
+  url: string;
+  missingAuthor: boolean;
+  missingPublishedAt: boolean;
+}
+
+/**
+ * An incoming article that was not saved because it matches a stored one.
+ * `similarity` is 1 for exact matches and the MinHash estimate otherwise.
+ */
+export interface DuplicateMatch {
+  title: string;
+  url: string;
+  reason: 'hash' | 'url' | 'canonical' | 'near-duplicate';
+  existingArticleId: string;
+  similarity: number;
+}
+
+export interface ArticleSaveResult {
+  saved: number;
+  skipped: number;
+  errors: number;
+  duplicates: number;
+  updated?: number; // already stored articles that got a fresh engagement snapshot
+  savedArticles?: SavedArticleRef[];
+  matches?: DuplicateMatch[];
+}
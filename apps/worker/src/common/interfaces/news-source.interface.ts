@@ -0,0 +1,73 @@
+import { Source } from '@prisma/client';
+import { NormalizedArticle } from './article.interface';
+
+export interface NewsSourceStats {
+  type: string;
+  name: string;
+  [detail: string]: unknown;
+}
+
+/**
+ * Source row an adapter needs to exist before it can be scheduled,
+ * e.g. the Hacker News API endpoint. Upserted by URL on startup.
+ */
+export interface DefaultSourceDefinition {
+  title: string;
+  url: string;
+  country?: string;
+  reputation?: number;
+}
+
+/**
+ * HTTP cache validators remembered per Source between fetches
+ */
+export interface SourceValidators {
+  etag: string | null;
+  lastModified: string | null;
+  contentHash: string | null;
+}
+
+/**
+ * What an adapter's fetch produced. `notModified` means the upstream
+ * answered 304 or returned the same body as last time, so nothing was parsed.
+ * `checkpoint` is adapter-private progress (e.g. seen item IDs) handed back
+ * to `commit` once the articles are saved.
+ */
+export interface AdapterFetchResult<TRaw = unknown> {
+  items: TRaw[];
+  notModified?: boolean;
+  validators?: SourceValidators;
+  checkpoint?: unknown;
+}
+
+/**
+ * Contract every news source adapter implements. Adapters are keyed by
+ * `Source.type`; the scheduler calls `fetch` then `normalize` for each
+ * enabled Source row whose type matches.
+ */
+export interface NewsSourceAdapter<TRaw = unknown> {
+  readonly type: string;
+  readonly defaultSources?: DefaultSourceDefinition[];
+  fetch(source: Source): Promise<AdapterFetchResult<TRaw>>;
+  normalize(items: TRaw[], source: Source): NormalizedArticle[];
+  commit?(source: Source, checkpoint: unknown): Promise<void>;
+  getStats(): NewsSourceStats;
+}
+
+export interface SourceFetchResult {
+  source: Source;
+  articles: NormalizedArticle[];
+  notModified?: boolean;
+  validators?: SourceValidators;
+  checkpoint?: unknown;
+  error?: string;
+}
+
+/**
+ * The part of a fetch stored once its articles are saved: the Source's
+ * validators and the adapter's checkpoint. Travels in the news batch job.
+ */
+export type SourceFetchProgress = Pick<
+  SourceFetchResult,
+  'validators' | 'checkpoint'
+>;
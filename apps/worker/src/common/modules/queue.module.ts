@@ -12,6 +12,34 @@ import { QueueStatsService } from '../services/queue-stats.service';
         port: parseInt(process.env.REDIS_PORT ?? '6379'),
       },
     }),
+    BullModule.registerQueue({
+      name: 'enrichment-queue',
+      connection: {
+        host: process.env.REDIS_HOST,
+        port: parseInt(process.env.REDIS_PORT ?? '6379'),
+      },
+    }),
+    BullModule.registerQueue({
+      name: 'embedding-queue',
+      connection: {
+        host: process.env.REDIS_HOST,
+        port: parseInt(process.env.REDIS_PORT ?? '6379'),
+      },
+    }),
+    BullModule.registerQueue({
+      name: 'clustering-queue',
+      connection: {
+        host: process.env.REDIS_HOST,
+        port: parseInt(process.env.REDIS_PORT ?? '6379'),
+      },
+    }),
+    BullModule.registerQueue({
+      name: 'digest-queue',
+      connection: {
+        host: process.env.REDIS_HOST,
+        port: parseInt(process.env.REDIS_PORT ?? '6379'),
+      },
+    }),
   ],
   providers: [
     QueueAdapterService,
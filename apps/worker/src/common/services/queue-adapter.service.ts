@@ -10,10 +10,18 @@ export class QueueAdapterService implements IQueueAdapterService, OnModuleInit {
 
   constructor(
     @InjectQueue('news-queue') private readonly newsQueue: Queue,
+    @InjectQueue('enrichment-queue') private readonly enrichmentQueue: Queue,
+    @InjectQueue('embedding-queue') private readonly embeddingQueue: Queue,
+    @InjectQueue('clustering-queue') private readonly clusteringQueue: Queue,
+    @InjectQueue('digest-queue') private readonly digestQueue: Queue,
   ) {}
 
   async onModuleInit() {
     this.registerQueue(this.newsQueue);
+    this.registerQueue(this.enrichmentQueue);
+    this.registerQueue(this.embeddingQueue);
+    this.registerQueue(this.clusteringQueue);
+    this.registerQueue(this.digestQueue);
     this.logger.log(`🚀 Queue adapter service initialized with ${this.queues.size} queue(s)`);
   }
 
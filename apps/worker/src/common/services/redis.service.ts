@@ -0,0 +1,22 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import Redis from 'ioredis';
+
+/**
+ * Redis client for worker state outside BullMQ (caches, cursors).
+ * Uses the same connection settings as the queues.
+ */
+@Injectable()
+export class RedisService extends Redis implements OnModuleDestroy {
+  constructor() {
+    super({
+      host: process.env.REDIS_HOST,
+      port: parseInt(process.env.REDIS_PORT ?? '6379'),
+      password: process.env.REDIS_PASSWORD || undefined,
+      keyPrefix: 'snag:',
+    });
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.quit();
+  }
+}
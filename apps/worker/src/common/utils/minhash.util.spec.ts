@@ -0,0 +1,133 @@
+import {
+  computeMinHash,
+  estimateSimilarity,
+  fingerprintArticle,
+  LSH_BANDS,
+  MINHASH_PERMUTATIONS,
+  shingleArticle,
+} from './minhash.util';
+
+const body =
+  'The central bank left its benchmark interest rate unchanged on Thursday, citing easing inflation and a cooling labour market. ' +
+  'Policymakers said they would keep watching wage growth closely before deciding on any cut later this year, ' +
+  'and most economists now expect the first reduction in November.';
+
+describe('shingleArticle', () => {
+  it('should combine title words with body word 3-grams', () => {
+    const shingles = shingleArticle('Rates held steady', 'one two three four');
+    expect(shingles).toEqual([
+      't:rates',
+      't:held',
+      't:steady',
+      'b:one two three',
+      'b:two three four',
+    ]);
+  });
+
+  it('should shingle a one-word title by characters', () => {
+    expect(shingleArticle('Nvidia!')).toEqual([
+      't:nvi',
+      't:vid',
+      't:idi',
+      't:dia',
+    ]);
+  });
+
+  it('should shingle titles and bodies written without spaces by characters', () => {
+    expect(shingleArticle('央行维持利率', '通胀放缓')).toEqual([
+      't:央行维',
+      't:行维持',
+      't:维持利',
+      't:持利率',
+      'b:通胀放',
+      'b:胀放缓',
+    ]);
+  });
+
+  it('should not shingle a body that just repeats the title', () => {
+    expect(shingleArticle('Rates held', 'Rates held')).toEqual([
+      't:rates',
+      't:held',
+    ]);
+  });
+});
+
+describe('fingerprintArticle', () => {
+  it('should produce a fixed-size signature and one bucket per band', () => {
+    const fingerprint = fingerprintArticle('Central bank holds rates', body);
+    expect(fingerprint.minhash).toHaveLength(MINHASH_PERMUTATIONS);
+    expect(fingerprint.buckets).toHaveLength(LSH_BANDS);
+    expect(fingerprint.minhash.every((value) => value === (value | 0))).toBe(
+      true,
+    );
+  });
+
+  it('should leave articles without any shingle unfingerprinted', () => {
+    expect(fingerprintArticle('A', '')).toEqual({ minhash: [], buckets: [] });
+  });
+
+  it('should be deterministic', () => {
+    expect(fingerprintArticle('Central bank holds rates', body)).toEqual(
+      fingerprintArticle('Central bank holds rates', body),
+    );
+  });
+
+  it('should score a reworded headline over the same text as near-duplicate', () => {
+    const original = fingerprintArticle(
+      'Central bank holds rates steady',
+      body,
+    );
+    const reworded = fingerprintArticle(
+      'Central bank keeps rates steady',
+      body,
+    );
+    expect(
+      estimateSimilarity(original.minhash, reworded.minhash),
+    ).toBeGreaterThan(0.8);
+    expect(
+      original.buckets.some((bucket) => reworded.buckets.includes(bucket)),
+    ).toBe(true);
+  });
+
+  it('should tell CJK headlines apart instead of collapsing them', () => {
+    const original = fingerprintArticle('日本银行决定维持超低利率政策不变');
+    const reworded = fingerprintArticle('日本银行宣布维持超低利率政策不变');
+    const unrelated = fingerprintArticle('新款电动汽车在上海车展首次亮相');
+
+    expect(original.minhash).toHaveLength(MINHASH_PERMUTATIONS);
+    expect(
+      estimateSimilarity(original.minhash, reworded.minhash),
+    ).toBeGreaterThan(0.5);
+    expect(
+      estimateSimilarity(original.minhash, unrelated.minhash),
+    ).toBeLessThan(0.2);
+  });
+
+  it('should score unrelated articles low', () => {
+    const a = fingerprintArticle('Central bank holds rates steady', body);
+    const b = fingerprintArticle(
+      'New Rust release speeds up compile times',
+      'The compiler team shipped incremental improvements to code generation and linking across all platforms.',
+    );
+    expect(estimateSimilarity(a.minhash, b.minhash)).toBeLessThan(0.2);
+  });
+});
+
+describe('estimateSimilarity', () => {
+  it('should approximate Jaccard similarity', () => {
+    const words = Array.from({ length: 100 }, (_, i) => `w${i}`);
+    // 50 shared of 150 total -> Jaccard 1/3
+    const a = computeMinHash(words);
+    const b = computeMinHash([
+      ...words.slice(50),
+      ...words.map((w) => `${w}x`).slice(0, 50),
+    ]);
+    expect(estimateSimilarity(a, b)).toBeGreaterThan(0.15);
+    expect(estimateSimilarity(a, b)).toBeLessThan(0.5);
+  });
+
+  it('should return 0 for mismatched signatures', () => {
+    expect(estimateSimilarity([], [])).toBe(0);
+    expect(estimateSimilarity([1, 2], [1])).toBe(0);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * MinHash fingerprint of an article plus its locality-sensitive hashing
+ * buckets. Articles sharing at least one bucket are near-duplicate candidates;
+ * the signatures then estimate their Jaccard similarity.
+ */
+export interface ArticleFingerprint {
+  minhash: number[];
+  buckets: string[];
+}
+
+// 16 bands of 4 rows: pairs above ~0.5 similarity share a bucket with high probability
+export const MINHASH_PERMUTATIONS = 64;
+export const LSH_BANDS = 16;
+const ROWS_PER_BAND = MINHASH_PERMUTATIONS / LSH_BANDS;
+
+const BODY_SHINGLE_SIZE = 3;
+const MAX_BODY_WORDS = 300;
+// Titles with fewer words than this, and texts in scripts written without
+// spaces (Chinese, Japanese, Thai), are shingled by characters instead
+const MIN_TITLE_WORDS = 2;
+const CHAR_SHINGLE_SIZE = 3;
+const MAX_BODY_CHARS = 1000;
+
+const SEEDS = Array.from({ length: MINHASH_PERMUTATIONS }, (_, i) =>
+  mix32(0x9e3779b9 + i),
+);
+
+/**
+ * Fingerprint title words plus word 3-grams of the body, so a reworded
+ * headline over the same text still lands close to the original. Texts with
+ * too few words fall back to character 3-grams.
+ */
+export function fingerprintArticle(
+  title: string,
+  body?: string | null,
+): ArticleFingerprint {
+  const shingles = shingleArticle(title, body);
+  // Nothing to compare on; an all-default signature would match every other empty one
+  if (shingles.length === 0) {
+    return { minhash: [], buckets: [] };
+  }
+  const minhash = computeMinHash(shingles);
+  return { minhash, buckets: lshBuckets(minhash) };
+}
+
+export function shingleArticle(title: string, body?: string | null): string[] {
+  const shingles = new Set<string>();
+
+  const titleText = normalizeText(title);
+  const titleWords = titleText.split(' ').filter((word) => word.length > 2);
+  if (titleWords.length >= MIN_TITLE_WORDS) {
+    titleWords.forEach((word) => shingles.add(`t:${word}`));
+  } else {
+    // One word would make every headline with it an exact match
+    charShingles(titleText).forEach((gram) => shingles.add(`t:${gram}`));
+  }
+
+  if (body && body !== title) {
+    const words = normalizeText(body).split(' ').slice(0, MAX_BODY_WORDS);
+    if (words.length >= BODY_SHINGLE_SIZE) {
+      for (let i = 0; i + BODY_SHINGLE_SIZE <= words.length; i++) {
+        shingles.add(`b:${words.slice(i, i + BODY_SHINGLE_SIZE).join(' ')}`);
+      }
+    } else {
+      charShingles(words.join(' ').slice(0, MAX_BODY_CHARS)).forEach((gram) =>
+        shingles.add(`b:${gram}`),
+      );
+    }
+  }
+
+  return [...shingles];
+}
+
+/**
+ * One minimum per seeded hash function; values are signed 32-bit so the
+ * signature fits a Postgres int4[] column
+ */
+export function computeMinHash(shingles: string[]): number[] {
+  const signature = new Array<number>(MINHASH_PERMUTATIONS).fill(0x7fffffff);
+
+  for (const shingle of shingles) {
+    const base = fnv1a(shingle);
+    for (let i = 0; i < MINHASH_PERMUTATIONS; i++) {
+      const value = mix32(base ^ SEEDS[i]) | 0;
+      if (value < signature[i]) {
+        signature[i] = value;
+      }
+    }
+  }
+
+  return signature;
+}
+
+/**
+ * Band the signature into bucket keys ("<band>:<hash>")
+ */
+export function lshBuckets(minhash: number[]): string[] {
+  const buckets: string[] = [];
+  for (let band = 0; band < LSH_BANDS; band++) {
+    const rows = minhash.slice(
+      band * ROWS_PER_BAND,
+      (band + 1) * ROWS_PER_BAND,
+    );
+    buckets.push(`${band}:${fnv1a(rows.join(',')).toString(36)}`);
+  }
+  return buckets;
+}
+
+/**
+ * Estimated Jaccard similarity: the share of matching signature slots
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) {
+      equal++;
+    }
+  }
+  return equal / a.length;
+}
+
+/**
+ * Lowercase letters and digits of any script, single-spaced. Unlike
+ * `normalizeTitle` this keeps non-Latin text.
+ */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Overlapping character n-grams, by code point; none for shorter texts
+function charShingles(text: string): string[] {
+  const chars = Array.from(text);
+  const grams: string[] = [];
+  for (let i = 0; i + CHAR_SHINGLE_SIZE <= chars.length; i++) {
+    grams.push(chars.slice(i, i + CHAR_SHINGLE_SIZE).join(''));
+  }
+  return grams;
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// MurmurHash3 finalizer
+function mix32(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
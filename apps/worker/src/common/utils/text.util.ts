@@ -0,0 +1,28 @@
+/**
+ * Normalize a title for hashing and similarity comparison
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^\w\s]/g, '') // Remove punctuation
+    .replace(/\s+/g, ' ') // Normalize whitespace
+    .trim();
+}
+
+// Common English function words, too frequent to say anything about a story
+const STOPWORDS = new Set(
+  [
+    'the and for are but not you all any can her was one our out has have',
+    'had his how its who did yes get got may new now old see way say says',
+    'said she him too use with that this from they will would there their',
+    'what about which when make like than then them these some into over',
+    'after also just more most other been were being only could should your',
+    'very while where here why amid show ask via',
+  ]
+    .join(' ')
+    .split(' '),
+);
+
+export function isStopword(term: string): boolean {
+  return STOPWORDS.has(term);
+}
@@ -0,0 +1,45 @@
+import { canonicalizeUrl } from './url.util';
+
+describe('canonicalizeUrl', () => {
+  it('should lowercase the host and drop default ports and fragments', () => {
+    expect(
+      canonicalizeUrl('HTTPS://News.Example.COM:443/World/Story#comments'),
+    ).toBe('https://news.example.com/World/Story');
+    expect(canonicalizeUrl('http://example.com:80/a')).toBe(
+      'http://example.com/a',
+    );
+    expect(canonicalizeUrl('http://example.com:8080/a')).toBe(
+      'http://example.com:8080/a',
+    );
+  });
+
+  it('should strip tracking parameters and sort the rest', () => {
+    expect(
+      canonicalizeUrl(
+        'https://example.com/story?utm_source=twitter&id=42&fbclid=abc&page=2&gclid=xyz&UTM_Medium=social',
+      ),
+    ).toBe('https://example.com/story?id=42&page=2');
+  });
+
+  it('should map differently tracked shares of a link to the same URL', () => {
+    const a = canonicalizeUrl(
+      'https://example.com/story?b=2&a=1&utm_campaign=x',
+    );
+    const b = canonicalizeUrl('https://EXAMPLE.com/story?a=1&b=2#top');
+
+    expect(a).toBe(b);
+  });
+
+  it('should drop an empty query string', () => {
+    expect(canonicalizeUrl('https://example.com/story?utm_source=rss')).toBe(
+      'https://example.com/story',
+    );
+  });
+
+  it('should leave non-http and invalid URLs untouched', () => {
+    expect(canonicalizeUrl('mailto:news@example.com')).toBe(
+      'mailto:news@example.com',
+    );
+    expect(canonicalizeUrl('not a url')).toBe('not a url');
+  });
+});
@@ -0,0 +1,81 @@
+// Query parameters that only identify the click, never the content
+const TRACKING_PARAMS = new Set([
+  'fbclid',
+  'gclid',
+  'dclid',
+  'gbraid',
+  'wbraid',
+  'msclkid',
+  'yclid',
+  'twclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_ga',
+  '_gl',
+  '_hsenc',
+  '_hsmi',
+  'mkt_tok',
+  'oly_anon_id',
+  'oly_enc_id',
+  'vero_id',
+  'cmpid',
+  'ocid',
+]);
+
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'mtm_'];
+
+const DEFAULT_PORTS: Record<string, string> = {
+  'http:': '80',
+  'https:': '443',
+};
+
+/**
+ * Normalize a URL so differently shared links to the same page compare equal:
+ * lowercase scheme and host, no default port, no fragment, no tracking
+ * parameters and remaining query parameters sorted. Path case and trailing
+ * slashes are kept since servers may treat them as different resources.
+ * Returns the input unchanged when it is not an absolute http(s) URL.
+ */
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url;
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return url;
+  }
+
+  // URL already lowercases scheme and host; strip a trailing root-label dot too
+  parsed.hostname = parsed.hostname.replace(/\.$/, '');
+  if (parsed.port === DEFAULT_PORTS[parsed.protocol]) {
+    parsed.port = '';
+  }
+  parsed.hash = '';
+  parsed.username = '';
+  parsed.password = '';
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([key]) => !isTrackingParam(key))
+    .sort(([a, aValue], [b, bValue]) =>
+      a === b ? aValue.localeCompare(bValue) : a.localeCompare(b),
+    );
+
+  parsed.search = '';
+  for (const [key, value] of params) {
+    parsed.searchParams.append(key, value);
+  }
+
+  return parsed.toString();
+}
+
+function isTrackingParam(key: string): boolean {
+  const name = key.toLowerCase();
+  return (
+    TRACKING_PARAMS.has(name) ||
+    TRACKING_PREFIXES.some((prefix) => name.startsWith(prefix))
+  );
+}
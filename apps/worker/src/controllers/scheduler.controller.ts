@@ -1,8 +1,31 @@
-import { Controller, Post, Get, Query } from '@nestjs/common';
+import {
+  BadRequestException,
+  Controller,
+  Post,
+  Put,
+  Get,
+  Query,
+  Param,
+  Body,
+} from '@nestjs/common';
+import { Length, PaywallPolicy } from '@prisma/client';
 import { NewsSchedulerService } from '../tasks/news-scheduler.service';
 import { ScheduledTasksService } from '../tasks/scheduled-tasks.service';
-import { HackerNewsService } from '../sources';
+import { HackerNewsService, NewsSourceRegistry } from '../sources';
 import { NewsStorageService } from '../database/news-storage.service';
+import { DuplicateResolutionService } from '../database/duplicate-resolution.service';
+import { ArticleSaveResult } from '../common/interfaces/article.interface';
+import { EnrichmentQueueService } from '../services/enrichment-queue.service';
+import { BlobStorageService } from '../storage';
+import { ClusterMaintenanceService, ClusteringService } from '../clustering';
+import { ClusteringQueueService } from '../services/clustering-queue.service';
+import { EmbeddingService } from '../embeddings';
+import { EmbeddingQueueService } from '../services/embedding-queue.service';
+import { EntityExtractionService } from '../enrichment/entities/entity-extraction.service';
+import { TopicClassificationService } from '../enrichment/topics/topic-classification.service';
+import { SummarizationService } from '../summarization';
+import { DigestService } from '../digests';
+import { DigestQueueService } from '../services/digest-queue.service';
 
 @Controller({
   version: '1',
@@ -13,7 +36,21 @@ export class SchedulerController {
     private readonly newsSchedulerService: NewsSchedulerService,
     private readonly scheduledTasksService: ScheduledTasksService,
     private readonly hackerNewsService: HackerNewsService,
-    private readonly newsStorageService: NewsStorageService
+    private readonly newsSourceRegistry: NewsSourceRegistry,
+    private readonly newsStorageService: NewsStorageService,
+    private readonly duplicateResolutionService: DuplicateResolutionService,
+    private readonly enrichmentQueueService: EnrichmentQueueService,
+    private readonly blobStorageService: BlobStorageService,
+    private readonly clusteringService: ClusteringService,
+    private readonly clusterMaintenanceService: ClusterMaintenanceService,
+    private readonly clusteringQueueService: ClusteringQueueService,
+    private readonly embeddingService: EmbeddingService,
+    private readonly embeddingQueueService: EmbeddingQueueService,
+    private readonly entityExtractionService: EntityExtractionService,
+    private readonly topicClassificationService: TopicClassificationService,
+    private readonly summarizationService: SummarizationService,
+    private readonly digestService: DigestService,
+    private readonly digestQueueService: DigestQueueService,
   ) {}
 
   @Post('news/trigger')
@@ -65,15 +102,68 @@ export class SchedulerController {
     return this.newsSchedulerService.getNewsSourceStats();
   }
 
+  @Put('sources/:id/paywall-policy')
+  async setSourcePaywallPolicy(
+    @Param('id') id: string,
+    @Body('policy') policy: string,
+  ) {
+    if (!Object.values(PaywallPolicy).includes(policy as PaywallPolicy)) {
+      throw new BadRequestException(
+        `Invalid paywall policy '${policy}', expected one of ${Object.values(PaywallPolicy).join(', ')}`,
+      );
+    }
+
+    try {
+      const { source, articlesUpdated } =
+        await this.newsStorageService.setSourcePaywallPolicy(
+          id,
+          policy as PaywallPolicy,
+        );
+      return {
+        message: 'Paywall policy updated',
+        source: {
+          id: source.id,
+          title: source.title,
+          paywallPolicy: source.paywallPolicy,
+        },
+        articlesUpdated,
+      };
+    } catch (error) {
+      return {
+        message: 'Failed to update paywall policy',
+        error: error.message,
+      };
+    }
+  }
+
+  @Get('http/stats')
+  async getHttpStats() {
+    return this.newsSchedulerService.getHttpStats();
+  }
+
   @Get('database/stats')
   async getDatabaseStats() {
     return this.newsSchedulerService.getDatabaseStats();
   }
 
   @Get('database/recent')
-  async getRecentArticles(@Query('limit') limit?: string) {
+  async getRecentArticles(
+    @Query('limit') limit?: string,
+    @Query('type') type?: string,
+    @Query('lang') lang?: string,
+  ) {
     const limitNumber = limit ? parseInt(limit, 10) : 10;
-    const articles = await this.newsSchedulerService.getRecentArticles(limitNumber);
+    const languages = lang
+      ? lang
+          .split(',')
+          .map((code) => code.trim().toLowerCase())
+          .filter(Boolean)
+      : undefined;
+    const articles = await this.newsSchedulerService.getRecentArticles(
+      limitNumber,
+      type,
+      languages,
+    );
     return {
       message: 'Recent articles retrieved successfully',
       count: articles.length,
@@ -96,29 +186,57 @@ export class SchedulerController {
     };
   }
 
-  @Post('sources/hacker-news/test')
-  async testHackerNewsSource() {
+  @Post('sources/:type/test')
+  async testNewsSource(@Param('type') type: string) {
+    const adapter = this.newsSourceRegistry.get(type);
+
+    if (!adapter) {
+      return {
+        message: `No news source adapter registered for type '${type}'`,
+        timestamp: new Date().toISOString(),
+        registeredTypes: this.newsSourceRegistry.getTypes(),
+      };
+    }
+
     try {
-      const stories = await this.hackerNewsService.fetchAllStories();
-      
+      const sources = await this.newsStorageService.getEnabledSources(type);
+      const results = await Promise.all(
+        sources.map(async (source) => {
+          try {
+            const { articles, notModified } =
+              await this.newsSourceRegistry.fetchSource(source);
+            return {
+              source: source.title,
+              url: source.url,
+              total: articles.length,
+              notModified,
+              sampleArticles: articles
+                .slice(0, 3)
+                .map((a) => ({ title: a.title, author: a.author, url: a.url })),
+            };
+          } catch (error) {
+            return {
+              source: source.title,
+              url: source.url,
+              total: 0,
+              error: error.message,
+            };
+          }
+        }),
+      );
+
       return {
-        message: 'Hacker News source test successful',
+        message: `${adapter.getStats().name} source test completed`,
         timestamp: new Date().toISOString(),
         stats: {
-          total: stories.top.length + stories.best.length + stories.new.length,
-          top: stories.top.length,
-          best: stories.best.length,
-          new: stories.new.length
+          sources: sources.length,
+          total: results.reduce((sum, result) => sum + result.total, 0),
         },
-        sampleStories: {
-          top: stories.top.slice(0, 3).map(s => ({ title: s.title, author: s.author, score: s.score })),
-          best: stories.best.slice(0, 3).map(s => ({ title: s.title, author: s.author, score: s.score })),
-          new: stories.new.slice(0, 3).map(s => ({ title: s.title, author: s.author, score: s.score }))
-        }
+        results,
       };
     } catch (error) {
       return {
-        message: 'Hacker News source test failed',
+        message: `${type} source test failed`,
         timestamp: new Date().toISOString(),
         error: error.message
       };
@@ -132,7 +250,7 @@ export class SchedulerController {
       return {
         message: 'Top stories fetched successfully',
         count: stories.length,
-        stories: stories.slice(0, 10) // Return first 10 stories
+        stories: stories.slice(0, 10), // Return first 10 stories
       };
     } catch (error) {
       return {
@@ -149,7 +267,7 @@ export class SchedulerController {
       return {
         message: 'Best stories fetched successfully',
         count: stories.length,
-        stories: stories.slice(0, 10) // Return first 10 stories
+        stories: stories.slice(0, 10), // Return first 10 stories
       };
     } catch (error) {
       return {
@@ -166,7 +284,7 @@ export class SchedulerController {
       return {
         message: 'New stories fetched successfully',
         count: stories.length,
-        stories: stories.slice(0, 10) // Return first 10 stories
+        stories: stories.slice(0, 10), // Return first 10 stories
       };
     } catch (error) {
       return {
@@ -194,18 +312,25 @@ export class SchedulerController {
   }
 
   @Post('database/bulk-insert')
-  async bulkInsertArticles() {
+  async bulkInsertArticles(@Query('type') type: string = 'hacker-news') {
     try {
-      // Fetch fresh stories for bulk insertion
-      const stories = await this.hackerNewsService.fetchAllStories();
-      const allStories = [...stories.top, ...stories.best, ...stories.new];
-      
-      const result = await this.newsStorageService.bulkInsertArticles(allStories);
-      
+      // Fetch fresh articles for bulk insertion from every enabled source of this type
+      const sources = await this.newsStorageService.getEnabledSources(type);
+      const results: Array<{ source: string } & ArticleSaveResult> = [];
+
+      for (const source of sources) {
+        const { articles } = await this.newsSourceRegistry.fetchSource(source);
+        const result = await this.newsStorageService.bulkInsertArticles(
+          articles,
+          source.id,
+        );
+        results.push({ source: source.title, ...result });
+      }
+
       return {
         message: 'Bulk insertion completed',
         timestamp: new Date().toISOString(),
-        result
+        results,
       };
     } catch (error) {
       return {
@@ -216,12 +341,33 @@ export class SchedulerController {
   }
 
   @Post('database/cleanup-duplicates')
-  async cleanupDuplicates() {
+  async cleanupDuplicates(
+    @Query('mode') mode: string = 'dry-run',
+    @Query('limit') limit?: string,
+  ) {
+    if (mode !== 'dry-run' && mode !== 'merge') {
+      throw new BadRequestException(
+        `Unknown mode '${mode}', expected dry-run or merge`,
+      );
+    }
+    const limitNumber = limit ? Number(limit) : 500;
+    if (!Number.isInteger(limitNumber) || limitNumber <= 0) {
+      throw new BadRequestException(
+        `Invalid limit '${limit}', expected a positive integer`,
+      );
+    }
+
     try {
-      const result = await this.newsStorageService.cleanupDuplicates();
-      
+      const result = await this.duplicateResolutionService.resolveDuplicates(
+        mode === 'dry-run',
+        limitNumber,
+      );
+
       return {
-        message: 'Duplicate cleanup completed',
+        message:
+          mode === 'dry-run'
+            ? 'Duplicate cleanup planned (dry run, nothing changed)'
+            : 'Duplicate cleanup completed',
         timestamp: new Date().toISOString(),
         result
       };
@@ -232,4 +378,346 @@ export class SchedulerController {
       };
     }
   }
+
+  @Get('database/duplicates/resolutions')
+  async getDuplicateResolutions(
+    @Query('batchId') batchId?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const limitNumber = limit ? parseInt(limit, 10) : 50;
+    return this.duplicateResolutionService.getResolutions(batchId, limitNumber);
+  }
+
+  @Post('database/duplicates/resolutions/:id/undo')
+  async undoDuplicateResolution(@Param('id') id: string) {
+    try {
+      const result = await this.duplicateResolutionService.undo({
+        resolutionId: id,
+      });
+
+      return {
+        message: 'Duplicate resolution undone',
+        timestamp: new Date().toISOString(),
+        result,
+      };
+    } catch (error) {
+      return {
+        message: 'Failed to undo duplicate resolution',
+        error: error.message,
+      };
+    }
+  }
+
+  @Post('database/duplicates/batches/:batchId/undo')
+  async undoDuplicateBatch(@Param('batchId') batchId: string) {
+    try {
+      const result = await this.duplicateResolutionService.undo({ batchId });
+
+      return {
+        message: 'Duplicate cleanup batch undone',
+        timestamp: new Date().toISOString(),
+        result,
+      };
+    } catch (error) {
+      return {
+        message: 'Failed to undo duplicate cleanup batch',
+        error: error.message,
+      };
+    }
+  }
+
+  @Post('database/fingerprints/backfill')
+  async backfillFingerprints(@Query('limit') limit?: string) {
+    try {
+      const limitNumber = limit ? parseInt(limit, 10) : 500;
+      const result =
+        await this.newsStorageService.backfillFingerprints(limitNumber);
+
+      return {
+        message: 'Fingerprint backfill completed',
+        timestamp: new Date().toISOString(),
+        result,
+      };
+    } catch (error) {
+      return {
+        message: 'Fingerprint backfill failed',
+        error: error.message,
+      };
+    }
+  }
+
+  @Get('clusters/stats')
+  async getClusterStats() {
+    return this.clusteringService.getStats();
+  }
+
+  @Post('clusters/sweep')
+  async sweepClusters() {
+    try {
+      const jobId = await this.clusteringQueueService.addSweepJob();
+
+      return {
+        message: 'Clustering sweep queued',
+        timestamp: new Date().toISOString(),
+        jobId,
+      };
+    } catch (error) {
+      return {
+        message: 'Failed to queue clustering sweep',
+        error: error.message,
+      };
+    }
+  }
+
+  @Get('embeddings/stats')
+  async getEmbeddingStats() {
+    return this.embeddingService.getStats();
+  }
+
+  @Post('embeddings/backfill')
+  async backfillEmbeddings(@Query('limit') limit?: string) {
+    try {
+      const limitNumber = limit ? parseInt(limit, 10) : 1000;
+      const jobId =
+        await this.embeddingQueueService.addBackfillJob(limitNumber);
+
+      return {
+        message: 'Embedding backfill queued',
+        timestamp: new Date().toISOString(),
+        jobId,
+      };
+    } catch (error) {
+      return {
+        message: 'Failed to queue embedding backfill',
+        error: error.message,
+      };
+    }
+  }
+
+  @Post('clusters/maintenance')
+  async maintainClusters() {
+    try {
+      const jobId = await this.clusteringQueueService.addMaintenanceJob();
+
+      return {
+        message: 'Cluster maintenance queued',
+        timestamp: new Date().toISOString(),
+        jobId,
+      };
+    } catch (error) {
+      return {
+        message: 'Failed to queue cluster maintenance',
+        error: error.message,
+      };
+    }
+  }
+
+  @Get('clusters/:id/history')
+  async getClusterHistory(@Param('id') id: string) {
+    return this.clusterMaintenanceService.getHistory(id);
+  }
+
+  @Get('clusters/:id/summary')
+  async getClusterSummary(
+    @Param('id') id: string,
+    @Query('length') length: string = Length.STANDARD,
+  ) {
+    if (!Object.values(Length).includes(length as Length)) {
+      return {
+        message: `Invalid length '${length}'`,
+        allowedLengths: Object.values(Length),
+      };
+    }
+
+    const summary = await this.summarizationService.summarizeCluster(
+      id,
+      length as Length,
+    );
+    return summary ?? { message: `Cluster ${id} not found` };
+  }
+
+  @Get('clusters/:id/story')
+  async getClusterStory(
+    @Param('id') id: string,
+    @Query('length') length: string = Length.STANDARD,
+  ) {
+    if (!Object.values(Length).includes(length as Length)) {
+      return {
+        message: `Invalid length '${length}'`,
+        allowedLengths: Object.values(Length),
+      };
+    }
+
+    const story = await this.summarizationService.summarizeStory(
+      id,
+      length as Length,
+    );
+    return story ?? { message: `Cluster ${id} not found` };
+  }
+
+  @Get('articles/:id/summary')
+  async getArticleSummary(
+    @Param('id') id: string,
+    @Query('length') length: string = Length.STANDARD,
+  ) {
+    if (!Object.values(Length).includes(length as Length)) {
+      return {
+        message: `Invalid length '${length}'`,
+        allowedLengths: Object.values(Length),
+      };
+    }
+
+    const summary = await this.summarizationService.summarizeArticle(
+      id,
+      length as Length,
+    );
+    return summary ?? { message: `Article ${id} not found` };
+  }
+
+  @Get('storage/stats')
+  async getStorageStats() {
+    return this.blobStorageService.getStats();
+  }
+
+  @Post('enrichment/reextract')
+  async reextractFromSnapshots(
+    @Query('limit') limit?: string,
+    @Query('type') type?: string,
+  ) {
+    try {
+      const limitNumber = limit ? parseInt(limit, 10) : 100;
+      const articles = await this.newsStorageService.getArticlesWithSnapshots(
+        limitNumber,
+        type,
+      );
+      const queued =
+        await this.enrichmentQueueService.addReextractionJobs(articles);
+
+      return {
+        message: 'Re-extraction from snapshots queued',
+        timestamp: new Date().toISOString(),
+        queued,
+      };
+    } catch (error) {
+      return {
+        message: 'Re-extraction failed',
+        error: error.message,
+      };
+    }
+  }
+
+  @Get('enrichment/entities/stats')
+  async getEntityStats() {
+    return this.entityExtractionService.getStats();
+  }
+
+  @Post('enrichment/entities/backfill')
+  async backfillEntities(@Query('limit') limit?: string) {
+    try {
+      const limitNumber = limit ? parseInt(limit, 10) : 500;
+      const articleIds =
+        await this.entityExtractionService.findUnextracted(limitNumber);
+      const queued =
+        await this.enrichmentQueueService.addEntityExtractionJobs(articleIds);
+
+      return {
+        message: 'Entity extraction backfill queued',
+        timestamp: new Date().toISOString(),
+        queued,
+      };
+    } catch (error) {
+      return {
+        message: 'Failed to queue entity extraction backfill',
+        error: error.message,
+      };
+    }
+  }
+
+  @Post('enrichment/entities/merge-suggestions')
+  async suggestEntityMerges() {
+    try {
+      const jobId = await this.enrichmentQueueService.addMergeSuggestionJob();
+
+      return {
+        message: 'Entity merge suggestions queued',
+        timestamp: new Date().toISOString(),
+        jobId,
+      };
+    } catch (error) {
+      return {
+        message: 'Failed to queue entity merge suggestions',
+        error: error.message,
+      };
+    }
+  }
+
+  @Get('enrichment/topics/stats')
+  async getTopicStats() {
+    return this.topicClassificationService.getStats();
+  }
+
+  @Post('enrichment/topics/backfill')
+  async backfillTopics(@Query('limit') limit?: string) {
+    try {
+      const limitNumber = limit ? parseInt(limit, 10) : 500;
+      const articleIds =
+        await this.topicClassificationService.findOutdated(limitNumber);
+      const queued =
+        await this.enrichmentQueueService.addTopicClassificationJobs(
+          articleIds,
+        );
+
+      return {
+        message: 'Topic classification backfill queued',
+        timestamp: new Date().toISOString(),
+        queued,
+      };
+    } catch (error) {
+      return {
+        message: 'Failed to queue topic classification backfill',
+        error: error.message,
+      };
+    }
+  }
+
+  @Post('enrichment/topics/retrain')
+  async retrainTopics() {
+    try {
+      const jobId = await this.enrichmentQueueService.addTopicTrainingJob();
+
+      return {
+        message: 'Topic model training queued',
+        timestamp: new Date().toISOString(),
+        jobId,
+      };
+    } catch (error) {
+      return {
+        message: 'Failed to queue topic model training',
+        error: error.message,
+      };
+    }
+  }
+
+  @Post('digests/generate')
+  async generateDigests(@Query('userId') userId?: string) {
+    try {
+      // One user gets a digest right away; otherwise the scheduling pass runs early
+      const queued = userId
+        ? await this.digestQueueService.addDigestJobs([userId])
+        : await this.digestQueueService.addScheduledDigestJobs(
+            await this.digestService.scheduleDigests(),
+          );
+
+      return {
+        message: 'Digest generation queued',
+        timestamp: new Date().toISOString(),
+        queued,
+      };
+    } catch (error) {
+      return {
+        message: 'Failed to queue digest generation',
+        error: error.message,
+      };
+    }
+  }
 }
@@ -0,0 +1,84 @@
+import { DuplicateCandidate, DuplicatePlanner } from './duplicate-plan';
+
+const same = [1, 2, 3, 4];
+const other = [5, 6, 7, 8];
+
+function candidate(
+  id: string,
+  overrides: Partial<DuplicateCandidate> = {},
+): DuplicateCandidate {
+  return {
+    id,
+    title: 'Central bank raises rates',
+    url: `https://example.com/${id}`,
+    outlet: 'Example News',
+    createdAt: new Date('2025-09-18T12:00:00Z'),
+    minhash: same,
+    ...overrides,
+  };
+}
+
+function pairs(planner: DuplicatePlanner) {
+  return planner.resolutions.map((resolution) => [
+    resolution.removed.id,
+    resolution.survivor.id,
+    resolution.reason,
+  ]);
+}
+
+describe('DuplicatePlanner', () => {
+  it('merges every group into its oldest article', () => {
+    const planner = new DuplicatePlanner(new Set(), 0.8, 10);
+
+    planner.addCanonicalGroup([candidate('a1'), candidate('a2')]);
+    planner.addTitleGroup('Central bank raises rates', [
+      candidate('b1'),
+      candidate('b2'),
+      candidate('b3', { minhash: other }),
+    ]);
+
+    expect(pairs(planner)).toEqual([
+      ['a2', 'a1', 'canonical-url'],
+      ['b2', 'b1', 'title'],
+    ]);
+    expect(planner.unconfirmed).toEqual([
+      {
+        title: 'Central bank raises rates',
+        articleIds: ['b1', 'b3'],
+        similarity: 0,
+      },
+    ]);
+  });
+
+  it('does not remove an article that others are merged into', () => {
+    const planner = new DuplicatePlanner(new Set(), 0.8, 10);
+
+    // C shares S's canonical URL; S shares the older T's title
+    planner.addCanonicalGroup([candidate('S'), candidate('C')]);
+    planner.addTitleGroup('Central bank raises rates', [
+      candidate('T'),
+      candidate('S'),
+      candidate('C'),
+    ]);
+
+    expect(pairs(planner)).toEqual([['C', 'S', 'canonical-url']]);
+  });
+
+  it('skips undone removals and stops at the limit', () => {
+    const planner = new DuplicatePlanner(new Set(['a2']), 0.8, 2);
+
+    planner.addCanonicalGroup([
+      candidate('a1'),
+      candidate('a2'),
+      candidate('a3'),
+      candidate('a4'),
+      candidate('a5'),
+    ]);
+
+    expect(pairs(planner)).toEqual([
+      ['a3', 'a1', 'canonical-url'],
+      ['a4', 'a1', 'canonical-url'],
+    ]);
+    expect(planner.full).toBe(true);
+  });
+});
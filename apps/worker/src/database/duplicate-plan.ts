@@ -0,0 +1,128 @@
+import { estimateSimilarity } from '../common/utils/minhash.util';
+
+export type DuplicateReason = 'canonical-url' | 'title';
+
+export interface ArticleSummary {
+  id: string;
+  title: string;
+  url: string;
+  outlet: string | null;
+  createdAt: Date;
+}
+
+export interface DuplicateCandidate extends ArticleSummary {
+  minhash: number[];
+}
+
+export interface PlannedResolution {
+  survivor: ArticleSummary;
+  removed: ArticleSummary;
+  reason: DuplicateReason;
+  similarity: number | null;
+}
+
+// Same title, but the fingerprints do not confirm the same story; left alone
+export interface UnconfirmedTitleMatch {
+  title: string;
+  articleIds: string[];
+  similarity: number;
+}
+
+/**
+ * Collects the removals of a duplicate run group by group, up to `limit`.
+ * Each group is merged into its oldest article. An article that others are
+ * merged into is never removed itself: the links moved onto it would go with
+ * it, and its snapshot, taken before the move, could not bring them back.
+ */
+export class DuplicatePlanner {
+  readonly resolutions: PlannedResolution[] = [];
+  readonly unconfirmed: UnconfirmedTitleMatch[] = [];
+  private readonly removing = new Set<string>();
+  private readonly survivors = new Set<string>();
+
+  constructor(
+    private readonly kept: ReadonlySet<string>, // removals undone before
+    private readonly similarityThreshold: number,
+    private readonly limit: number,
+  ) {}
+
+  get full(): boolean {
+    return this.resolutions.length >= this.limit;
+  }
+
+  /**
+   * Articles sharing a canonical URL, oldest first
+   */
+  addCanonicalGroup(articles: DuplicateCandidate[]): void {
+    const [survivor, ...others] = articles;
+    for (const article of others) {
+      if (!this.full && !this.kept.has(article.id)) {
+        this.add(survivor, article, 'canonical-url', null);
+      }
+    }
+  }
+
+  /**
+   * Articles sharing a title, oldest first. Only fingerprints that agree
+   * confirm the same story.
+   */
+  addTitleGroup(title: string, articles: DuplicateCandidate[]): void {
+    const candidates = articles.filter(
+      (article) => !this.removing.has(article.id),
+    );
+    if (candidates.length < 2) {
+      return;
+    }
+
+    const [survivor, ...others] = candidates;
+    for (const article of others) {
+      if (this.survivors.has(article.id)) {
+        continue;
+      }
+      const similarity = estimateSimilarity(survivor.minhash, article.minhash);
+      if (similarity < this.similarityThreshold || this.kept.has(article.id)) {
+        if (this.unconfirmed.length < this.limit) {
+          this.unconfirmed.push({
+            title,
+            articleIds: [survivor.id, article.id],
+            similarity: round(similarity),
+          });
+        }
+        continue;
+      }
+      if (!this.full) {
+        this.add(survivor, article, 'title', round(similarity));
+      }
+    }
+  }
+
+  private add(
+    survivor: ArticleSummary,
+    removed: ArticleSummary,
+    reason: DuplicateReason,
+    similarity: number | null,
+  ): void {
+    this.resolutions.push({
+      survivor: summary(survivor),
+      removed: summary(removed),
+      reason,
+      similarity,
+    });
+    this.removing.add(removed.id);
+    this.survivors.add(survivor.id);
+  }
+}
+
+function summary({
+  id,
+  title,
+  url,
+  outlet,
+  createdAt,
+}: ArticleSummary): ArticleSummary {
+  return { id, title, url, outlet, createdAt };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
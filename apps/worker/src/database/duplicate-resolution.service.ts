@@ -0,0 +1,576 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Article, ArticleMetric, ClusterEvent, Prisma } from '@prisma/client';
+import { ClusteringService, redirectClusterReferences } from '../clustering';
+import { EmbeddingQueueService } from '../services/embedding-queue.service';
+import { EmbeddingService } from '../embeddings';
+import {
+  DuplicatePlanner,
+  DuplicateReason,
+  PlannedResolution,
+  UnconfirmedTitleMatch,
+} from './duplicate-plan';
+import { PrismaService } from './prisma.service';
+import { VectorRepository } from './vector.repository';
+
+export interface DuplicateResolutionResult {
+  mode: 'dry-run' | 'merge';
+  batchId: string | null;
+  planned: number;
+  resolved: number;
+  byReason: Record<DuplicateReason, number>;
+  resolutions: PlannedResolution[];
+  unconfirmedTitleMatches: UnconfirmedTitleMatch[];
+}
+
+/**
+ * Everything needed to restore a removed article and take back what moved to
+ * the survivor. Dates are ISO strings once stored.
+ */
+interface DuplicateSnapshot {
+  article: Article;
+  entityIds: string[];
+  clusters: Array<{ clusterId: string; similarity: number }>;
+  metrics: ArticleMetric[];
+  movedToSurvivor: { entityIds: string[]; clusterIds: string[] };
+}
+
+const candidateSelect = {
+  id: true,
+  title: true,
+  url: true,
+  outlet: true,
+  createdAt: true,
+  minhash: true,
+} as const;
+
+/**
+ * Resolves duplicate articles that slipped past ingest-time deduplication.
+ * Canonical URL matches are trusted; exact title matches only count when the
+ * MinHash fingerprints agree. Plans can be previewed (dry run) before a merge
+ * moves entity and cluster links to the oldest article and removes the rest.
+ * Every removal is recorded in `DuplicateResolution` and can be undone.
+ */
+@Injectable()
+export class DuplicateResolutionService {
+  private readonly logger = new Logger(DuplicateResolutionService.name);
+  private readonly similarityThreshold: number;
+  private readonly deleteBatchSize = 100;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly vectorRepository: VectorRepository,
+    private readonly embeddingService: EmbeddingService,
+    private readonly clusteringService: ClusteringService,
+    private readonly embeddingQueueService: EmbeddingQueueService,
+    configService: ConfigService,
+  ) {
+    const threshold = parseFloat(
+      configService.get<string>('DEDUP_SIMILARITY_THRESHOLD') ?? '',
+    );
+    this.similarityThreshold =
+      threshold > 0 && threshold <= 1 ? threshold : 0.8;
+  }
+
+  /**
+   * Plan up to `limit` removals and, unless `dryRun`, carry them out
+   */
+  async resolveDuplicates(
+    dryRun: boolean = true,
+    limit: number = 500,
+  ): Promise<DuplicateResolutionResult> {
+    const plan = await this.plan(limit);
+    const byReason: Record<DuplicateReason, number> = {
+      'canonical-url': 0,
+      title: 0,
+    };
+    for (const resolution of plan.resolutions) {
+      byReason[resolution.reason]++;
+    }
+
+    const result: DuplicateResolutionResult = {
+      mode: dryRun ? 'dry-run' : 'merge',
+      batchId: null,
+      planned: plan.resolutions.length,
+      resolved: 0,
+      byReason,
+      resolutions: plan.resolutions,
+      unconfirmedTitleMatches: plan.unconfirmed,
+    };
+
+    if (dryRun || plan.resolutions.length === 0) {
+      this.logger.log(
+        `🔍 Duplicate dry run: ${result.planned} removals planned (${byReason['canonical-url']} canonical URL, ${byReason.title} title), ${plan.unconfirmed.length} unconfirmed title matches`,
+      );
+      return result;
+    }
+
+    const batchId = this.newBatchId();
+    result.batchId = batchId;
+
+    for (let i = 0; i < plan.resolutions.length; i += this.deleteBatchSize) {
+      const chunk = plan.resolutions.slice(i, i + this.deleteBatchSize);
+      result.resolved += await this.mergeBatch(batchId, chunk);
+    }
+
+    this.logger.log(
+      `🧹 Duplicate batch ${batchId}: ${result.resolved} articles merged into their survivors`,
+    );
+    return result;
+  }
+
+  /**
+   * Merge the articles sharing an article's canonical URL into the oldest of
+   * them, as a merge run would. Extraction calls this once it learns a page's
+   * canonical URL, which ingest could not see. Returns null when there was
+   * nothing to merge.
+   */
+  async resolveCanonicalDuplicates(
+    articleId: string,
+  ): Promise<{ survivorId: string; removedIds: string[] } | null> {
+    const article = await this.prisma.article.findUnique({
+      where: { id: articleId },
+      select: { canonicalUrl: true },
+    });
+    if (!article?.canonicalUrl) {
+      return null;
+    }
+
+    const copies = await this.prisma.article.findMany({
+      where: { canonicalUrl: article.canonicalUrl },
+      orderBy: { createdAt: 'asc' },
+      select: candidateSelect,
+    });
+    const undone = await this.prisma.duplicateResolution.findMany({
+      where: {
+        undoneAt: { not: null },
+        removedId: { in: copies.map((copy) => copy.id) },
+      },
+      select: { removedId: true },
+    });
+    const planner = new DuplicatePlanner(
+      new Set(undone.map((resolution) => resolution.removedId)),
+      this.similarityThreshold,
+      copies.length,
+    );
+    planner.addCanonicalGroup(copies);
+    const { resolutions } = planner;
+    if (resolutions.length === 0) {
+      return null;
+    }
+
+    const survivorId = copies[0].id;
+    const batchId = this.newBatchId();
+    const resolved = await this.mergeBatch(batchId, resolutions);
+    this.logger.log(
+      `🧹 Duplicate batch ${batchId}: ${resolved} articles at ${article.canonicalUrl} merged into ${survivorId}`,
+    );
+    return {
+      survivorId,
+      removedIds: resolutions.map((resolution) => resolution.removed.id),
+    };
+  }
+
+  async getResolutions(batchId?: string, limit: number = 50) {
+    return this.prisma.duplicateResolution.findMany({
+      where: batchId ? { batchId } : {},
+      orderBy: { resolvedAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        batchId: true,
+        survivorId: true,
+        removedId: true,
+        reason: true,
+        similarity: true,
+        resolvedAt: true,
+        undoneAt: true,
+      },
+    });
+  }
+
+  /**
+   * Restore the removed articles of one resolution or a whole batch and take
+   * back the links that moved to their survivors
+   */
+  async undo(filter: { resolutionId?: string; batchId?: string }): Promise<{
+    restored: number;
+    failed: Array<{ resolutionId: string; error: string }>;
+  }> {
+    const resolutions = await this.prisma.duplicateResolution.findMany({
+      where: {
+        undoneAt: null,
+        ...(filter.resolutionId ? { id: filter.resolutionId } : {}),
+        ...(filter.batchId ? { batchId: filter.batchId } : {}),
+      },
+      orderBy: { resolvedAt: 'asc' },
+    });
+
+    const restoredIds: string[] = [];
+    const touchedClusters = new Set<string>();
+    const failed: Array<{ resolutionId: string; error: string }> = [];
+
+    for (const resolution of resolutions) {
+      try {
+        const clusterIds = await this.restore(resolution);
+        clusterIds.forEach((clusterId) => touchedClusters.add(clusterId));
+        restoredIds.push(resolution.removedId);
+      } catch (error) {
+        this.logger.warn(
+          `⚠️ Could not undo duplicate resolution ${resolution.id}: ${error.message}`,
+        );
+        failed.push({ resolutionId: resolution.id, error: error.message });
+      }
+    }
+
+    await this.refreshClusters(touchedClusters);
+    // Vectors are not part of the snapshot; embedding also re-clusters what lost its cluster
+    await this.embeddingQueueService.addEmbeddingJob(restoredIds);
+
+    this.logger.log(
+      `↩️ Restored ${restoredIds.length} articles from duplicate resolutions (${failed.length} failed)`,
+    );
+    return { restored: restoredIds.length, failed };
+  }
+
+  private async plan(limit: number): Promise<DuplicatePlanner> {
+    // An undone resolution was a wrong call; never plan it again
+    const undone = await this.prisma.duplicateResolution.findMany({
+      where: { undoneAt: { not: null } },
+      select: { removedId: true },
+    });
+    const planner = new DuplicatePlanner(
+      new Set(undone.map((resolution) => resolution.removedId)),
+      this.similarityThreshold,
+      limit,
+    );
+
+    const canonicalGroups = await this.prisma.article.groupBy({
+      by: ['canonicalUrl'],
+      where: { canonicalUrl: { not: null } },
+      having: { canonicalUrl: { _count: { gt: 1 } } },
+    });
+
+    for (const group of canonicalGroups) {
+      if (planner.full) {
+        break;
+      }
+      planner.addCanonicalGroup(
+        await this.prisma.article.findMany({
+          where: { canonicalUrl: group.canonicalUrl },
+          orderBy: { createdAt: 'asc' },
+          select: candidateSelect,
+        }),
+      );
+    }
+
+    const titleGroups = await this.prisma.article.groupBy({
+      by: ['title'],
+      having: { title: { _count: { gt: 1 } } },
+    });
+
+    for (const group of titleGroups) {
+      if (planner.full) {
+        break;
+      }
+      planner.addTitleGroup(
+        group.title,
+        await this.prisma.article.findMany({
+          where: { title: group.title },
+          orderBy: { createdAt: 'asc' },
+          select: candidateSelect,
+        }),
+      );
+    }
+
+    return planner;
+  }
+
+  /**
+   * Move links to the survivors, record the snapshots, then delete the whole
+   * chunk in one statement. The snapshots are read up front, which holds
+   * because a plan never removes an article it merges others into.
+   */
+  private async mergeBatch(
+    batchId: string,
+    chunk: PlannedResolution[],
+  ): Promise<number> {
+    const removedIds = chunk.map((resolution) => resolution.removed.id);
+    const touchedClusters = new Set<string>();
+    // Clusters folded away earlier in the chunk -> the cluster they went into
+    const folded = new Map<string, string>();
+
+    const deleted = await this.prisma.$transaction(async (tx) => {
+      const removedArticles = await tx.article.findMany({
+        where: { id: { in: removedIds } },
+        include: {
+          entities: { select: { entityId: true } },
+          clusterMembers: { select: { clusterId: true, similarity: true } },
+          metrics: true,
+        },
+      });
+      const byId = new Map(removedArticles.map((row) => [row.id, row]));
+      const audits: Prisma.DuplicateResolutionCreateManyInput[] = [];
+
+      for (const resolution of chunk) {
+        const removed = byId.get(resolution.removed.id);
+        if (!removed) {
+          continue; // removed since the plan was made
+        }
+
+        const { entities, clusterMembers, metrics, ...article } = removed;
+        const movedToSurvivor = await this.moveLinks(
+          tx,
+          removed.id,
+          resolution.survivor.id,
+          entities.map((link) => link.entityId),
+          clusterMembers,
+          removedIds,
+          touchedClusters,
+          folded,
+        );
+
+        const snapshot: DuplicateSnapshot = {
+          article,
+          entityIds: entities.map((link) => link.entityId),
+          clusters: clusterMembers,
+          metrics,
+          movedToSurvivor,
+        };
+        audits.push({
+          batchId,
+          survivorId: resolution.survivor.id,
+          removedId: removed.id,
+          reason: resolution.reason,
+          similarity: resolution.similarity,
+          snapshot: JSON.parse(
+            JSON.stringify(snapshot),
+          ) as Prisma.InputJsonValue,
+        });
+      }
+
+      await tx.duplicateResolution.createMany({ data: audits });
+      const { count } = await tx.article.deleteMany({
+        where: { id: { in: audits.map((audit) => audit.removedId) } },
+      });
+      return count;
+    });
+
+    await this.refreshClusters(touchedClusters);
+    return deleted;
+  }
+
+  /**
+   * Give the survivor the removed article's entity links and, if it has no
+   * cluster yet, its cluster membership. A cluster left with only articles
+   * being removed is folded into the survivor's cluster. `memberships` were
+   * read before the chunk started, so clusters folded since are followed to
+   * where they went through `folded`.
+   */
+  private async moveLinks(
+    tx: Prisma.TransactionClient,
+    removedId: string,
+    survivorId: string,
+    entityIds: string[],
+    memberships: Array<{ clusterId: string; similarity: number }>,
+    removingIds: string[],
+    touchedClusters: Set<string>,
+    folded: Map<string, string>,
+  ): Promise<DuplicateSnapshot['movedToSurvivor']> {
+    const survivorEntities = await tx.articleEntity.findMany({
+      where: { articleId: survivorId },
+      select: { entityId: true },
+    });
+    const known = new Set(survivorEntities.map((link) => link.entityId));
+    const movedEntityIds = entityIds.filter((entityId) => !known.has(entityId));
+    await tx.articleEntity.createMany({
+      data: movedEntityIds.map((entityId) => ({
+        articleId: survivorId,
+        entityId,
+      })),
+      skipDuplicates: true,
+    });
+
+    const survivorClusters = (
+      await tx.clusterMember.findMany({
+        where: { articleId: survivorId },
+        select: { clusterId: true },
+      })
+    ).map((member) => member.clusterId);
+    const movedClusterIds: string[] = [];
+
+    for (const membership of memberships) {
+      let clusterId = membership.clusterId;
+      while (folded.has(clusterId)) {
+        clusterId = folded.get(clusterId)!;
+      }
+      const cluster = await tx.cluster.findUnique({
+        where: { id: clusterId },
+        select: { representativeId: true },
+      });
+      if (!cluster) {
+        continue;
+      }
+      touchedClusters.add(clusterId);
+
+      if (survivorClusters.length === 0) {
+        await tx.clusterMember.create({
+          data: {
+            clusterId,
+            articleId: survivorId,
+            similarity: membership.similarity,
+          },
+        });
+        survivorClusters.push(clusterId);
+        movedClusterIds.push(clusterId);
+      }
+
+      if (cluster.representativeId !== removedId) {
+        continue;
+      }
+
+      // The removed article cannot be deleted while it represents a cluster
+      if (survivorClusters.includes(clusterId)) {
+        await tx.cluster.update({
+          where: { id: clusterId },
+          data: { representativeId: survivorId },
+        });
+        continue;
+      }
+
+      const remaining = await tx.clusterMember.findFirst({
+        where: { clusterId, articleId: { notIn: removingIds } },
+        select: { articleId: true },
+      });
+      if (remaining) {
+        await tx.cluster.update({
+          where: { id: clusterId },
+          data: { representativeId: remaining.articleId },
+        });
+        continue;
+      }
+
+      const targetId = survivorClusters[0];
+      await redirectClusterReferences(tx, clusterId, targetId);
+      await tx.clusterHistory.create({
+        data: {
+          clusterId,
+          event: ClusterEvent.MERGED,
+          relatedClusterId: targetId,
+          articleIds: [removedId],
+        },
+      });
+      await tx.cluster.delete({ where: { id: clusterId } });
+      folded.set(clusterId, targetId);
+      touchedClusters.delete(clusterId);
+      touchedClusters.add(targetId);
+    }
+
+    return { entityIds: movedEntityIds, clusterIds: movedClusterIds };
+  }
+
+  /**
+   * Recreate the removed article with its links; returns the clusters touched
+   */
+  private async restore(resolution: {
+    id: string;
+    survivorId: string;
+    snapshot: Prisma.JsonValue;
+  }): Promise<string[]> {
+    const snapshot = resolution.snapshot as unknown as DuplicateSnapshot;
+    const { article } = snapshot;
+    const touched: string[] = [];
+
+    await this.prisma.$transaction(async (tx) => {
+      // Restored without a vector; the embedding job queued afterwards adds one
+      await tx.article.create({
+        data: {
+          ...article,
+          embeddingModel: null,
+          topicScores: article.topicScores ?? Prisma.DbNull,
+        },
+      });
+
+      const entities = await tx.entity.findMany({
+        where: { id: { in: snapshot.entityIds } },
+        select: { id: true },
+      });
+      await tx.articleEntity.createMany({
+        data: entities.map((entity) => ({
+          articleId: article.id,
+          entityId: entity.id,
+        })),
+        skipDuplicates: true,
+      });
+      await tx.articleMetric.createMany({
+        data: snapshot.metrics,
+        skipDuplicates: true,
+      });
+
+      const restoredClusters: string[] = [];
+      for (const membership of snapshot.clusters) {
+        const exists = await tx.cluster.findUnique({
+          where: { id: membership.clusterId },
+          select: { id: true },
+        });
+        if (exists) {
+          await tx.clusterMember.create({
+            data: { ...membership, articleId: article.id },
+          });
+          restoredClusters.push(membership.clusterId);
+          touched.push(membership.clusterId);
+        }
+      }
+
+      await tx.articleEntity.deleteMany({
+        where: {
+          articleId: resolution.survivorId,
+          entityId: { in: snapshot.movedToSurvivor.entityIds },
+        },
+      });
+      for (const clusterId of snapshot.movedToSurvivor.clusterIds) {
+        // Only hand the membership back if the restored article took it up again
+        if (!restoredClusters.includes(clusterId)) {
+          continue;
+        }
+        await tx.cluster.updateMany({
+          where: { id: clusterId, representativeId: resolution.survivorId },
+          data: { representativeId: article.id },
+        });
+        await tx.clusterMember.deleteMany({
+          where: { clusterId, articleId: resolution.survivorId },
+        });
+      }
+
+      await tx.duplicateResolution.update({
+        where: { id: resolution.id },
+        data: { undoneAt: new Date() },
+      });
+    });
+
+    return touched;
+  }
+
+  private async refreshClusters(clusterIds: Set<string>): Promise<void> {
+    for (const clusterId of clusterIds) {
+      const exists = await this.prisma.cluster.findUnique({
+        where: { id: clusterId },
+        select: { id: true },
+      });
+      if (!exists) {
+        continue;
+      }
+      await this.vectorRepository.recomputeCentroid(
+        clusterId,
+        this.embeddingService.model,
+      );
+      await this.clusteringService.refreshClusterRepresentative(clusterId);
+      await this.clusteringService.refreshClusterTopics(clusterId);
+      await this.clusteringService.touchCluster(clusterId);
+    }
+  }
+
+  private newBatchId(): string {
+    return `dedup_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }
+}
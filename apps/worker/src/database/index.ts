@@ -1 +1,5 @@
+export * from './prisma.service';
 export * from './news-storage.service';
+export * from './vector.repository';
+export * from './duplicate-plan';
+export * from './duplicate-resolution.service';
@@ -1,14 +1,35 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { PrismaClient } from '@prisma/client';
-import { ProcessedStory } from '../sources/hacker-news/hacker-news.service';
+import { ConfigService } from '@nestjs/config';
+import { PaywallPolicy, Prisma, Source } from '@prisma/client';
+import { PrismaService } from './prisma.service';
+import { planClusterRetention } from '../clustering';
+import { ArticleSaveResult, DuplicateMatch, NormalizedArticle, SavedArticleRef } from '../common/interfaces/article.interface';
+import { DefaultSourceDefinition, SourceFetchResult } from '../common/interfaces/news-source.interface';
+import { normalizeTitle } from '../common/utils/text.util';
+import { ArticleFingerprint, estimateSimilarity, fingerprintArticle } from '../common/utils/minhash.util';
+import { canonicalizeUrl } from '../common/utils/url.util';
+import { detectArticleLanguage } from '../enrichment/language/language-detector';
+import { isPaywalledByPolicy } from '../enrichment/paywall/paywall-detector';
 import * as crypto from 'crypto';
 
 @Injectable()
 export class NewsStorageService {
   private readonly logger = new Logger(NewsStorageService.name);
-  private readonly prisma = new PrismaClient();
   private readonly maxRetries = 3;
   private readonly baseDelay = 1000; // 1 second base delay
+  private readonly maxNearDuplicateCandidates = 50;
+  private readonly nearDuplicateThreshold: number;
+  private readonly nearDuplicateWindowDays: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    configService: ConfigService
+  ) {
+    const threshold = parseFloat(configService.get<string>('DEDUP_SIMILARITY_THRESHOLD') ?? '');
+    this.nearDuplicateThreshold = threshold > 0 && threshold <= 1 ? threshold : 0.8;
+    const windowDays = parseInt(configService.get<string>('DEDUP_WINDOW_DAYS') ?? '', 10);
+    this.nearDuplicateWindowDays = windowDays > 0 ? windowDays : 30;
+  }
 
   /**
    * Retry utility with exponential backoff
@@ -49,122 +70,213 @@ export class NewsStorageService {
   }
 
   /**
-   * Save Hacker News stories to the database with enhanced deduplication
+   * Save normalized articles fetched from a Source row
    */
-  async saveHackerNewsStories(stories: ProcessedStory[]): Promise<{
-    saved: number;
-    skipped: number;
-    errors: number;
-    duplicates: number;
-  }> {
-    this.logger.log(`💾 Saving ${stories.length} Hacker News stories to database...`);
-    
+  async saveArticles(articles: NormalizedArticle[], sourceId: string): Promise<ArticleSaveResult> {
+    const source = await this.retryWithBackoff(
+      () => this.prisma.source.findUnique({ where: { id: sourceId } }),
+      `Find source ${sourceId}`
+    );
+
+    if (!source) {
+      throw new Error(`Source not found: ${sourceId}`);
+    }
+
+    this.logger.log(`💾 Saving ${articles.length} articles from "${source.title}" to database...`);
+
+    const hashedArticles = articles.map(article => ({
+      ...article,
+      hash: article.hash ?? this.createArticleHash(article, source.type),
+    }));
+
+    return this.saveInBatches(hashedArticles, source);
+  }
+
+  /**
+   * Get enabled sources, optionally restricted to one Source.type
+   */
+  async getEnabledSources(type?: string): Promise<Source[]> {
+    return this.retryWithBackoff(
+      () => this.prisma.source.findMany({
+        where: { enabled: true, ...(type ? { type } : {}) },
+        orderBy: { reputation: 'desc' }
+      }),
+      `Find enabled ${type ?? ''} sources`
+    );
+  }
+
+  /**
+   * Get a Source row by ID
+   */
+  async getSource(sourceId: string): Promise<Source | null> {
+    return this.retryWithBackoff(
+      () => this.prisma.source.findUnique({ where: { id: sourceId } }),
+      `Find source ${sourceId}`
+    );
+  }
+
+  /**
+   * Split articles into batches and save them for a single source
+   */
+  private async saveInBatches(articles: NormalizedArticle[], source: Source): Promise<ArticleSaveResult> {
     let saved = 0;
     let skipped = 0;
     let errors = 0;
     let duplicates = 0;
+    let updated = 0;
+    const savedArticles: SavedArticleRef[] = [];
+    const matches: DuplicateMatch[] = [];
 
-    // First, ensure we have a Hacker News source in the database
-    const hackerNewsSource = await this.retryWithBackoff(
-      () => this.ensureHackerNewsSource(),
-      'Ensure Hacker News source'
-    );
-
-    // Process stories in batches for better performance
+    // Process articles in batches for better performance
     const batchSize = 50;
-    const batches = this.chunkArray(stories, batchSize);
+    const batches = this.chunkArray(articles, batchSize);
 
     for (const batch of batches) {
       try {
-        const result = await this.processBatch(batch, hackerNewsSource.id);
+        const result = await this.processBatch(batch, source);
         saved += result.saved;
         skipped += result.skipped;
         errors += result.errors;
         duplicates += result.duplicates;
+        updated += result.updated ?? 0;
+        savedArticles.push(...(result.savedArticles ?? []));
+        matches.push(...(result.matches ?? []));
       } catch (error) {
         this.logger.error(`❌ Batch processing failed: ${error.message}`);
         errors += batch.length;
       }
     }
 
-    this.logger.log(`💾 Database save complete: ${saved} saved, ${skipped} skipped, ${duplicates} duplicates, ${errors} errors`);
+    this.logger.log(`💾 Database save complete: ${saved} saved, ${updated} updated, ${skipped} skipped, ${duplicates} duplicates, ${errors} errors`);
     
-    return { saved, skipped, errors, duplicates };
+    return { saved, skipped, errors, duplicates, updated, savedArticles, matches };
   }
 
   /**
    * Process a batch of stories with transaction support
    */
-  private async processBatch(stories: ProcessedStory[], sourceId: string): Promise<{
-    saved: number;
-    skipped: number;
-    errors: number;
-    duplicates: number;
-  }> {
+  private async processBatch(articles: NormalizedArticle[], source: Source): Promise<ArticleSaveResult> {
     let saved = 0;
     let skipped = 0;
     let errors = 0;
     let duplicates = 0;
+    let updated = 0;
+    const savedArticles: SavedArticleRef[] = [];
+    const matches: DuplicateMatch[] = [];
 
     // Use transaction for atomic operations with retry
     await this.retryWithBackoff(
       () => this.prisma.$transaction(async (tx) => {
-      for (const story of stories) {
+      for (const article of articles) {
         try {
-          // Create content hash for idempotency
-          const contentHash = this.createContentHash(story);
+          // Content hash for idempotency is assigned by the caller
+          const contentHash = article.hash!;
+          const fingerprint = fingerprintArticle(article.title, article.summary);
           
           // Check for duplicates using multiple strategies
-          const duplicateCheck = await this.checkForDuplicates(tx, story, contentHash);
+          const duplicateCheck = await this.checkForDuplicates(tx, article, contentHash, fingerprint);
           
+          // Same story seen again: record its engagement instead of skipping it
+          const isSameStory = duplicateCheck.reason === 'hash' || duplicateCheck.reason === 'url' || duplicateCheck.reason === 'canonical';
+          if (isSameStory && this.hasEngagement(article)) {
+            const existing = duplicateCheck.existingArticle;
+            if (existing.title !== article.title) {
+              await tx.article.update({ where: { id: existing.id }, data: { title: article.title } });
+            }
+            await this.recordEngagement(tx, existing.id, article);
+            updated++;
+            this.logger.debug(`📈 Updated story: "${article.title}" (score: ${article.score ?? '-'}, comments: ${article.comments ?? '-'})`);
+            continue;
+          }
+
           if (duplicateCheck.isDuplicate) {
+            matches.push({
+              title: article.title,
+              url: article.url,
+              reason: duplicateCheck.reason as DuplicateMatch['reason'],
+              existingArticleId: duplicateCheck.existingArticle.id,
+              similarity: duplicateCheck.similarity
+            });
             if (duplicateCheck.reason === 'hash') {
               skipped++;
-              this.logger.debug(`⏭️ Skipped story (hash duplicate): "${story.title}" - matches existing article ${duplicateCheck.existingArticle?.id}`);
+              this.logger.debug(`⏭️ Skipped story (hash duplicate): "${article.title}" - matches existing article ${duplicateCheck.existingArticle?.id}`);
             } else {
               duplicates++;
-              this.logger.debug(`🔄 Found ${duplicateCheck.reason} duplicate: "${story.title}" - matches existing article ${duplicateCheck.existingArticle?.id}`);
+              this.logger.debug(`🔄 Found ${duplicateCheck.reason} duplicate (similarity ${duplicateCheck.similarity.toFixed(2)}): "${article.title}" - matches existing article ${duplicateCheck.existingArticle?.id}`);
             }
             continue;
           }
 
           // Save the article
-          await tx.article.create({
+          const language = detectArticleLanguage(article.title, article.summary);
+          const created = await tx.article.create({
             data: {
-              sourceId,
-              url: story.sourceUrl,
-              title: story.title,
-              author: story.author,
-              outlet: 'Hacker News',
-              publishedAt: new Date(story.time * 1000), // Convert Unix timestamp to Date
-              lang: 'en',
-              paywalled: false,
-              cleanedText: story.title, // For now, just use title as cleaned text
+              sourceId: source.id,
+              url: article.url,
+              canonicalUrl: canonicalizeUrl(article.url),
+              title: article.title,
+              author: article.author,
+              outlet: source.title,
+              publishedAt: article.publishedAt ? new Date(article.publishedAt) : new Date(),
+              lang: language.lang,
+              langConfidence: language.confidence,
+              paywalled: isPaywalledByPolicy(source.paywallPolicy), // refined by extraction
+              cleanedText: article.summary ?? article.title, // Feed summary when available, otherwise the title
               hash: contentHash,
+              minhash: fingerprint.minhash,
+              lshBuckets: fingerprint.buckets,
               // Note: embedding will be added later when we implement vector embeddings
             }
           });
 
+          if (this.hasEngagement(article)) {
+            await this.recordEngagement(tx, created.id, article);
+          }
+
           saved++;
-          this.logger.log(`✅ Saved story: "${story.title}" by ${story.author}`);
+          savedArticles.push({
+            id: created.id,
+            url: created.url,
+            missingAuthor: !article.author,
+            missingPublishedAt: !article.publishedAt,
+          });
+          this.logger.log(`✅ Saved story: "${article.title}" by ${article.author ?? 'unknown'}`);
         } catch (error) {
           errors++;
-          this.logger.error(`❌ Failed to save story "${story.title}": ${error.message}`);
+          this.logger.error(`❌ Failed to save story "${article.title}": ${error.message}`);
         }
       }
     }),
       'Process batch transaction'
     );
 
-    return { saved, skipped, errors, duplicates };
+    return { saved, skipped, errors, duplicates, updated, savedArticles, matches };
+  }
+
+  private hasEngagement(article: NormalizedArticle): boolean {
+    return article.score !== undefined || article.comments !== undefined;
+  }
+
+  /**
+   * Append a score/comment snapshot to the article's time series
+   */
+  private async recordEngagement(tx: Prisma.TransactionClient, articleId: string, article: NormalizedArticle): Promise<void> {
+    await tx.articleMetric.create({
+      data: {
+        articleId,
+        score: article.score,
+        comments: article.comments
+      }
+    });
   }
 
   /**
    * Check for duplicates using multiple strategies
    */
-  private async checkForDuplicates(tx: any, story: ProcessedStory, contentHash: string): Promise<{
+  private async checkForDuplicates(tx: Prisma.TransactionClient, article: NormalizedArticle, contentHash: string, fingerprint: ArticleFingerprint): Promise<{
     isDuplicate: boolean;
-    reason: 'hash' | 'url' | 'title' | 'canonical' | 'none';
+    reason: DuplicateMatch['reason'] | 'none';
+    similarity: number;
     existingArticle?: any;
   }> {
     // 1. Check by content hash (exact match) - most reliable
@@ -176,93 +288,71 @@ export class NewsStorageService {
     );
 
     if (existingByHash) {
-      return { isDuplicate: true, reason: 'hash', existingArticle: existingByHash };
+      return { isDuplicate: true, reason: 'hash', similarity: 1, existingArticle: existingByHash };
     }
 
     // 2. Check by URL (exact match)
     const existingByUrl = await this.retryWithBackoff(
       () => tx.article.findUnique({
-        where: { url: story.sourceUrl }
+        where: { url: article.url }
       }),
       'Check URL duplicate'
     );
 
     if (existingByUrl) {
-      return { isDuplicate: true, reason: 'url', existingArticle: existingByUrl };
+      return { isDuplicate: true, reason: 'url', similarity: 1, existingArticle: existingByUrl };
     }
 
-    // 3. Check by canonical URL if different from source URL
-    // Note: ProcessedStory only has sourceUrl, so we skip canonical URL check for now
-    // This would be useful when we have more sophisticated URL processing
-
-    // 4. Check by title similarity (fuzzy match) - more sophisticated
-    const normalizedTitle = this.normalizeTitle(story.title);
-    const titleWords = normalizedTitle.split(' ').filter(word => word.length > 3); // Only words longer than 3 chars
-    
-    if (titleWords.length > 0) {
-      // Check for articles with similar titles within the last 30 days
-      const existingByTitle = await this.retryWithBackoff(
-        () => tx.article.findFirst({
+    // 3. Check by canonical URL, so the same page shared with different tracking links matches
+    const canonicalUrl = canonicalizeUrl(article.url);
+    const existingByCanonical = await this.retryWithBackoff(
+      () => tx.article.findFirst({
         where: {
-          AND: [
-            {
-              OR: [
-                // Exact title match
-                { title: { equals: story.title, mode: 'insensitive' } },
-                // Contains normalized title
-                { title: { contains: normalizedTitle, mode: 'insensitive' } },
-                // Contains significant words from title
-                ...titleWords.map(word => ({
-                  title: { contains: word, mode: 'insensitive' }
-                }))
-              ]
-            },
-            {
-              publishedAt: {
-                gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) // Within last 30 days
-              }
-            }
+          OR: [
+            { canonicalUrl },
+            { url: canonicalUrl }
           ]
-        },
-        orderBy: { publishedAt: 'desc' }
+        }
       }),
-        'Check title duplicate'
+      'Check canonical URL duplicate'
+    );
+
+    if (existingByCanonical) {
+      return { isDuplicate: true, reason: 'canonical', similarity: 1, existingArticle: existingByCanonical };
+    }
+
+    // 4. Near-duplicates (reworded headlines, syndicated copies): candidates share
+    // an LSH bucket, the MinHash signatures then estimate the actual similarity
+    if (fingerprint.buckets.length > 0) {
+      const candidates: Array<{ id: string; title: string; minhash: number[] }> = await this.retryWithBackoff(
+        () => tx.article.findMany({
+          where: {
+            lshBuckets: { hasSome: fingerprint.buckets },
+            publishedAt: {
+              gte: new Date(Date.now() - this.nearDuplicateWindowDays * 24 * 60 * 60 * 1000)
+            }
+          },
+          orderBy: { publishedAt: 'desc' },
+          take: this.maxNearDuplicateCandidates,
+          select: { id: true, title: true, minhash: true }
+        }),
+        'Check near-duplicates'
       );
 
-      if (existingByTitle && (existingByTitle as any).title) {
-        // Additional validation: check if titles are actually similar
-        const similarity = this.calculateTitleSimilarity(story.title, (existingByTitle as any).title);
-        if (similarity > 0.8) { // 80% similarity threshold
-          return { isDuplicate: true, reason: 'title', existingArticle: existingByTitle };
+      let best: { article: (typeof candidates)[number]; similarity: number } | null = null;
+      for (const candidate of candidates) {
+        const similarity = estimateSimilarity(fingerprint.minhash, candidate.minhash);
+        if (!best || similarity > best.similarity) {
+          best = { article: candidate, similarity };
         }
       }
-    }
-
-    return { isDuplicate: false, reason: 'none' };
-  }
 
-  /**
-   * Calculate title similarity using simple word overlap
-   */
-  private calculateTitleSimilarity(title1: string, title2: string): number {
-    const words1 = new Set(this.normalizeTitle(title1).split(' ').filter(w => w.length > 2));
-    const words2 = new Set(this.normalizeTitle(title2).split(' ').filter(w => w.length > 2));
-    
-    const intersection = new Set([...words1].filter(x => words2.has(x)));
-    const union = new Set([...words1, ...words2]);
-    
-    return intersection.size / union.size;
-  }
+      if (best && best.similarity >= this.nearDuplicateThreshold) {
+        return { isDuplicate: true, reason: 'near-duplicate', similarity: best.similarity, existingArticle: best.article };
+      }
+    }
 
-  /**
-   * Normalize title for similarity comparison
-   */
-  private normalizeTitle(title: string): string {
-    return title
-      .toLowerCase()
-      .replace(/[^\w\s]/g, '') // Remove punctuation
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim();
+    return { isDuplicate: false, reason: 'none', similarity: 0 };
   }
 
   /**
@@ -277,55 +367,87 @@ export class NewsStorageService {
   }
 
   /**
-   * Ensure Hacker News source exists in the database
+   * Record the outcome of a fetch on its Source: counters, timestamp and the
+   * validators to send with the next conditional request
    */
-  private async ensureHackerNewsSource() {
-    const existingSource = await this.retryWithBackoff(
-      () => this.prisma.source.findUnique({
-        where: { url: 'https://hacker-news.firebaseio.com/v0' }
-      }),
-      'Find existing Hacker News source'
-    );
-
-    if (existingSource) {
-      return existingSource;
-    }
-
-    // Create Hacker News source
-    const newSource = await this.retryWithBackoff(
-      () => this.prisma.source.create({
+  async recordSourceFetch(result: Pick<SourceFetchResult, 'source' | 'notModified' | 'validators'>): Promise<void> {
+    await this.retryWithBackoff(
+      () => this.prisma.source.update({
+        where: { id: result.source.id },
         data: {
-          type: 'api',
-          title: 'Hacker News API',
-          url: 'https://hacker-news.firebaseio.com/v0',
-          country: 'US',
-          reputation: 90, // High reputation for Hacker News
-          enabled: true
+          lastFetchedAt: new Date(),
+          fetchCount: { increment: 1 },
+          ...(result.notModified ? { notModifiedCount: { increment: 1 } } : {}),
+          ...(result.validators ?? {})
         }
       }),
-      'Create Hacker News source'
+      `Record fetch for source ${result.source.id}`
     );
+  }
+
+  /**
+   * Change a Source's paywall override. ALWAYS/NEVER are applied to its stored
+   * articles right away; AUTO takes effect as articles are (re-)extracted.
+   */
+  async setSourcePaywallPolicy(sourceId: string, policy: PaywallPolicy): Promise<{ source: Source; articlesUpdated: number }> {
+    return this.prisma.$transaction(async (tx) => {
+      const source = await tx.source.update({
+        where: { id: sourceId },
+        data: { paywallPolicy: policy }
+      });
+
+      const { count } = policy === 'AUTO'
+        ? { count: 0 }
+        : await tx.article.updateMany({
+            where: { sourceId, paywalled: policy !== 'ALWAYS' },
+            data: { paywalled: policy === 'ALWAYS' }
+          });
+
+      this.logger.log(`🔒 Paywall policy for "${source.title}" set to ${policy} (${count} articles updated)`);
+      return { source, articlesUpdated: count };
+    });
+  }
+
+  /**
+   * Upsert the built-in Source rows an adapter depends on
+   */
+  async ensureSources(type: string, definitions: DefaultSourceDefinition[]): Promise<Source[]> {
+    const sources: Source[] = [];
+
+    for (const definition of definitions) {
+      const source = await this.retryWithBackoff(
+        () => this.prisma.source.upsert({
+          where: { url: definition.url },
+          update: { type },
+          create: {
+            type,
+            title: definition.title,
+            url: definition.url,
+            country: definition.country,
+            reputation: definition.reputation,
+            enabled: true
+          }
+        }),
+        `Ensure ${type} source ${definition.url}`
+      );
+      sources.push(source);
+    }
 
-    this.logger.log(`✅ Created Hacker News source: ${newSource.id}`);
-    return newSource;
+    return sources;
   }
 
   /**
-   * Create a content hash for idempotency using crypto.createHash
+   * Create a content hash for a normalized article, prefixed with the Source.type
    */
-  private createContentHash(story: ProcessedStory): string {
-    // Create a more robust hash using multiple story attributes
+  private createArticleHash(article: NormalizedArticle, sourceType: string): string {
     const content = JSON.stringify({
-      id: story.id,
-      title: this.normalizeTitle(story.title),
-      author: story.author?.toLowerCase() || 'unknown',
-      time: story.time,
-      url: story.sourceUrl
+      id: article.externalId,
+      title: normalizeTitle(article.title),
+      url: article.url
     });
-    
-    // Use SHA-256 for better collision resistance
+
     const hash = crypto.createHash('sha256').update(content).digest('hex');
-    return `hn_${hash.substring(0, 16)}`; // Use first 16 characters for shorter hash
+    return `${sourceType}_${hash.substring(0, 16)}`;
   }
 
   /**
@@ -335,16 +457,16 @@ export class NewsStorageService {
     totalArticles: number;
     totalSources: number;
     recentArticles: number;
-    hackerNewsArticles: number;
+    articlesBySource: Array<{ sourceId: string; title: string; type: string; articles: number }>;
   }> {
     const [
       totalArticles,
-      totalSources,
+      sources,
       recentArticles,
-      hackerNewsSource
+      articleCounts
     ] = await Promise.all([
       this.prisma.article.count(),
-      this.prisma.source.count(),
+      this.prisma.source.findMany({ select: { id: true, title: true, type: true } }),
       this.prisma.article.count({
         where: {
           createdAt: {
@@ -352,46 +474,47 @@ export class NewsStorageService {
           }
         }
       }),
-      this.prisma.source.findUnique({
-        where: { url: 'https://hacker-news.firebaseio.com/v0' }
+      this.prisma.article.groupBy({
+        by: ['sourceId'],
+        _count: { _all: true }
       })
     ]);
 
-    const hackerNewsArticles = hackerNewsSource 
-      ? await this.prisma.article.count({
-          where: { sourceId: hackerNewsSource.id }
-        })
-      : 0;
+    const countsBySource = new Map(articleCounts.map(group => [group.sourceId, group._count._all]));
 
     return {
       totalArticles,
-      totalSources,
+      totalSources: sources.length,
       recentArticles,
-      hackerNewsArticles
+      articlesBySource: sources.map(source => ({
+        sourceId: source.id,
+        title: source.title,
+        type: source.type,
+        articles: countsBySource.get(source.id) ?? 0
+      }))
     };
   }
 
   /**
-   * Get recent articles from Hacker News
+   * Get recent articles, optionally restricted to one Source.type and to a set of languages
    */
-  async getRecentHackerNewsArticles(limit: number = 10) {
-    const hackerNewsSource = await this.prisma.source.findUnique({
-      where: { url: 'https://hacker-news.firebaseio.com/v0' }
-    });
-
-    if (!hackerNewsSource) {
-      return [];
-    }
-
+  async getRecentArticles(limit: number = 10, sourceType?: string, languages?: string[]) {
     return this.prisma.article.findMany({
-      where: { sourceId: hackerNewsSource.id },
+      where: {
+        ...(sourceType ? { source: { type: sourceType } } : {}),
+        // Articles whose language could not be determined are kept rather than hidden
+        ...(languages?.length ? { OR: [{ lang: { in: languages } }, { lang: null }] } : {})
+      },
       orderBy: { createdAt: 'desc' },
       take: limit,
       select: {
         id: true,
         title: true,
         author: true,
+        outlet: true,
         url: true,
+        lang: true,
+        paywalled: true,
         publishedAt: true,
         createdAt: true
       }
@@ -399,54 +522,168 @@ export class NewsStorageService {
   }
 
   /**
-   * Clean up old articles (older than specified days)
+   * Fingerprint articles stored before MinHash was introduced, newest first.
+   * Their feed summary may already be replaced by the extracted body, so the
+   * stored text is the closest available approximation.
+   */
+  async backfillFingerprints(limit: number = 500): Promise<{ processed: number; remaining: number }> {
+    const articles = await this.retryWithBackoff(
+      () => this.prisma.article.findMany({
+        where: { lshBuckets: { isEmpty: true } },
+        orderBy: { publishedAt: 'desc' },
+        take: limit,
+        select: { id: true, title: true, cleanedText: true }
+      }),
+      'Find articles without fingerprints'
+    );
+
+    for (const article of articles) {
+      const fingerprint = fingerprintArticle(article.title, article.cleanedText);
+      await this.retryWithBackoff(
+        () => this.prisma.article.update({
+          where: { id: article.id },
+          data: { minhash: fingerprint.minhash, lshBuckets: fingerprint.buckets }
+        }),
+        `Fingerprint article ${article.id}`
+      );
+    }
+
+    // Articles with no usable text stay empty and are counted here on every run
+    const remaining = await this.prisma.article.count({ where: { lshBuckets: { isEmpty: true } } });
+    this.logger.log(`🧬 Fingerprinted ${articles.length} articles (${remaining} without fingerprint)`);
+
+    return { processed: articles.length, remaining };
+  }
+
+  /**
+   * Get the most recent articles that have an archived raw snapshot
+   */
+  async getArticlesWithSnapshots(limit: number = 100, sourceType?: string) {
+    return this.prisma.article.findMany({
+      where: {
+        rawSnapshotUrl: { not: null },
+        ...(sourceType ? { source: { type: sourceType } } : {})
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: { id: true, url: true }
+    });
+  }
+
+  /**
+   * Clean up old articles (older than specified days). Clusters they represent
+   * get a member that stays as representative first; clusters with none left
+   * are removed, together with the digest items pointing at them.
    */
   async cleanupOldArticles(olderThanDays: number = 30): Promise<number> {
     const cutoffDate = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
-    
+
+    const retention = await this.prisma.$transaction(async (tx) => {
+      const clusters = await tx.cluster.findMany({
+        where: { representative: { createdAt: { lt: cutoffDate } } },
+        select: {
+          id: true,
+          representativeId: true,
+          members: {
+            select: {
+              article: {
+                select: {
+                  id: true,
+                  author: true,
+                  lang: true,
+                  paywalled: true,
+                  cleanedText: true,
+                  publishedAt: true,
+                  createdAt: true,
+                  source: { select: { reputation: true } },
+                  representativeOf: { select: { id: true } }
+                }
+              }
+            }
+          }
+        }
+      });
+
+      const plan = planClusterRetention(
+        clusters.map(cluster => ({
+          id: cluster.id,
+          representativeId: cluster.representativeId,
+          members: cluster.members.map(({ article }) => ({
+            id: article.id,
+            reputation: article.source.reputation,
+            paywalled: article.paywalled,
+            hasAuthor: !!article.author,
+            hasLanguage: !!article.lang,
+            textLength: article.cleanedText.length,
+            publishedAt: article.publishedAt,
+            createdAt: article.createdAt,
+            representsOther: !!article.representativeOf && article.representativeOf.id !== cluster.id
+          }))
+        })),
+        cutoffDate
+      );
+
+      for (const { clusterId, representativeId } of plan.reassign) {
+        await tx.cluster.update({ where: { id: clusterId }, data: { representativeId } });
+      }
+      if (plan.remove.length > 0) {
+        // Digest items must not outlive their cluster; the rest of those digests stays
+        await tx.digestItem.deleteMany({ where: { clusterId: { in: plan.remove } } });
+        await tx.cluster.deleteMany({ where: { id: { in: plan.remove } } });
+      }
+      return plan;
+    });
+
+    // A representative picked again since is left for the next run rather than failing this one
     const result = await this.prisma.article.deleteMany({
       where: {
         createdAt: {
           lt: cutoffDate
-        }
+        },
+        representativeOf: { is: null }
       }
     });
 
-    this.logger.log(`🧹 Cleaned up ${result.count} articles older than ${olderThanDays} days`);
+    this.logger.log(`🧹 Cleaned up ${result.count} articles older than ${olderThanDays} days (${retention.reassign.length} clusters got a new representative, ${retention.remove.length} removed)`);
     return result.count;
   }
 
   /**
    * Bulk insert articles with enhanced deduplication (alternative method)
    */
-  async bulkInsertArticles(stories: ProcessedStory[]): Promise<{
-    saved: number;
-    skipped: number;
-    errors: number;
-    duplicates: number;
-  }> {
-    this.logger.log(`🚀 Bulk inserting ${stories.length} articles...`);
+  async bulkInsertArticles(articles: NormalizedArticle[], sourceId: string): Promise<ArticleSaveResult> {
+    this.logger.log(`🚀 Bulk inserting ${articles.length} articles...`);
     
-    const hackerNewsSource = await this.retryWithBackoff(
-      () => this.ensureHackerNewsSource(),
-      'Ensure Hacker News source for bulk insert'
+    const source = await this.retryWithBackoff(
+      () => this.prisma.source.findUnique({ where: { id: sourceId } }),
+      `Find source ${sourceId} for bulk insert`
     );
+
+    if (!source) {
+      throw new Error(`Source not found: ${sourceId}`);
+    }
     
     // Prepare data for bulk operations
     const articlesToInsert: any[] = [];
     const existingHashes = new Set<string>();
     const existingUrls = new Set<string>();
+    const hashedArticles = articles.map(article => ({
+      ...article,
+      hash: article.hash ?? this.createArticleHash(article, source.type),
+      canonicalUrl: canonicalizeUrl(article.url),
+    }));
     
     // First, get all existing hashes and URLs to avoid duplicates
     const existingArticles = await this.retryWithBackoff(
       () => this.prisma.article.findMany({
         where: {
           OR: [
-            { sourceId: hackerNewsSource.id },
-            { url: { in: stories.map(s => s.sourceUrl) } }
+            { hash: { in: hashedArticles.map(a => a.hash) } },
+            { url: { in: hashedArticles.map(a => a.url) } },
+            { canonicalUrl: { in: hashedArticles.map(a => a.canonicalUrl) } }
           ]
         },
-        select: { hash: true, url: true }
+        select: { hash: true, url: true, canonicalUrl: true }
       }),
       'Find existing articles for bulk insert'
     );
@@ -454,33 +691,42 @@ export class NewsStorageService {
     existingArticles.forEach(article => {
       existingHashes.add(article.hash);
       existingUrls.add(article.url);
+      if (article.canonicalUrl) {
+        existingUrls.add(article.canonicalUrl);
+      }
     });
     
     // Filter out duplicates and prepare for insertion
-    for (const story of stories) {
-      const contentHash = this.createContentHash(story);
-      
-      if (existingHashes.has(contentHash) || existingUrls.has(story.sourceUrl)) {
+    for (const article of hashedArticles) {
+      if (existingHashes.has(article.hash) || existingUrls.has(article.url) || existingUrls.has(article.canonicalUrl)) {
         continue; // Skip duplicates
       }
+      // Also catches tracking-link variants within this batch
+      existingUrls.add(article.canonicalUrl);
       
+      const language = detectArticleLanguage(article.title, article.summary);
+      const fingerprint = fingerprintArticle(article.title, article.summary);
       articlesToInsert.push({
-        sourceId: hackerNewsSource.id,
-        url: story.sourceUrl,
-        title: story.title,
-        author: story.author,
-        outlet: 'Hacker News',
-        publishedAt: new Date(story.time * 1000),
-        lang: 'en',
-        paywalled: false,
-        cleanedText: story.title,
-        hash: contentHash,
+        sourceId: source.id,
+        url: article.url,
+        canonicalUrl: article.canonicalUrl,
+        title: article.title,
+        author: article.author,
+        outlet: source.title,
+        publishedAt: article.publishedAt ? new Date(article.publishedAt) : new Date(),
+        lang: language.lang,
+        langConfidence: language.confidence,
+        paywalled: isPaywalledByPolicy(source.paywallPolicy),
+        cleanedText: article.summary ?? article.title,
+        hash: article.hash,
+        minhash: fingerprint.minhash,
+        lshBuckets: fingerprint.buckets,
       });
     }
     
     if (articlesToInsert.length === 0) {
       this.logger.log(`📝 No new articles to insert (all duplicates)`);
-      return { saved: 0, skipped: stories.length, errors: 0, duplicates: 0 };
+      return { saved: 0, skipped: articles.length, errors: 0, duplicates: 0 };
     }
     
     try {
@@ -494,14 +740,14 @@ export class NewsStorageService {
       );
       
       const saved = result.count;
-      const skipped = stories.length - saved;
+      const skipped = articles.length - saved;
       
       this.logger.log(`✅ Bulk insert complete: ${saved} saved, ${skipped} skipped`);
       
       return { saved, skipped, errors: 0, duplicates: 0 };
     } catch (error) {
       this.logger.error(`❌ Bulk insert failed: ${error.message}`);
-      return { saved: 0, skipped: 0, errors: stories.length, duplicates: 0 };
+      return { saved: 0, skipped: 0, errors: articles.length, duplicates: 0 };
     }
   }
 
@@ -658,134 +904,4 @@ export class NewsStorageService {
       }
     };
   }
-
-  /**
-   * Clean up existing duplicates in the database
-   */
-  async cleanupDuplicates(): Promise<{
-    removed: number;
-    hashDuplicatesRemoved: number;
-    urlDuplicatesRemoved: number;
-    titleDuplicatesRemoved: number;
-  }> {
-    this.logger.log(`🧹 Starting duplicate cleanup...`);
-    
-    let removed = 0;
-    let hashDuplicatesRemoved = 0;
-    let urlDuplicatesRemoved = 0;
-    let titleDuplicatesRemoved = 0;
-
-    try {
-      // 1. Remove hash duplicates (keep the oldest)
-      const hashDuplicates = await this.retryWithBackoff(
-        () => this.prisma.article.groupBy({
-        by: ['hash'],
-        where: { 
-          hash: { 
-            not: ''
-          } 
-        },
-        _count: { hash: true },
-        having: { 
-          hash: { 
-            _count: { 
-              gt: 1 
-            } 
-          } 
-        }
-      }),
-        'Find hash duplicates for cleanup'
-      );
-
-      for (const group of hashDuplicates) {
-        const articles = await this.prisma.article.findMany({
-          where: { hash: group.hash },
-          orderBy: { createdAt: 'asc' }, // Keep the oldest
-          skip: 1 // Skip the first (oldest) one
-        });
-
-        for (const article of articles) {
-          await this.retryWithBackoff(
-            () => this.prisma.article.delete({ where: { id: article.id } }),
-            `Delete hash duplicate article ${article.id}`
-          );
-          hashDuplicatesRemoved++;
-          removed++;
-        }
-      }
-
-      // 2. Remove URL duplicates (keep the oldest)
-      const urlDuplicates = await this.retryWithBackoff(
-        () => this.prisma.article.groupBy({
-          by: ['url'],
-          _count: { url: true },
-          having: { url: { _count: { gt: 1 } } }
-        }),
-        'Find URL duplicates for cleanup'
-      );
-
-      for (const group of urlDuplicates) {
-        const articles = await this.prisma.article.findMany({
-          where: { url: group.url },
-          orderBy: { createdAt: 'asc' }, // Keep the oldest
-          skip: 1 // Skip the first (oldest) one
-        });
-
-        for (const article of articles) {
-          await this.retryWithBackoff(
-            () => this.prisma.article.delete({ where: { id: article.id } }),
-            `Delete URL duplicate article ${article.id}`
-          );
-          urlDuplicatesRemoved++;
-          removed++;
-        }
-      }
-
-      // 3. Remove title duplicates (keep the oldest, more conservative approach)
-      const titleDuplicates = await this.retryWithBackoff(
-        () => this.prisma.article.groupBy({
-          by: ['title'],
-          _count: { title: true },
-          having: { title: { _count: { gt: 1 } } }
-        }),
-        'Find title duplicates for cleanup'
-      );
-
-      for (const group of titleDuplicates) {
-        const articles = await this.prisma.article.findMany({
-          where: { title: group.title },
-          orderBy: { createdAt: 'asc' }, // Keep the oldest
-          skip: 1 // Skip the first (oldest) one
-        });
-
-        for (const article of articles) {
-          await this.retryWithBackoff(
-            () => this.prisma.article.delete({ where: { id: article.id } }),
-            `Delete title duplicate article ${article.id}`
-          );
-          titleDuplicatesRemoved++;
-          removed++;
-        }
-      }
-
-      this.logger.log(`✅ Duplicate cleanup completed: ${removed} articles removed (${hashDuplicatesRemoved} hash, ${urlDuplicatesRemoved} URL, ${titleDuplicatesRemoved} title)`);
-      
-      return {
-        removed,
-        hashDuplicatesRemoved,
-        urlDuplicatesRemoved,
-        titleDuplicatesRemoved
-      };
-    } catch (error) {
-      this.logger.error(`❌ Duplicate cleanup failed: ${error.message}`);
-      throw error;
-    }
-  }
-
-  /**
-   * Close database connection
-   */
-  async onModuleDestroy() {
-    await this.prisma.$disconnect();
-  }
 }
@@ -0,0 +1,236 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  parseVectorLiteral,
+  toVectorLiteral,
+} from '../embeddings/embedding-codec';
+import { PrismaService } from './prisma.service';
+
+/**
+ * Dimensions of the `vector` columns; changing it needs a migration
+ */
+export const VECTOR_DIMENSIONS = 256;
+
+export interface ArticleNeighbour {
+  articleId: string;
+  clusterId: string | null;
+  similarity: number; // cosine similarity, 1 = same direction
+}
+
+export interface ClusterNeighbour {
+  clusterId: string;
+  similarity: number;
+}
+
+export interface NearestArticlesOptions {
+  model: string; // only vectors from the same model are comparable
+  limit: number;
+  publishedSince?: Date;
+  inActiveCluster?: boolean; // only members of clusters that are not frozen
+  excludeArticleId?: string;
+}
+
+type SqlClient = Pick<Prisma.TransactionClient, '$queryRaw' | '$executeRaw'>;
+
+// Candidates an HNSW scan collects per round; pgvector's default is 40 and
+// it rejects more than 1000. Iterative scans go on past it for larger limits.
+const HNSW_EF_SEARCH = 100;
+const HNSW_MAX_EF_SEARCH = 1000;
+
+/**
+ * Raw SQL access to the pgvector columns, which the Prisma client cannot read
+ * or write. Nearest-neighbour queries order by cosine distance (`<=>`) so the
+ * HNSW indexes on `Article.embedding` and `Cluster.centroidEmbedding` apply.
+ * Their filters are applied to what the index returns, so they run with
+ * iterative scans (pgvector 0.8+) to keep searching until enough rows pass.
+ */
+@Injectable()
+export class VectorRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async saveArticleEmbedding(
+    articleId: string,
+    vector: Float32Array,
+    model: string,
+  ): Promise<void> {
+    await this.prisma.$executeRaw(Prisma.sql`
+      UPDATE "Article"
+      SET "embedding" = ${toVectorLiteral(vector)}::vector, "embeddingModel" = ${model}
+      WHERE "id" = ${articleId}
+    `);
+  }
+
+  /**
+   * Current vectors of the given articles; articles without one from `model`
+   * are left out
+   */
+  async getArticleEmbeddings(
+    articleIds: string[],
+    model: string,
+  ): Promise<Map<string, Float32Array>> {
+    if (articleIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await this.prisma.$queryRaw<
+      Array<{ id: string; embedding: string }>
+    >(Prisma.sql`
+      SELECT "id", "embedding"::text AS "embedding"
+      FROM "Article"
+      WHERE "id" IN (${Prisma.join(articleIds)})
+        AND "embeddingModel" = ${model}
+        AND "embedding" IS NOT NULL
+    `);
+
+    return new Map(
+      rows.map((row) => [row.id, parseVectorLiteral(row.embedding)]),
+    );
+  }
+
+  /**
+   * Articles closest to `vector`, most similar first
+   */
+  async findNearestArticles(
+    vector: Float32Array,
+    options: NearestArticlesOptions,
+  ): Promise<ArticleNeighbour[]> {
+    const literal = toVectorLiteral(vector);
+
+    const rows = await this.withIterativeScan(options.limit, (client) =>
+      client.$queryRaw<
+        Array<{ articleId: string; clusterId: string | null; distance: number }>
+      >(Prisma.sql`
+        SELECT a."id" AS "articleId", m."clusterId", a."embedding" <=> ${literal}::vector AS "distance"
+        FROM "Article" a
+        ${
+          options.inActiveCluster
+            ? Prisma.sql`JOIN "ClusterMember" m ON m."articleId" = a."id"
+                JOIN "Cluster" c ON c."id" = m."clusterId" AND c."frozenAt" IS NULL`
+            : Prisma.sql`LEFT JOIN "ClusterMember" m ON m."articleId" = a."id"`
+        }
+        WHERE a."embedding" IS NOT NULL
+          AND a."embeddingModel" = ${options.model}
+          ${options.publishedSince ? Prisma.sql`AND a."publishedAt" >= ${options.publishedSince}` : Prisma.empty}
+          ${options.excludeArticleId ? Prisma.sql`AND a."id" <> ${options.excludeArticleId}` : Prisma.empty}
+        ORDER BY a."embedding" <=> ${literal}::vector
+        LIMIT ${options.limit}
+      `),
+    );
+
+    return rows.map((row) => ({
+      articleId: row.articleId,
+      clusterId: row.clusterId,
+      similarity: 1 - Number(row.distance),
+    }));
+  }
+
+  /**
+   * Clusters that are not frozen whose centroid is closest to `vector`,
+   * most similar first
+   */
+  async findNearestClusters(
+    vector: Float32Array,
+    limit: number,
+    excludeClusterId?: string,
+  ): Promise<ClusterNeighbour[]> {
+    const literal = toVectorLiteral(vector);
+
+    const rows = await this.withIterativeScan(limit, (client) =>
+      client.$queryRaw<
+        Array<{ clusterId: string; distance: number }>
+      >(Prisma.sql`
+        SELECT "id" AS "clusterId", "centroidEmbedding" <=> ${literal}::vector AS "distance"
+        FROM "Cluster"
+        WHERE "centroidEmbedding" IS NOT NULL
+          AND "frozenAt" IS NULL
+          ${excludeClusterId ? Prisma.sql`AND "id" <> ${excludeClusterId}` : Prisma.empty}
+        ORDER BY "centroidEmbedding" <=> ${literal}::vector
+        LIMIT ${limit}
+      `),
+    );
+
+    return rows.map((row) => ({
+      clusterId: row.clusterId,
+      similarity: 1 - Number(row.distance),
+    }));
+  }
+
+  /**
+   * Centroid and member count of a cluster. Pass a transaction client with
+   * `forUpdate` to hold the row until the new centroid is written.
+   */
+  async getCentroid(
+    clusterId: string,
+    client: SqlClient = this.prisma,
+    forUpdate = false,
+  ): Promise<{ centroid: Float32Array | null; size: number } | null> {
+    const [row] = await client.$queryRaw<
+      Array<{ centroid: string | null; centroidSize: number }>
+    >(Prisma.sql`
+      SELECT "centroidEmbedding"::text AS "centroid", "centroidSize"
+      FROM "Cluster"
+      WHERE "id" = ${clusterId}
+      ${forUpdate ? Prisma.sql`FOR UPDATE` : Prisma.empty}
+    `);
+
+    if (!row) {
+      return null;
+    }
+    return {
+      centroid: row.centroid ? parseVectorLiteral(row.centroid) : null,
+      size: row.centroidSize,
+    };
+  }
+
+  async saveCentroid(
+    clusterId: string,
+    centroid: Float32Array,
+    size: number,
+    client: SqlClient = this.prisma,
+  ): Promise<void> {
+    await client.$executeRaw(Prisma.sql`
+      UPDATE "Cluster"
+      SET "centroidEmbedding" = ${toVectorLiteral(centroid)}::vector, "centroidSize" = ${size}
+      WHERE "id" = ${clusterId}
+    `);
+  }
+
+  /**
+   * Set a cluster centroid to the mean of its members' `model` vectors,
+   * or clear it when none has one
+   */
+  async recomputeCentroid(clusterId: string, model: string): Promise<void> {
+    await this.prisma.$executeRaw(Prisma.sql`
+      UPDATE "Cluster" c
+      SET "centroidEmbedding" = s."centroid", "centroidSize" = s."size"
+      FROM (
+        SELECT avg(a."embedding") AS "centroid", count(a."embedding")::int AS "size"
+        FROM "ClusterMember" m
+        JOIN "Article" a ON a."id" = m."articleId"
+        WHERE m."clusterId" = ${clusterId} AND a."embeddingModel" = ${model}
+      ) s
+      WHERE c."id" = ${clusterId}
+    `);
+  }
+
+  /**
+   * Run a nearest-neighbour query with iterative HNSW scans. A plain scan
+   * stops after `ef_search` candidates, so when most of them are filtered out
+   * (older, frozen, other model) it returns few rows or none. Settings are
+   * transaction-local.
+   */
+  private withIterativeScan<T>(
+    limit: number,
+    query: (client: SqlClient) => Promise<T>,
+  ): Promise<T> {
+    const efSearch = Math.min(
+      Math.max(limit, HNSW_EF_SEARCH),
+      HNSW_MAX_EF_SEARCH,
+    );
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT set_config('hnsw.iterative_scan', 'strict_order', true)`;
+      await tx.$executeRaw`SELECT set_config('hnsw.ef_search', ${String(efSearch)}, true)`;
+      return query(tx);
+    });
+  }
+}
@@ -0,0 +1,173 @@
+import {
+  CandidateArticle,
+  CandidateCluster,
+  DEFAULT_PREFERENCES,
+  DigestPreferences,
+  filterCluster,
+  matchesPublisher,
+  scoreCluster,
+  selectClusters,
+} from './digest-ranking';
+
+const now = new Date('2025-09-18T12:00:00Z');
+
+function article(
+  id: string,
+  overrides: Partial<CandidateArticle> = {},
+): CandidateArticle {
+  return {
+    articleId: id,
+    url: `https://www.example.com/${id}`,
+    outlet: 'Example News',
+    lang: 'en',
+    country: 'US',
+    reputation: 50,
+    ...overrides,
+  };
+}
+
+function cluster(
+  id: string,
+  members: CandidateArticle[],
+  overrides: Partial<CandidateCluster> = {},
+): CandidateCluster {
+  return {
+    clusterId: id,
+    topics: ['ECONOMICS'],
+    topicScores: null,
+    lastMemberAt: new Date(now.getTime() - 3600000),
+    members,
+    ...overrides,
+  };
+}
+
+function preferences(
+  overrides: Partial<DigestPreferences> = {},
+): DigestPreferences {
+  return { ...DEFAULT_PREFERENCES, ...overrides };
+}
+
+describe('matchesPublisher', () => {
+  it('matches the outlet name or the URL host, ignoring case and www', () => {
+    const verge = article('a1', {
+      outlet: 'The Verge',
+      url: 'https://www.theverge.com/a1',
+    });
+
+    expect(matchesPublisher(verge, ['the verge'])).toBe(true);
+    expect(matchesPublisher(verge, ['THEVERGE.COM'])).toBe(true);
+    expect(matchesPublisher(verge, ['verge.com'])).toBe(false);
+    expect(matchesPublisher(verge, [])).toBe(false);
+  });
+});
+
+describe('filterCluster', () => {
+  it('drops members from blocked publishers and other languages', () => {
+    const filtered = filterCluster(
+      cluster('c1', [
+        article('a1'),
+        article('a2', { outlet: 'Blocked Daily' }),
+        article('a3', { lang: 'de' }),
+        article('a4', { lang: null }),
+      ]),
+      preferences({ blockedPublishers: ['Blocked Daily'], languages: ['en'] }),
+    );
+
+    expect(filtered?.members.map((member) => member.articleId)).toEqual([
+      'a1',
+      'a4',
+    ]);
+  });
+
+  it('rejects clusters outside the followed topics, the region, or with no member left', () => {
+    const story = cluster('c1', [article('a1')]);
+
+    expect(
+      filterCluster(story, preferences({ topics: ['POLITICS'] })),
+    ).toBeNull();
+    expect(filterCluster(story, preferences({ region: 'gb' }))).toBeNull();
+    expect(filterCluster(story, preferences({ region: 'us' }))).not.toBeNull();
+    expect(
+      filterCluster(story, preferences({ region: 'global' })),
+    ).not.toBeNull();
+    expect(
+      filterCluster(story, preferences({ blockedPublishers: ['example.com'] })),
+    ).toBeNull();
+  });
+});
+
+describe('scoreCluster', () => {
+  it('favors wider coverage, recent growth and preferred publishers', () => {
+    const base = scoreCluster(
+      cluster('c1', [article('a1')]),
+      preferences(),
+      now,
+    );
+
+    const wide = cluster('c2', [
+      article('a1'),
+      article('a2', { outlet: 'Other Outlet' }),
+    ]);
+    const stale = cluster('c3', [article('a1')], {
+      lastMemberAt: new Date(now.getTime() - 24 * 3600000),
+    });
+
+    expect(scoreCluster(wide, preferences(), now)).toBeGreaterThan(base);
+    expect(scoreCluster(stale, preferences(), now)).toBeLessThan(base);
+    expect(
+      scoreCluster(
+        cluster('c1', [article('a1')]),
+        preferences({ preferredPublishers: ['Example News'] }),
+        now,
+      ),
+    ).toBeCloseTo(base * 1.5);
+  });
+});
+
+describe('selectClusters', () => {
+  it('ranks the matching clusters and caps them by digest length', () => {
+    const clusters = Array.from({ length: 8 }, (_, i) =>
+      cluster(`c${i}`, [article(`a${i}`)], {
+        lastMemberAt: new Date(now.getTime() - i * 3600000),
+      }),
+    );
+    clusters.push(
+      cluster('politics', [article('p1')], { topics: ['POLITICS'] }),
+    );
+
+    const selection = selectClusters(
+      clusters,
+      preferences({ topics: ['ECONOMICS'], digestLength: 'SHORT' }),
+      now,
+    );
+
+    expect(selection.matched).toBe(8);
+    expect(selection.clusters.map((ranked) => ranked.clusterId)).toEqual([
+      'c0',
+      'c1',
+      'c2',
+      'c3',
+      'c4',
+    ]);
+  });
+
+  it('keeps only the members from publishers the user has not blocked', () => {
+    const selection = selectClusters(
+      [
+        cluster('c1', [
+          article('representative', { outlet: 'Tabloid Daily' }),
+          article('a2'),
+          article('a3', { url: 'https://tabloid.example.org/a3' }),
+        ]),
+      ],
+      preferences({
+        blockedPublishers: ['Tabloid Daily', 'tabloid.example.org'],
+      }),
+      now,
+    );
+
+    expect(selection.clusters).toEqual([
+      expect.objectContaining({ clusterId: 'c1', articleIds: ['a2'] }),
+    ]);
+  });
+});
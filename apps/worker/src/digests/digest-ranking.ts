@@ -0,0 +1,220 @@
+import { Length, Topic } from '@prisma/client';
+import { TopicScores } from '../enrichment/topics/topic-classifier';
+
+/**
+ * The `Preference` fields a digest is built from, as snapshot in `Digest.params`
+ */
+export interface DigestPreferences {
+  topics: Topic[]; // empty follows every topic
+  region: string | null; // null or "global" accepts every region
+  preferredPublishers: string[];
+  blockedPublishers: string[];
+  languages: string[]; // empty accepts all
+  digestLength: Length;
+}
+
+export interface CandidateArticle {
+  articleId: string;
+  url: string;
+  outlet: string | null;
+  lang: string | null;
+  country: string | null; // of the article's Source
+  reputation: number; // of the article's Source, 0..100
+}
+
+export interface CandidateCluster {
+  clusterId: string;
+  topics: Topic[];
+  topicScores: TopicScores | null;
+  lastMemberAt: Date;
+  members: CandidateArticle[];
+}
+
+export interface RankedCluster {
+  clusterId: string;
+  score: number;
+  articleIds: string[]; // members left after the language and publisher filters
+}
+
+export interface DigestSelection {
+  clusters: RankedCluster[];
+  matched: number;
+}
+
+// Stories per digest for each digest length preference
+export const DIGEST_ITEMS: Record<Length, number> = {
+  SHORT: 5,
+  STANDARD: 10,
+  DEEP: 20,
+};
+
+export const DEFAULT_PREFERENCES: DigestPreferences = {
+  topics: [],
+  region: null,
+  preferredPublishers: [],
+  blockedPublishers: [],
+  languages: [],
+  digestLength: Length.STANDARD,
+};
+
+// A story loses half its weight every this many hours without a new member
+const RECENCY_HALF_LIFE_HOURS = 12;
+const PREFERRED_PUBLISHER_BOOST = 1.5;
+
+/**
+ * Whether an article comes from one of the named publishers. Names match the
+ * outlet ("The Verge") or the host of the article URL ("theverge.com"),
+ * ignoring case and a leading "www.".
+ */
+export function matchesPublisher(
+  article: Pick<CandidateArticle, 'url' | 'outlet'>,
+  publishers: string[],
+): boolean {
+  if (publishers.length === 0) {
+    return false;
+  }
+
+  const names = new Set(publishers.map(normalizePublisher));
+  if (article.outlet && names.has(normalizePublisher(article.outlet))) {
+    return true;
+  }
+  const host = hostOf(article.url);
+  return (
+    host !== null &&
+    [...names].some((name) => host === name || host.endsWith(`.${name}`))
+  );
+}
+
+/**
+ * The cluster with only the members a user accepts, or null when it does not
+ * belong in their digest: none of their topics, nothing from their region, or
+ * no member left once blocked publishers and other languages are removed.
+ * Articles of undetermined language are kept, as everywhere else.
+ */
+export function filterCluster(
+  cluster: CandidateCluster,
+  preferences: DigestPreferences,
+): CandidateCluster | null {
+  if (
+    preferences.topics.length > 0 &&
+    !cluster.topics.some((topic) => preferences.topics.includes(topic))
+  ) {
+    return null;
+  }
+
+  const members = cluster.members.filter(
+    (article) =>
+      !matchesPublisher(article, preferences.blockedPublishers) &&
+      (preferences.languages.length === 0 ||
+        article.lang === null ||
+        preferences.languages.includes(article.lang)),
+  );
+  if (members.length === 0) {
+    return null;
+  }
+
+  const region = preferences.region?.toUpperCase();
+  if (
+    region &&
+    region !== 'GLOBAL' &&
+    !members.some((article) => article.country?.toUpperCase() === region)
+  ) {
+    return null;
+  }
+
+  return { ...cluster, members };
+}
+
+/**
+ * How much a story is worth a digest slot: the number of outlets covering it
+ * (log-damped), decayed by the time since it last grew, weighed up by the
+ * user's best topic score and the mean reputation of its sources, and boosted
+ * when a preferred publisher covers it
+ */
+export function scoreCluster(
+  cluster: CandidateCluster,
+  preferences: DigestPreferences,
+  now: Date,
+): number {
+  const outlets = new Set(
+    cluster.members.map(
+      (article) => article.outlet ?? hostOf(article.url) ?? article.articleId,
+    ),
+  );
+  const coverage = Math.log2(1 + outlets.size);
+
+  const hours = Math.max(
+    (now.getTime() - cluster.lastMemberAt.getTime()) / 3600000,
+    0,
+  );
+  const recency = Math.pow(0.5, hours / RECENCY_HALF_LIFE_HOURS);
+
+  const relevance =
+    1 +
+    Math.max(
+      0,
+      ...preferences.topics.map((topic) => cluster.topicScores?.[topic] ?? 0),
+    );
+
+  const reputation =
+    cluster.members.reduce((sum, article) => sum + article.reputation, 0) /
+    cluster.members.length /
+    100;
+
+  const boost = cluster.members.some((article) =>
+    matchesPublisher(article, preferences.preferredPublishers),
+  )
+    ? PREFERRED_PUBLISHER_BOOST
+    : 1;
+
+  return coverage * recency * relevance * (0.5 + reputation) * boost;
+}
+
+/**
+ * The clusters for a user's digest, best first, at most as many as their
+ * digest length allows, and how many passed the filters before the cap
+ */
+export function selectClusters(
+  clusters: CandidateCluster[],
+  preferences: DigestPreferences,
+  now: Date,
+): DigestSelection {
+  const ranked = clusters
+    .map((cluster) => filterCluster(cluster, preferences))
+    .filter((cluster) => cluster !== null)
+    .map((cluster) => ({
+      cluster,
+      score: scoreCluster(cluster, preferences, now),
+    }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.cluster.lastMemberAt.getTime() - a.cluster.lastMemberAt.getTime(),
+    );
+
+  return {
+    clusters: ranked
+      .slice(0, DIGEST_ITEMS[preferences.digestLength])
+      .map(({ cluster, score }) => ({
+        clusterId: cluster.clusterId,
+        score,
+        articleIds: cluster.members.map((article) => article.articleId),
+      })),
+    matched: ranked.length,
+  };
+}
+
+function normalizePublisher(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/^www\./, '');
+}
+
+function hostOf(url: string): string | null {
+  try {
+    return normalizePublisher(new URL(url).hostname);
+  } catch {
+    return null;
+  }
+}
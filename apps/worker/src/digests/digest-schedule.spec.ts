@@ -0,0 +1,102 @@
+import { isValidTimeZone, nextDigestRun } from './digest-schedule';
+
+const everyDay = [1, 2, 3, 4, 5, 6, 7];
+
+describe('nextDigestRun', () => {
+  it('runs at the local time, later today or on the next day', () => {
+    const schedule = {
+      timezone: 'Europe/Berlin',
+      time: '07:00',
+      days: everyDay,
+    };
+
+    // 05:00 UTC is 07:00 in Berlin in summer
+    expect(
+      nextDigestRun(schedule, new Date('2025-07-01T04:00:00Z'))?.toISOString(),
+    ).toBe('2025-07-01T05:00:00.000Z');
+    expect(
+      nextDigestRun(schedule, new Date('2025-07-01T05:00:00Z'))?.toISOString(),
+    ).toBe('2025-07-02T05:00:00.000Z');
+  });
+
+  it('uses the local date, not the UTC one', () => {
+    const schedule = {
+      timezone: 'Asia/Tokyo',
+      time: '08:30',
+      days: everyDay,
+    };
+
+    // 2025-07-01T20:00Z is already July 2nd, 05:00 in Tokyo
+    expect(
+      nextDigestRun(schedule, new Date('2025-07-01T20:00:00Z'))?.toISOString(),
+    ).toBe('2025-07-01T23:30:00.000Z');
+  });
+
+  it('keeps the local time across DST changes', () => {
+    const schedule = {
+      timezone: 'America/New_York',
+      time: '07:00',
+      days: everyDay,
+    };
+
+    // EDT ends on 2025-11-02: 07:00 local moves from 11:00 to 12:00 UTC
+    expect(
+      nextDigestRun(schedule, new Date('2025-11-01T12:00:00Z'))?.toISOString(),
+    ).toBe('2025-11-02T12:00:00.000Z');
+    // EDT starts on 2025-03-09
+    expect(
+      nextDigestRun(schedule, new Date('2025-03-08T13:00:00Z'))?.toISOString(),
+    ).toBe('2025-03-09T11:00:00.000Z');
+  });
+
+  it('moves times skipped by DST past the gap and runs repeated ones once', () => {
+    const skipped = {
+      timezone: 'America/New_York',
+      time: '02:30',
+      days: everyDay,
+    };
+    const repeated = { ...skipped, time: '01:30' };
+
+    // 02:30 does not exist on 2025-03-09; it runs at 03:30 EDT
+    expect(
+      nextDigestRun(skipped, new Date('2025-03-09T00:00:00Z'))?.toISOString(),
+    ).toBe('2025-03-09T07:30:00.000Z');
+    // 01:30 happens twice on 2025-11-02; the first is 01:30 EDT
+    const first = nextDigestRun(repeated, new Date('2025-11-02T00:00:00Z'));
+    expect(first?.toISOString()).toBe('2025-11-02T05:30:00.000Z');
+    expect(nextDigestRun(repeated, first!)?.toISOString()).toBe(
+      '2025-11-03T06:30:00.000Z',
+    );
+  });
+
+  it('skips unselected weekdays and pauses without any', () => {
+    const weekdays = { timezone: 'UTC', time: '09:00', days: [1, 2, 3, 4, 5] };
+
+    // Friday 2025-07-04 after 09:00: next is Monday
+    expect(
+      nextDigestRun(weekdays, new Date('2025-07-04T10:00:00Z'))?.toISOString(),
+    ).toBe('2025-07-07T09:00:00.000Z');
+    expect(
+      nextDigestRun(
+        { ...weekdays, days: [] },
+        new Date('2025-07-04T10:00:00Z'),
+      ),
+    ).toBeNull();
+  });
+
+  it('rejects malformed times and unknown timezones', () => {
+    const after = new Date('2025-07-01T00:00:00Z');
+
+    expect(() =>
+      nextDigestRun({ timezone: 'UTC', time: '7:00', days: everyDay }, after),
+    ).toThrow();
+    expect(() =>
+      nextDigestRun(
+        { timezone: 'Mars/Olympus', time: '07:00', days: everyDay },
+        after,
+      ),
+    ).toThrow();
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    expect(isValidTimeZone('America/Los_Angeles')).toBe(true);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * When a user wants their digest, in their own timezone
+ */
+export interface DigestSchedule {
+  timezone: string; // IANA name, e.g. "Europe/Berlin"
+  time: string; // local "HH:mm"
+  days: number[]; // ISO weekdays, 1 = Monday ... 7 = Sunday; empty pauses digests
+}
+
+const DAY = 24 * 3600000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The first run of the schedule strictly after `after`, in UTC, or null when
+ * no weekday is selected. A local time skipped by a DST change runs the same
+ * amount later (02:30 becomes 03:30 when clocks jump from 02:00 to 03:00); one
+ * repeated by a change runs at its first occurrence. Throws on an unknown
+ * timezone or a malformed time.
+ */
+export function nextDigestRun(
+  schedule: DigestSchedule,
+  after: Date,
+): Date | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(schedule.time);
+  if (!match) {
+    throw new Error(`Invalid digest time '${schedule.time}', expected HH:mm`);
+  }
+  const days = new Set(schedule.days);
+  if (days.size === 0) {
+    return null;
+  }
+
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  const today = localParts(after.getTime(), schedule.timezone);
+
+  // Today may have passed already; a week later is always the same weekday
+  for (let offset = 0; offset <= 7; offset++) {
+    const date = Date.UTC(today.year, today.month - 1, today.day + offset);
+    const weekday = new Date(date).getUTCDay() || 7;
+    if (!days.has(weekday)) {
+      continue;
+    }
+
+    const run = wallTimeToUtc(
+      date + (hour * 60 + minute) * 60000,
+      schedule.timezone,
+    );
+    if (run > after.getTime()) {
+      return new Date(run);
+    }
+  }
+  return null;
+}
+
+/**
+ * The UTC instant at which clocks in `timeZone` show `wall` (a local date and
+ * time encoded as if it were UTC)
+ */
+function wallTimeToUtc(wall: number, timeZone: string): number {
+  // At most one offset change falls within a day around any wall time
+  const before = wall - offsetAt(wall - DAY, timeZone);
+  const after = wall - offsetAt(wall + DAY, timeZone);
+  const shows = (instant: number) =>
+    instant + offsetAt(instant, timeZone) === wall;
+
+  if (shows(before)) {
+    return after < before && shows(after) ? after : before;
+  }
+  if (shows(after)) {
+    return after;
+  }
+  // Skipped by a change: the offset before it moves the run past the gap
+  return before;
+}
+
+/**
+ * How far local time in `timeZone` is ahead of UTC at `instant`, in ms
+ */
+function offsetAt(instant: number, timeZone: string): number {
+  const parts = localParts(instant, timeZone);
+  const local = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return local - (instant - (((instant % 1000) + 1000) % 1000));
+}
+
+function localParts(instant: number, timeZone: string) {
+  const values: Record<string, number> = {};
+  for (const part of formatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      values[part.type] = Number(part.value);
+    }
+  }
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour,
+    minute: values.minute,
+    second: values.second,
+  };
+}
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let cached = formatters.get(timeZone);
+  if (!cached) {
+    cached = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, cached);
+  }
+  return cached;
+}
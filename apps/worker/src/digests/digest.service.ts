@@ -0,0 +1,347 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Preference, Prisma } from '@prisma/client';
+import { DEFAULT_DIGEST_DAYS, DEFAULT_DIGEST_TIME } from '@snag/share';
+import { PrismaService } from '../database/prisma.service';
+import { TopicScores } from '../enrichment/topics/topic-classifier';
+import { SummarizationService } from '../summarization';
+import {
+  CandidateCluster,
+  DEFAULT_PREFERENCES,
+  DIGEST_ITEMS,
+  DigestPreferences,
+  selectClusters,
+} from './digest-ranking';
+import {
+  DigestSchedule,
+  isValidTimeZone,
+  nextDigestRun,
+} from './digest-schedule';
+
+export interface DigestBuildResult {
+  userId: string;
+  status: 'created' | 'empty' | 'user-not-found' | 'rescheduled';
+  digestId: string | null;
+  since: string | null;
+  candidates: number; // clusters that grew since the last digest
+  matched: number; // of which passed the user's filters
+  items: number;
+}
+
+export interface ScheduledDigestRun {
+  userId: string;
+  runAt: Date;
+}
+
+/**
+ * Snapshot stored in `Digest.params`: the preferences used and the window
+ * the stories were taken from
+ */
+export interface DigestParams extends DigestPreferences {
+  since: string;
+  until: string;
+  maxItems: number;
+  candidates: number;
+  matched: number;
+}
+
+const scheduleSelect = {
+  id: true,
+  timezone: true,
+  nextDigestAt: true,
+  preferences: { select: { digestTime: true, digestDays: true } },
+} satisfies Prisma.UserSelect;
+
+const candidateSelect = {
+  id: true,
+  topics: true,
+  topicScores: true,
+  lastMemberAt: true,
+  members: {
+    select: {
+      article: {
+        select: {
+          id: true,
+          url: true,
+          outlet: true,
+          lang: true,
+          source: { select: { country: true, reputation: true } },
+        },
+      },
+    },
+  },
+} satisfies Prisma.ClusterSelect;
+
+/**
+ * Personalized digests: the stories that grew since a user's last digest,
+ * filtered and ranked by their `Preference`, each with a headline and summary
+ * of the user's digest length. Users without preferences get the defaults.
+ * Digests run at the local time and weekdays users pick; `User.nextDigestAt`
+ * holds the next run in UTC.
+ */
+@Injectable()
+export class DigestService {
+  private readonly logger = new Logger(DigestService.name);
+  private readonly lookbackHours: number;
+  // Newest clusters considered per digest; plenty for a day of news
+  private readonly maxCandidates = 500;
+  // Runs this close are queued as delayed jobs; longer than the time between
+  // scheduling passes, so none is queued late
+  private readonly scheduleHorizon = 15 * 60 * 1000;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly summarizationService: SummarizationService,
+    configService: ConfigService,
+  ) {
+    this.lookbackHours = Number(configService.get('DIGEST_LOOKBACK_HOURS', 24));
+  }
+
+  /**
+   * Give users without a next run one, then return the runs due within the
+   * scheduling horizon, to be queued as delayed jobs. Runs missed while the
+   * worker was down are returned too and run right away. Paused users have no
+   * next run and are left alone until they change their schedule, which
+   * clears `nextDigestAt` again.
+   */
+  async scheduleDigests(now: Date = new Date()): Promise<ScheduledDigestRun[]> {
+    const unscheduled = await this.prisma.user.findMany({
+      where: {
+        nextDigestAt: null,
+        NOT: { preferences: { is: { digestDays: { isEmpty: true } } } },
+      },
+      select: scheduleSelect,
+    });
+    for (const user of unscheduled) {
+      const runAt = nextDigestRun(this.scheduleOf(user), now);
+      if (runAt) {
+        await this.prisma.user.update({
+          where: { id: user.id },
+          data: { nextDigestAt: runAt },
+        });
+      }
+    }
+
+    const due = await this.prisma.user.findMany({
+      where: {
+        nextDigestAt: { lte: new Date(now.getTime() + this.scheduleHorizon) },
+      },
+      select: { id: true, nextDigestAt: true },
+      orderBy: { nextDigestAt: 'asc' },
+    });
+    return due.map((user) => ({ userId: user.id, runAt: user.nextDigestAt! }));
+  }
+
+  /**
+   * Build the digest of a scheduled run and schedule the user's next one.
+   * A run the user rescheduled since it was queued is skipped.
+   */
+  async buildScheduledDigest(
+    userId: string,
+    scheduledFor: Date,
+    now: Date = new Date(),
+  ): Promise<DigestBuildResult> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { nextDigestAt: true },
+    });
+    if (user && user.nextDigestAt?.getTime() !== scheduledFor.getTime()) {
+      this.logger.log(
+        `⏭️ Digest run of user ${userId} at ${scheduledFor.toISOString()} was rescheduled, skipping`,
+      );
+      return {
+        userId,
+        status: 'rescheduled',
+        digestId: null,
+        since: null,
+        candidates: 0,
+        matched: 0,
+        items: 0,
+      };
+    }
+
+    const result = await this.buildDigest(userId, now);
+    if (result.status !== 'user-not-found') {
+      await this.reschedule(userId, scheduledFor > now ? scheduledFor : now);
+    }
+    return result;
+  }
+
+  /**
+   * Set the user's next run to the first one after `after`. Also used when a
+   * scheduled run failed for good, so one bad run does not stop the next.
+   */
+  async reschedule(userId: string, after: Date): Promise<Date | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: scheduleSelect,
+    });
+    if (!user) {
+      return null;
+    }
+
+    const runAt = nextDigestRun(this.scheduleOf(user), after);
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { nextDigestAt: runAt },
+    });
+    return runAt;
+  }
+
+  async buildDigest(
+    userId: string,
+    now: Date = new Date(),
+  ): Promise<DigestBuildResult> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        preferences: true,
+        digests: {
+          orderBy: { generatedAt: 'desc' },
+          take: 1,
+          select: { generatedAt: true },
+        },
+      },
+    });
+    if (!user) {
+      this.logger.warn(`⚠️ User ${userId} no longer exists, skipping digest`);
+      return {
+        userId,
+        status: 'user-not-found',
+        digestId: null,
+        since: null,
+        candidates: 0,
+        matched: 0,
+        items: 0,
+      };
+    }
+
+    const preferences = toPreferences(user.preferences);
+    const since =
+      user.digests[0]?.generatedAt ??
+      new Date(now.getTime() - this.lookbackHours * 3600000);
+
+    const clusters = await this.prisma.cluster.findMany({
+      where: {
+        lastMemberAt: { gt: since, lte: now },
+        ...(preferences.topics.length > 0
+          ? { topics: { hasSome: preferences.topics } }
+          : {}),
+        // Stories the user voted down stay out, even when they grow again
+        NOT: { feedbacks: { some: { userId, vote: { lt: 0 } } } },
+      },
+      orderBy: { lastMemberAt: 'desc' },
+      take: this.maxCandidates,
+      select: candidateSelect,
+    });
+    const candidates = clusters.map(toCandidate);
+    const selection = selectClusters(candidates, preferences, now);
+
+    // Stories are told only from the articles that passed the user's filters
+    const items: Prisma.DigestItemCreateWithoutDigestInput[] = [];
+    for (const { clusterId, articleIds } of selection.clusters) {
+      const story = await this.summarizationService.summarizeStory(
+        clusterId,
+        preferences.digestLength,
+        articleIds,
+      );
+      if (!story) {
+        continue; // merged away since it was selected
+      }
+      items.push({
+        cluster: { connect: { id: clusterId } },
+        rank: items.length + 1,
+        headline: story.headline,
+        summary: story.summary,
+        sources: story.sources as unknown as Prisma.InputJsonValue,
+      });
+    }
+
+    const result = {
+      userId,
+      since: since.toISOString(),
+      candidates: candidates.length,
+      matched: selection.matched,
+      items: items.length,
+    };
+    if (items.length === 0) {
+      this.logger.log(
+        `📰 Nothing new for user ${userId} since ${result.since} (${candidates.length} candidates)`,
+      );
+      return { ...result, status: 'empty', digestId: null };
+    }
+
+    const params: DigestParams = {
+      ...preferences,
+      since: result.since,
+      until: now.toISOString(),
+      maxItems: DIGEST_ITEMS[preferences.digestLength],
+      candidates: result.candidates,
+      matched: result.matched,
+    };
+    const digest = await this.prisma.digest.create({
+      data: {
+        userId,
+        generatedAt: now,
+        params: params as unknown as Prisma.InputJsonValue,
+        items: { create: items },
+      },
+      select: { id: true },
+    });
+
+    this.logger.log(
+      `📰 Built digest ${digest.id} for user ${userId} with ${items.length} of ${candidates.length} stories`,
+    );
+    return { ...result, status: 'created', digestId: digest.id };
+  }
+
+  private scheduleOf(
+    user: Prisma.UserGetPayload<{ select: typeof scheduleSelect }>,
+  ): DigestSchedule {
+    let timezone = user.timezone;
+    if (!isValidTimeZone(timezone)) {
+      this.logger.warn(
+        `⚠️ User ${user.id} has an unknown timezone '${timezone}', scheduling in UTC`,
+      );
+      timezone = 'UTC';
+    }
+    return {
+      timezone,
+      time: user.preferences?.digestTime ?? DEFAULT_DIGEST_TIME,
+      days: user.preferences?.digestDays ?? DEFAULT_DIGEST_DAYS,
+    };
+  }
+}
+
+function toPreferences(preference: Preference | null): DigestPreferences {
+  if (!preference) {
+    return DEFAULT_PREFERENCES;
+  }
+  return {
+    topics: preference.topics,
+    region: preference.region,
+    preferredPublishers: preference.preferredPublishers,
+    blockedPublishers: preference.blockedPublishers,
+    languages: preference.languages,
+    digestLength: preference.digestLength,
+  };
+}
+
+function toCandidate(
+  cluster: Prisma.ClusterGetPayload<{ select: typeof candidateSelect }>,
+): CandidateCluster {
+  return {
+    clusterId: cluster.id,
+    topics: cluster.topics,
+    topicScores: cluster.topicScores as TopicScores | null,
+    lastMemberAt: cluster.lastMemberAt,
+    members: cluster.members.map(({ article }) => ({
+      articleId: article.id,
+      url: article.url,
+      outlet: article.outlet,
+      lang: article.lang,
+      country: article.source.country,
+      reputation: article.source.reputation,
+    })),
+  };
+}
@@ -0,0 +1,2 @@
+export * from './digest-ranking';
+export * from './digest.service';
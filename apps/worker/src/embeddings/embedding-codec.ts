@@ -0,0 +1,49 @@
+/**
+ * Vectors travel to and from the pgvector columns (`Article.embedding`,
+ * `Cluster.centroidEmbedding`) in pgvector's text form, `[0.1,-0.2,...]`,
+ * cast with `::vector` on the way in and `::text` on the way out.
+ */
+export function toVectorLiteral(vector: Float32Array | number[]): string {
+  const values: string[] = [];
+  for (let i = 0; i < vector.length; i++) {
+    if (!Number.isFinite(vector[i])) {
+      throw new Error(`Embedding value at ${i} is not finite`);
+    }
+    values.push(String(vector[i]));
+  }
+  return `[${values.join(',')}]`;
+}
+
+export function parseVectorLiteral(literal: string): Float32Array {
+  const trimmed = literal.trim();
+  if (!trimmed.startsWith('[') || !trimmed.endsWith(']')) {
+    throw new Error(`Not a vector literal: ${trimmed.slice(0, 20)}`);
+  }
+
+  const body = trimmed.slice(1, -1).trim();
+  if (body === '') {
+    return new Float32Array(0);
+  }
+
+  const values = body.split(',').map(Number);
+  const invalid = values.findIndex((value) => !Number.isFinite(value));
+  if (invalid !== -1) {
+    throw new Error(`Vector literal has an invalid value at ${invalid}`);
+  }
+  return Float32Array.from(values);
+}
+
+export function cosine(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
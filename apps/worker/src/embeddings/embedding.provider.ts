@@ -0,0 +1,9 @@
+/**
+ * Turns text into fixed-size vectors. `name` identifies the model and its
+ * version; vectors from different models (or dimensions) are not comparable.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
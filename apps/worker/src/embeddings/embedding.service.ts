@@ -0,0 +1,250 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../database/prisma.service';
+import {
+  VECTOR_DIMENSIONS,
+  VectorRepository,
+} from '../database/vector.repository';
+import { EmbeddingProvider } from './embedding.provider';
+import { HashingEmbeddingProvider } from './hashing-embedding.provider';
+
+export interface EmbeddingRunResult {
+  embedded: number;
+  skipped: number; // already embedded with the current model, or no usable text
+  centroidsUpdated: number;
+}
+
+// Title plus the lead of the body; the rest of a long article adds mostly noise
+const EMBEDDING_TEXT_LENGTH = 1000;
+
+/**
+ * Article and cluster embeddings. Articles store their vector with the model
+ * that produced it; cluster centroids are the running mean of their members'
+ * vectors, with `centroidSize` counting the members folded in.
+ */
+@Injectable()
+export class EmbeddingService {
+  private readonly logger = new Logger(EmbeddingService.name);
+  private readonly provider: EmbeddingProvider;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly vectorRepository: VectorRepository,
+    configService: ConfigService,
+  ) {
+    const name = configService.get<string>('EMBEDDING_PROVIDER', 'hashing');
+
+    if (name === 'hashing') {
+      this.provider = new HashingEmbeddingProvider();
+    } else {
+      throw new Error(`Unknown EMBEDDING_PROVIDER '${name}'`);
+    }
+
+    if (this.provider.dimensions !== VECTOR_DIMENSIONS) {
+      throw new Error(
+        `Embedding provider ${this.provider.name} produces ${this.provider.dimensions} dimensions, the vector columns hold ${VECTOR_DIMENSIONS}`,
+      );
+    }
+
+    this.logger.log(
+      `🧮 Embedding provider: ${this.provider.name} (${this.provider.dimensions} dimensions)`,
+    );
+  }
+
+  /**
+   * Model identifier stored in `Article.embeddingModel`
+   */
+  get model(): string {
+    return `${this.provider.name}/${this.provider.dimensions}`;
+  }
+
+  get dimensions(): number {
+    return this.provider.dimensions;
+  }
+
+  async embedTexts(texts: string[]): Promise<Float32Array[]> {
+    return this.provider.embed(texts);
+  }
+
+  /**
+   * Embed articles that have no vector from the current model yet. Articles
+   * already in a cluster are folded into its centroid, unless `updateCentroids`
+   * is off because the caller recomputes centroids itself.
+   */
+  async embedArticles(
+    articleIds: string[],
+    updateCentroids = true,
+  ): Promise<EmbeddingRunResult & { clusterIds: string[] }> {
+    const articles = await this.prisma.article.findMany({
+      where: {
+        id: { in: articleIds },
+        OR: [{ embeddingModel: null }, { embeddingModel: { not: this.model } }],
+      },
+      select: {
+        id: true,
+        title: true,
+        cleanedText: true,
+        clusterMembers: { select: { clusterId: true } },
+      },
+    });
+
+    const vectors = await this.provider.embed(
+      articles.map((article) => this.articleText(article)),
+    );
+
+    const clusterIds = new Set<string>();
+    let embedded = 0;
+    let centroidsUpdated = 0;
+
+    for (let i = 0; i < articles.length; i++) {
+      const article = articles[i];
+      const vector = vectors[i];
+      if (isZero(vector)) {
+        continue;
+      }
+
+      await this.vectorRepository.saveArticleEmbedding(
+        article.id,
+        vector,
+        this.model,
+      );
+      embedded++;
+
+      for (const { clusterId } of article.clusterMembers) {
+        clusterIds.add(clusterId);
+        if (updateCentroids) {
+          await this.addToCentroid(clusterId, vector);
+          centroidsUpdated++;
+        }
+      }
+    }
+
+    return {
+      embedded,
+      skipped: articleIds.length - embedded,
+      centroidsUpdated,
+      clusterIds: [...clusterIds],
+    };
+  }
+
+  /**
+   * Fold one member vector into a cluster centroid. The row is locked so
+   * concurrent jobs adding to the same cluster do not lose updates.
+   */
+  async addToCentroid(clusterId: string, vector: Float32Array): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const cluster = await this.vectorRepository.getCentroid(
+        clusterId,
+        tx,
+        true,
+      );
+      if (!cluster) {
+        return;
+      }
+
+      // A centroid from another model (or none) restarts from this member
+      const current =
+        cluster.centroid?.length === vector.length && cluster.size > 0
+          ? cluster.centroid
+          : null;
+      const size = current ? cluster.size : 0;
+
+      const centroid = new Float32Array(vector.length);
+      for (let i = 0; i < vector.length; i++) {
+        centroid[i] =
+          ((current ? current[i] * size : 0) + vector[i]) / (size + 1);
+      }
+
+      await this.vectorRepository.saveCentroid(
+        clusterId,
+        centroid,
+        size + 1,
+        tx,
+      );
+    });
+  }
+
+  /**
+   * Rebuild centroids from the current-model vectors of their members,
+   * e.g. after a backfill or when membership changed
+   */
+  async recomputeCentroids(clusterIds: string[]): Promise<number> {
+    for (const clusterId of clusterIds) {
+      await this.vectorRepository.recomputeCentroid(clusterId, this.model);
+    }
+    return clusterIds.length;
+  }
+
+  /**
+   * Embed existing articles that have no current-model vector, newest first,
+   * then rebuild the centroids of the clusters they belong to
+   */
+  async backfill(
+    limit: number = 1000,
+  ): Promise<EmbeddingRunResult & { remaining: number }> {
+    const missing: Prisma.ArticleWhereInput = {
+      OR: [{ embeddingModel: null }, { embeddingModel: { not: this.model } }],
+    };
+
+    const articles = await this.prisma.article.findMany({
+      where: missing,
+      orderBy: { publishedAt: 'desc' },
+      take: limit,
+      select: { id: true },
+    });
+
+    const result = await this.embedArticles(
+      articles.map((article) => article.id),
+      false,
+    );
+    const centroidsUpdated = await this.recomputeCentroids(result.clusterIds);
+    // Articles without usable text stay unembedded and are counted on every run
+    const remaining = await this.prisma.article.count({ where: missing });
+
+    this.logger.log(
+      `🧮 Backfilled ${result.embedded} embeddings, rebuilt ${centroidsUpdated} centroids (${remaining} articles without ${this.model} embedding)`,
+    );
+
+    return {
+      embedded: result.embedded,
+      skipped: result.skipped,
+      centroidsUpdated,
+      remaining,
+    };
+  }
+
+  async getStats() {
+    const [embedded, missing, clustersWithCentroid] = await Promise.all([
+      this.prisma.article.count({ where: { embeddingModel: this.model } }),
+      this.prisma.article.count({
+        where: {
+          OR: [
+            { embeddingModel: null },
+            { embeddingModel: { not: this.model } },
+          ],
+        },
+      }),
+      this.prisma.cluster.count({ where: { centroidSize: { gt: 0 } } }),
+    ]);
+
+    return {
+      provider: this.provider.name,
+      model: this.model,
+      dimensions: this.dimensions,
+      embedded,
+      missing,
+      clustersWithCentroid,
+    };
+  }
+
+  private articleText(article: { title: string; cleanedText: string }): string {
+    return article.cleanedText && article.cleanedText !== article.title
+      ? `${article.title}\n${article.cleanedText.slice(0, EMBEDDING_TEXT_LENGTH)}`
+      : article.title;
+  }
+}
+
+function isZero(vector: Float32Array): boolean {
+  return vector.every((value) => value === 0);
+}
@@ -0,0 +1,55 @@
+import { cosine, parseVectorLiteral, toVectorLiteral } from './embedding-codec';
+import { HashingEmbeddingProvider } from './hashing-embedding.provider';
+
+describe('embedding codec', () => {
+  it('should round-trip float32 vectors through the pgvector text form', () => {
+    const vector = new Float32Array([0.5, -1.25, 3]);
+    const literal = toVectorLiteral(vector);
+
+    expect(literal).toBe('[0.5,-1.25,3]');
+    expect(parseVectorLiteral(literal)).toEqual(vector);
+  });
+
+  it('should parse literals as Postgres prints them', () => {
+    expect(parseVectorLiteral(' [1e-05,2] ')).toEqual(
+      new Float32Array([0.00001, 2]),
+    );
+    expect(parseVectorLiteral('[]')).toEqual(new Float32Array(0));
+  });
+
+  it('should reject malformed literals and non-finite values', () => {
+    expect(() => parseVectorLiteral('1,2')).toThrow('Not a vector literal');
+    expect(() => parseVectorLiteral('[1,x]')).toThrow('invalid value at 1');
+    expect(() => toVectorLiteral([1, NaN])).toThrow('not finite');
+  });
+});
+
+describe('HashingEmbeddingProvider', () => {
+  const provider = new HashingEmbeddingProvider();
+
+  it('should produce deterministic unit vectors', async () => {
+    const [a, b] = await provider.embed([
+      'Central bank holds interest rates steady',
+      'Central bank holds interest rates steady',
+    ]);
+    expect(a).toHaveLength(provider.dimensions);
+    expect(a).toEqual(b);
+    expect(cosine(a, a)).toBeCloseTo(1, 5);
+  });
+
+  it('should place related texts closer than unrelated ones', async () => {
+    const [rates, ratesAgain, rust] = await provider.embed([
+      'Central bank holds interest rates steady as inflation eases',
+      'Interest rates unchanged: central bank waits for inflation to ease',
+      'New Rust release speeds up compile times for large crates',
+    ]);
+    expect(cosine(rates, ratesAgain)).toBeGreaterThan(
+      cosine(rates, rust) + 0.3,
+    );
+  });
+
+  it('should return a zero vector for text without terms', async () => {
+    const [empty] = await provider.embed(['  -- ']);
+    expect(empty.every((value) => value === 0)).toBe(true);
+  });
+});
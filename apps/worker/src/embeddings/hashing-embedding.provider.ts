@@ -0,0 +1,72 @@
+import { isStopword } from '../common/utils/text.util';
+import { EmbeddingProvider } from './embedding.provider';
+
+const DIMENSIONS = 256;
+const BIGRAM_WEIGHT = 0.5;
+
+/**
+ * Built-in offline provider: feature hashing of terms and term bigrams into a
+ * fixed number of dimensions with sublinear term frequency, L2-normalized.
+ * A signed hash keeps colliding features from only ever adding up. No model
+ * files or corpus statistics, so the same text always maps to the same vector.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing-v1';
+  readonly dimensions = DIMENSIONS;
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): Float32Array {
+    const counts = new Map<string, number>();
+    const add = (feature: string) =>
+      counts.set(feature, (counts.get(feature) ?? 0) + 1);
+
+    const terms = text
+      .normalize('NFKC')
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((term) => term.length > 1 && !isStopword(term));
+
+    for (let i = 0; i < terms.length; i++) {
+      add(terms[i]);
+      if (i > 0) {
+        add(`${terms[i - 1]} ${terms[i]}`);
+      }
+    }
+
+    const vector = new Float32Array(this.dimensions);
+    for (const [feature, count] of counts) {
+      const hash = fnv1a(feature);
+      const weight =
+        (1 + Math.log(count)) * (feature.includes(' ') ? BIGRAM_WEIGHT : 1);
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+    }
+
+    return normalize(vector);
+  }
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+  if (norm > 0) {
+    const scale = 1 / Math.sqrt(norm);
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] *= scale;
+    }
+  }
+  return vector;
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,4 @@
+export * from './embedding-codec';
+export * from './embedding.provider';
+export * from './embedding.service';
+export * from './hashing-embedding.provider';
@@ -0,0 +1,249 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+import { PrismaService } from '../../database/prisma.service';
+import {
+  compileGazetteer,
+  CompiledGazetteer,
+  ENTITY_TYPES,
+  extractArticleEntities,
+  ExtractionStats,
+  GAZETTEER_TYPES,
+  GazetteerNames,
+  GazetteerType,
+  summarizeEntities,
+} from './entity-extractor';
+import { BUILT_IN_GAZETTEER } from './gazetteers';
+import {
+  buildTickerDirectory,
+  extractTickers,
+  parseSymbolCsv,
+  TickerDirectory,
+} from './ticker-extractor';
+
+export interface EntityExtractionJobData {
+  articleId: string;
+}
+
+export interface EntityExtractionResult extends ExtractionStats {
+  articleId: string;
+  status: 'extracted' | 'not-found';
+}
+
+/**
+ * Extracts people, organizations, places and stock tickers from stored
+ * articles and links them through `ArticleEntity`. Replaces an article's links
+ * on every run, so re-running after full-text extraction or a gazetteer change
+ * is safe.
+ */
+@Injectable()
+export class EntityExtractionService {
+  private readonly logger = new Logger(EntityExtractionService.name);
+  // Admin edits to GazetteerEntry are picked up within this long
+  private readonly gazetteerTtl = 5 * 60 * 1000;
+  private gazetteer: { compiled: CompiledGazetteer; loadedAt: number } | null =
+    null;
+  private readonly symbolsPath: string;
+  private tickerDirectory: Promise<TickerDirectory> | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    configService: ConfigService,
+  ) {
+    this.symbolsPath = resolve(
+      configService.get<string>('TICKER_SYMBOLS_PATH') ??
+        'resources/symbols.csv',
+    );
+  }
+
+  async extractAndStore(articleId: string): Promise<EntityExtractionResult> {
+    const article = await this.prisma.article.findUnique({
+      where: { id: articleId },
+      select: { id: true, title: true, cleanedText: true },
+    });
+
+    if (!article) {
+      this.logger.warn(
+        `⚠️ Article ${articleId} no longer exists, skipping entity extraction`,
+      );
+      return {
+        articleId,
+        status: 'not-found',
+        ...summarizeEntities([]),
+      };
+    }
+
+    const directory = await this.getTickerDirectory();
+    const entities = extractArticleEntities(
+      article.title,
+      article.cleanedText,
+      await this.getGazetteer(directory),
+    );
+    entities.push(
+      ...extractTickers(
+        `${article.title}\n${article.cleanedText}`,
+        directory,
+        entities,
+      ),
+    );
+    const stats = summarizeEntities(entities);
+
+    await this.prisma.$transaction(async (tx) => {
+      const entityIds = new Set<string>();
+
+      // Names merged into another entity link to that entity instead
+      const aliases = entities.length
+        ? await tx.entityAlias.findMany({
+            where: { OR: entities.map(({ type, value }) => ({ type, value })) },
+            select: { type: true, value: true, entityId: true },
+          })
+        : [];
+      const aliased = new Set(
+        aliases.map((alias) => `${alias.type}:${alias.value}`),
+      );
+      aliases.forEach((alias) => entityIds.add(alias.entityId));
+
+      const own = entities.filter(
+        ({ type, value }) => !aliased.has(`${type}:${value}`),
+      );
+      if (own.length > 0) {
+        // Upsert on @@unique([type, value])
+        await tx.entity.createMany({
+          data: own.map(({ type, value, meta }) => ({ type, value, meta })),
+          skipDuplicates: true,
+        });
+        // Listing metadata follows the symbol directory
+        for (const { type, value, meta } of own) {
+          if (meta) {
+            await tx.entity.update({
+              where: { type_value: { type, value } },
+              data: { meta },
+            });
+          }
+        }
+        const stored = await tx.entity.findMany({
+          where: { OR: own.map(({ type, value }) => ({ type, value })) },
+          select: { id: true },
+        });
+        stored.forEach((entity) => entityIds.add(entity.id));
+      }
+
+      // Only this extractor writes these entity types; links of others stay
+      await tx.articleEntity.deleteMany({
+        where: { articleId, entity: { type: { in: ENTITY_TYPES } } },
+      });
+      await tx.articleEntity.createMany({
+        data: [...entityIds].map((entityId) => ({ articleId, entityId })),
+        skipDuplicates: true,
+      });
+
+      await tx.entityExtraction.upsert({
+        where: { articleId },
+        create: { articleId, ...stats },
+        update: { ...stats, extractedAt: new Date() },
+      });
+    });
+
+    this.logger.log(
+      `🏷️ Linked ${stats.entities} entities (${stats.mentions} mentions) to article ${articleId}`,
+    );
+    return { articleId, status: 'extracted', ...stats };
+  }
+
+  /**
+   * Articles that never went through entity extraction, newest first
+   */
+  async findUnextracted(limit: number): Promise<string[]> {
+    const articles = await this.prisma.article.findMany({
+      where: { entityExtraction: null },
+      orderBy: { publishedAt: 'desc' },
+      take: limit,
+      select: { id: true },
+    });
+    return articles.map((article) => article.id);
+  }
+
+  async getStats() {
+    const [articles, extracted, totals, entitiesByType] = await Promise.all([
+      this.prisma.article.count(),
+      this.prisma.entityExtraction.count(),
+      this.prisma.entityExtraction.aggregate({
+        _sum: { entities: true, mentions: true },
+        _avg: { entities: true },
+      }),
+      this.prisma.entity.groupBy({ by: ['type'], _count: { _all: true } }),
+    ]);
+
+    return {
+      articles,
+      extracted,
+      pending: articles - extracted,
+      links: totals._sum.entities ?? 0,
+      mentions: totals._sum.mentions ?? 0,
+      averageEntitiesPerArticle:
+        Math.round((totals._avg.entities ?? 0) * 100) / 100,
+      entitiesByType: Object.fromEntries(
+        entitiesByType.map((group) => [group.type, group._count._all]),
+      ),
+    };
+  }
+
+  /**
+   * Gazetteer names plus the names of every listed company as orgs, so those
+   * are found and can be mapped to their ticker
+   */
+  private async getGazetteer(
+    directory: TickerDirectory,
+  ): Promise<CompiledGazetteer> {
+    if (
+      this.gazetteer &&
+      Date.now() - this.gazetteer.loadedAt < this.gazetteerTtl
+    ) {
+      return this.gazetteer.compiled;
+    }
+
+    const entries = await this.prisma.gazetteerEntry.findMany({
+      select: { type: true, name: true },
+    });
+    const names: GazetteerNames = {
+      person: [...BUILT_IN_GAZETTEER.person],
+      org: [...BUILT_IN_GAZETTEER.org, ...directory.byName.keys()],
+      place: [...BUILT_IN_GAZETTEER.place],
+    };
+    for (const entry of entries) {
+      if ((GAZETTEER_TYPES as string[]).includes(entry.type)) {
+        names[entry.type as GazetteerType].push(entry.name);
+      }
+    }
+    names.org = [...new Set(names.org)];
+
+    this.gazetteer = {
+      compiled: compileGazetteer(names),
+      loadedAt: Date.now(),
+    };
+    return this.gazetteer.compiled;
+  }
+
+  /**
+   * Symbol directory from TICKER_SYMBOLS_PATH, read once. Without it only
+   * exchange-prefixed symbols are recognized.
+   */
+  private getTickerDirectory(): Promise<TickerDirectory> {
+    this.tickerDirectory ??= readFile(this.symbolsPath, 'utf8')
+      .then((csv) => {
+        const companies = parseSymbolCsv(csv);
+        this.logger.log(
+          `📈 Loaded ${companies.length} listed companies from ${this.symbolsPath}`,
+        );
+        return buildTickerDirectory(companies);
+      })
+      .catch((error) => {
+        this.logger.warn(
+          `⚠️ Symbol directory ${this.symbolsPath} not loaded: ${error.message}`,
+        );
+        return buildTickerDirectory([]);
+      });
+    return this.tickerDirectory;
+  }
+}
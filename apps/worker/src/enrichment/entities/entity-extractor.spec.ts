@@ -0,0 +1,147 @@
+import {
+  compileGazetteer,
+  extractArticleEntities,
+  extractEntities,
+  isTitleCase,
+  summarizeEntities,
+} from './entity-extractor';
+
+const gazetteer = compileGazetteer({
+  org: ['Apple', 'Bank of America', 'Federal Reserve'],
+  place: ['New York', 'New York City', 'Paris'],
+  person: ['Tim Cook'],
+});
+
+function values(entities: ReturnType<typeof extractEntities>) {
+  return entities.map((entity) => `${entity.type}:${entity.value}`).sort();
+}
+
+describe('extractEntities', () => {
+  it('matches listed names case-sensitively, longest first', () => {
+    const entities = extractEntities(
+      'Tim Cook flew from New York City to Paris. An apple a day.',
+      gazetteer,
+    );
+
+    expect(values(entities)).toEqual([
+      'person:Tim Cook',
+      'place:New York City',
+      'place:Paris',
+    ]);
+    expect(entities.every((entity) => entity.method === 'gazetteer')).toBe(
+      true,
+    );
+  });
+
+  it('counts repeated mentions and strips possessives', () => {
+    const entities = extractEntities(
+      "Apple's results beat estimates, and Apple raised its dividend.",
+      gazetteer,
+    );
+
+    expect(entities).toEqual([
+      { type: 'org', value: 'Apple', method: 'gazetteer', mentions: 2 },
+    ]);
+  });
+
+  it('does not match a listed name across punctuation', () => {
+    const entities = extractEntities(
+      'He moved to New. York is far.',
+      gazetteer,
+    );
+
+    expect(values(entities)).toEqual([]);
+  });
+
+  it('takes the name after a title as a person', () => {
+    const entities = extractEntities(
+      'Prime Minister Jane Doe met Dr. Alan Smith on Monday.',
+      gazetteer,
+    );
+
+    expect(values(entities)).toEqual(['person:Alan Smith', 'person:Jane Doe']);
+    expect(entities.every((entity) => entity.method === 'pattern')).toBe(true);
+  });
+
+  it('recognizes organizations by keyword and company form', () => {
+    const entities = extractEntities(
+      'Shares of Acme Corp rose after the Central Bank of Ruritania and Globex Holdings signed a deal with Johnson & Johnson Group.',
+      gazetteer,
+    );
+
+    expect(values(entities)).toEqual([
+      'org:Acme',
+      'org:Central Bank of Ruritania',
+      'org:Globex Holdings',
+      'org:Johnson & Johnson Group',
+    ]);
+  });
+
+  it('prefers a longer pattern match over a shorter listed name', () => {
+    const entities = extractEntities('Apple Inc said on Tuesday.', gazetteer);
+
+    expect(entities).toEqual([
+      { type: 'org', value: 'Apple', method: 'pattern', mentions: 1 },
+    ]);
+  });
+
+  it('skips patterns when asked', () => {
+    const entities = extractEntities(
+      'Globex Holdings hired Mr. Smith in Paris.',
+      gazetteer,
+      false,
+    );
+
+    expect(values(entities)).toEqual(['place:Paris']);
+  });
+});
+
+describe('extractArticleEntities', () => {
+  it('only takes listed names from Title Case headlines', () => {
+    const entities = extractArticleEntities(
+      'Federal Reserve Bank Holds Rates As Paris Markets Rally',
+      'The Federal Reserve left rates unchanged, Chair John Smith said.',
+      gazetteer,
+    );
+
+    expect(values(entities)).toEqual(['org:Federal Reserve', 'place:Paris']);
+    expect(
+      entities.find((entity) => entity.value === 'Federal Reserve'),
+    ).toMatchObject({ mentions: 2 });
+  });
+
+  it('applies patterns to sentence-case headlines', () => {
+    const entities = extractArticleEntities(
+      'Globex Holdings to cut jobs across its factories',
+      null,
+      gazetteer,
+    );
+
+    expect(values(entities)).toEqual(['org:Globex Holdings']);
+  });
+});
+
+describe('isTitleCase', () => {
+  it('tells Title Case from sentence case', () => {
+    expect(isTitleCase('Federal Reserve Holds Rates Steady')).toBe(true);
+    expect(isTitleCase('Federal Reserve holds rates steady')).toBe(false);
+    expect(isTitleCase('Apple Rises')).toBe(false);
+  });
+});
+
+describe('summarizeEntities', () => {
+  it('counts entities and mentions by type and method', () => {
+    const stats = summarizeEntities([
+      { type: 'org', value: 'Apple', method: 'gazetteer', mentions: 3 },
+      { type: 'org', value: 'Acme', method: 'pattern', mentions: 1 },
+      { type: 'place', value: 'Paris', method: 'gazetteer', mentions: 2 },
+    ]);
+
+    expect(stats).toEqual({
+      entities: 3,
+      mentions: 6,
+      byType: { org: 2, place: 1 },
+      byMethod: { gazetteer: 2, pattern: 1 },
+    });
+  });
+});
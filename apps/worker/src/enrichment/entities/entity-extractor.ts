@@ -0,0 +1,518 @@
+export type GazetteerType = 'person' | 'org' | 'place';
+export type EntityType = GazetteerType | 'ticker';
+export type ExtractionMethod =
+  | 'gazetteer'
+  | 'pattern'
+  | 'cashtag'
+  | 'exchange'
+  | 'company-name';
+
+export const GAZETTEER_TYPES: GazetteerType[] = ['person', 'org', 'place'];
+export const ENTITY_TYPES: EntityType[] = [...GAZETTEER_TYPES, 'ticker'];
+
+export type GazetteerNames = Record<GazetteerType, string[]>;
+
+export interface ExtractedEntity {
+  type: EntityType;
+  value: string;
+  method: ExtractionMethod; // gazetteer when any mention matched a listed name
+  mentions: number;
+  meta?: Record<string, string>; // stored in Entity.meta
+}
+
+export interface ExtractionStats {
+  entities: number;
+  mentions: number;
+  byType: Record<string, number>;
+  byMethod: Record<string, number>;
+}
+
+interface Token {
+  text: string;
+  capitalized: boolean;
+  breakAfter: boolean; // punctuation between this token and the next
+  gapAfter: string; // raw text up to the next token
+}
+
+interface GazetteerName {
+  tokens: string[];
+  type: GazetteerType;
+  value: string;
+}
+
+/**
+ * Listed names keyed by their first token, longest first so the longest
+ * listed name wins ("Bank of America" over "Bank")
+ */
+export type CompiledGazetteer = Map<string, GazetteerName[]>;
+
+interface Match {
+  length: number; // tokens consumed
+  type: GazetteerType;
+  value: string;
+  method: ExtractionMethod;
+}
+
+// Long bodies repeat the same names; the first part carries them
+export const MAX_TEXT_LENGTH = 20000;
+const MAX_RUN_LENGTH = 6;
+const MAX_NAME_TOKENS = 3;
+
+const TOKEN_PATTERN =
+  /\p{L}[\p{L}\p{N}]*(?:[.'’&-]\p{L}[\p{L}\p{N}]*)*|\p{N}+|&/gu;
+
+// Capitalized at the start of a sentence or in headlines, never part of a name
+const STOPWORDS = new Set([
+  'A',
+  'An',
+  'And',
+  'As',
+  'At',
+  'But',
+  'By',
+  'For',
+  'From',
+  'He',
+  'Her',
+  'His',
+  'How',
+  'I',
+  'If',
+  'In',
+  'It',
+  'Its',
+  'New',
+  'No',
+  'Not',
+  'Of',
+  'On',
+  'Or',
+  'She',
+  'So',
+  'That',
+  'The',
+  'Their',
+  'They',
+  'This',
+  'To',
+  'We',
+  'What',
+  'When',
+  'Where',
+  'While',
+  'Who',
+  'Why',
+  'With',
+  'You',
+]);
+
+// Join an organization keyword to the one word naming it: "Bank of America"
+const KEYWORD_CONNECTORS = new Set(['of', 'for']);
+
+// Followed by a person's name: "President Emmanuel Macron", "Dr. Jane Smith"
+const TITLES = new Set([
+  'Mr',
+  'Mrs',
+  'Ms',
+  'Dr',
+  'Prof',
+  'Professor',
+  'Sir',
+  'Dame',
+  'Lord',
+  'President',
+  'Senator',
+  'Sen',
+  'Rep',
+  'Representative',
+  'Governor',
+  'Gov',
+  'Mayor',
+  'Minister',
+  'Chancellor',
+  'Secretary',
+  'Judge',
+  'Justice',
+  'General',
+  'Gen',
+  'Pope',
+  'King',
+  'Queen',
+  'Prince',
+  'Princess',
+  'CEO',
+  'Chairman',
+  'Chairwoman',
+  'Chief',
+]);
+
+// Company forms dropped from the value so "Acme Corp" and "Acme" are one entity
+const LEGAL_SUFFIXES = new Set([
+  'Inc',
+  'Corp',
+  'Corporation',
+  'Ltd',
+  'Limited',
+  'LLC',
+  'PLC',
+  'Plc',
+  'AG',
+  'SA',
+  'SE',
+  'NV',
+  'GmbH',
+  'Co',
+]);
+
+// Part of the name of an organization: "Deutsche Bank", "University of Oxford"
+const ORG_KEYWORDS = new Set([
+  'Agency',
+  'Airlines',
+  'Airways',
+  'Association',
+  'Authority',
+  'Bank',
+  'Bureau',
+  'Capital',
+  'Commission',
+  'Committee',
+  'Company',
+  'Council',
+  'Court',
+  'Department',
+  'Federation',
+  'Foundation',
+  'Fund',
+  'Group',
+  'Holdings',
+  'Institute',
+  'Labs',
+  'Ministry',
+  'Motors',
+  'Office',
+  'Organization',
+  'Organisation',
+  'Partners',
+  'Party',
+  'Pharmaceuticals',
+  'Systems',
+  'Technologies',
+  'Union',
+  'University',
+]);
+
+export function compileGazetteer(names: GazetteerNames): CompiledGazetteer {
+  const compiled: CompiledGazetteer = new Map();
+
+  for (const type of GAZETTEER_TYPES) {
+    for (const name of names[type]) {
+      const tokens = tokenize(name).map((token) => token.text);
+      if (tokens.length === 0) {
+        continue;
+      }
+      const entries = compiled.get(tokens[0]) ?? [];
+      entries.push({ tokens, type, value: name.trim() });
+      compiled.set(tokens[0], entries);
+    }
+  }
+
+  for (const entries of compiled.values()) {
+    entries.sort((a, b) => b.tokens.length - a.tokens.length);
+  }
+  return compiled;
+}
+
+/**
+ * Offline rule-based named entity extraction.
+ *
+ * Listed names are matched case-sensitively, longest first. Everything else
+ * comes from capitalization patterns: a title followed by capitalized words is
+ * a person, and a run of capitalized words ending in an organization keyword
+ * ("Bank", "Ministry") or a company form ("Inc") is an org. Places are only taken from the
+ * gazetteer; a capitalized word after "in" is too often something else.
+ */
+export function extractEntities(
+  text: string,
+  gazetteer: CompiledGazetteer,
+  patterns = true,
+): ExtractedEntity[] {
+  return collect(text, gazetteer, patterns, new Map());
+}
+
+/**
+ * Extract from the title and body together. Title Case headlines capitalize
+ * every word, so only listed names are taken from them.
+ */
+export function extractArticleEntities(
+  title: string,
+  text: string | null | undefined,
+  gazetteer: CompiledGazetteer,
+): ExtractedEntity[] {
+  const found = new Map<string, ExtractedEntity>();
+  collect(title, gazetteer, !isTitleCase(title), found);
+  return text && text !== title
+    ? collect(text, gazetteer, true, found)
+    : [...found.values()];
+}
+
+export function summarizeEntities(
+  entities: ExtractedEntity[],
+): ExtractionStats {
+  const stats: ExtractionStats = {
+    entities: entities.length,
+    mentions: 0,
+    byType: {},
+    byMethod: {},
+  };
+
+  for (const entity of entities) {
+    stats.mentions += entity.mentions;
+    stats.byType[entity.type] = (stats.byType[entity.type] ?? 0) + 1;
+    stats.byMethod[entity.method] = (stats.byMethod[entity.method] ?? 0) + 1;
+  }
+  return stats;
+}
+
+/**
+ * Most words of four or more letters start with a capital
+ */
+export function isTitleCase(text: string): boolean {
+  const words = text.match(/\p{L}{4,}/gu) ?? [];
+  if (words.length < 3) {
+    return false;
+  }
+  const capitalized = words.filter((word) => /^\p{Lu}/u.test(word));
+  return capitalized.length / words.length > 0.6;
+}
+
+function collect(
+  text: string,
+  gazetteer: CompiledGazetteer,
+  patterns: boolean,
+  found: Map<string, ExtractedEntity>,
+): ExtractedEntity[] {
+  const tokens = tokenize(text.slice(0, MAX_TEXT_LENGTH));
+
+  let i = 0;
+  while (i < tokens.length) {
+    const match = matchAt(tokens, i, gazetteer, patterns);
+    if (!match) {
+      i++;
+      continue;
+    }
+
+    const key = `${match.type}:${match.value}`;
+    const entity = found.get(key);
+    if (entity) {
+      entity.mentions++;
+      if (match.method === 'gazetteer') {
+        entity.method = 'gazetteer';
+      }
+    } else {
+      found.set(key, {
+        type: match.type,
+        value: match.value,
+        method: match.method,
+        mentions: 1,
+      });
+    }
+    i += match.length;
+  }
+
+  return [...found.values()];
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let previousEnd = 0;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    const previous = tokens[tokens.length - 1];
+    if (previous) {
+      previous.gapAfter = text.slice(previousEnd, start);
+      previous.breakAfter = previous.gapAfter.trim() !== '';
+    }
+
+    // Possessives belong to the name: "Apple's" is "Apple"
+    const word = match[0].replace(/['’]s$/, '');
+    tokens.push({
+      text: word,
+      capitalized: /^\p{Lu}/u.test(word),
+      breakAfter: true,
+      gapAfter: '',
+    });
+    previousEnd = start + match[0].length;
+  }
+
+  return tokens;
+}
+
+/**
+ * The longest entity starting at token `i`; a listed name wins a tie
+ */
+function matchAt(
+  tokens: Token[],
+  i: number,
+  gazetteer: CompiledGazetteer,
+  patterns: boolean,
+): Match | null {
+  const candidates = [
+    matchGazetteer(tokens, i, gazetteer),
+    ...(patterns
+      ? [matchTitledPerson(tokens, i), matchOrganization(tokens, i)]
+      : []),
+  ].filter((match): match is Match => match !== null);
+
+  let best: Match | null = null;
+  for (const candidate of candidates) {
+    if (!best || candidate.length > best.length) {
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+function matchGazetteer(
+  tokens: Token[],
+  i: number,
+  gazetteer: CompiledGazetteer,
+): Match | null {
+  for (const entry of gazetteer.get(tokens[i].text) ?? []) {
+    if (i + entry.tokens.length > tokens.length) {
+      continue;
+    }
+    const matches = entry.tokens.every(
+      (text, offset) =>
+        tokens[i + offset].text === text &&
+        // A listed name never spans a sentence or a comma
+        (offset === entry.tokens.length - 1 || !tokens[i + offset].breakAfter),
+    );
+    if (matches) {
+      return {
+        length: entry.tokens.length,
+        type: entry.type,
+        value: entry.value,
+        method: 'gazetteer',
+      };
+    }
+  }
+  return null;
+}
+
+function matchTitledPerson(tokens: Token[], i: number): Match | null {
+  const title = tokens[i];
+  // "Dr. Smith" keeps its abbreviation dot; any other punctuation ends it
+  if (
+    !TITLES.has(title.text) ||
+    (title.breakAfter && title.gapAfter.trim() !== '.')
+  ) {
+    return null;
+  }
+
+  let end = i + 1;
+  // "Prime Minister", "Secretary General": stacked titles are part of the title
+  while (
+    end < tokens.length &&
+    TITLES.has(tokens[end].text) &&
+    !tokens[end].breakAfter
+  ) {
+    end++;
+  }
+
+  const name: string[] = [];
+  while (
+    end < tokens.length &&
+    name.length < MAX_NAME_TOKENS &&
+    isNameWord(tokens[end])
+  ) {
+    name.push(tokens[end].text);
+    if (tokens[end].breakAfter) {
+      end++;
+      break;
+    }
+    end++;
+  }
+
+  if (name.length === 0) {
+    return null;
+  }
+  return {
+    length: end - i,
+    type: 'person',
+    value: name.join(' '),
+    method: 'pattern',
+  };
+}
+
+function matchOrganization(tokens: Token[], i: number): Match | null {
+  if (!isNameWord(tokens[i])) {
+    return null;
+  }
+
+  // Capitalized words within one clause; "&" joins two of them
+  const run: string[] = [tokens[i].text];
+  let j = i;
+  while (!tokens[j].breakAfter && run.length < MAX_RUN_LENGTH) {
+    const next = tokens[j + 1];
+    const afterNext = tokens[j + 2];
+    if (next && isNameWord(next)) {
+      run.push(next.text);
+      j++;
+    } else if (
+      next?.text === '&' &&
+      !next.breakAfter &&
+      afterNext &&
+      isNameWord(afterNext)
+    ) {
+      run.push(next.text, afterNext.text);
+      j += 2;
+    } else if (
+      next &&
+      KEYWORD_CONNECTORS.has(next.text) &&
+      ORG_KEYWORDS.has(tokens[j].text) &&
+      !next.breakAfter &&
+      afterNext &&
+      isNameWord(afterNext)
+    ) {
+      // "Bank of America", "University of Oxford"; one word, as in a
+      // Title Case sentence the words after it are as likely a verb
+      return {
+        length: run.length + 2,
+        type: 'org',
+        value: [...run, next.text, afterNext.text].join(' '),
+        method: 'pattern',
+      };
+    } else {
+      break;
+    }
+  }
+
+  // The longest prefix that ends like an organization name
+  for (let length = run.length; length >= 2; length--) {
+    const last = run[length - 1];
+    if (LEGAL_SUFFIXES.has(last)) {
+      return {
+        length,
+        type: 'org',
+        value: run.slice(0, length - 1).join(' '),
+        method: 'pattern',
+      };
+    }
+    if (ORG_KEYWORDS.has(last)) {
+      return {
+        length,
+        type: 'org',
+        value: run.slice(0, length).join(' '),
+        method: 'pattern',
+      };
+    }
+  }
+  return null;
+}
+
+function isNameWord(token: Token): boolean {
+  return (
+    token.capitalized && !STOPWORDS.has(token.text) && !TITLES.has(token.text)
+  );
+}
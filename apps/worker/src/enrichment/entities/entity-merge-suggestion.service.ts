@@ -0,0 +1,187 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MergeSuggestionStatus } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import {
+  cooccurrence,
+  EntityCandidate,
+  findMergeCandidates,
+  mergeScore,
+} from './entity-similarity';
+
+export interface MergeSuggestionResult {
+  entities: number; // compared
+  candidates: number; // pairs with alike names
+  suggested: number; // pending suggestions created or refreshed
+}
+
+/**
+ * Proposes merges of entities that are the same thing under different names:
+ * "Apple Inc." and "Apple", "IMF" and "International Monetary Fund", "AAPL"
+ * and the org of its listed company. Only suggests; admins approve through
+ * the API, which rewrites the links and records an alias.
+ */
+@Injectable()
+export class EntityMergeSuggestionService {
+  private readonly logger = new Logger(EntityMergeSuggestionService.name);
+  private readonly threshold: number;
+  private readonly minNameSimilarity = 0.6;
+  private readonly entityLimit = 5000;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    configService: ConfigService,
+  ) {
+    const threshold = parseFloat(
+      configService.get<string>('ENTITY_MERGE_THRESHOLD') ?? '',
+    );
+    this.threshold = isNaN(threshold) || threshold <= 0 ? 0.7 : threshold;
+  }
+
+  async suggestMerges(): Promise<MergeSuggestionResult> {
+    // The most linked entities are the ones whose duplicates hurt
+    const entities = await this.prisma.entity.findMany({
+      where: { arts: { some: {} } },
+      orderBy: { arts: { _count: 'desc' } },
+      take: this.entityLimit,
+      select: {
+        id: true,
+        type: true,
+        value: true,
+        meta: true,
+        _count: { select: { arts: true } },
+      },
+    });
+
+    const candidates = findMergeCandidates(
+      entities.map(
+        (entity): EntityCandidate => ({
+          id: entity.id,
+          type: entity.type,
+          value: entity.value,
+          company: this.company(entity.meta),
+          articles: entity._count.arts,
+        }),
+      ),
+      this.minNameSimilarity,
+    );
+
+    const decided = await this.getDecidedPairs(
+      candidates.flatMap((candidate) => [
+        candidate.source.id,
+        candidate.target.id,
+      ]),
+    );
+    const open = candidates.filter(
+      (candidate) =>
+        !decided.has(this.pairKey(candidate.source.id, candidate.target.id)),
+    );
+    const articles = await this.getArticleSets(
+      open.flatMap((candidate) => [candidate.source.id, candidate.target.id]),
+    );
+
+    let suggested = 0;
+    for (const candidate of open) {
+      const overlap = cooccurrence(
+        articles.get(candidate.source.id) ?? new Set(),
+        articles.get(candidate.target.id) ?? new Set(),
+      );
+      const score = mergeScore(candidate.similarity, overlap);
+      if (score < this.threshold) {
+        continue;
+      }
+
+      const data = {
+        sourceType: candidate.source.type,
+        sourceValue: candidate.source.value,
+        targetType: candidate.target.type,
+        targetValue: candidate.target.value,
+        reason: candidate.reason,
+        nameSimilarity: candidate.similarity,
+        cooccurrence: Math.round(overlap * 1000) / 1000,
+        score,
+      };
+      // Article counts can flip the direction between runs; keep one row per pair
+      await this.prisma.entityMergeSuggestion.deleteMany({
+        where: {
+          sourceId: candidate.target.id,
+          targetId: candidate.source.id,
+          status: MergeSuggestionStatus.PENDING,
+        },
+      });
+      await this.prisma.entityMergeSuggestion.upsert({
+        where: {
+          sourceId_targetId: {
+            sourceId: candidate.source.id,
+            targetId: candidate.target.id,
+          },
+        },
+        create: {
+          sourceId: candidate.source.id,
+          targetId: candidate.target.id,
+          ...data,
+        },
+        update: data,
+      });
+      suggested++;
+    }
+
+    this.logger.log(
+      `🔀 Entity merge suggestions: ${suggested} of ${candidates.length} candidate pairs among ${entities.length} entities`,
+    );
+    return {
+      entities: entities.length,
+      candidates: candidates.length,
+      suggested,
+    };
+  }
+
+  /**
+   * Pairs an admin already approved or rejected, in either direction
+   */
+  private async getDecidedPairs(entityIds: string[]): Promise<Set<string>> {
+    if (entityIds.length === 0) {
+      return new Set();
+    }
+    const ids = [...new Set(entityIds)];
+    const decided = await this.prisma.entityMergeSuggestion.findMany({
+      where: {
+        status: { not: MergeSuggestionStatus.PENDING },
+        OR: [{ sourceId: { in: ids } }, { targetId: { in: ids } }],
+      },
+      select: { sourceId: true, targetId: true },
+    });
+    return new Set(
+      decided.map((pair) => this.pairKey(pair.sourceId, pair.targetId)),
+    );
+  }
+
+  private async getArticleSets(
+    entityIds: string[],
+  ): Promise<Map<string, Set<string>>> {
+    const sets = new Map<string, Set<string>>();
+    if (entityIds.length === 0) {
+      return sets;
+    }
+
+    const links = await this.prisma.articleEntity.findMany({
+      where: { entityId: { in: [...new Set(entityIds)] } },
+      select: { articleId: true, entityId: true },
+    });
+    for (const link of links) {
+      const set = sets.get(link.entityId) ?? new Set<string>();
+      set.add(link.articleId);
+      sets.set(link.entityId, set);
+    }
+    return sets;
+  }
+
+  private company(meta: unknown): string | null {
+    const company = (meta as { company?: unknown } | null)?.company;
+    return typeof company === 'string' ? company : null;
+  }
+
+  private pairKey(a: string, b: string): string {
+    return [a, b].sort().join(':');
+  }
+}
@@ -0,0 +1,135 @@
+import {
+  compareNames,
+  cooccurrence,
+  EntityCandidate,
+  findMergeCandidates,
+  mergeScore,
+  normalizeEntityName,
+} from './entity-similarity';
+
+function entity(
+  id: string,
+  type: string,
+  value: string,
+  articles = 1,
+  company?: string,
+): EntityCandidate {
+  return { id, type, value, articles, company };
+}
+
+describe('normalizeEntityName', () => {
+  it('drops case, accents, punctuation, legal forms and share classes', () => {
+    expect(normalizeEntityName('Apple Inc.')).toBe('apple');
+    expect(normalizeEntityName('The Goldman Sachs Group, Inc.')).toBe(
+      'goldman sachs',
+    );
+    expect(normalizeEntityName('Alphabet Inc., Class A')).toBe('alphabet');
+    expect(normalizeEntityName('Société Générale')).toBe('societe generale');
+    expect(normalizeEntityName('Johnson & Johnson')).toBe(
+      'johnson and johnson',
+    );
+    expect(normalizeEntityName('Group')).toBe('group');
+  });
+});
+
+describe('compareNames', () => {
+  it('matches a ticker with the org of its listed company', () => {
+    const ticker = entity('t', 'ticker', 'AAPL', 1, 'Apple Inc.');
+
+    expect(compareNames(ticker, entity('o', 'org', 'Apple'))).toEqual({
+      similarity: 1,
+      reason: 'company',
+    });
+    expect(compareNames(ticker, entity('p', 'person', 'Apple'))).toBeNull();
+    expect(compareNames(ticker, entity('o', 'org', 'Applied'))).toBeNull();
+  });
+
+  it('recognizes acronyms of organizations', () => {
+    expect(
+      compareNames(
+        entity('a', 'org', 'IMF'),
+        entity('b', 'org', 'International Monetary Fund'),
+      ),
+    ).toEqual({ similarity: 0.9, reason: 'acronym' });
+  });
+
+  it('recognizes a surname of a person', () => {
+    expect(
+      compareNames(
+        entity('a', 'person', 'Biden'),
+        entity('b', 'person', 'Joe Biden'),
+      ),
+    ).toEqual({ similarity: 0.8, reason: 'surname' });
+  });
+
+  it('scores other names by trigram overlap', () => {
+    const close = compareNames(
+      entity('a', 'person', 'Volodymyr Zelensky'),
+      entity('b', 'person', 'Volodymyr Zelenskyy'),
+    );
+    const far = compareNames(
+      entity('a', 'org', 'Deutsche Bank'),
+      entity('b', 'org', 'Commerzbank'),
+    );
+
+    expect(close?.reason).toBe('similar-name');
+    expect(close?.similarity).toBeGreaterThan(0.8);
+    expect(far?.similarity).toBeLessThan(0.5);
+  });
+
+  it('never matches different types otherwise', () => {
+    expect(
+      compareNames(entity('a', 'org', 'Paris'), entity('b', 'place', 'Paris')),
+    ).toBeNull();
+  });
+});
+
+describe('findMergeCandidates', () => {
+  it('keeps the entity with more articles as the target', () => {
+    const candidates = findMergeCandidates(
+      [
+        entity('apple', 'org', 'Apple', 40),
+        entity('apple-inc', 'org', 'Apple Inc.', 3),
+        entity('aapl', 'ticker', 'AAPL', 12, 'Apple Inc.'),
+        entity('paris', 'place', 'Paris', 9),
+      ],
+      0.6,
+    );
+
+    expect(candidates.map((c) => [c.source.id, c.target.id, c.reason])).toEqual(
+      expect.arrayContaining([
+        ['apple-inc', 'apple', 'same-name'],
+        ['aapl', 'apple', 'company'],
+        ['apple-inc', 'aapl', 'company'],
+      ]),
+    );
+    expect(candidates).toHaveLength(3);
+  });
+
+  it('prefers the longer name when article counts tie', () => {
+    const [candidate] = findMergeCandidates(
+      [
+        entity('b', 'person', 'Biden', 5),
+        entity('jb', 'person', 'Joe Biden', 5),
+      ],
+      0.6,
+    );
+
+    expect(candidate.source.id).toBe('b');
+    expect(candidate.target.id).toBe('jb');
+  });
+});
+
+describe('cooccurrence and mergeScore', () => {
+  it('combines name similarity with article overlap', () => {
+    const overlap = cooccurrence(
+      new Set(['a1', 'a2', 'a3']),
+      new Set(['a2', 'a3', 'a4']),
+    );
+
+    expect(overlap).toBe(0.5);
+    expect(cooccurrence(new Set(), new Set(['a1']))).toBe(0);
+    expect(mergeScore(0.8, overlap)).toBe(0.725);
+    expect(mergeScore(1, 0)).toBe(0.75);
+  });
+});
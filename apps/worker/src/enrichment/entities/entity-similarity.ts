@@ -0,0 +1,285 @@
+export type MergeReason =
+  | 'same-name'
+  | 'acronym'
+  | 'surname'
+  | 'company'
+  | 'similar-name';
+
+export interface EntityCandidate {
+  id: string;
+  type: string;
+  value: string;
+  company?: string | null; // tickers: listed company name from Entity.meta
+  articles: number; // linked articles
+}
+
+export interface NameMatch {
+  similarity: number; // 0..1
+  reason: MergeReason;
+}
+
+export interface MergeCandidate extends NameMatch {
+  source: EntityCandidate; // merged away
+  target: EntityCandidate; // canonical
+}
+
+// Name variants that score this high are the same entity on their own
+const SIMILARITY = {
+  'same-name': 1,
+  company: 1,
+  acronym: 0.9,
+  surname: 0.8,
+};
+
+// Dropped before comparing: "Apple Inc." is "apple"
+const LEGAL_FORMS = new Set([
+  'ag',
+  'co',
+  'corp',
+  'corporation',
+  'company',
+  'gmbh',
+  'group',
+  'holding',
+  'holdings',
+  'inc',
+  'incorporated',
+  'limited',
+  'llc',
+  'ltd',
+  'nv',
+  'plc',
+  'sa',
+  'se',
+]);
+
+const ACRONYM_SKIP = new Set(['of', 'and', 'for', 'the', 'de']);
+
+// Keys shared by too many entities say nothing about any pair
+const MAX_BLOCK_SIZE = 200;
+
+/**
+ * Lowercase, without accents, punctuation, a leading "the", legal forms and
+ * share classes
+ */
+export function normalizeEntityName(value: string): string {
+  const tokens = value
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]s\b/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+  if (tokens[0] === 'the' && tokens.length > 1) {
+    tokens.shift();
+  }
+  // "Alphabet Inc., Class A"
+  const classIndex = tokens.lastIndexOf('class');
+  if (classIndex > 0 && classIndex === tokens.length - 2) {
+    tokens.splice(classIndex);
+  }
+  while (tokens.length > 1 && LEGAL_FORMS.has(tokens[tokens.length - 1])) {
+    tokens.pop();
+  }
+  return tokens.join(' ');
+}
+
+/**
+ * How alike the names of two entities are, or null when they cannot be the
+ * same: different types, except a ticker and the org its company is
+ */
+export function compareNames(
+  a: EntityCandidate,
+  b: EntityCandidate,
+): NameMatch | null {
+  const tickers = [a, b].filter((entity) => entity.type === 'ticker').length;
+  if (
+    a.type !== b.type &&
+    !(tickers === 1 && [a.type, b.type].includes('org'))
+  ) {
+    return null;
+  }
+
+  // A ticker is compared by the company it is listed for
+  const nameA = normalizeEntityName(tickerName(a));
+  const nameB = normalizeEntityName(tickerName(b));
+  if (!nameA || !nameB) {
+    return null;
+  }
+  if (nameA === nameB) {
+    const reason = tickers > 0 ? 'company' : 'same-name';
+    return { similarity: SIMILARITY[reason], reason };
+  }
+  if (tickers > 0) {
+    return null;
+  }
+
+  const tokensA = nameA.split(' ');
+  const tokensB = nameB.split(' ');
+
+  if (
+    a.type === 'org' &&
+    (isAcronymOf(a.value, tokensB) || isAcronymOf(b.value, tokensA))
+  ) {
+    return { similarity: SIMILARITY.acronym, reason: 'acronym' };
+  }
+
+  if (a.type === 'person') {
+    const [short, long] =
+      tokensA.length <= tokensB.length
+        ? [tokensA, tokensB]
+        : [tokensB, tokensA];
+    if (
+      short.length === 1 &&
+      long.length > 1 &&
+      long[long.length - 1] === short[0]
+    ) {
+      return { similarity: SIMILARITY.surname, reason: 'surname' };
+    }
+  }
+
+  const similarity = Math.round(trigramSimilarity(nameA, nameB) * 1000) / 1000;
+  return { similarity, reason: 'similar-name' };
+}
+
+/**
+ * Pairs of entities whose names are alike, oriented so the entity with more
+ * articles (then the longer name) survives. Only entities sharing a
+ * blocking key are compared, which keeps this far from quadratic.
+ */
+export function findMergeCandidates(
+  entities: EntityCandidate[],
+  minSimilarity: number,
+): MergeCandidate[] {
+  const blocks = new Map<string, EntityCandidate[]>();
+  for (const entity of entities) {
+    for (const key of blockingKeys(entity)) {
+      const block = blocks.get(key) ?? [];
+      block.push(entity);
+      blocks.set(key, block);
+    }
+  }
+
+  const compared = new Set<string>();
+  const candidates: MergeCandidate[] = [];
+
+  for (const block of blocks.values()) {
+    if (block.length < 2 || block.length > MAX_BLOCK_SIZE) {
+      continue;
+    }
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const pair = [block[i].id, block[j].id].sort().join(':');
+        if (compared.has(pair)) {
+          continue;
+        }
+        compared.add(pair);
+
+        const match = compareNames(block[i], block[j]);
+        if (match && match.similarity >= minSimilarity) {
+          const [source, target] = orient(block[i], block[j]);
+          candidates.push({ source, target, ...match });
+        }
+      }
+    }
+  }
+
+  return candidates.sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Jaccard overlap of the articles two entities are linked to
+ */
+export function cooccurrence(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const id of a) {
+    if (b.has(id)) {
+      shared++;
+    }
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Name similarity carries the score; co-occurrence decides the borderline
+ * cases, like a surname that keeps turning up next to the full name
+ */
+export function mergeScore(nameSimilarity: number, overlap: number): number {
+  return Math.round((0.75 * nameSimilarity + 0.25 * overlap) * 1000) / 1000;
+}
+
+function blockingKeys(entity: EntityCandidate): string[] {
+  const name = normalizeEntityName(tickerName(entity));
+  if (!name) {
+    return [];
+  }
+  const tokens = name.split(' ');
+  const keys = [
+    `prefix:${name.slice(0, 4)}`,
+    `last:${tokens[tokens.length - 1]}`,
+  ];
+
+  const significant = tokens.filter((token) => !ACRONYM_SKIP.has(token));
+  if (significant.length > 1) {
+    keys.push(`acronym:${significant.map((token) => token[0]).join('')}`);
+  } else if (isAcronymLike(entity.value)) {
+    keys.push(`acronym:${entity.value.toLowerCase()}`);
+  }
+  return keys;
+}
+
+function tickerName(entity: EntityCandidate): string {
+  return entity.type === 'ticker' ? (entity.company ?? '') : entity.value;
+}
+
+function isAcronymLike(value: string): boolean {
+  return /^\p{Lu}{2,6}$/u.test(value);
+}
+
+function isAcronymOf(value: string, tokens: string[]): boolean {
+  const significant = tokens.filter((token) => !ACRONYM_SKIP.has(token));
+  return (
+    isAcronymLike(value) &&
+    significant.length > 1 &&
+    significant.map((token) => token[0]).join('') === value.toLowerCase()
+  );
+}
+
+function orient(
+  a: EntityCandidate,
+  b: EntityCandidate,
+): [source: EntityCandidate, target: EntityCandidate] {
+  const order =
+    b.articles - a.articles ||
+    b.value.length - a.value.length ||
+    b.id.localeCompare(a.id);
+  return order > 0 ? [a, b] : [b, a];
+}
+
+function trigramSimilarity(a: string, b: string): number {
+  const gramsA = trigrams(a);
+  const gramsB = trigrams(b);
+  let shared = 0;
+  for (const gram of gramsA) {
+    if (gramsB.has(gram)) {
+      shared++;
+    }
+  }
+  return (2 * shared) / (gramsA.size + gramsB.size);
+}
+
+function trigrams(value: string): Set<string> {
+  const padded = `  ${value} `;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+}
@@ -0,0 +1,148 @@
+import { GazetteerNames } from './entity-extractor';
+
+/**
+ * Names recognized out of the box, written exactly as they appear in text.
+ * Admins add more as `GazetteerEntry` rows; both lists are matched together.
+ */
+export const BUILT_IN_GAZETTEER: GazetteerNames = {
+  org: [
+    'Alphabet',
+    'Amazon',
+    'AMD',
+    'Anthropic',
+    'Apple',
+    'Airbus',
+    'Alibaba',
+    'Bank of America',
+    'Bank of England',
+    'Bank of Japan',
+    'BlackRock',
+    'Boeing',
+    'BP',
+    'ByteDance',
+    'Citigroup',
+    'Disney',
+    'European Central Bank',
+    'European Commission',
+    'European Union',
+    'ExxonMobil',
+    'Federal Reserve',
+    'FBI',
+    'Goldman Sachs',
+    'Google',
+    'Huawei',
+    'IBM',
+    'IMF',
+    'Intel',
+    'International Monetary Fund',
+    'JPMorgan',
+    'JPMorgan Chase',
+    'Meta',
+    'Microsoft',
+    'Morgan Stanley',
+    'NASA',
+    'NATO',
+    'Netflix',
+    'Nvidia',
+    'OpenAI',
+    'OPEC',
+    'Oracle',
+    'Pentagon',
+    'Pfizer',
+    'Reuters',
+    'Samsung',
+    'Shell',
+    'Siemens',
+    'SpaceX',
+    'Spotify',
+    'Supreme Court',
+    'Tesla',
+    'TikTok',
+    'Toyota',
+    'TSMC',
+    'Uber',
+    'United Nations',
+    'Volkswagen',
+    'Walmart',
+    'White House',
+    'World Bank',
+    'World Health Organization',
+    'WHO',
+    'YouTube',
+  ],
+  place: [
+    'Africa',
+    'Amsterdam',
+    'Asia',
+    'Australia',
+    'Beijing',
+    'Berlin',
+    'Brazil',
+    'Brussels',
+    'California',
+    'Canada',
+    'China',
+    'Europe',
+    'France',
+    'Gaza',
+    'Germany',
+    'Hong Kong',
+    'India',
+    'Iran',
+    'Israel',
+    'Italy',
+    'Japan',
+    'Kyiv',
+    'London',
+    'Los Angeles',
+    'Mexico',
+    'Moscow',
+    'New York',
+    'New York City',
+    'Paris',
+    'Russia',
+    'San Francisco',
+    'Saudi Arabia',
+    'Seoul',
+    'Silicon Valley',
+    'Singapore',
+    'South Korea',
+    'Spain',
+    'Taiwan',
+    'Texas',
+    'Tokyo',
+    'Turkey',
+    'UK',
+    'Ukraine',
+    'United Kingdom',
+    'United States',
+    'US',
+    'U.S.',
+    'Washington',
+  ],
+  person: [
+    'Andy Jassy',
+    'Christine Lagarde',
+    'Donald Trump',
+    'Elon Musk',
+    'Emmanuel Macron',
+    'Friedrich Merz',
+    'Jeff Bezos',
+    'Jensen Huang',
+    'Jerome Powell',
+    'Joe Biden',
+    'Keir Starmer',
+    'Mark Zuckerberg',
+    'Narendra Modi',
+    'Olaf Scholz',
+    'Sam Altman',
+    'Satya Nadella',
+    'Sundar Pichai',
+    'Tim Cook',
+    'Ursula von der Leyen',
+    'Vladimir Putin',
+    'Volodymyr Zelensky',
+    'Warren Buffett',
+    'Xi Jinping',
+  ],
+};
@@ -0,0 +1,106 @@
+import {
+  buildTickerDirectory,
+  extractTickers,
+  parseSymbolCsv,
+} from './ticker-extractor';
+
+const csv = [
+  '# comment lines are skipped',
+  'symbol,exchange,company,names',
+  'AAPL,NASDAQ,Apple Inc.,Apple',
+  'GOOGL,NASDAQ,"Alphabet Inc., Class A",Alphabet;Google',
+  'brk.b,nyse,"Berkshire Hathaway Inc., Class B",Berkshire Hathaway',
+  '',
+].join('\n');
+
+const directory = buildTickerDirectory(parseSymbolCsv(csv));
+
+describe('parseSymbolCsv', () => {
+  it('reads quoted fields and splits names', () => {
+    expect(parseSymbolCsv(csv)).toEqual([
+      {
+        symbol: 'AAPL',
+        exchange: 'NASDAQ',
+        company: 'Apple Inc.',
+        names: ['Apple'],
+      },
+      {
+        symbol: 'GOOGL',
+        exchange: 'NASDAQ',
+        company: 'Alphabet Inc., Class A',
+        names: ['Alphabet', 'Google'],
+      },
+      {
+        symbol: 'BRK.B',
+        exchange: 'NYSE',
+        company: 'Berkshire Hathaway Inc., Class B',
+        names: ['Berkshire Hathaway'],
+      },
+    ]);
+  });
+
+  it('rejects a file without the required columns', () => {
+    expect(() => parseSymbolCsv('ticker,name\nAAPL,Apple')).toThrow(
+      'missing the "symbol" column',
+    );
+  });
+});
+
+describe('extractTickers', () => {
+  it('takes cashtags of listed symbols only', () => {
+    const tickers = extractTickers(
+      'Buying $AAPL and $BRK.B, not $XYZQ, for US$5 each. $AAPL!',
+      directory,
+    );
+
+    expect(tickers).toEqual([
+      {
+        type: 'ticker',
+        value: 'AAPL',
+        method: 'cashtag',
+        mentions: 2,
+        meta: { exchange: 'NASDAQ', company: 'Apple Inc.' },
+      },
+      {
+        type: 'ticker',
+        value: 'BRK.B',
+        method: 'cashtag',
+        mentions: 1,
+        meta: { exchange: 'NYSE', company: 'Berkshire Hathaway Inc., Class B' },
+      },
+    ]);
+  });
+
+  it('takes exchange-prefixed symbols, listed or not', () => {
+    const tickers = extractTickers(
+      'Alphabet (Nasdaq: GOOGL) and Acme (NYSE:ACME) reported. Time: TBD.',
+      directory,
+    );
+
+    expect(tickers.map(({ value, meta }) => ({ value, meta }))).toEqual([
+      {
+        value: 'GOOGL',
+        meta: { exchange: 'NASDAQ', company: 'Alphabet Inc., Class A' },
+      },
+      { value: 'ACME', meta: { exchange: 'NYSE' } },
+    ]);
+  });
+
+  it('maps extracted orgs that name a listed company', () => {
+    const tickers = extractTickers('', directory, [
+      { type: 'org', value: 'Google', method: 'gazetteer', mentions: 3 },
+      { type: 'org', value: 'Globex', method: 'pattern', mentions: 1 },
+      { type: 'place', value: 'Apple', method: 'gazetteer', mentions: 1 },
+    ]);
+
+    expect(tickers).toEqual([
+      {
+        type: 'ticker',
+        value: 'GOOGL',
+        method: 'company-name',
+        mentions: 3,
+        meta: { exchange: 'NASDAQ', company: 'Alphabet Inc., Class A' },
+      },
+    ]);
+  });
+});
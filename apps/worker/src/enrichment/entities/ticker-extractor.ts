@@ -0,0 +1,203 @@
+import {
+  ExtractedEntity,
+  ExtractionMethod,
+  MAX_TEXT_LENGTH,
+} from './entity-extractor';
+
+export interface ListedCompany {
+  symbol: string; // "AAPL", "BRK.B"
+  exchange: string; // "NASDAQ"
+  company: string; // legal name, "Apple Inc."
+  names: string[]; // as written in articles, "Apple"
+}
+
+export interface TickerDirectory {
+  bySymbol: Map<string, ListedCompany>;
+  byName: Map<string, ListedCompany>;
+}
+
+// Prefixes accepted in "NASDAQ:MSFT"; symbols after them count even when unlisted
+const EXCHANGES = new Set([
+  'AMEX',
+  'ASX',
+  'BATS',
+  'EURONEXT',
+  'HKEX',
+  'LSE',
+  'NASDAQ',
+  'NYSE',
+  'NYSEARCA',
+  'OTC',
+  'SIX',
+  'TSE',
+  'TSX',
+  'XETRA',
+]);
+
+const SYMBOL = '[A-Z][A-Z0-9]{0,4}(?:\\.[A-Z]{1,2})?';
+// "$AAPL", but not "US$5" or "$AAPLX" when AAPLX is unlisted
+const CASHTAG = new RegExp(
+  `(?<![\\p{L}\\p{N}$])\\$(${SYMBOL})(?![\\p{L}\\p{N}])`,
+  'gu',
+);
+// "NASDAQ:MSFT", "(NYSE: IBM)", "Nasdaq: AAPL"
+const EXCHANGE_PREFIXED = new RegExp(
+  `(?<![\\p{L}\\p{N}])(\\p{L}{2,8})\\s?:\\s?(${SYMBOL})(?![\\p{L}\\p{N}])`,
+  'gu',
+);
+
+/**
+ * Parse the symbol directory: a CSV with a `symbol,exchange,company,names`
+ * header, names separated by `;`. Fields may be double-quoted.
+ */
+export function parseSymbolCsv(csv: string): ListedCompany[] {
+  const [header, ...rows] = csv
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '' && !line.startsWith('#'))
+    .map(parseCsvLine);
+  if (!header) {
+    return [];
+  }
+
+  const column = (name: string) => {
+    const index = header.indexOf(name);
+    if (index === -1) {
+      throw new Error(`Symbol CSV is missing the "${name}" column`);
+    }
+    return index;
+  };
+  const symbol = column('symbol');
+  const exchange = column('exchange');
+  const company = column('company');
+  const names = header.indexOf('names');
+
+  return rows
+    .filter((row) => row[symbol])
+    .map((row) => ({
+      symbol: row[symbol].toUpperCase(),
+      exchange: (row[exchange] ?? '').toUpperCase(),
+      company: row[company] ?? '',
+      names: (names === -1 ? '' : (row[names] ?? ''))
+        .split(';')
+        .map((name) => name.trim())
+        .filter(Boolean),
+    }));
+}
+
+export function buildTickerDirectory(
+  companies: ListedCompany[],
+): TickerDirectory {
+  const directory: TickerDirectory = { bySymbol: new Map(), byName: new Map() };
+
+  for (const company of companies) {
+    // First listing wins for symbols traded on several exchanges
+    if (!directory.bySymbol.has(company.symbol)) {
+      directory.bySymbol.set(company.symbol, company);
+    }
+    for (const name of company.names) {
+      if (!directory.byName.has(name)) {
+        directory.byName.set(name, company);
+      }
+    }
+  }
+  return directory;
+}
+
+/**
+ * Tickers mentioned as cashtags, as exchange-prefixed symbols, or through an
+ * already extracted org that names a listed company. Cashtags only count for
+ * listed symbols; a dollar sign before capitals is too often something else.
+ */
+export function extractTickers(
+  text: string,
+  directory: TickerDirectory,
+  orgs: ExtractedEntity[] = [],
+): ExtractedEntity[] {
+  const sample = text.slice(0, MAX_TEXT_LENGTH);
+  const found = new Map<string, ExtractedEntity>();
+
+  const add = (
+    symbol: string,
+    method: ExtractionMethod,
+    meta: Record<string, string>,
+    mentions = 1,
+  ) => {
+    const ticker = found.get(symbol);
+    if (ticker) {
+      ticker.mentions += mentions;
+      return;
+    }
+    found.set(symbol, {
+      type: 'ticker',
+      value: symbol,
+      method,
+      mentions,
+      meta,
+    });
+  };
+
+  for (const [, symbol] of sample.matchAll(CASHTAG)) {
+    const listed = directory.bySymbol.get(symbol);
+    if (listed) {
+      add(symbol, 'cashtag', listingMeta(listed));
+    }
+  }
+
+  for (const [, prefix, symbol] of sample.matchAll(EXCHANGE_PREFIXED)) {
+    const exchange = prefix.toUpperCase();
+    if (!EXCHANGES.has(exchange)) {
+      continue;
+    }
+    const listed = directory.bySymbol.get(symbol);
+    add(
+      symbol,
+      'exchange',
+      listed && listed.exchange === exchange
+        ? listingMeta(listed)
+        : { exchange },
+    );
+  }
+
+  for (const org of orgs) {
+    const listed = org.type === 'org' ? directory.byName.get(org.value) : null;
+    if (listed) {
+      add(listed.symbol, 'company-name', listingMeta(listed), org.mentions);
+    }
+  }
+
+  return [...found.values()];
+}
+
+function listingMeta(listed: ListedCompany): Record<string, string> {
+  return { exchange: listed.exchange, company: listed.company };
+}
+
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field.trim());
+  return fields;
+}
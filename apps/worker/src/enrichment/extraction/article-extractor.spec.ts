@@ -0,0 +1,71 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { extractArticle } from './article-extractor';
+
+const fixture = (name: string) =>
+  readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+describe('extractArticle', () => {
+  describe('news article with JSON-LD metadata', () => {
+    const result = extractArticle(fixture('news-article.html'));
+
+    it('should keep the article body paragraphs', () => {
+      expect(result.text).toContain(
+        'left its benchmark interest rate unchanged',
+      );
+      expect(result.text).toContain('What happens next');
+      expect(result.text).toContain('expect the first cut in November');
+    });
+
+    it('should strip navigation, ads, sidebars, comments and footers', () => {
+      expect(result.text).not.toContain('Advertisement');
+      expect(result.text).not.toContain('Celebrity chef');
+      expect(result.text).not.toContain('Great article');
+      expect(result.text).not.toContain('Copyright');
+      expect(result.text).not.toContain('Share on social');
+      expect(result.text).not.toContain('window.analytics');
+    });
+
+    it('should read byline, publish date and title from metadata', () => {
+      expect(result.byline).toBe('Maria Lopez');
+      expect(result.publishedAt).toEqual(new Date('2025-08-18T09:30:00Z'));
+      expect(result.title).toBe('Central bank holds rates steady');
+    });
+
+    it('should prefer rel=canonical over og:url', () => {
+      expect(result.canonicalUrl).toBe('/business/rates-hold');
+    });
+  });
+
+  describe('blog post with meta tags', () => {
+    const result = extractArticle(fixture('blog-post.html'));
+
+    it('should extract the post body without related links or signup boxes', () => {
+      expect(result.text).toContain('our builds took forty minutes');
+      expect(result.text).toContain('down to six minutes');
+      expect(result.text).not.toContain('Related:');
+      expect(result.text).not.toContain('Subscribe');
+      expect(result.wordCount).toBeGreaterThan(50);
+    });
+
+    it('should strip the "By" prefix and parse offset dates', () => {
+      expect(result.byline).toBe('Sam Carter');
+      expect(result.publishedAt).toEqual(new Date('2025-07-01T12:00:00Z'));
+    });
+
+    it('should fall back to og:url for the canonical URL', () => {
+      expect(result.canonicalUrl).toBe(
+        'https://blog.example.org/posts/build-system',
+      );
+    });
+  });
+
+  it('should return empty text for pages without content', () => {
+    const result = extractArticle('<html><body><nav>Menu</nav></body></html>');
+
+    expect(result.text).toBe('');
+    expect(result.byline).toBeNull();
+    expect(result.publishedAt).toBeNull();
+    expect(result.canonicalUrl).toBeNull();
+  });
+});
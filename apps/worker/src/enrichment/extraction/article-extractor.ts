@@ -0,0 +1,409 @@
+import * as cheerio from 'cheerio';
+import { isTag, type AnyNode, type Element } from 'domhandler';
+
+export interface ExtractedArticle {
+  title: string | null;
+  text: string;
+  byline: string | null;
+  publishedAt: Date | null;
+  canonicalUrl: string | null; // as declared by the page, possibly relative
+  wordCount: number;
+}
+
+type CheerioAPI = ReturnType<typeof cheerio.load>;
+
+// A JSON-LD object as parsed; its properties are checked where they are read
+type JsonLdNode = Record<string, unknown>;
+
+// Elements that never carry article body text
+const STRIP_TAGS = [
+  'script',
+  'style',
+  'noscript',
+  'iframe',
+  'object',
+  'embed',
+  'svg',
+  'canvas',
+  'form',
+  'button',
+  'input',
+  'select',
+  'textarea',
+  'nav',
+  'header',
+  'footer',
+  'aside',
+  'template',
+];
+
+const UNLIKELY_CANDIDATE =
+  /ad-|ads|advert|banner|breadcrumb|combx|comment|community|cookie|disqus|extra|footer|gdpr|header|menu|modal|nav|newsletter|outbrain|pagination|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|taboola|tags|tool|widget/i;
+const MAYBE_CANDIDATE =
+  /and|article|body|column|content|main|shadow|story|entry|post|text/i;
+const POSITIVE_WEIGHT =
+  /article|body|content|entry|hentry|h-entry|main|page|post|story|text|blog/i;
+const NEGATIVE_WEIGHT =
+  /hidden|banner|combx|comment|com-|contact|foot|footer|footnote|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget|ad-|ads/i;
+
+const BLOCK_SELECTOR = 'p, h2, h3, h4, h5, h6, li, blockquote, pre';
+const MIN_PARAGRAPH_LENGTH = 25;
+
+/**
+ * Readability-style main content extraction.
+ *
+ * Scores containers by the paragraphs they hold (length, commas, class/id
+ * hints, link density), picks the best one plus qualifying siblings and
+ * returns its text. Byline, publish date and canonical URL come from page metadata
+ * (JSON-LD, meta tags, microdata) before the boilerplate is stripped.
+ */
+export function extractArticle(html: string): ExtractedArticle {
+  const $ = cheerio.load(html);
+
+  const jsonLd = readJsonLd($);
+  const byline = extractByline($, jsonLd);
+  const publishedAt = extractPublishedAt($, jsonLd);
+  const title =
+    clean($('meta[property="og:title"]').attr('content')) ??
+    clean(stringOf(jsonLd?.headline)) ??
+    clean($('title').first().text());
+  const canonicalUrl =
+    clean($('link[rel~="canonical"]').first().attr('href')) ??
+    clean($('meta[property="og:url"]').attr('content'));
+
+  removeBoilerplate($);
+
+  const text = extractMainText($);
+
+  return {
+    title,
+    text,
+    byline,
+    publishedAt,
+    canonicalUrl,
+    wordCount: text ? text.split(/\s+/).length : 0,
+  };
+}
+
+function removeBoilerplate($: CheerioAPI): void {
+  $(STRIP_TAGS.join(',')).remove();
+  $(
+    '[hidden], [aria-hidden="true"], [role="navigation"], [role="banner"], [role="complementary"], [role="dialog"]',
+  ).remove();
+
+  $('*').each((_, node) => {
+    const element = $(node);
+    const tag = (node as Element).tagName?.toLowerCase();
+    if (
+      tag === 'html' ||
+      tag === 'body' ||
+      tag === 'article' ||
+      tag === 'main'
+    ) {
+      return;
+    }
+
+    const matchString = `${element.attr('class') ?? ''} ${element.attr('id') ?? ''}`;
+    if (
+      UNLIKELY_CANDIDATE.test(matchString) &&
+      !MAYBE_CANDIDATE.test(matchString)
+    ) {
+      element.remove();
+    }
+  });
+}
+
+function extractMainText($: CheerioAPI): string {
+  const scores = new Map<AnyNode, number>();
+
+  $('p, pre, td').each((_, node) => {
+    const paragraph = $(node);
+    const text = normalizeWhitespace(paragraph.text());
+    if (text.length < MIN_PARAGRAPH_LENGTH) {
+      return;
+    }
+
+    // One point per paragraph, one per comma, one per 100 characters (max 3)
+    const contentScore =
+      1 +
+      text.split(',').length -
+      1 +
+      Math.min(Math.floor(text.length / 100), 3);
+
+    const parent = node.parent;
+    const grandparent = parent?.parent;
+    if (parent && isTag(parent)) {
+      scores.set(
+        parent,
+        (scores.get(parent) ?? initialScore($, parent)) + contentScore,
+      );
+    }
+    if (grandparent && isTag(grandparent)) {
+      scores.set(
+        grandparent,
+        (scores.get(grandparent) ?? initialScore($, grandparent)) +
+          contentScore / 2,
+      );
+    }
+  });
+
+  let topCandidate: AnyNode | null = null;
+  let topScore = 0;
+
+  for (const [node, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, node));
+    scores.set(node, adjusted);
+    if (adjusted > topScore) {
+      topScore = adjusted;
+      topCandidate = node;
+    }
+  }
+
+  if (!topCandidate) {
+    return collectText($, $('body').length ? $('body') : $.root());
+  }
+
+  // Pull in siblings that look like continuation of the article body
+  const threshold = Math.max(10, topScore * 0.2);
+  const parts: string[] = [];
+
+  $(topCandidate)
+    .parent()
+    .children()
+    .each((_, sibling) => {
+      if (sibling === topCandidate) {
+        parts.push(collectText($, $(sibling)));
+        return;
+      }
+
+      const siblingScore = scores.get(sibling) ?? 0;
+      const siblingText = normalizeWhitespace($(sibling).text());
+      const isParagraph = sibling.tagName.toLowerCase() === 'p';
+
+      if (
+        siblingScore >= threshold ||
+        (isParagraph &&
+          siblingText.length > 80 &&
+          linkDensity($, sibling) < 0.25)
+      ) {
+        parts.push(collectText($, $(sibling)));
+      }
+    });
+
+  return parts.filter(Boolean).join('\n\n');
+}
+
+function initialScore($: CheerioAPI, node: AnyNode): number {
+  const element = node as Element;
+  let score = 0;
+
+  switch (element.tagName?.toLowerCase()) {
+    case 'article':
+      score += 10;
+      break;
+    case 'div':
+    case 'section':
+    case 'main':
+      score += 5;
+      break;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      score += 3;
+      break;
+    case 'address':
+    case 'ol':
+    case 'ul':
+    case 'dl':
+    case 'dd':
+    case 'dt':
+    case 'li':
+      score -= 3;
+      break;
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+    case 'th':
+      score -= 5;
+      break;
+  }
+
+  const matchString = `${$(node).attr('class') ?? ''} ${$(node).attr('id') ?? ''}`;
+  if (NEGATIVE_WEIGHT.test(matchString)) {
+    score -= 25;
+  }
+  if (POSITIVE_WEIGHT.test(matchString)) {
+    score += 25;
+  }
+
+  return score;
+}
+
+function linkDensity($: CheerioAPI, node: AnyNode): number {
+  const textLength = normalizeWhitespace($(node).text()).length;
+  if (textLength === 0) {
+    return 0;
+  }
+
+  let linkLength = 0;
+  $(node)
+    .find('a')
+    .each((_, link) => {
+      linkLength += normalizeWhitespace($(link).text()).length;
+    });
+
+  return linkLength / textLength;
+}
+
+function collectText($: CheerioAPI, container: ReturnType<CheerioAPI>): string {
+  const blocks: string[] = [];
+
+  container.find(BLOCK_SELECTOR).each((_, node) => {
+    // Nested blocks (li > p) are emitted by the innermost match only
+    if ($(node).find(BLOCK_SELECTOR).length > 0) {
+      return;
+    }
+    const text = normalizeWhitespace($(node).text());
+    if (text) {
+      blocks.push(text);
+    }
+  });
+
+  if (blocks.length === 0 || container.is(BLOCK_SELECTOR)) {
+    return normalizeWhitespace(container.text());
+  }
+
+  return blocks.join('\n\n');
+}
+
+function readJsonLd($: CheerioAPI): JsonLdNode | null {
+  let article: JsonLdNode | null = null;
+
+  $('script[type="application/ld+json"]').each((_, node) => {
+    if (article) {
+      return;
+    }
+    try {
+      const parsed = JSON.parse($(node).contents().text()) as unknown;
+      const graph = jsonLdNodeOf(parsed)?.['@graph'];
+      const candidates = Array.isArray(parsed)
+        ? (parsed as unknown[])
+        : Array.isArray(graph)
+          ? (graph as unknown[])
+          : [parsed];
+      article =
+        candidates
+          .map(jsonLdNodeOf)
+          .find(
+            (item) =>
+              item !== null &&
+              /Article|BlogPosting|Report/.test(typesOf(item).join(' ')),
+          ) ?? null;
+    } catch {
+      // Malformed JSON-LD is common; fall back to meta tags
+    }
+  });
+
+  return article;
+}
+
+function extractByline(
+  $: CheerioAPI,
+  jsonLd: JsonLdNode | null,
+): string | null {
+  const ldAuthor = jsonLd?.author;
+  const ldName = Array.isArray(ldAuthor)
+    ? (ldAuthor as unknown[])
+        .map(authorName)
+        .filter((name) => name !== null)
+        .join(', ')
+    : authorName(ldAuthor);
+
+  const candidates = [
+    ldName,
+    $('meta[name="author"]').attr('content'),
+    $('meta[property="article:author"]').attr('content'),
+    $('meta[name="parsely-author"]').attr('content'),
+    $('[itemprop="author"] [itemprop="name"]').first().text(),
+    $('[itemprop="author"]').first().text(),
+    $('[rel="author"]').first().text(),
+    $('.byline, .author, [class*="byline"]').first().text(),
+  ];
+
+  for (const candidate of candidates) {
+    const byline = clean(candidate)?.replace(/^by\s+/i, '');
+    // Profile URLs and long blurbs are not bylines
+    if (byline && byline.length <= 100 && !/^https?:\/\//.test(byline)) {
+      return byline;
+    }
+  }
+
+  return null;
+}
+
+function extractPublishedAt(
+  $: CheerioAPI,
+  jsonLd: Record<string, any> | null,
+): Date | null {
+  const candidates = [
+    stringOf(jsonLd?.datePublished),
+    $('meta[property="article:published_time"]').attr('content'),
+    $('meta[name="pubdate"]').attr('content'),
+    $('meta[name="publishdate"]').attr('content'),
+    $('meta[name="date"]').attr('content'),
+    $('meta[itemprop="datePublished"]').attr('content'),
+    $('[itemprop="datePublished"]').attr('datetime'),
+    $('time[datetime]').first().attr('datetime'),
+    stringOf(jsonLd?.dateCreated),
+  ];
+
+  for (const candidate of candidates) {
+    if (!candidate) {
+      continue;
+    }
+    const date = new Date(candidate);
+    if (!isNaN(date.getTime())) {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+function jsonLdNodeOf(value: unknown): JsonLdNode | null {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? (value as JsonLdNode)
+    : null;
+}
+
+// "@type" is a single name or a list of them
+function typesOf(node: JsonLdNode): string[] {
+  const type = node['@type'];
+  return (Array.isArray(type) ? (type as unknown[]) : [type])
+    .map(stringOf)
+    .filter((name) => name !== null);
+}
+
+// Authors are a name or a Person/Organization node
+function authorName(author: unknown): string | null {
+  return stringOf(author) ?? stringOf(jsonLdNodeOf(author)?.name);
+}
+
+function stringOf(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+function clean(value: string | undefined | null): string | null {
+  if (!value) {
+    return null;
+  }
+  const text = normalizeWhitespace(value);
+  return text.length > 0 ? text : null;
+}
+
+function normalizeWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
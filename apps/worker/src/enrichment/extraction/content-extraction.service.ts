@@ -0,0 +1,328 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { AxiosResponse } from 'axios';
+import { DuplicateResolutionService } from '../../database/duplicate-resolution.service';
+import { PrismaService } from '../../database/prisma.service';
+import { canonicalizeUrl } from '../../common/utils/url.util';
+import {
+  getFinalUrl,
+  OutboundHttpService,
+  RobotsDisallowedError,
+} from '../../http';
+import { BlobStorageService } from '../../storage';
+import { detectArticleLanguage } from '../language/language-detector';
+import { detectPaywall, resolvePaywalled } from '../paywall/paywall-detector';
+import { extractArticle } from './article-extractor';
+
+export interface ExtractionJobData {
+  articleId: string;
+  url: string;
+  missingAuthor: boolean;
+  missingPublishedAt: boolean;
+  fromSnapshot?: boolean; // re-run on the archived page instead of fetching it again
+}
+
+export interface ExtractionResult {
+  articleId: string;
+  status:
+    | 'extracted'
+    | 'too-short'
+    | 'not-html'
+    | 'not-found'
+    | 'disallowed'
+    | 'duplicate';
+  textLength: number;
+  wordCount: number;
+  updatedFields: string[];
+  source?: 'fetch' | 'snapshot';
+  duplicateOf?: string; // older article at the same canonical URL it was merged into
+}
+
+// Payloads worth archiving; binary bodies (PDF, images) are not read as text
+const ARCHIVABLE_CONTENT = /html|json|xml|^text\//i;
+
+@Injectable()
+export class ContentExtractionService {
+  private readonly logger = new Logger(ContentExtractionService.name);
+  private readonly requestTimeout = 20000;
+  private readonly maxContentLength = 5 * 1024 * 1024; // 5 MB
+  private readonly minTextLength = 200; // Shorter bodies are usually teasers or consent walls
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly http: OutboundHttpService,
+    private readonly blobStorage: BlobStorageService,
+    private readonly duplicateResolutionService: DuplicateResolutionService,
+  ) {}
+
+  /**
+   * Download an article page, archive the raw body, extract its main text and
+   * store it as cleanedText. Byline and publish date are only written when the
+   * source omitted them. `paywalled` follows the page unless the Source
+   * overrides it. With `fromSnapshot` the archived body is used instead.
+   * Once the canonical URL is known, copies of the page stored under other
+   * URLs are merged into the oldest; if that is another article, this one is
+   * merged away and reported as a duplicate.
+   */
+  async extractAndStore(data: ExtractionJobData): Promise<ExtractionResult> {
+    const article = await this.prisma.article.findUnique({
+      where: { id: data.articleId },
+      select: {
+        id: true,
+        title: true,
+        author: true,
+        lang: true,
+        langConfidence: true,
+        paywalled: true,
+        rawSnapshotUrl: true,
+        canonicalUrl: true,
+        source: { select: { paywallPolicy: true } },
+      },
+    });
+
+    if (!article) {
+      this.logger.warn(
+        `⚠️ Article ${data.articleId} no longer exists, skipping extraction`,
+      );
+      return this.result(data.articleId, 'not-found');
+    }
+
+    const update: Prisma.ArticleUpdateInput = {};
+    let html: string | null = null;
+    let source: ExtractionResult['source'] = 'snapshot';
+    // Redirect target when fetched; snapshots only know the stored URL
+    let pageUrl = data.url;
+
+    if (data.fromSnapshot && article.rawSnapshotUrl) {
+      html = await this.blobStorage.getSnapshot(article.rawSnapshotUrl);
+      if (html === null) {
+        this.logger.warn(
+          `⚠️ Snapshot ${article.rawSnapshotUrl} missing for article ${article.id}, fetching again`,
+        );
+      }
+    }
+
+    if (html === null) {
+      source = 'fetch';
+      let response: AxiosResponse<string>;
+      try {
+        response = await this.http.get<string>(data.url, {
+          responseType: 'text',
+          timeout: this.requestTimeout,
+          maxContentLength: this.maxContentLength,
+          headers: { Accept: 'text/html,application/xhtml+xml' },
+        });
+      } catch (error) {
+        // Not retryable: robots.txt will say the same thing on the next attempt
+        if (error instanceof RobotsDisallowedError) {
+          this.logger.debug(`🚫 ${error.message}`);
+          return this.result(data.articleId, 'disallowed');
+        }
+        throw error;
+      }
+
+      pageUrl = getFinalUrl(response, data.url);
+      const contentType = String(response.headers['content-type'] ?? '');
+      const snapshotKey = await this.archive(response.data, contentType);
+      if (snapshotKey && snapshotKey !== article.rawSnapshotUrl) {
+        update.rawSnapshotUrl = snapshotKey;
+      }
+
+      if (contentType && !contentType.includes('html')) {
+        this.logger.debug(
+          `⏭️ Skipping ${data.url}: content type ${contentType}`,
+        );
+        this.setCanonicalUrl(update, article.canonicalUrl, pageUrl);
+        const updatedFields = await this.applyUpdate(article.id, update);
+        const duplicateOf = await this.mergeCopies(article.id, update);
+        return {
+          ...this.result(
+            data.articleId,
+            duplicateOf ? 'duplicate' : 'not-html',
+          ),
+          updatedFields,
+          ...(duplicateOf ? { duplicateOf } : {}),
+        };
+      }
+
+      html = response.data;
+    }
+
+    const extracted = extractArticle(html);
+    this.setCanonicalUrl(
+      update,
+      article.canonicalUrl,
+      this.resolveCanonicalUrl(extracted.canonicalUrl, pageUrl),
+    );
+
+    if (extracted.text.length >= this.minTextLength) {
+      update.cleanedText = extracted.text;
+      // The full body is a far better sample than the title and feed summary seen at ingest
+      const language = detectArticleLanguage(article.title, extracted.text);
+      if (
+        language.lang !== article.lang ||
+        language.confidence !== article.langConfidence
+      ) {
+        update.lang = language.lang;
+        update.langConfidence = language.confidence;
+      }
+    }
+    const paywall = detectPaywall(html, extracted.text.length);
+    const paywalled = resolvePaywalled(
+      article.source.paywallPolicy,
+      paywall.paywalled,
+    );
+    if (paywalled !== article.paywalled) {
+      update.paywalled = paywalled;
+    }
+    if (paywall.paywalled) {
+      this.logger.debug(
+        `🔒 Paywall detected on ${data.url} (${paywall.signals.join(', ')})`,
+      );
+    }
+
+    if (data.missingAuthor && !article.author && extracted.byline) {
+      update.author = extracted.byline;
+    }
+    if (data.missingPublishedAt && extracted.publishedAt) {
+      update.publishedAt = extracted.publishedAt;
+    }
+
+    const updatedFields = await this.applyUpdate(article.id, update);
+    const duplicateOf = await this.mergeCopies(article.id, update);
+
+    this.logger.log(
+      `📄 Extracted ${extracted.wordCount} words from ${data.url} via ${source} (updated: ${updatedFields.join(', ') || 'nothing'})`,
+    );
+
+    return {
+      articleId: article.id,
+      status: duplicateOf
+        ? 'duplicate'
+        : update.cleanedText
+          ? 'extracted'
+          : 'too-short',
+      textLength: extracted.text.length,
+      wordCount: extracted.wordCount,
+      updatedFields,
+      source,
+      ...(duplicateOf ? { duplicateOf } : {}),
+    };
+  }
+
+  /**
+   * Merge the copies of a page that just got its canonical URL, as ingest
+   * does for copies it can tell apart by URL. Returns the article this one
+   * was merged into, or null when it was kept.
+   */
+  private async mergeCopies(
+    articleId: string,
+    update: Prisma.ArticleUpdateInput,
+  ): Promise<string | null> {
+    if (update.canonicalUrl === undefined) {
+      return null;
+    }
+
+    const merged =
+      await this.duplicateResolutionService.resolveCanonicalDuplicates(
+        articleId,
+      );
+    if (!merged) {
+      return null;
+    }
+    if (merged.survivorId !== articleId) {
+      this.logger.log(
+        `🔄 Article ${articleId} is a copy of ${merged.survivorId} at its canonical URL, merged`,
+      );
+      return merged.survivorId;
+    }
+    this.logger.log(
+      `🔄 Merged ${merged.removedIds.length} copies at the canonical URL into article ${articleId}`,
+    );
+    return null;
+  }
+
+  /**
+   * Resolve the page's declared canonical URL (rel=canonical / og:url)
+   * against the URL it was served from, falling back to that URL
+   */
+  private resolveCanonicalUrl(
+    declared: string | null,
+    pageUrl: string,
+  ): string {
+    if (declared) {
+      try {
+        const resolved = new URL(declared, pageUrl);
+        // A canonical pointing at the homepage is a site misconfiguration, not a duplicate of it
+        const pointsAtRoot =
+          resolved.pathname === '/' && new URL(pageUrl).pathname !== '/';
+        if (/^https?:$/.test(resolved.protocol) && !pointsAtRoot) {
+          return resolved.toString();
+        }
+      } catch {
+        // Unparseable canonical, use the page URL
+      }
+    }
+    return pageUrl;
+  }
+
+  private setCanonicalUrl(
+    update: Prisma.ArticleUpdateInput,
+    current: string | null,
+    url: string,
+  ): void {
+    const canonicalUrl = canonicalizeUrl(url);
+    if (canonicalUrl !== current) {
+      update.canonicalUrl = canonicalUrl;
+    }
+  }
+
+  /**
+   * Archive a fetched body; a storage outage must not block extraction
+   */
+  private async archive(
+    body: string,
+    contentType: string,
+  ): Promise<string | null> {
+    if (!body || (contentType && !ARCHIVABLE_CONTENT.test(contentType))) {
+      return null;
+    }
+
+    try {
+      return await this.blobStorage.putSnapshot(
+        body,
+        contentType || 'text/html',
+      );
+    } catch (error) {
+      this.logger.warn(`⚠️ Failed to archive snapshot: ${error.message}`);
+      return null;
+    }
+  }
+
+  private async applyUpdate(
+    articleId: string,
+    update: Prisma.ArticleUpdateInput,
+  ): Promise<string[]> {
+    const updatedFields = Object.keys(update);
+    if (updatedFields.length > 0) {
+      await this.prisma.article.update({
+        where: { id: articleId },
+        data: update,
+      });
+    }
+    return updatedFields;
+  }
+
+  private result(
+    articleId: string,
+    status: ExtractionResult['status'],
+  ): ExtractionResult {
+    return {
+      articleId,
+      status,
+      textLength: 0,
+      wordCount: 0,
+      updatedFields: [],
+    };
+  }
+}
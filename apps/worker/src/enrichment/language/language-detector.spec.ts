@@ -0,0 +1,46 @@
+import { detectArticleLanguage, detectLanguage } from './language-detector';
+
+describe('detectLanguage', () => {
+  it.each([
+    [
+      'Apple unveils new MacBook Pro with M4 chip and longer battery life',
+      'en',
+    ],
+    [
+      'Le gouvernement annonce une nouvelle réforme des retraites pour 2025',
+      'fr',
+    ],
+    [
+      'Die Bundesregierung plant neue Regeln für den Ausbau erneuerbarer Energien',
+      'de',
+    ],
+    ['東京で新しい人工知能の研究所が開設された', 'ja'],
+  ])('detects %s as %s', (text, lang) => {
+    const result = detectLanguage(text);
+    expect(result.lang).toBe(lang);
+    expect(result.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('returns null for text too short to judge', () => {
+    expect(detectLanguage('Rust 1.80')).toEqual({ lang: null, confidence: 0 });
+  });
+
+  it('returns null when the best guess does not clear the threshold', () => {
+    const result = detectLanguage(
+      'Show HN: A tiny Rust crate for parsing TOML',
+      0.9,
+    );
+    expect(result.lang).toBeNull();
+    expect(result.confidence).toBeLessThan(0.9);
+  });
+});
+
+describe('detectArticleLanguage', () => {
+  it('uses the body text to settle a short title', () => {
+    const result = detectArticleLanguage(
+      'Show HN: Pipeline',
+      'Ein kleines Werkzeug, das Nachrichten aus verschiedenen Quellen sammelt und zusammenfasst.',
+    );
+    expect(result.lang).toBe('de');
+  });
+});
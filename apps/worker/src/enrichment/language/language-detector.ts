@@ -0,0 +1,54 @@
+import { detectAll } from 'tinyld';
+
+export interface DetectedLanguage {
+  lang: string | null; // ISO 639-1 code, null when the text is too short or ambiguous
+  confidence: number; // 0..1
+}
+
+const MIN_TEXT_LENGTH = 12;
+const MIN_CONFIDENCE = 0.25;
+// N-gram scoring stabilizes well before this; long bodies only cost time
+const MAX_SAMPLE_LENGTH = 2000;
+
+/**
+ * Offline n-gram language detection.
+ *
+ * tinyld scores every candidate language; confidence is how far the best
+ * candidate leads the runner-up (1 when nothing else matched), so short
+ * titles that read like several languages come back as null.
+ */
+export function detectLanguage(
+  text: string,
+  minConfidence = MIN_CONFIDENCE,
+): DetectedLanguage {
+  const sample = text.replace(/\s+/g, ' ').trim().slice(0, MAX_SAMPLE_LENGTH);
+  if (sample.length < MIN_TEXT_LENGTH) {
+    return { lang: null, confidence: 0 };
+  }
+
+  const [best, runnerUp] = detectAll(sample);
+  if (!best || best.accuracy <= 0) {
+    return { lang: null, confidence: 0 };
+  }
+
+  const confidence = runnerUp
+    ? (best.accuracy - runnerUp.accuracy) / best.accuracy
+    : Math.min(best.accuracy, 1);
+  const rounded = Math.round(confidence * 1000) / 1000;
+
+  return {
+    lang: rounded >= minConfidence ? best.lang : null,
+    confidence: rounded,
+  };
+}
+
+/**
+ * Detect from the fields an article has at hand: the title plus whatever
+ * body text is stored (feed summary at ingest, full text after extraction)
+ */
+export function detectArticleLanguage(
+  title: string,
+  text?: string | null,
+): DetectedLanguage {
+  return detectLanguage(text && text !== title ? `${title}\n${text}` : title);
+}
@@ -0,0 +1,90 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { detectPaywall, resolvePaywalled } from './paywall-detector';
+
+const page = (head: string, body: string) =>
+  `<html><head>${head}</head><body>${body}</body></html>`;
+
+const jsonLd = (data: object) =>
+  `<script type="application/ld+json">${JSON.stringify(data)}</script>`;
+
+describe('detectPaywall', () => {
+  it('should trust isAccessibleForFree=false from JSON-LD', () => {
+    const html = page(
+      jsonLd({ '@type': 'NewsArticle', isAccessibleForFree: 'False' }),
+      '<p>Teaser</p>',
+    );
+    expect(detectPaywall(html, 5000)).toEqual({
+      paywalled: true,
+      signals: ['isAccessibleForFree=false'],
+    });
+  });
+
+  it('should treat any locked hasPart section as paywalled', () => {
+    const html = page(
+      jsonLd({
+        '@type': 'NewsArticle',
+        isAccessibleForFree: true,
+        hasPart: { '@type': 'WebPageElement', isAccessibleForFree: false },
+      }),
+      '',
+    );
+    expect(detectPaywall(html, 5000).paywalled).toBe(true);
+  });
+
+  it('should let an explicitly free article override paywall markup', () => {
+    const html = page(
+      jsonLd({ '@type': 'NewsArticle', isAccessibleForFree: true }),
+      '<div class="paywall"></div>',
+    );
+    expect(detectPaywall(html, 300).paywalled).toBe(false);
+  });
+
+  it('should read article:content_tier', () => {
+    const html = page(
+      '<meta property="article:content_tier" content="metered">',
+      '',
+    );
+    expect(detectPaywall(html, 5000).paywalled).toBe(true);
+  });
+
+  it('should flag paywall markup over a truncated body', () => {
+    const html = page('', '<p>Short teaser.</p><div class="tp-modal"></div>');
+    expect(detectPaywall(html, 120)).toEqual({
+      paywalled: true,
+      signals: ['markup:.tp-modal', 'truncated'],
+    });
+  });
+
+  it('should flag subscribe copy when the declared word count is far above the extracted one', () => {
+    const html = page(
+      jsonLd({ '@type': 'NewsArticle', wordCount: 1800 }),
+      '<p>Subscribe to continue reading.</p>',
+    );
+    expect(detectPaywall(html, 3000).paywalled).toBe(true);
+  });
+
+  it('should ignore a wall script on a full-length article', () => {
+    const html = page('', '<div id="poool-widget"></div>');
+    expect(detectPaywall(html, 6000)).toEqual({
+      paywalled: false,
+      signals: ['markup:#poool-widget'],
+    });
+  });
+
+  it('should not flag an ordinary article', () => {
+    const html = readFileSync(
+      join(__dirname, '..', 'extraction', 'fixtures', 'news-article.html'),
+      'utf8',
+    );
+    expect(detectPaywall(html, 2500).paywalled).toBe(false);
+  });
+});
+
+describe('resolvePaywalled', () => {
+  it('should apply the source override', () => {
+    expect(resolvePaywalled('ALWAYS', false)).toBe(true);
+    expect(resolvePaywalled('NEVER', true)).toBe(false);
+    expect(resolvePaywalled('AUTO', true)).toBe(true);
+  });
+});
@@ -0,0 +1,176 @@
+import * as cheerio from 'cheerio';
+import { PaywallPolicy } from '@prisma/client';
+
+export interface PaywallDetection {
+  paywalled: boolean;
+  signals: string[]; // what the decision was based on, for logging
+}
+
+type CheerioAPI = ReturnType<typeof cheerio.load>;
+
+// Containers publishers and paywall vendors (Piano, Poool, Zephr, ...) render the wall into
+const PAYWALL_SELECTORS = [
+  '.paywall',
+  '#paywall',
+  '[data-paywall]',
+  '[class*="paywall"]',
+  '[id*="paywall"]',
+  '.regwall',
+  '.piano-offer',
+  '.tp-modal',
+  '.tp-container-inner',
+  '#poool-widget',
+  '[data-zephr-feature]',
+  '.meteredContent',
+  '.subscriber-only',
+  '.premium-content',
+  '.article-locked',
+  '.locked-content',
+];
+
+const PAYWALL_PHRASES =
+  /subscribe (now )?to (continue|keep) reading|to continue reading,? (please )?(subscribe|log in|sign in)|this (article|story|content) is (only )?(available|reserved) (exclusively )?(to|for) (subscribers|members)|already a (subscriber|member)\?|subscribers only|réservé aux abonnés|nur für abonnenten/i;
+
+// Extracted bodies below this are teasers when the page also shows a wall
+const TRUNCATED_TEXT_LENGTH = 1200;
+
+/**
+ * Decide whether a fetched article page sits behind a paywall.
+ *
+ * schema.org `isAccessibleForFree` and `article:content_tier` are trusted on
+ * their own. Paywall markup or copy only counts together with a truncated
+ * body, because many publishers ship the wall script on free articles too.
+ */
+export function detectPaywall(
+  html: string,
+  extractedTextLength: number,
+): PaywallDetection {
+  const $ = cheerio.load(html);
+  const signals: string[] = [];
+
+  const declared = declaredAccess($);
+  if (declared !== null) {
+    signals.push(`isAccessibleForFree=${declared}`);
+    return { paywalled: !declared, signals };
+  }
+
+  const tier = $('meta[property="article:content_tier"]')
+    .attr('content')
+    ?.trim()
+    .toLowerCase();
+  if (tier === 'locked' || tier === 'metered') {
+    signals.push(`content_tier=${tier}`);
+    return { paywalled: true, signals };
+  }
+  if (tier === 'free') {
+    signals.push('content_tier=free');
+    return { paywalled: false, signals };
+  }
+
+  const markup = PAYWALL_SELECTORS.find((selector) => $(selector).length > 0);
+  if (markup) {
+    signals.push(`markup:${markup}`);
+  }
+  if (PAYWALL_PHRASES.test($('body').text())) {
+    signals.push('phrase');
+  }
+
+  const truncated =
+    extractedTextLength < TRUNCATED_TEXT_LENGTH ||
+    declaredWordCount($) > wordEstimate(extractedTextLength) * 2;
+  if (signals.length > 0 && truncated) {
+    signals.push('truncated');
+    return { paywalled: true, signals };
+  }
+
+  return { paywalled: false, signals };
+}
+
+/**
+ * Apply the per-source override; AUTO defers to detection
+ */
+export function resolvePaywalled(
+  policy: PaywallPolicy,
+  detected: boolean,
+): boolean {
+  switch (policy) {
+    case 'ALWAYS':
+      return true;
+    case 'NEVER':
+      return false;
+    default:
+      return detected;
+  }
+}
+
+/**
+ * Value stored at ingest, before any page has been fetched
+ */
+export function isPaywalledByPolicy(policy: PaywallPolicy): boolean {
+  return resolvePaywalled(policy, false);
+}
+
+/**
+ * `isAccessibleForFree` from JSON-LD (including `hasPart` sections) or
+ * microdata; null when the page does not say
+ */
+function declaredAccess($: CheerioAPI): boolean | null {
+  let declared: boolean | null = null;
+
+  const visit = (node: unknown): void => {
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    const record = node as Record<string, unknown>;
+    const value = parseBoolean(record.isAccessibleForFree);
+    // Any locked part makes the article paywalled
+    if (value !== null) {
+      declared = declared === false ? false : value;
+    }
+    visit(record['@graph']);
+    visit(record.hasPart);
+  };
+
+  $('script[type="application/ld+json"]').each((_, node) => {
+    try {
+      visit(JSON.parse($(node).contents().text()));
+    } catch {
+      // Malformed JSON-LD is common; fall back to microdata
+    }
+  });
+
+  if (declared === null) {
+    const microdata = $('[itemprop="isAccessibleForFree"]').first();
+    declared = parseBoolean(microdata.attr('content') ?? microdata.text());
+  }
+
+  return declared;
+}
+
+function declaredWordCount($: CheerioAPI): number {
+  const match = $('script[type="application/ld+json"]')
+    .text()
+    .match(/"wordCount"\s*:\s*"?(\d+)/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+function wordEstimate(textLength: number): number {
+  return Math.round(textLength / 6); // ~6 characters per word including the space
+}
+
+function parseBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === 'true' || normalized === 'false') {
+      return normalized === 'true';
+    }
+  }
+  return null;
+}
@@ -0,0 +1,356 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma, Topic } from '@prisma/client';
+import { ClusteringService } from '../../clustering';
+import { PrismaService } from '../../database/prisma.service';
+import {
+  assignTopics,
+  classifyTopics,
+  TopicExample,
+  TopicLabels,
+  TopicModelParams,
+  TOPICS,
+  TopicScores,
+  trainTopicModel,
+} from './topic-classifier';
+import { BUNDLED_TOPIC_EXAMPLES } from './topic-fixtures';
+
+export interface TopicClassificationJobData {
+  articleId: string;
+}
+
+export interface TopicTrainingJobData {
+  trainedBy?: string; // admin user ID
+}
+
+export interface TopicClassificationResult {
+  articleId: string;
+  status: 'classified' | 'not-found';
+  topics: Topic[];
+  scores: TopicScores | null;
+  modelId: string | null;
+}
+
+export interface TopicTrainingResult {
+  modelId: string;
+  vocabulary: number;
+  examples: {
+    fixtures: number;
+    labels: number;
+    feedback: number;
+  };
+}
+
+interface LoadedModel {
+  id: string;
+  params: TopicModelParams;
+}
+
+// Feedback reasons the trainer understands: "topic:ECONOMICS" says the story
+// is about that topic, "off-topic" on a downvote that it is not about the
+// topics it was tagged with
+const TOPIC_REASON_PREFIX = 'topic:';
+const OFF_TOPIC_REASON = 'off-topic';
+
+/**
+ * Scores articles on each `Topic` with a naive Bayes model and rolls the
+ * scores up to their clusters, so preferences can filter stories. The model
+ * starts from bundled examples; admins retrain it with their own labels and
+ * with reader feedback.
+ */
+@Injectable()
+export class TopicClassificationService {
+  private readonly logger = new Logger(TopicClassificationService.name);
+  // A model trained by another worker process is picked up within this long
+  private readonly modelTtl = 5 * 60 * 1000;
+  private readonly trainingLimit = 5000;
+  private model: { loaded: Promise<LoadedModel>; loadedAt: number } | null =
+    null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly clusteringService: ClusteringService,
+  ) {}
+
+  async classifyAndStore(
+    articleId: string,
+  ): Promise<TopicClassificationResult> {
+    const article = await this.prisma.article.findUnique({
+      where: { id: articleId },
+      select: {
+        title: true,
+        cleanedText: true,
+        clusterMembers: { select: { clusterId: true } },
+      },
+    });
+
+    if (!article) {
+      this.logger.warn(
+        `⚠️ Article ${articleId} no longer exists, skipping topic classification`,
+      );
+      return {
+        articleId,
+        status: 'not-found',
+        topics: [],
+        scores: null,
+        modelId: null,
+      };
+    }
+
+    const model = await this.getModel();
+    const scores = classifyTopics(
+      `${article.title}\n${article.cleanedText}`,
+      model.params,
+    );
+    const topics = assignTopics(scores);
+
+    await this.prisma.article.update({
+      where: { id: articleId },
+      data: { topics, topicScores: scores, topicModelId: model.id },
+    });
+    for (const { clusterId } of article.clusterMembers) {
+      await this.clusteringService.refreshClusterTopics(clusterId);
+    }
+
+    this.logger.log(
+      `🗂️ Classified article ${articleId} as ${topics.join(', ') || 'no topic'}`,
+    );
+    return {
+      articleId,
+      status: 'classified',
+      topics,
+      scores,
+      modelId: model.id,
+    };
+  }
+
+  /**
+   * Train a new model from the bundled examples, admin labels and topic
+   * feedback, and make it the one that classifies from now on. Articles keep
+   * the scores of the model that classified them until classified again.
+   */
+  async train(trainedBy?: string): Promise<TopicTrainingResult> {
+    const { model, result } = await this.trainAndStore(trainedBy);
+    this.model = { loaded: Promise.resolve(model), loadedAt: Date.now() };
+    return result;
+  }
+
+  /**
+   * Articles never classified or classified by an older model, newest first
+   */
+  async findOutdated(limit: number): Promise<string[]> {
+    const model = await this.getModel();
+    const articles = await this.prisma.article.findMany({
+      where: {
+        OR: [{ topicModelId: null }, { topicModelId: { not: model.id } }],
+      },
+      orderBy: { publishedAt: 'desc' },
+      take: limit,
+      select: { id: true },
+    });
+    return articles.map((article) => article.id);
+  }
+
+  async getStats() {
+    const model = await this.prisma.topicModel.findFirst({
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, examples: true, trainedBy: true, createdAt: true },
+    });
+    const [articles, classified, current, labels, byTopic] = await Promise.all([
+      this.prisma.article.count(),
+      this.prisma.article.count({ where: { topicModelId: { not: null } } }),
+      model
+        ? this.prisma.article.count({ where: { topicModelId: model.id } })
+        : 0,
+      this.prisma.topicLabel.count(),
+      Promise.all(
+        TOPICS.map(async (topic) => [
+          topic,
+          {
+            articles: await this.prisma.article.count({
+              where: { topics: { has: topic } },
+            }),
+            clusters: await this.prisma.cluster.count({
+              where: { topics: { has: topic } },
+            }),
+          },
+        ]),
+      ),
+    ]);
+
+    return {
+      model,
+      articles,
+      classified,
+      classifiedByCurrentModel: current,
+      pending: articles - current,
+      labels,
+      byTopic: Object.fromEntries(byTopic),
+    };
+  }
+
+  /**
+   * Newest trained model. The first run trains one from the bundled examples
+   * and stores it, so every score can be traced to a model.
+   */
+  private getModel(): Promise<LoadedModel> {
+    if (this.model && Date.now() - this.model.loadedAt < this.modelTtl) {
+      return this.model.loaded;
+    }
+
+    const loaded = this.prisma.topicModel
+      .findFirst({
+        orderBy: { createdAt: 'desc' },
+        select: { id: true, params: true },
+      })
+      .then(async (stored) => {
+        if (stored) {
+          return {
+            id: stored.id,
+            params: stored.params as unknown as TopicModelParams,
+          };
+        }
+        return (await this.trainAndStore()).model;
+      })
+      .catch((error) => {
+        this.model = null;
+        throw error;
+      });
+    this.model = { loaded, loadedAt: Date.now() };
+    return loaded;
+  }
+
+  private async trainAndStore(
+    trainedBy?: string,
+  ): Promise<{ model: LoadedModel; result: TopicTrainingResult }> {
+    const labels = await this.getLabelExamples();
+    const feedback = await this.getFeedbackExamples(
+      new Set(labels.map((label) => label.articleId)),
+    );
+
+    const params = trainTopicModel([
+      ...BUNDLED_TOPIC_EXAMPLES,
+      ...labels,
+      ...feedback,
+    ]);
+    const examples = {
+      fixtures: BUNDLED_TOPIC_EXAMPLES.length,
+      labels: labels.length,
+      feedback: feedback.length,
+    };
+
+    const model = await this.prisma.topicModel.create({
+      data: {
+        params: params as unknown as Prisma.InputJsonValue,
+        examples,
+        trainedBy,
+      },
+    });
+
+    this.logger.log(
+      `🎓 Trained topic model ${model.id} on ${examples.fixtures} bundled, ${examples.labels} labeled and ${examples.feedback} feedback examples`,
+    );
+    return {
+      model: { id: model.id, params },
+      result: { modelId: model.id, vocabulary: params.vocabulary, examples },
+    };
+  }
+
+  private async getLabelExamples(): Promise<
+    Array<TopicExample & { articleId: string }>
+  > {
+    const labels = await this.prisma.topicLabel.findMany({
+      orderBy: { updatedAt: 'desc' },
+      take: this.trainingLimit,
+      select: {
+        articleId: true,
+        topics: true,
+        article: { select: { title: true, cleanedText: true } },
+      },
+    });
+
+    return labels.map((label) => ({
+      articleId: label.articleId,
+      text: `${label.article.title}\n${label.article.cleanedText}`,
+      labels: Object.fromEntries(
+        TOPICS.map((topic) => [topic, label.topics.includes(topic)]),
+      ),
+    }));
+  }
+
+  /**
+   * One example per cluster from the topic feedback of its readers, on the
+   * cluster's representative article. Readers can disagree; each topic goes
+   * the way most of them voted and is left out on a tie. Articles an admin
+   * labeled are skipped, the label wins.
+   */
+  private async getFeedbackExamples(
+    labeled: Set<string>,
+  ): Promise<TopicExample[]> {
+    const feedback = await this.prisma.feedback.findMany({
+      where: {
+        reasons: {
+          hasSome: [
+            OFF_TOPIC_REASON,
+            ...TOPICS.map((topic) => `${TOPIC_REASON_PREFIX}${topic}`),
+          ],
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: this.trainingLimit,
+      select: {
+        clusterId: true,
+        vote: true,
+        reasons: true,
+        cluster: {
+          select: {
+            topics: true,
+            representative: {
+              select: { id: true, title: true, cleanedText: true },
+            },
+          },
+        },
+      },
+    });
+
+    const clusters = new Map<
+      string,
+      { text: string; articleId: string; votes: Map<Topic, number> }
+    >();
+    for (const { clusterId, vote, reasons, cluster } of feedback) {
+      const entry = clusters.get(clusterId) ?? {
+        text: `${cluster.representative.title}\n${cluster.representative.cleanedText}`,
+        articleId: cluster.representative.id,
+        votes: new Map<Topic, number>(),
+      };
+      clusters.set(clusterId, entry);
+
+      for (const topic of TOPICS) {
+        if (reasons.includes(`${TOPIC_REASON_PREFIX}${topic}`)) {
+          entry.votes.set(topic, (entry.votes.get(topic) ?? 0) + 1);
+        }
+      }
+      if (vote < 0 && reasons.includes(OFF_TOPIC_REASON)) {
+        for (const topic of cluster.topics) {
+          entry.votes.set(topic, (entry.votes.get(topic) ?? 0) - 1);
+        }
+      }
+    }
+
+    const examples: TopicExample[] = [];
+    for (const { text, articleId, votes } of clusters.values()) {
+      if (labeled.has(articleId)) {
+        continue;
+      }
+      const labels: TopicLabels = {};
+      for (const [topic, net] of votes) {
+        if (net !== 0) {
+          labels[topic] = net > 0;
+        }
+      }
+      if (Object.keys(labels).length > 0) {
+        examples.push({ text, labels });
+      }
+    }
+    return examples;
+  }
+}
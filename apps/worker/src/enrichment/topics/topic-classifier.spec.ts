@@ -0,0 +1,97 @@
+import {
+  assignTopics,
+  averageTopicScores,
+  classifyTopics,
+  topicTokens,
+  trainTopicModel,
+} from './topic-classifier';
+import { BUNDLED_TOPIC_EXAMPLES } from './topic-fixtures';
+
+const model = trainTopicModel(BUNDLED_TOPIC_EXAMPLES);
+
+function topicsOf(text: string) {
+  return assignTopics(classifyTopics(text, model));
+}
+
+describe('topicTokens', () => {
+  it('drops stopwords and short words and trims endings', () => {
+    expect(topicTokens('The tariffs and the Elections of 2024 in EU')).toEqual([
+      'tariff',
+      'election',
+    ]);
+  });
+});
+
+describe('classifyTopics', () => {
+  it('classifies unseen stories with the bundled examples', () => {
+    expect(
+      topicsOf(
+        'Central bank keeps interest rates unchanged as inflation cools. Bond yields fell and stocks rose after the decision.',
+      ),
+    ).toEqual(['ECONOMICS']);
+    expect(
+      topicsOf(
+        'Hackers exploit a vulnerability in popular router software. Security researchers urged users to update the firmware.',
+      ),
+    ).toEqual(['TECHNOLOGY']);
+    expect(
+      topicsOf(
+        'Opposition leader launches campaign for the presidential election. Polls show voters split ahead of the vote.',
+      ),
+    ).toEqual(['POLITICS']);
+  });
+
+  it('assigns several topics or none', () => {
+    expect(
+      topicsOf(
+        'Lawmakers pass a bill restricting exports of AI chips. The legislation targets semiconductors used in data centers.',
+      ),
+    ).toEqual(['TECHNOLOGY', 'POLITICS']);
+    expect(
+      topicsOf(
+        'Striker scores twice as the team wins the cup final. Fans celebrated in the stadium after the match.',
+      ),
+    ).toEqual([]);
+  });
+
+  it('learns from partial labels', () => {
+    const retrained = trainTopicModel([
+      ...BUNDLED_TOPIC_EXAMPLES,
+      ...Array.from({ length: 5 }, () => ({
+        text: 'Crypto exchange token listing draws traders',
+        labels: { ECONOMICS: true },
+      })),
+    ]);
+    const text = 'Crypto token listing';
+
+    expect(classifyTopics(text, retrained).ECONOMICS).toBeGreaterThan(
+      classifyTopics(text, model).ECONOMICS,
+    );
+    expect(retrained.topics.TECHNOLOGY.positive.documents).toBe(
+      model.topics.TECHNOLOGY.positive.documents,
+    );
+  });
+
+  it('scores nothing for a topic without both kinds of example', () => {
+    const scores = classifyTopics(
+      'Inflation',
+      trainTopicModel([
+        { text: 'Inflation rises', labels: { ECONOMICS: true } },
+      ]),
+    );
+
+    expect(scores).toEqual({ ECONOMICS: 0, TECHNOLOGY: 0, POLITICS: 0 });
+  });
+});
+
+describe('averageTopicScores', () => {
+  it('averages member scores', () => {
+    expect(
+      averageTopicScores([
+        { ECONOMICS: 0.9, TECHNOLOGY: 0.1, POLITICS: 0.6 },
+        { ECONOMICS: 0.7, TECHNOLOGY: 0.2, POLITICS: 0.2 },
+      ]),
+    ).toEqual({ ECONOMICS: 0.8, TECHNOLOGY: 0.15, POLITICS: 0.4 });
+    expect(averageTopicScores([])).toBeNull();
+  });
+});
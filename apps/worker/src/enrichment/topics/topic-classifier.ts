@@ -0,0 +1,219 @@
+import { Topic } from '@prisma/client';
+
+export const TOPICS = Object.values(Topic);
+
+/**
+ * What an example says about each topic: true when it is about the topic,
+ * false when it is not, absent when unknown. Feedback only ever speaks about
+ * some topics, so each topic learns from the examples that mention it.
+ */
+export type TopicLabels = Partial<Record<Topic, boolean>>;
+
+export type TopicScores = Record<Topic, number>;
+
+export interface TopicExample {
+  text: string;
+  labels: TopicLabels;
+}
+
+interface ClassCounts {
+  documents: number;
+  tokens: number; // sum of the token counts below
+}
+
+export interface TopicParams {
+  positive: ClassCounts;
+  negative: ClassCounts;
+  counts: Record<string, [positive: number, negative: number]>;
+}
+
+/**
+ * One binary naive Bayes model per topic over the tokens of a document,
+ * each token counted once per document. Stored as JSON in `TopicModel.params`.
+ */
+export interface TopicModelParams {
+  vocabulary: number;
+  topics: Record<Topic, TopicParams>;
+}
+
+// A topic is assigned when its score reaches this
+export const TOPIC_THRESHOLD = 0.5;
+
+// Title and lead carry the topic; the rest of a long body adds noise
+const MAX_WORDS = 300;
+const MAX_VOCABULARY = 20000;
+// A long article is no surer of its topic than a paragraph
+const EVIDENCE_TOKENS = 25;
+
+const STOPWORDS = new Set(
+  (
+    'about after again against all also and any are because been before being ' +
+    'between both but can could did does doing down during each few for from ' +
+    'further had has have having her here hers him his how into its just more ' +
+    'most not now off once only other our ours out over own said same says she ' +
+    'should some such than that the their theirs them then there these they ' +
+    'this those through under until very was were what when where which while ' +
+    'who whom why will with would year years you your'
+  ).split(' '),
+);
+
+/**
+ * Lowercase words of three letters or more without stopwords, plural and
+ * verb endings trimmed so "tariffs" and "tariff" count as one
+ */
+export function topicTokens(text: string): string[] {
+  const words = (text.toLowerCase().match(/\p{L}[\p{L}\p{N}]*/gu) ?? []).slice(
+    0,
+    MAX_WORDS,
+  );
+  return words
+    .filter((word) => word.length >= 3 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+export function trainTopicModel(examples: TopicExample[]): TopicModelParams {
+  const documents = examples.map((example) => ({
+    tokens: new Set(topicTokens(example.text)),
+    labels: example.labels,
+  }));
+
+  // Keep the most frequent tokens when the vocabulary grows too large
+  const frequency = new Map<string, number>();
+  for (const document of documents) {
+    for (const token of document.tokens) {
+      frequency.set(token, (frequency.get(token) ?? 0) + 1);
+    }
+  }
+  const vocabulary = new Set(
+    [...frequency]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, MAX_VOCABULARY)
+      .map(([token]) => token),
+  );
+
+  const topics = {} as Record<Topic, TopicParams>;
+  for (const topic of TOPICS) {
+    const params: TopicParams = {
+      positive: { documents: 0, tokens: 0 },
+      negative: { documents: 0, tokens: 0 },
+      counts: {},
+    };
+
+    for (const document of documents) {
+      const label = document.labels[topic];
+      if (label === undefined) {
+        continue;
+      }
+      const side = label ? 0 : 1;
+      const counts = label ? params.positive : params.negative;
+      counts.documents++;
+
+      for (const token of document.tokens) {
+        if (!vocabulary.has(token)) {
+          continue;
+        }
+        const count = params.counts[token] ?? [0, 0];
+        count[side]++;
+        params.counts[token] = count;
+        counts.tokens++;
+      }
+    }
+    topics[topic] = params;
+  }
+
+  return { vocabulary: vocabulary.size, topics };
+}
+
+/**
+ * Probability of each topic on its own, so an article can score high on
+ * several (a chip export ban is technology and politics) or on none
+ */
+export function classifyTopics(
+  text: string,
+  model: TopicModelParams,
+): TopicScores {
+  const tokens = [...new Set(topicTokens(text))];
+  const scores = {} as TopicScores;
+
+  for (const topic of TOPICS) {
+    const params = model.topics[topic];
+    if (
+      !params ||
+      params.positive.documents === 0 ||
+      params.negative.documents === 0
+    ) {
+      scores[topic] = 0;
+      continue;
+    }
+
+    const prior = Math.log(
+      params.positive.documents / params.negative.documents,
+    );
+    const positiveTotal = params.positive.tokens + model.vocabulary;
+    const negativeTotal = params.negative.tokens + model.vocabulary;
+
+    let evidence = 0;
+    let known = 0;
+    for (const token of tokens) {
+      const count = params.counts[token];
+      if (!count) {
+        continue;
+      }
+      evidence +=
+        Math.log((count[0] + 1) / positiveTotal) -
+        Math.log((count[1] + 1) / negativeTotal);
+      known++;
+    }
+    if (known > EVIDENCE_TOKENS) {
+      evidence *= EVIDENCE_TOKENS / known;
+    }
+
+    scores[topic] = round(1 / (1 + Math.exp(-(prior + evidence))));
+  }
+
+  return scores;
+}
+
+export function assignTopics(
+  scores: Partial<TopicScores>,
+  threshold = TOPIC_THRESHOLD,
+): Topic[] {
+  return TOPICS.filter((topic) => (scores[topic] ?? 0) >= threshold);
+}
+
+/**
+ * Mean score per topic, e.g. of a cluster's classified members
+ */
+export function averageTopicScores(
+  scores: Partial<TopicScores>[],
+): TopicScores | null {
+  if (scores.length === 0) {
+    return null;
+  }
+  const average = {} as TopicScores;
+  for (const topic of TOPICS) {
+    const sum = scores.reduce((total, score) => total + (score[topic] ?? 0), 0);
+    average[topic] = round(sum / scores.length);
+  }
+  return average;
+}
+
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ies')) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.length > 6 && word.endsWith('ing')) {
+    return word.slice(0, -3);
+  }
+  if (word.length > 5 && word.endsWith('ed')) {
+    return word.slice(0, -2);
+  }
+  if (word.length > 4 && word.endsWith('s') && !word.endsWith('ss')) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
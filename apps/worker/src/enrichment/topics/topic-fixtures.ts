@@ -0,0 +1,376 @@
+import { Topic } from '@prisma/client';
+import { TOPICS, TopicExample } from './topic-classifier';
+
+const { ECONOMICS, POLITICS, TECHNOLOGY } = Topic;
+
+/**
+ * Fully labeled: every topic not listed is a negative
+ */
+function fixture(topics: Topic[], text: string): TopicExample {
+  return {
+    text,
+    labels: Object.fromEntries(
+      TOPICS.map((topic) => [topic, topics.includes(topic)]),
+    ),
+  };
+}
+
+/**
+ * Labeled headlines and leads the classifier starts from. Admin labels and
+ * reader feedback are trained on top of these; stories outside the three
+ * topics (sport, culture, weather) teach it when to assign none.
+ */
+export const BUNDLED_TOPIC_EXAMPLES: TopicExample[] = [
+  fixture(
+    [ECONOMICS],
+    'Central bank raises interest rates to curb inflation. Policymakers lifted the benchmark rate by a quarter point and signalled further tightening as consumer prices kept rising.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Inflation eases for a third month as energy prices fall. Economists expect the slowdown in consumer prices to give the central bank room to pause rate hikes.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Stocks slide as bond yields climb to a 16-year high. Investors sold equities after Treasury yields jumped on expectations that interest rates will stay higher for longer.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Economy grows faster than expected in the second quarter. Gross domestic product expanded at an annual rate of 2.4% on strong consumer spending and business investment.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Unemployment falls to 3.5% as employers add 250,000 jobs. The labor market stayed tight, with wage growth outpacing inflation for the first time in two years.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Oil prices surge after producers announce output cuts. Brent crude rose above $90 a barrel, adding to pressure on fuel costs and inflation.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Retail sales drop as shoppers cut back on spending. Higher borrowing costs and elevated prices weighed on household budgets in the latest monthly figures.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Bank shares tumble after lender reports loan losses. The bank set aside more provisions for bad debts as commercial property values declined.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Housing market cools as mortgage rates hit 7%. Home sales fell for a sixth straight month and prices dipped in most regions, according to industry data.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Company profits beat forecasts as revenue rises. The retailer raised its full-year earnings guidance and its shares gained 8% in early trading.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Currency hits record low against the dollar. The exchange rate slump raised import costs and prompted the central bank to intervene in foreign exchange markets.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Manufacturing activity contracts for a fifth month. Factory orders fell and the purchasing managers index slipped below 50 as demand weakened.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Merger creates the largest grocery chain in the country. The companies agreed to a $24 billion deal that shareholders and competition regulators still need to approve.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Consumer confidence rebounds as gasoline prices fall. Households grew more optimistic about their finances and the outlook for jobs and income.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Markets rally after the Federal Reserve holds rates steady. The S&P 500 and Nasdaq closed higher as investors bet the tightening cycle is over.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Trade deficit widens as exports fall. Weaker global demand hit shipments of goods abroad while imports of consumer products rose.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Airline raises fares as fuel costs climb. The carrier said higher jet fuel prices and labor costs would squeeze margins this quarter.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Recession fears grow as yield curve inverts further. Analysts warned that slowing growth and tight credit conditions could tip the economy into a downturn.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Shares of the carmaker fall on weak quarterly sales. Deliveries missed analyst estimates and the company cut prices to defend market share.',
+  ),
+  fixture(
+    [ECONOMICS],
+    'Wages rise at the fastest pace in decades. Average hourly earnings grew 5.1% from a year earlier, keeping pressure on prices in the services sector.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'New smartphone features a faster chip and better camera. The device ships next month with an upgraded processor, longer battery life and a brighter display.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Startup unveils an AI model that writes code. The large language model was trained on open source repositories and can generate software from plain English prompts.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Hackers breach a cloud provider and steal customer data. The cybersecurity incident exposed passwords and encryption keys, the company said in a statement.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Software update fixes a critical security vulnerability. Users are urged to install the patch, which closes a flaw that let attackers run malicious code.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Researchers build a quantum computer with 1,000 qubits. The processor marks a step toward machines that can solve problems beyond classical computers.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Social media app launches a new feature for short videos. The platform is testing the tool with creators before rolling it out to all users.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Chipmaker opens a new semiconductor factory. The plant will produce advanced processors for data centers, smartphones and AI accelerators.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Electric car maker tests self-driving software on public roads. The autonomous driving system uses cameras, sensors and neural networks to navigate traffic.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Outage knocks the messaging service offline for hours. Engineers traced the problem to a faulty configuration change in the network and servers.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Open source developers release a new version of the programming language. The update brings faster compilation, better tooling and memory safety improvements.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Search engine adds generative AI answers. The chatbot summarizes web pages and cites sources, the company announced at its developer conference.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Rocket launches a batch of internet satellites into orbit. The broadband constellation now has thousands of satellites providing connectivity worldwide.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Ransomware attack disrupts hospital computer systems. Staff switched to paper records while IT teams restored servers from backups.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Tech giant shows off a mixed reality headset. The wearable device blends apps with the real world and is controlled with eyes, hands and voice.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Browser maker blocks third-party cookies to protect privacy. Websites and advertisers will need new tools to track users across the internet.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Data center demand soars as companies train larger AI models. Cloud computing providers are racing to add GPUs, storage and network capacity.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Robot learns to fold laundry using machine learning. Engineers trained the robotic arms with reinforcement learning and video demonstrations.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Video game console sells out on launch day. The new hardware supports 4K graphics, faster loading and backward compatibility with older games.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Battery breakthrough promises electric vehicles that charge in minutes. Scientists developed a solid-state cell with higher energy density.',
+  ),
+  fixture(
+    [TECHNOLOGY],
+    'Email provider adds passkeys to replace passwords. The login technology uses encryption on the device to make accounts harder to hack.',
+  ),
+  fixture(
+    [POLITICS],
+    'President signs executive order on immigration. The White House said the order tightens asylum rules at the border, drawing criticism from Democrats.',
+  ),
+  fixture(
+    [POLITICS],
+    'Parliament votes to approve the new defense bill. Lawmakers passed the legislation after weeks of debate, with the opposition voting against it.',
+  ),
+  fixture(
+    [POLITICS],
+    'Prime minister calls a snap election for next month. The ruling party hopes to strengthen its majority as polls show the opposition gaining ground.',
+  ),
+  fixture(
+    [POLITICS],
+    'Senate confirms the nominee for Supreme Court justice. Republicans and Democrats split along party lines in the final vote.',
+  ),
+  fixture(
+    [POLITICS],
+    'Voters head to the polls in a tight presidential race. Candidates made final campaign stops in swing states as turnout was expected to be high.',
+  ),
+  fixture(
+    [POLITICS],
+    'Foreign ministers meet to discuss a ceasefire. Diplomats said talks on ending the war and releasing hostages made little progress.',
+  ),
+  fixture(
+    [POLITICS],
+    'Government collapses after the coalition partner quits. The chancellor lost his majority in parliament and faces a confidence vote.',
+  ),
+  fixture(
+    [POLITICS],
+    'Governor vetoes the bill on voting rights. The state legislature may try to override the veto when lawmakers return next session.',
+  ),
+  fixture(
+    [POLITICS],
+    'Protesters rally against the government in the capital. Opposition leaders demanded the resignation of the president and new elections.',
+  ),
+  fixture(
+    [POLITICS],
+    'NATO leaders agree to boost military aid at summit. Allies pledged more weapons and air defense systems amid the ongoing war.',
+  ),
+  fixture(
+    [POLITICS],
+    'Congress averts a government shutdown with a last-minute deal. The House and Senate passed a stopgap spending bill hours before the deadline.',
+  ),
+  fixture(
+    [POLITICS],
+    'Candidate announces a run for mayor. The former council member launched her campaign promising to tackle crime and housing.',
+  ),
+  fixture(
+    [POLITICS],
+    'Court rules the election law unconstitutional. Judges struck down the redistricting map, ordering the legislature to draw new districts.',
+  ),
+  fixture(
+    [POLITICS],
+    'Sanctions imposed on officials over human rights abuses. The foreign ministry said the measures target leaders responsible for the crackdown on dissidents.',
+  ),
+  fixture(
+    [POLITICS],
+    'Opposition party wins regional elections in a landslide. The result is a blow to the ruling coalition ahead of next year’s national vote.',
+  ),
+  fixture(
+    [POLITICS],
+    'Speaker of the House ousted in a historic vote. A group of Republican lawmakers joined Democrats to remove the speaker from the post.',
+  ),
+  fixture(
+    [POLITICS],
+    'Ambassador recalled as diplomatic row escalates. The two governments traded accusations of interference and expelled diplomats.',
+  ),
+  fixture(
+    [POLITICS],
+    'Poll shows the incumbent trailing the challenger. Voters cited crime, immigration and the cost of living as their top concerns in the campaign.',
+  ),
+  fixture(
+    [POLITICS],
+    'Referendum on independence set for next year. The regional parliament approved the vote despite objections from the national government.',
+  ),
+  fixture(
+    [POLITICS],
+    'Minister resigns over a corruption scandal. Prosecutors are investigating allegations that public contracts were awarded to party donors.',
+  ),
+  fixture(
+    [ECONOMICS, POLITICS],
+    'Government unveils budget with tax cuts and higher spending. The finance minister said the plan would boost growth, while the opposition warned about the deficit.',
+  ),
+  fixture(
+    [ECONOMICS, POLITICS],
+    'Tariffs on imported steel take effect as trade war escalates. The administration defended the duties, and trading partners threatened retaliation against exports.',
+  ),
+  fixture(
+    [ECONOMICS, POLITICS],
+    'Lawmakers raise the debt ceiling to avoid default. Markets steadied after Congress passed the bill that lets the Treasury keep paying its bills.',
+  ),
+  fixture(
+    [ECONOMICS, POLITICS],
+    'Parliament passes a minimum wage increase. Business groups warned about job losses while unions welcomed the higher pay for workers.',
+  ),
+  fixture(
+    [TECHNOLOGY, POLITICS],
+    'Senators grill tech executives over social media and child safety. Lawmakers threatened legislation to hold platforms accountable for harmful content.',
+  ),
+  fixture(
+    [TECHNOLOGY, POLITICS],
+    'Government bans chip exports to rival nations. The national security rules restrict sales of advanced semiconductors and AI chips.',
+  ),
+  fixture(
+    [TECHNOLOGY, POLITICS],
+    'Lawmakers approve the first law regulating artificial intelligence. The legislation sets rules for AI systems used in hiring, policing and elections.',
+  ),
+  fixture(
+    [TECHNOLOGY, ECONOMICS],
+    'Chipmaker shares soar on record revenue from AI demand. The company’s quarterly earnings beat forecasts as data center sales tripled.',
+  ),
+  fixture(
+    [TECHNOLOGY, ECONOMICS],
+    'Tech company cuts 10,000 jobs to reduce costs. The software maker said it would invest the savings in artificial intelligence as growth slows.',
+  ),
+  fixture(
+    [TECHNOLOGY, ECONOMICS],
+    'Antitrust regulators fine the search giant $4 billion. The competition authority found the company abused its dominance in online advertising.',
+  ),
+  fixture(
+    [],
+    'Champions League: late goal sends the holders into the final. The striker scored in stoppage time as the team came back from two goals down.',
+  ),
+  fixture(
+    [],
+    'Tennis star wins a fifth Wimbledon title. She beat the defending champion in straight sets on Centre Court in front of a sellout crowd.',
+  ),
+  fixture(
+    [],
+    'Quarterback throws four touchdowns in a playoff win. The coach praised the defense, which held the visitors scoreless in the second half.',
+  ),
+  fixture(
+    [],
+    'Marathon runner breaks the world record. The athlete finished the race in under two hours and one minute on a cool morning.',
+  ),
+  fixture(
+    [],
+    'Film wins best picture at the Oscars. The director thanked the cast and crew as the drama also took awards for best actress and screenplay.',
+  ),
+  fixture(
+    [],
+    'Singer announces a world tour after releasing a new album. Fans rushed to buy tickets for concerts in stadiums across Europe and North America.',
+  ),
+  fixture(
+    [],
+    'Museum opens an exhibition of impressionist paintings. The show brings together works by Monet and Renoir lent by collections around the world.',
+  ),
+  fixture(
+    [],
+    'Hurricane makes landfall with heavy rain and strong winds. Residents were told to evacuate coastal areas as the storm brought flooding.',
+  ),
+  fixture(
+    [],
+    'Heatwave brings record temperatures across the region. Forecasters warned people to stay indoors and drink water as the weather stays hot.',
+  ),
+  fixture(
+    [],
+    'Scientists discover a new species of frog in the rainforest. The tiny amphibian was found during a survey of wildlife in remote mountains.',
+  ),
+  fixture(
+    [],
+    'Study links daily walking to a longer life. Researchers followed thousands of adults and found regular exercise lowered the risk of heart disease.',
+  ),
+  fixture(
+    [],
+    'Chef opens a restaurant serving seasonal dishes. The menu features local vegetables, fresh fish and desserts inspired by family recipes.',
+  ),
+  fixture(
+    [],
+    'Astronomers spot a comet visible to the naked eye next week. Stargazers should look toward the western horizon just after sunset.',
+  ),
+  fixture(
+    [],
+    'Royal couple welcomes a baby girl. The palace shared the first photos of the newborn princess with her parents.',
+  ),
+  fixture(
+    [],
+    'Festival draws record crowds for music and food. Organizers said more than 100,000 visitors attended over the weekend despite rain.',
+  ),
+  fixture(
+    [],
+    'Golf champion leads by three shots after the second round. The player carded a bogey-free 66 to stay ahead of the field.',
+  ),
+  fixture(
+    [],
+    'Earthquake shakes the coast, damaging buildings. Rescue teams searched through rubble for survivors as aftershocks continued.',
+  ),
+  fixture(
+    [],
+    'Novel wins the prestigious literary prize. Judges praised the author’s story of a family across three generations.',
+  ),
+];
@@ -0,0 +1,85 @@
+import { ConcurrencyLimiter } from './concurrency-limiter';
+
+function deferred() {
+  let resolve!: () => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+// Let pending promise callbacks run
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('ConcurrencyLimiter', () => {
+  it('should run at most the limit at once and queue the rest', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const tasks = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const runs = tasks.map((task, i) =>
+      limiter.run(() => {
+        started.push(i);
+        return task.promise;
+      }),
+    );
+    await flush();
+
+    expect(started).toEqual([0, 1]);
+    expect(limiter.activeCount).toBe(2);
+    expect(limiter.pendingCount).toBe(1);
+
+    tasks[0].resolve();
+    await flush();
+
+    expect(started).toEqual([0, 1, 2]);
+    expect(limiter.activeCount).toBe(2);
+    expect(limiter.pendingCount).toBe(0);
+
+    tasks[1].resolve();
+    tasks[2].resolve();
+    await Promise.all(runs);
+
+    expect(limiter.activeCount).toBe(0);
+  });
+
+  it('should start waiters in the order they arrived', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const first = deferred();
+    const started: string[] = [];
+
+    const runs = [
+      limiter.run(() => first.promise),
+      limiter.run(() => {
+        started.push('second');
+        return Promise.resolve();
+      }),
+      limiter.run(() => {
+        started.push('third');
+        return Promise.resolve();
+      }),
+    ];
+    await flush();
+    expect(started).toEqual([]);
+
+    first.resolve();
+    await Promise.all(runs);
+
+    expect(started).toEqual(['second', 'third']);
+  });
+
+  it('should free the slot when a task fails', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const failing = deferred();
+
+    const failed = limiter.run(() => failing.promise);
+    const next = limiter.run(() => Promise.resolve('done'));
+    failing.reject(new Error('boom'));
+
+    await expect(failed).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('done');
+    expect(limiter.activeCount).toBe(0);
+  });
+});
@@ -0,0 +1,2 @@
+export * from './outbound-http.service';
+export * from './robots-txt';
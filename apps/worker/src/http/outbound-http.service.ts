@@ -0,0 +1,325 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { ConcurrencyLimiter } from './concurrency-limiter';
+import { ALLOW_ALL, parseRobotsTxt, RobotsRules } from './robots-txt';
+import { TokenBucket } from './token-bucket';
+
+export interface OutboundRequestOptions
+  extends Pick<
+    AxiosRequestConfig,
+    'responseType' | 'timeout' | 'maxContentLength' | 'validateStatus'
+  > {
+  headers?: Record<string, string>;
+  respectRobots?: boolean; // defaults to true
+}
+
+export interface HostLimit {
+  ratePerSecond: number;
+  burst: number;
+}
+
+export interface HostStats {
+  host: string;
+  requests: number;
+  failures: number;
+  robotsBlocked: number;
+  throttled: number;
+  throttledMs: number;
+  ratePerSecond: number;
+  crawlDelay: number | null;
+  lastStatus: number | null;
+  lastRequestAt: string | null;
+}
+
+interface HostState {
+  bucket: TokenBucket;
+  limiter: ConcurrencyLimiter;
+  limit: HostLimit;
+  crawlDelay: number | null;
+  stats: HostStats;
+}
+
+interface RobotsCacheEntry {
+  rules: Promise<RobotsRules>;
+  expiresAt: number;
+}
+
+export class RobotsDisallowedError extends Error {
+  constructor(readonly url: string) {
+    super(`Fetching ${url} is disallowed by robots.txt`);
+    this.name = 'RobotsDisallowedError';
+  }
+}
+
+/**
+ * URL a response was finally served from, after redirects
+ */
+export function getFinalUrl(
+  response: AxiosResponse,
+  requestedUrl: string,
+): string {
+  const responseUrl: unknown = response.request?.res?.responseUrl;
+  return typeof responseUrl === 'string' && responseUrl
+    ? responseUrl
+    : requestedUrl;
+}
+
+/**
+ * Outbound HTTP client shared by source adapters and enrichment.
+ *
+ * Every request goes through a per-host token bucket and concurrency cap,
+ * plus a global concurrency cap, and is checked against the host's cached
+ * robots.txt. A robots Crawl-delay lowers the host's rate accordingly.
+ */
+@Injectable()
+export class OutboundHttpService {
+  private readonly logger = new Logger(OutboundHttpService.name);
+  private readonly hosts = new Map<string, HostState>();
+  private readonly hostLimits = new Map<string, HostLimit>();
+  private readonly robotsCache = new Map<string, RobotsCacheEntry>();
+  private readonly globalLimiter: ConcurrencyLimiter;
+
+  private readonly userAgent: string;
+  private readonly productToken: string;
+  private readonly defaultLimit: HostLimit;
+  private readonly perHostConcurrency: number;
+  private readonly robotsTtlMs: number;
+  private readonly robotsTimeout = 10000;
+
+  constructor(configService: ConfigService) {
+    this.userAgent = configService.get<string>(
+      'FETCH_USER_AGENT',
+      'SmartNewsAggregator/1.0 (+https://github.com/ductienthan/SmartNewsAggregator)',
+    );
+    this.productToken = this.userAgent.split(/[/\s]/)[0];
+    this.defaultLimit = {
+      ratePerSecond: this.number(configService, 'FETCH_RATE_PER_HOST', 1),
+      burst: this.number(configService, 'FETCH_BURST_PER_HOST', 3),
+    };
+    this.perHostConcurrency = this.number(
+      configService,
+      'FETCH_CONCURRENCY_PER_HOST',
+      2,
+    );
+    this.robotsTtlMs =
+      this.number(configService, 'FETCH_ROBOTS_TTL_MINUTES', 60 * 24) *
+      60 *
+      1000;
+    this.globalLimiter = new ConcurrencyLimiter(
+      this.number(configService, 'FETCH_CONCURRENCY', 8),
+    );
+  }
+
+  /**
+   * Override the default rate for a host, e.g. for APIs built for bulk access.
+   * Call before the first request to that host; Crawl-delay still applies.
+   */
+  configureHost(host: string, limit: HostLimit): void {
+    this.hostLimits.set(host, limit);
+    const state = this.hosts.get(host);
+    if (state) {
+      state.limit = limit;
+      this.applyLimit(state);
+    }
+  }
+
+  /**
+   * GET a URL once robots.txt allows it and the host's rate limit permits
+   */
+  async get<T = string>(
+    url: string,
+    options: OutboundRequestOptions = {},
+  ): Promise<AxiosResponse<T>> {
+    const target = new URL(url);
+    const state = this.getHostState(target.host);
+
+    if (options.respectRobots !== false) {
+      const rules = await this.getRobotsRules(target);
+      if (!rules.isAllowed(`${target.pathname}${target.search}`)) {
+        state.stats.robotsBlocked++;
+        throw new RobotsDisallowedError(url);
+      }
+    }
+
+    // Only pass options that were set; an explicit undefined would override axios defaults
+    const config: AxiosRequestConfig = {
+      url,
+      method: 'GET',
+      headers: { 'User-Agent': this.userAgent, ...options.headers },
+    };
+    for (const key of [
+      'responseType',
+      'timeout',
+      'maxContentLength',
+      'validateStatus',
+    ] as const) {
+      if (options[key] !== undefined) {
+        Object.assign(config, { [key]: options[key] });
+      }
+    }
+
+    return this.send<T>(state, config);
+  }
+
+  /**
+   * Get request counters, overall and per host
+   */
+  getStats() {
+    const hosts = Array.from(this.hosts.values()).map((state) => ({
+      ...state.stats,
+    }));
+
+    return {
+      userAgent: this.userAgent,
+      concurrency: {
+        active: this.globalLimiter.activeCount,
+        pending: this.globalLimiter.pendingCount,
+        perHost: this.perHostConcurrency,
+      },
+      defaultLimit: this.defaultLimit,
+      totals: {
+        requests: hosts.reduce((sum, host) => sum + host.requests, 0),
+        failures: hosts.reduce((sum, host) => sum + host.failures, 0),
+        robotsBlocked: hosts.reduce((sum, host) => sum + host.robotsBlocked, 0),
+        throttled: hosts.reduce((sum, host) => sum + host.throttled, 0),
+        throttledMs: hosts.reduce((sum, host) => sum + host.throttledMs, 0),
+      },
+      robotsCached: this.robotsCache.size,
+      hosts,
+    };
+  }
+
+  private async send<T>(
+    state: HostState,
+    config: AxiosRequestConfig,
+  ): Promise<AxiosResponse<T>> {
+    return state.limiter.run(async () => {
+      const delay = state.bucket.reserve();
+      if (delay > 0) {
+        state.stats.throttled++;
+        state.stats.throttledMs += delay;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+
+      return this.globalLimiter.run(async () => {
+        state.stats.requests++;
+        state.stats.lastRequestAt = new Date().toISOString();
+
+        try {
+          const response = await axios.request<T>(config);
+          state.stats.lastStatus = response.status;
+          return response;
+        } catch (error) {
+          state.stats.failures++;
+          state.stats.lastStatus = error.response?.status ?? null;
+          throw error;
+        }
+      });
+    });
+  }
+
+  private getRobotsRules(target: URL): Promise<RobotsRules> {
+    const cached = this.robotsCache.get(target.origin);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.rules;
+    }
+
+    // Concurrent callers share one robots.txt download per origin
+    const rules = this.fetchRobots(target);
+    this.robotsCache.set(target.origin, {
+      rules,
+      expiresAt: Date.now() + this.robotsTtlMs,
+    });
+    rules.catch(() => this.robotsCache.delete(target.origin));
+
+    return rules;
+  }
+
+  private async fetchRobots(target: URL): Promise<RobotsRules> {
+    const state = this.getHostState(target.host);
+    const response = await this.send<string>(state, {
+      url: `${target.origin}/robots.txt`,
+      method: 'GET',
+      responseType: 'text',
+      timeout: this.robotsTimeout,
+      headers: { 'User-Agent': this.userAgent },
+      validateStatus: () => true,
+    });
+
+    // RFC 9309: a missing robots.txt allows everything, a failing one is retried later
+    if (response.status >= 400 && response.status < 500) {
+      return ALLOW_ALL;
+    }
+    if (response.status >= 500) {
+      throw new Error(
+        `robots.txt for ${target.origin} unavailable (HTTP ${response.status})`,
+      );
+    }
+
+    const rules = parseRobotsTxt(
+      String(response.data ?? ''),
+      this.productToken,
+    );
+    if (rules.crawlDelay !== null && rules.crawlDelay !== state.crawlDelay) {
+      this.logger.log(
+        `🐢 ${target.host} asks for a ${rules.crawlDelay}s crawl delay`,
+      );
+    }
+    state.crawlDelay = rules.crawlDelay;
+    this.applyLimit(state);
+
+    return rules;
+  }
+
+  private getHostState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      const limit = this.hostLimits.get(host) ?? this.defaultLimit;
+      state = {
+        bucket: new TokenBucket(limit.burst, limit.ratePerSecond),
+        limiter: new ConcurrencyLimiter(this.perHostConcurrency),
+        limit,
+        crawlDelay: null,
+        stats: {
+          host,
+          requests: 0,
+          failures: 0,
+          robotsBlocked: 0,
+          throttled: 0,
+          throttledMs: 0,
+          ratePerSecond: limit.ratePerSecond,
+          crawlDelay: null,
+          lastStatus: null,
+          lastRequestAt: null,
+        },
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  /**
+   * Apply the configured limit, slowed down to one request per Crawl-delay
+   */
+  private applyLimit(state: HostState): void {
+    let { ratePerSecond, burst } = state.limit;
+    if (state.crawlDelay) {
+      ratePerSecond = Math.min(ratePerSecond, 1 / state.crawlDelay);
+      burst = 1;
+    }
+
+    state.bucket.reconfigure(burst, ratePerSecond);
+    state.stats.ratePerSecond = ratePerSecond;
+    state.stats.crawlDelay = state.crawlDelay;
+  }
+
+  private number(
+    configService: ConfigService,
+    key: string,
+    fallback: number,
+  ): number {
+    const value = parseFloat(configService.get<string>(key) ?? '');
+    return isNaN(value) || value <= 0 ? fallback : value;
+  }
+}
@@ -0,0 +1,80 @@
+import { parseRobotsTxt } from './robots-txt';
+
+describe('parseRobotsTxt', () => {
+  const robots = `
+    # Example robots.txt
+    User-agent: *
+    Disallow: /private/
+    Disallow: /*.pdf$
+    Allow: /private/press/
+    Crawl-delay: 2
+
+    User-agent: SmartNewsAggregator
+    User-agent: OtherBot
+    Disallow: /search
+    Crawl-delay: 5
+
+    User-agent: BadBot
+    Disallow: /
+  `;
+
+  it('should use the wildcard group when no agent matches', () => {
+    const rules = parseRobotsTxt(robots, 'SomeCrawler');
+
+    expect(rules.crawlDelay).toBe(2);
+    expect(rules.isAllowed('/news/today')).toBe(true);
+    expect(rules.isAllowed('/private/report')).toBe(false);
+    expect(rules.isAllowed('/private/press/release')).toBe(true);
+    expect(rules.isAllowed('/files/report.pdf')).toBe(false);
+    expect(rules.isAllowed('/files/report.pdf?download=1')).toBe(true);
+  });
+
+  it('should prefer the group naming the crawler, case-insensitively', () => {
+    const rules = parseRobotsTxt(robots, 'smartnewsaggregator');
+
+    expect(rules.crawlDelay).toBe(5);
+    expect(rules.isAllowed('/search?q=rates')).toBe(false);
+    // Only the matching group applies, not the wildcard one
+    expect(rules.isAllowed('/private/report')).toBe(true);
+  });
+
+  it('should not apply groups naming only part of the crawler', () => {
+    const rules = parseRobotsTxt(
+      'User-agent: *\nDisallow: /private/\n\nUser-agent: News\nDisallow: /',
+      'SmartNewsAggregator',
+    );
+
+    expect(rules.isAllowed('/news/today')).toBe(true);
+    expect(rules.isAllowed('/private/report')).toBe(false);
+  });
+
+  it('should merge groups naming the same crawler', () => {
+    const rules = parseRobotsTxt(
+      'User-agent: smartnewsaggregator\nDisallow: /a\n\nUser-agent: SmartNewsAggregator\nDisallow: /b',
+      'SmartNewsAggregator',
+    );
+
+    expect(rules.isAllowed('/a')).toBe(false);
+    expect(rules.isAllowed('/b')).toBe(false);
+    expect(rules.isAllowed('/c')).toBe(true);
+  });
+
+  it('should let Allow win when patterns are equally specific', () => {
+    const rules = parseRobotsTxt(
+      'User-agent: *\nDisallow: /page\nAllow: /page',
+      'SmartNewsAggregator',
+    );
+
+    expect(rules.isAllowed('/page')).toBe(true);
+  });
+
+  it('should always allow robots.txt and treat empty rules as allow-all', () => {
+    const blocked = parseRobotsTxt(robots, 'BadBot');
+    const empty = parseRobotsTxt('User-agent: *\nDisallow:', 'BadBot');
+
+    expect(blocked.isAllowed('/anything')).toBe(false);
+    expect(blocked.isAllowed('/robots.txt')).toBe(true);
+    expect(empty.isAllowed('/anything')).toBe(true);
+    expect(empty.crawlDelay).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+export interface RobotsRules {
+  isAllowed(path: string): boolean;
+  crawlDelay: number | null;
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+}
+
+export const ALLOW_ALL: RobotsRules = {
+  isAllowed: () => true,
+  crawlDelay: null,
+};
+
+export const DISALLOW_ALL: RobotsRules = {
+  isAllowed: (path) => path === '/robots.txt',
+  crawlDelay: null,
+};
+
+/**
+ * Parse robots.txt (RFC 9309) for one crawler.
+ *
+ * The groups whose user-agent equals `productToken`, ignoring case, apply,
+ * falling back to `*`; groups naming the same agent are merged. Within a
+ * group the longest matching pattern decides and Allow wins ties. `*` and
+ * a trailing `$` are supported in patterns. Crawl-delay is a common
+ * extension and is read from the selected group.
+ */
+export function parseRobotsTxt(
+  content: string,
+  productToken: string,
+): RobotsRules {
+  const groups = parseGroups(content);
+  const token = productToken.toLowerCase();
+
+  // A group for "News" must not apply to "SmartNewsAggregator"
+  let selected = groups.filter((group) => group.agents.includes(token));
+  if (selected.length === 0) {
+    selected = groups.filter((group) => group.agents.includes('*'));
+  }
+
+  const rules = selected.flatMap((group) => group.rules);
+  const crawlDelay =
+    selected.find((group) => group.crawlDelay !== null)?.crawlDelay ?? null;
+
+  return {
+    crawlDelay,
+    isAllowed: (path: string) => isAllowed(rules, path),
+  };
+}
+
+function parseGroups(content: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of content.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    collectingAgents = false;
+    if (!current) {
+      continue;
+    }
+
+    if ((key === 'allow' || key === 'disallow') && value) {
+      current.rules.push({
+        allow: key === 'allow',
+        pattern: value,
+        regex: toRegex(value),
+      });
+    } else if (key === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!isNaN(delay) && delay >= 0) {
+        current.crawlDelay = delay;
+      }
+    }
+  }
+
+  return groups;
+}
+
+function isAllowed(rules: RobotsRule[], path: string): boolean {
+  if (path === '/robots.txt') {
+    return true;
+  }
+
+  let match: RobotsRule | null = null;
+  for (const rule of rules) {
+    if (!rule.regex.test(path)) {
+      continue;
+    }
+    if (
+      !match ||
+      rule.pattern.length > match.pattern.length ||
+      (rule.pattern.length === match.pattern.length && rule.allow)
+    ) {
+      match = rule;
+    }
+  }
+
+  return match ? match.allow : true;
+}
+
+function toRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
@@ -0,0 +1,52 @@
+import { TokenBucket } from './token-bucket';
+
+describe('TokenBucket', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  it('should hand out a full bucket without waiting', () => {
+    const bucket = new TokenBucket(3, 1, clock);
+
+    expect([bucket.reserve(), bucket.reserve(), bucket.reserve()]).toEqual([
+      0, 0, 0,
+    ]);
+  });
+
+  it('should space reservations past the capacity at the refill rate', () => {
+    const bucket = new TokenBucket(1, 2, clock);
+
+    expect(bucket.reserve()).toBe(0);
+    expect(bucket.reserve()).toBe(500);
+    expect(bucket.reserve()).toBe(1000);
+  });
+
+  it('should refill over time without exceeding the capacity', () => {
+    const bucket = new TokenBucket(2, 1, clock);
+    bucket.reserve();
+    bucket.reserve();
+
+    now = 1000;
+    expect(bucket.reserve()).toBe(0);
+    expect(bucket.reserve()).toBe(1000);
+
+    now = 60000;
+    expect(bucket.reserve()).toBe(0);
+    expect(bucket.reserve()).toBe(0);
+    expect(bucket.reserve()).toBe(1000);
+  });
+
+  it('should keep outstanding reservations when reconfigured', () => {
+    const bucket = new TokenBucket(1, 1, clock);
+    bucket.reserve();
+    bucket.reserve(); // one token in debt
+
+    bucket.reconfigure(5, 4);
+
+    expect(bucket.rate).toBe(4);
+    expect(bucket.reserve()).toBe(500);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Token bucket that hands out reservations instead of rejecting callers.
+ * Each reservation takes one token; when the bucket is empty the balance
+ * goes negative and the caller is told how long to wait for its turn, so
+ * queued requests are spaced evenly at the refill rate.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(
+    private capacity: number,
+    private refillPerSecond: number,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = now();
+  }
+
+  /**
+   * Take one token and return the delay in ms before it may be used
+   */
+  reserve(): number {
+    this.refill();
+    this.tokens -= 1;
+
+    if (this.tokens >= 0) {
+      return 0;
+    }
+    return Math.ceil((-this.tokens / this.refillPerSecond) * 1000);
+  }
+
+  /**
+   * Change capacity and rate in place, keeping outstanding reservations
+   */
+  reconfigure(capacity: number, refillPerSecond: number): void {
+    this.refill();
+    this.capacity = capacity;
+    this.refillPerSecond = refillPerSecond;
+    this.tokens = Math.min(this.tokens, capacity);
+  }
+
+  get rate(): number {
+    return this.refillPerSecond;
+  }
+
+  private refill(): void {
+    const now = this.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + elapsedSeconds * this.refillPerSecond,
+    );
+    this.lastRefill = now;
+  }
+}
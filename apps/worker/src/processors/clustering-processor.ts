@@ -0,0 +1,80 @@
+import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { ClusterMaintenanceService, ClusteringService } from '../clustering';
+import { ClusteringJobData } from '../services/clustering-queue.service';
+
+// Concurrency stays at 1: two jobs clustering at once could split one story into two clusters,
+// and maintenance must not merge or split clusters while articles are being assigned to them
+@Processor('clustering-queue')
+export class ClusteringProcessor extends WorkerHost {
+  private readonly logger = new Logger(ClusteringProcessor.name);
+
+  constructor(
+    private readonly clusteringService: ClusteringService,
+    private readonly clusterMaintenanceService: ClusterMaintenanceService,
+  ) {
+    super();
+  }
+
+  async process(job: Job) {
+    const { name } = job;
+
+    switch (name) {
+      case 'cluster-articles':
+        return this.handleClustering(job);
+      case 'maintain-clusters':
+        return this.handleMaintenance();
+      default:
+        this.logger.warn(`Unknown job type: ${name}`);
+        return null;
+    }
+  }
+
+  private async handleClustering(job: Job<ClusteringJobData>) {
+    const { articleIds } = job.data;
+
+    this.logger.log(
+      articleIds
+        ? `🧩 Clustering ${articleIds.length} new articles`
+        : '🧩 Sweeping unclustered articles',
+    );
+
+    try {
+      const result = await this.clusteringService.clusterArticles(articleIds);
+
+      return {
+        ...result,
+        completedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Clustering failed: ${error.message}`);
+      throw error;
+    }
+  }
+
+  private async handleMaintenance() {
+    this.logger.log('🧹 Running cluster maintenance');
+
+    try {
+      const result = await this.clusterMaintenanceService.runMaintenance();
+
+      return {
+        ...result,
+        completedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Cluster maintenance failed: ${error.message}`);
+      throw error;
+    }
+  }
+
+  @OnWorkerEvent('failed')
+  onFailed(job: Job, err: Error) {
+    this.logger.error(`❌ Job ${job.id} failed:`, err.message);
+  }
+
+  async onWorkerReady() {
+    this.logger.log('🚀 Clustering processor worker ready');
+  }
+}
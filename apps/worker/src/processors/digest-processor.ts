@@ -0,0 +1,66 @@
+import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { DigestService } from '../digests';
+import { DigestJobData } from '../services/digest-queue.service';
+
+@Processor('digest-queue')
+export class DigestProcessor extends WorkerHost {
+  private readonly logger = new Logger(DigestProcessor.name);
+
+  constructor(private readonly digestService: DigestService) {
+    super();
+  }
+
+  async process(job: Job) {
+    const { name } = job;
+
+    switch (name) {
+      case 'build-digest':
+        return this.handleDigest(job);
+      default:
+        this.logger.warn(`Unknown job type: ${name}`);
+        return null;
+    }
+  }
+
+  private async handleDigest(job: Job<DigestJobData>) {
+    const { userId, scheduledFor } = job.data;
+
+    this.logger.log(`📰 Building digest for user ${userId}`);
+
+    try {
+      const result = scheduledFor
+        ? await this.digestService.buildScheduledDigest(
+            userId,
+            new Date(scheduledFor),
+          )
+        : await this.digestService.buildDigest(userId);
+
+      return {
+        ...result,
+        completedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(
+        `❌ Digest for user ${userId} failed: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  @OnWorkerEvent('failed')
+  async onFailed(job: Job<DigestJobData>, err: Error) {
+    this.logger.error(`❌ Job ${job.id} failed:`, err.message);
+
+    // A scheduled run that failed for good still has to schedule the next one
+    const finalAttempt = job.attemptsMade >= (job.opts.attempts ?? 1);
+    if (job.data.scheduledFor && finalAttempt) {
+      await this.digestService.reschedule(job.data.userId, new Date());
+    }
+  }
+
+  async onWorkerReady() {
+    this.logger.log('🚀 Digest processor worker ready');
+  }
+}
@@ -0,0 +1,83 @@
+import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { EmbeddingService } from '../embeddings';
+import { ClusteringQueueService } from '../services/clustering-queue.service';
+import {
+  EmbeddingBackfillJobData,
+  EmbeddingJobData,
+} from '../services/embedding-queue.service';
+
+@Processor('embedding-queue')
+export class EmbeddingProcessor extends WorkerHost {
+  private readonly logger = new Logger(EmbeddingProcessor.name);
+
+  constructor(
+    private readonly embeddingService: EmbeddingService,
+    private readonly clusteringQueueService: ClusteringQueueService,
+  ) {
+    super();
+  }
+
+  async process(job: Job) {
+    const { name } = job;
+
+    switch (name) {
+      case 'embed-articles':
+        return this.handleEmbedding(job);
+      case 'backfill-embeddings':
+        return this.handleBackfill(job);
+      default:
+        this.logger.warn(`Unknown job type: ${name}`);
+        return null;
+    }
+  }
+
+  private async handleEmbedding(job: Job<EmbeddingJobData>) {
+    const { articleIds } = job.data;
+
+    this.logger.log(`🧮 Embedding ${articleIds.length} new articles`);
+
+    try {
+      const result = await this.embeddingService.embedArticles(articleIds);
+
+      // Clustering runs once the vectors exist, so new clusters start with a centroid
+      const clusteringJobId =
+        await this.clusteringQueueService.addClusteringJob(articleIds);
+
+      return {
+        ...result,
+        clusteringJobId,
+        completedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Embedding failed: ${error.message}`);
+      throw error;
+    }
+  }
+
+  private async handleBackfill(job: Job<EmbeddingBackfillJobData>) {
+    this.logger.log(`🧮 Backfilling up to ${job.data.limit} embeddings`);
+
+    try {
+      const result = await this.embeddingService.backfill(job.data.limit);
+
+      return {
+        ...result,
+        completedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Embedding backfill failed: ${error.message}`);
+      throw error;
+    }
+  }
+
+  @OnWorkerEvent('failed')
+  onFailed(job: Job, err: Error) {
+    this.logger.error(`❌ Job ${job.id} failed:`, err.message);
+  }
+
+  async onWorkerReady() {
+    this.logger.log('🚀 Embedding processor worker ready');
+  }
+}
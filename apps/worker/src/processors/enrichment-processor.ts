@@ -0,0 +1,208 @@
+import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { ClusteringService } from '../clustering';
+import {
+  EntityExtractionJobData,
+  EntityExtractionService,
+} from '../enrichment/entities/entity-extraction.service';
+import { EntityMergeSuggestionService } from '../enrichment/entities/entity-merge-suggestion.service';
+import {
+  ContentExtractionService,
+  ExtractionJobData,
+} from '../enrichment/extraction/content-extraction.service';
+import {
+  TopicClassificationJobData,
+  TopicClassificationService,
+  TopicTrainingJobData,
+} from '../enrichment/topics/topic-classification.service';
+import { EnrichmentQueueService } from '../services/enrichment-queue.service';
+
+@Processor('enrichment-queue')
+export class EnrichmentProcessor extends WorkerHost {
+  private readonly logger = new Logger(EnrichmentProcessor.name);
+  // Articles rescored right after a new topic model is trained, newest first
+  private readonly reclassifyLimit = 1000;
+
+  constructor(
+    private readonly contentExtractionService: ContentExtractionService,
+    private readonly clusteringService: ClusteringService,
+    private readonly entityExtractionService: EntityExtractionService,
+    private readonly entityMergeSuggestionService: EntityMergeSuggestionService,
+    private readonly topicClassificationService: TopicClassificationService,
+    private readonly enrichmentQueueService: EnrichmentQueueService,
+  ) {
+    super();
+  }
+
+  async process(job: Job) {
+    const { name } = job;
+
+    switch (name) {
+      case 'extract-article-content':
+        return this.handleExtraction(job);
+      case 'extract-entities':
+        return this.handleEntityExtraction(job);
+      case 'suggest-entity-merges':
+        return this.handleMergeSuggestions();
+      case 'classify-topics':
+        return this.handleTopicClassification(job);
+      case 'train-topic-model':
+        return this.handleTopicTraining(job);
+      default:
+        this.logger.warn(`Unknown job type: ${name}`);
+        return null;
+    }
+  }
+
+  private async handleExtraction(job: Job<ExtractionJobData>) {
+    const { articleId, url } = job.data;
+
+    this.logger.log(
+      `📄 Extracting full text for article ${articleId} from ${url}`,
+    );
+
+    try {
+      const result = await this.contentExtractionService.extractAndStore(
+        job.data,
+      );
+
+      // Merged into an older copy, whose clusters the merge already refreshed
+      if (result.status === 'duplicate') {
+        return {
+          ...result,
+          completedAt: new Date().toISOString(),
+        };
+      }
+
+      // Body, author and paywall flag feed the representative choice
+      if (result.updatedFields.length > 0) {
+        await this.clusteringService.refreshRepresentativeFor(articleId);
+      }
+      // Cluster summaries quote the text
+      if (result.updatedFields.includes('cleanedText')) {
+        await this.clusteringService.touchClustersOf(articleId);
+      }
+
+      // Entities come from the full text when there is one, the feed summary otherwise
+      if (result.status !== 'not-found') {
+        await this.enrichmentQueueService.addEntityExtractionJobs([articleId]);
+      }
+
+      return {
+        ...result,
+        completedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(
+        `❌ Extraction failed for article ${articleId}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  private async handleEntityExtraction(job: Job<EntityExtractionJobData>) {
+    const { articleId } = job.data;
+
+    try {
+      const result =
+        await this.entityExtractionService.extractAndStore(articleId);
+
+      if (result.status !== 'not-found') {
+        await this.enrichmentQueueService.addTopicClassificationJobs([
+          articleId,
+        ]);
+      }
+
+      return {
+        ...result,
+        completedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(
+        `❌ Entity extraction failed for article ${articleId}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  private async handleMergeSuggestions() {
+    try {
+      const result = await this.entityMergeSuggestionService.suggestMerges();
+
+      return {
+        ...result,
+        completedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Entity merge suggestions failed: ${error.message}`);
+      throw error;
+    }
+  }
+
+  private async handleTopicClassification(
+    job: Job<TopicClassificationJobData>,
+  ) {
+    const { articleId } = job.data;
+
+    try {
+      const result =
+        await this.topicClassificationService.classifyAndStore(articleId);
+
+      return {
+        ...result,
+        completedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(
+        `❌ Topic classification failed for article ${articleId}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  private async handleTopicTraining(job: Job<TopicTrainingJobData>) {
+    try {
+      const result = await this.topicClassificationService.train(
+        job.data.trainedBy,
+      );
+      const outdated = await this.topicClassificationService.findOutdated(
+        this.reclassifyLimit,
+      );
+      const reclassifying =
+        await this.enrichmentQueueService.addTopicClassificationJobs(outdated);
+
+      return {
+        ...result,
+        reclassifying,
+        completedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Topic model training failed: ${error.message}`);
+      throw error;
+    }
+  }
+
+  @OnWorkerEvent('failed')
+  async onFailed(job: Job, err: Error) {
+    this.logger.error(`❌ Job ${job.id} failed:`, err.message);
+
+    // The feed summary is still worth extracting entities from
+    const finalAttempt = job.attemptsMade >= (job.opts.attempts ?? 1);
+    if (job.name === 'extract-article-content' && finalAttempt) {
+      await this.enrichmentQueueService.addEntityExtractionJobs([
+        job.data.articleId,
+      ]);
+    }
+    // Topics do not depend on entities
+    if (job.name === 'extract-entities' && finalAttempt) {
+      await this.enrichmentQueueService.addTopicClassificationJobs([
+        job.data.articleId,
+      ]);
+    }
+  }
+
+  async onWorkerReady() {
+    this.logger.log('🚀 Enrichment processor worker ready');
+  }
+}
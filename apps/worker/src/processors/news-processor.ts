@@ -1,26 +1,37 @@
 import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bullmq';
-import { ProcessedStory } from '../sources/hacker-news/hacker-news.service';
 import { NewsStorageService } from '../database/news-storage.service';
+import { NormalizedArticle } from '../common/interfaces/article.interface';
+import { EnrichmentQueueService } from '../services/enrichment-queue.service';
+import { EmbeddingQueueService } from '../services/embedding-queue.service';
+import { NewsSourceRegistry } from '../sources';
+import { SourceFetchProgress } from '../common/interfaces/news-source.interface';
 
 export interface NewsJobData {
-  stories: ProcessedStory[];
+  articles: NormalizedArticle[];
+  sourceId: string;
   source: string;
   batchId: string;
   timestamp: string;
+  fetch?: SourceFetchProgress; // stored on the Source once the batch is saved
 }
 
 @Processor('news-queue')
 export class NewsProcessor extends WorkerHost {
   private readonly logger = new Logger(NewsProcessor.name);
 
-  constructor(private readonly newsStorageService: NewsStorageService) {
+  constructor(
+    private readonly newsStorageService: NewsStorageService,
+    private readonly enrichmentQueueService: EnrichmentQueueService,
+    private readonly embeddingQueueService: EmbeddingQueueService,
+    private readonly newsSourceRegistry: NewsSourceRegistry
+  ) {
     super();
   }
 
   async process(job: Job) {
-    const { name, data } = job;
+    const { name } = job;
     
     switch (name) {
       case 'process-news-batch':
@@ -36,24 +47,39 @@ export class NewsProcessor extends WorkerHost {
   }
 
   private async handleNewsBatch(job: Job<NewsJobData>) {
-    const { stories, source, batchId, timestamp } = job.data;
+    const { articles, sourceId, source, batchId, fetch } = job.data;
     
-    this.logger.log(`🔄 Processing news batch ${batchId} from ${source} with ${stories.length} stories`);
+    this.logger.log(`🔄 Processing news batch ${batchId} from ${source} with ${articles.length} articles`);
     
     try {
-      // Save stories to database
-      const result = await this.newsStorageService.saveHackerNewsStories(stories);
+      // Save articles to database under their Source row
+      const result = await this.newsStorageService.saveArticles(articles, sourceId);
       
-      this.logger.log(`✅ Batch ${batchId} completed: ${result.saved} saved, ${result.skipped} skipped, ${result.duplicates} duplicates, ${result.errors} errors`);
+      this.logger.log(`✅ Batch ${batchId} completed: ${result.saved} saved, ${result.updated ?? 0} updated, ${result.skipped} skipped, ${result.duplicates} duplicates, ${result.errors} errors`);
+      
+      // Only now is the fetch done: a batch that never saves is fetched again next run
+      if (fetch) {
+        await this.commitSourceFetch(sourceId, fetch);
+      }
+      
+      // Hand new articles to the enrichment stage (full-text extraction)
+      const extractionJobs = await this.enrichmentQueueService.addExtractionJobs(result.savedArticles ?? []);
+      
+      // ...and to embedding, which queues story clustering once the vectors exist
+      const embeddingJobId = await this.embeddingQueueService.addEmbeddingJob((result.savedArticles ?? []).map(article => article.id));
       
       return {
         batchId,
         source,
-        processed: stories.length,
+        sourceId,
+        processed: articles.length,
         saved: result.saved,
         skipped: result.skipped,
         duplicates: result.duplicates,
+        updated: result.updated ?? 0,
         errors: result.errors,
+        extractionJobs,
+        embeddingJobId,
         completedAt: new Date().toISOString()
       };
     } catch (error) {
@@ -62,23 +88,37 @@ export class NewsProcessor extends WorkerHost {
     }
   }
 
-  private async handleSingleStory(job: Job<{ story: ProcessedStory; source: string }>) {
-    const { story, source } = job.data;
+  /**
+   * Store the validators and adapter checkpoint of the fetch a saved batch came from
+   */
+  private async commitSourceFetch(sourceId: string, fetch: SourceFetchProgress): Promise<void> {
+    const row = await this.newsStorageService.getSource(sourceId);
+    if (!row) {
+      throw new Error(`Source not found: ${sourceId}`);
+    }
+    
+    await this.newsStorageService.recordSourceFetch({ source: row, ...fetch });
+    await this.newsSourceRegistry.commitFetch({ source: row, checkpoint: fetch.checkpoint });
+  }
+
+  private async handleSingleStory(job: Job<{ article: NormalizedArticle; sourceId: string; source: string }>) {
+    const { article, sourceId, source } = job.data;
     
-    this.logger.log(`📰 Processing single story: "${story.title}" from ${source}`);
+    this.logger.log(`📰 Processing single story: "${article.title}" from ${source}`);
     
     try {
-      const result = await this.newsStorageService.saveHackerNewsStories([story]);
+      const result = await this.newsStorageService.saveArticles([article], sourceId);
+      await this.enrichmentQueueService.addExtractionJobs(result.savedArticles ?? []);
       
       return {
-        storyId: story.id,
-        title: story.title,
+        externalId: article.externalId,
+        title: article.title,
         source,
         saved: result.saved > 0,
         completedAt: new Date().toISOString()
       };
     } catch (error) {
-      this.logger.error(`❌ Failed to process story "${story.title}": ${error.message}`);
+      this.logger.error(`❌ Failed to process story "${article.title}": ${error.message}`);
       throw error;
     }
   }
@@ -0,0 +1,76 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+
+export interface ClusteringJobData {
+  articleIds?: string[]; // omitted for a sweep over unclustered articles in the window
+}
+
+@Injectable()
+export class ClusteringQueueService {
+  private readonly logger = new Logger(ClusteringQueueService.name);
+
+  constructor(
+    @InjectQueue('clustering-queue') private readonly clusteringQueue: Queue,
+  ) {}
+
+  /**
+   * Queue clustering of freshly saved articles
+   */
+  async addClusteringJob(articleIds: string[]): Promise<string | null> {
+    if (articleIds.length === 0) {
+      return null;
+    }
+
+    const job = await this.clusteringQueue.add(
+      'cluster-articles',
+      { articleIds } satisfies ClusteringJobData,
+      {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 5000,
+        },
+        removeOnComplete: 100,
+        removeOnFail: 50,
+      },
+    );
+
+    this.logger.log(
+      `📤 Queued clustering of ${articleIds.length} articles (job ${job.id})`,
+    );
+    return job.id ?? null;
+  }
+
+  /**
+   * Queue a sweep that clusters anything a per-batch job missed
+   */
+  async addSweepJob(): Promise<string | null> {
+    const job = await this.clusteringQueue.add(
+      'cluster-articles',
+      {} satisfies ClusteringJobData,
+      {
+        jobId: `cluster_sweep_${Math.floor(Date.now() / 60000)}`, // at most one sweep per minute
+        removeOnComplete: 100,
+        removeOnFail: 50,
+      },
+    );
+    return job.id ?? null;
+  }
+
+  /**
+   * Queue a maintenance pass that freezes, merges and splits clusters
+   */
+  async addMaintenanceJob(): Promise<string | null> {
+    const job = await this.clusteringQueue.add(
+      'maintain-clusters',
+      {},
+      {
+        jobId: `cluster_maintenance_${Math.floor(Date.now() / 60000)}`, // at most one pass per minute
+        removeOnComplete: 100,
+        removeOnFail: 50,
+      },
+    );
+    return job.id ?? null;
+  }
+}
@@ -0,0 +1,92 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+
+export interface DigestJobData {
+  userId: string;
+  scheduledFor?: string; // ISO time of the scheduled run; omitted for a digest on demand
+}
+
+export interface DigestRun {
+  userId: string;
+  runAt: Date;
+}
+
+const DIGEST_ATTEMPTS = 3;
+
+@Injectable()
+export class DigestQueueService {
+  private readonly logger = new Logger(DigestQueueService.name);
+
+  constructor(
+    @InjectQueue('digest-queue') private readonly digestQueue: Queue,
+  ) {}
+
+  /**
+   * Queue scheduled runs as jobs delayed until their time, or run right away
+   * when it has passed. Job IDs are per user and run, so a run queued by an
+   * earlier scheduling pass is not queued again.
+   */
+  async addScheduledDigestJobs(runs: DigestRun[]): Promise<number> {
+    if (runs.length === 0) {
+      return 0;
+    }
+
+    const now = Date.now();
+    await this.digestQueue.addBulk(
+      runs.map(({ userId, runAt }) => ({
+        name: 'build-digest',
+        data: {
+          userId,
+          scheduledFor: runAt.toISOString(),
+        } satisfies DigestJobData,
+        opts: {
+          jobId: `digest_${userId}_${runAt.getTime()}`,
+          delay: Math.max(runAt.getTime() - now, 0),
+          attempts: DIGEST_ATTEMPTS,
+          backoff: {
+            type: 'exponential',
+            delay: 10000,
+          },
+          removeOnComplete: 100,
+          removeOnFail: 50,
+        },
+      })),
+    );
+
+    this.logger.log(`📤 Queued ${runs.length} scheduled digests`);
+    return runs.length;
+  }
+
+  /**
+   * Queue a digest for each user now, outside their schedule. Job IDs are per
+   * user and hour, so a user is never queued twice while an earlier job is
+   * still waiting.
+   */
+  async addDigestJobs(userIds: string[]): Promise<number> {
+    if (userIds.length === 0) {
+      return 0;
+    }
+
+    const hour = Math.floor(Date.now() / 3600000);
+    await this.digestQueue.addBulk(
+      userIds.map((userId) => ({
+        name: 'build-digest',
+        data: { userId } satisfies DigestJobData,
+        opts: {
+          jobId: `digest_${userId}_${hour}`,
+          attempts: DIGEST_ATTEMPTS,
+          backoff: {
+            type: 'exponential',
+            delay: 10000,
+          },
+          removeOnComplete: 100,
+          removeOnFail: 50,
+        },
+      })),
+    );
+
+    this.logger.log(`📤 Queued digests for ${userIds.length} users`);
+    return userIds.length;
+  }
+}
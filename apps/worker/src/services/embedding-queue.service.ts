@@ -0,0 +1,63 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+
+export interface EmbeddingJobData {
+  articleIds: string[];
+}
+
+export interface EmbeddingBackfillJobData {
+  limit: number;
+}
+
+@Injectable()
+export class EmbeddingQueueService {
+  private readonly logger = new Logger(EmbeddingQueueService.name);
+
+  constructor(
+    @InjectQueue('embedding-queue') private readonly embeddingQueue: Queue,
+  ) {}
+
+  /**
+   * Queue embedding of freshly saved articles; the job hands them on to clustering
+   */
+  async addEmbeddingJob(articleIds: string[]): Promise<string | null> {
+    if (articleIds.length === 0) {
+      return null;
+    }
+
+    const job = await this.embeddingQueue.add(
+      'embed-articles',
+      { articleIds } satisfies EmbeddingJobData,
+      {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 5000,
+        },
+        removeOnComplete: 100,
+        removeOnFail: 50,
+      },
+    );
+
+    this.logger.log(
+      `📤 Queued embedding of ${articleIds.length} articles (job ${job.id})`,
+    );
+    return job.id ?? null;
+  }
+
+  /**
+   * Queue embedding of existing articles that lack a current-model vector
+   */
+  async addBackfillJob(limit: number): Promise<string | null> {
+    const job = await this.embeddingQueue.add(
+      'backfill-embeddings',
+      { limit } satisfies EmbeddingBackfillJobData,
+      {
+        removeOnComplete: 100,
+        removeOnFail: 50,
+      },
+    );
+    return job.id ?? null;
+  }
+}
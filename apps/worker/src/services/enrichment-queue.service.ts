@@ -0,0 +1,193 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { SavedArticleRef } from '../common/interfaces/article.interface';
+import { EntityExtractionJobData } from '../enrichment/entities/entity-extraction.service';
+import { ExtractionJobData } from '../enrichment/extraction/content-extraction.service';
+import {
+  TopicClassificationJobData,
+  TopicTrainingJobData,
+} from '../enrichment/topics/topic-classification.service';
+
+@Injectable()
+export class EnrichmentQueueService {
+  private readonly logger = new Logger(EnrichmentQueueService.name);
+
+  constructor(
+    @InjectQueue('enrichment-queue') private readonly enrichmentQueue: Queue,
+  ) {}
+
+  /**
+   * Queue full-text extraction for freshly saved articles, one job per article
+   */
+  async addExtractionJobs(articles: SavedArticleRef[]): Promise<number> {
+    if (articles.length === 0) {
+      return 0;
+    }
+
+    this.logger.log(
+      `📤 Adding ${articles.length} article extraction jobs to queue`,
+    );
+
+    const jobs = await this.enrichmentQueue.addBulk(
+      articles.map((article) => ({
+        name: 'extract-article-content',
+        data: {
+          articleId: article.id,
+          url: article.url,
+          missingAuthor: article.missingAuthor,
+          missingPublishedAt: article.missingPublishedAt,
+        } satisfies ExtractionJobData,
+        opts: {
+          jobId: `extract_${article.id}`, // One extraction per article, even if a batch is retried
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+          removeOnComplete: 100,
+          removeOnFail: 50,
+        },
+      })),
+    );
+
+    this.logger.log(`✅ Queued ${jobs.length} article extraction jobs`);
+    return jobs.length;
+  }
+
+  /**
+   * Queue extraction again for archived articles, reading the stored snapshot instead of refetching
+   */
+  async addReextractionJobs(
+    articles: Array<{ id: string; url: string }>,
+  ): Promise<number> {
+    if (articles.length === 0) {
+      return 0;
+    }
+
+    const batchId = Date.now();
+    const jobs = await this.enrichmentQueue.addBulk(
+      articles.map((article) => ({
+        name: 'extract-article-content',
+        data: {
+          articleId: article.id,
+          url: article.url,
+          missingAuthor: true, // only applied when the article still has no author
+          missingPublishedAt: false,
+          fromSnapshot: true,
+        } satisfies ExtractionJobData,
+        opts: {
+          jobId: `reextract_${article.id}_${batchId}`,
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+          removeOnComplete: 100,
+          removeOnFail: 50,
+        },
+      })),
+    );
+
+    this.logger.log(
+      `✅ Queued ${jobs.length} re-extraction jobs from snapshots`,
+    );
+    return jobs.length;
+  }
+
+  /**
+   * Queue entity extraction, one job per article. Runs after full-text
+   * extraction, or directly for articles saved before extraction existed.
+   */
+  async addEntityExtractionJobs(articleIds: string[]): Promise<number> {
+    if (articleIds.length === 0) {
+      return 0;
+    }
+
+    const batchId = Date.now();
+    const jobs = await this.enrichmentQueue.addBulk(
+      articleIds.map((articleId) => ({
+        name: 'extract-entities',
+        data: { articleId } satisfies EntityExtractionJobData,
+        opts: {
+          jobId: `entities_${articleId}_${batchId}`,
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+          removeOnComplete: 100,
+          removeOnFail: 50,
+        },
+      })),
+    );
+
+    this.logger.log(`✅ Queued ${jobs.length} entity extraction jobs`);
+    return jobs.length;
+  }
+
+  /**
+   * Queue a pass over stored entities that proposes merges for admins to review
+   */
+  async addMergeSuggestionJob(): Promise<string | null> {
+    const job = await this.enrichmentQueue.add(
+      'suggest-entity-merges',
+      {},
+      {
+        jobId: `entity_merges_${Math.floor(Date.now() / 60000)}`, // at most one pass per minute
+        removeOnComplete: 100,
+        removeOnFail: 50,
+      },
+    );
+    return job.id ?? null;
+  }
+
+  /**
+   * Queue topic classification, one job per article. Runs after entity
+   * extraction, when the article has its final text, and again for articles
+   * scored by an older model once a new one is trained.
+   */
+  async addTopicClassificationJobs(articleIds: string[]): Promise<number> {
+    if (articleIds.length === 0) {
+      return 0;
+    }
+
+    const batchId = Date.now();
+    const jobs = await this.enrichmentQueue.addBulk(
+      articleIds.map((articleId) => ({
+        name: 'classify-topics',
+        data: { articleId } satisfies TopicClassificationJobData,
+        opts: {
+          jobId: `topics_${articleId}_${batchId}`,
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+          removeOnComplete: 100,
+          removeOnFail: 50,
+        },
+      })),
+    );
+
+    this.logger.log(`✅ Queued ${jobs.length} topic classification jobs`);
+    return jobs.length;
+  }
+
+  /**
+   * Queue training of a new topic model from bundled examples, admin labels
+   * and reader feedback
+   */
+  async addTopicTrainingJob(trainedBy?: string): Promise<string | null> {
+    const job = await this.enrichmentQueue.add(
+      'train-topic-model',
+      { trainedBy } satisfies TopicTrainingJobData,
+      {
+        jobId: `topic_model_${Math.floor(Date.now() / 60000)}`, // at most one training per minute
+        removeOnComplete: 100,
+        removeOnFail: 50,
+      },
+    );
+    return job.id ?? null;
+  }
+}
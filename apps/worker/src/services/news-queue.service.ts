@@ -1,8 +1,10 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
-import { ProcessedStory } from '../sources/hacker-news/hacker-news.service';
+import { Source } from '@prisma/client';
 import { NewsJobData } from '../processors/news-processor';
+import { NormalizedArticle } from '../common/interfaces/article.interface';
+import { SourceFetchProgress } from '../common/interfaces/news-source.interface';
 
 @Injectable()
 export class NewsQueueService {
@@ -13,19 +15,22 @@ export class NewsQueueService {
   ) {}
 
   /**
-   * Add a batch of news stories to the processing queue
+   * Add a batch of normalized articles from one Source to the processing queue.
+   * `fetch` is the progress of the fetch that produced it, stored once the batch is saved.
    */
-  async addNewsBatch(stories: ProcessedStory[], source: string): Promise<string> {
+  async addNewsBatch(articles: NormalizedArticle[], source: Pick<Source, 'id' | 'title'>, fetch?: SourceFetchProgress): Promise<string> {
     const batchId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
     const jobData: NewsJobData = {
-      stories,
-      source,
+      articles,
+      sourceId: source.id,
+      source: source.title,
       batchId,
-      timestamp: new Date().toISOString()
+      timestamp: new Date().toISOString(),
+      fetch
     };
 
-    this.logger.log(`📤 Adding news batch ${batchId} to queue with ${stories.length} stories from ${source}`);
+    this.logger.log(`📤 Adding news batch ${batchId} to queue with ${articles.length} articles from ${source.title}`);
 
     const job = await this.newsQueue.add('process-news-batch', jobData, {
       attempts: 3,
@@ -44,12 +49,13 @@ export class NewsQueueService {
   /**
    * Add a single story to the processing queue
    */
-  async addSingleStory(story: ProcessedStory, source: string): Promise<string> {
-    this.logger.log(`📤 Adding single story "${story.title}" to queue from ${source}`);
+  async addSingleStory(article: NormalizedArticle, source: Pick<Source, 'id' | 'title'>): Promise<string> {
+    this.logger.log(`📤 Adding single story "${article.title}" to queue from ${source.title}`);
 
     const job = await this.newsQueue.add('process-single-story', {
-      story,
-      source
+      article,
+      sourceId: source.id,
+      source: source.title
     }, {
       attempts: 3,
       backoff: {
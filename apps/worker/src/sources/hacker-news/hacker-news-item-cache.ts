@@ -0,0 +1,106 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../../common/services/redis.service';
+
+export interface CachedItem {
+  id: number;
+  time: number; // story creation time (unix seconds), 0 for items that are not stories
+}
+
+/**
+ * Redis-backed memory of Hacker News items that were already fetched, plus
+ * the maxitem cursor used by incremental polling and the retry counts of the
+ * items holding it back. Entries expire so the
+ * cache stays bounded and old items can be picked up again if needed.
+ */
+@Injectable()
+export class HackerNewsItemCache {
+  private readonly itemPrefix = 'hn:item:';
+  private readonly cursorKey = 'hn:maxitem-cursor';
+  private readonly attemptsKey = 'hn:retry-attempts';
+  private readonly ttlSeconds: number;
+
+  constructor(
+    private readonly redis: RedisService,
+    configService: ConfigService,
+  ) {
+    const days = parseInt(
+      configService.get<string>('HN_ITEM_CACHE_TTL_DAYS') ?? '',
+      10,
+    );
+    this.ttlSeconds = (isNaN(days) || days <= 0 ? 7 : days) * 24 * 60 * 60;
+  }
+
+  /**
+   * Split IDs into ones not cached yet and cached stories created after
+   * `trackSince` (unix seconds), which are still polled for engagement.
+   * Both lists keep the original order.
+   */
+  async partition(
+    ids: number[],
+    trackSince: number,
+  ): Promise<{ unknown: number[]; tracked: number[] }> {
+    if (ids.length === 0) {
+      return { unknown: [], tracked: [] };
+    }
+
+    const cached = await this.redis.mget(ids.map((id) => this.itemPrefix + id));
+    const unknown: number[] = [];
+    const tracked: number[] = [];
+
+    ids.forEach((id, index) => {
+      const value = cached[index];
+      if (value === null) {
+        unknown.push(id);
+      } else if (parseInt(value, 10) >= trackSince) {
+        tracked.push(id);
+      }
+    });
+
+    return { unknown, tracked };
+  }
+
+  /**
+   * Remember items as fetched, keyed to their creation time
+   */
+  async markKnown(items: CachedItem[]): Promise<void> {
+    if (items.length === 0) {
+      return;
+    }
+
+    const pipeline = this.redis.pipeline();
+    for (const item of items) {
+      pipeline.set(
+        this.itemPrefix + item.id,
+        String(item.time),
+        'EX',
+        this.ttlSeconds,
+      );
+    }
+    await pipeline.exec();
+  }
+
+  /**
+   * Highest item ID already walked by incremental polling, if any
+   */
+  async getCursor(): Promise<number | null> {
+    const value = await this.redis.get(this.cursorKey);
+    return value ? parseInt(value, 10) : null;
+  }
+
+  async setCursor(maxItem: number): Promise<void> {
+    await this.redis.set(this.cursorKey, String(maxItem));
+  }
+
+  /**
+   * Runs each item past the cursor has been retried, by item ID
+   */
+  async getRetryAttempts(): Promise<Record<number, number>> {
+    const value = await this.redis.get(this.attemptsKey);
+    return value ? (JSON.parse(value) as Record<number, number>) : {};
+  }
+
+  async setRetryAttempts(attempts: Record<number, number>): Promise<void> {
+    await this.redis.set(this.attemptsKey, JSON.stringify(attempts));
+  }
+}
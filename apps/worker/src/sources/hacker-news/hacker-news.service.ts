@@ -1,5 +1,18 @@
-import { Injectable, Logger } from '@nestjs/common';
-import axios from 'axios';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Source } from '@prisma/client';
+import * as crypto from 'crypto';
+import {
+  AdapterFetchResult,
+  NewsSourceAdapter,
+  NewsSourceStats,
+} from '../../common/interfaces/news-source.interface';
+import { NormalizedArticle } from '../../common/interfaces/article.interface';
+import { normalizeTitle } from '../../common/utils/text.util';
+import { OutboundHttpService } from '../../http';
+import { NewsSourceRegistry } from '../news-source.registry';
+import { CachedItem, HackerNewsItemCache } from './hacker-news-item-cache';
+import { advanceCursor } from './incremental-cursor';
 
 export interface HackerNewsStory {
   by: string;
@@ -11,6 +24,13 @@ export interface HackerNewsStory {
   title: string;
   type: string;
   url?: string;
+  deleted?: boolean;
+  dead?: boolean;
+}
+
+export interface HackerNewsUpdates {
+  items: number[];
+  profiles: string[];
 }
 
 export interface ProcessedStory {
@@ -21,31 +41,245 @@ export interface ProcessedStory {
   score: number;
   time: number;
   comments: number;
-  storyType: 'top' | 'best' | 'new';
+  storyType: StoryList;
+}
+
+export type StoryList = 'top' | 'best' | 'new';
+
+/**
+ * lists: rescan top/best/new; incremental: walk maxitem/updates only; both: union of the two
+ */
+export type HackerNewsFetchMode = 'lists' | 'incremental' | 'both';
+
+interface HackerNewsCheckpoint {
+  items: CachedItem[];
+  cursor: number | null;
+  retryAttempts: Record<number, number>;
 }
 
 @Injectable()
-export class HackerNewsService {
+export class HackerNewsService
+  implements NewsSourceAdapter<ProcessedStory>, OnModuleInit
+{
   private readonly logger = new Logger(HackerNewsService.name);
   private readonly baseUrl = 'https://hacker-news.firebaseio.com/v0';
 
+  readonly type = 'hacker-news';
+  readonly defaultSources = [
+    {
+      title: 'Hacker News',
+      url: this.baseUrl,
+      country: 'US',
+      reputation: 90, // High reputation for Hacker News
+    },
+  ];
+
+  private readonly mode: HackerNewsFetchMode;
+  private readonly depth: Record<StoryList, number>;
+  private readonly incrementalLimit: number;
+  private readonly maxRetryAttempts: number;
+  private readonly trackHours: number;
+
+  constructor(
+    private readonly newsSourceRegistry: NewsSourceRegistry,
+    private readonly http: OutboundHttpService,
+    private readonly itemCache: HackerNewsItemCache,
+    configService: ConfigService,
+  ) {
+    const mode = configService.get<string>('HN_FETCH_MODE');
+    this.mode = mode === 'lists' || mode === 'incremental' ? mode : 'both';
+    this.depth = {
+      top: this.readLimit(configService, 'HN_TOP_DEPTH', 100),
+      best: this.readLimit(configService, 'HN_BEST_DEPTH', 50),
+      new: this.readLimit(configService, 'HN_NEW_DEPTH', 100),
+    };
+    this.incrementalLimit = this.readLimit(
+      configService,
+      'HN_INCREMENTAL_MAX_ITEMS',
+      1000,
+    );
+    this.maxRetryAttempts = this.readLimit(
+      configService,
+      'HN_INCREMENTAL_MAX_ATTEMPTS',
+      5,
+    );
+    this.trackHours = this.readLimit(configService, 'HN_TRACK_HOURS', 48);
+  }
+
+  onModuleInit() {
+    this.newsSourceRegistry.register(this);
+    // The Firebase API is built for bulk item lookups, so allow more than the crawl default
+    this.http.configureHost(new URL(this.baseUrl).host, {
+      ratePerSecond: 10,
+      burst: 10,
+    });
+  }
+
+  /**
+   * Fetch stories not seen before, from the top/best/new lists and/or by
+   * walking maxitem and updates, depending on HN_FETCH_MODE
+   */
+  async fetch(): Promise<AdapterFetchResult<ProcessedStory>> {
+    // Item ID -> list it was first seen in
+    const candidates = new Map<number, StoryList>();
+    let incremental: { rangeStart: number; rangeEnd: number } | null = null;
+
+    if (this.mode !== 'incremental') {
+      for (const list of ['top', 'best', 'new'] as const) {
+        try {
+          const ids = await this.fetchStoryIds(list);
+          ids.forEach((id) => candidates.has(id) || candidates.set(id, list));
+        } catch (error) {
+          this.logger.warn(
+            `⚠️ Failed to fetch ${list} story IDs: ${error.message}`,
+          );
+        }
+      }
+    }
+
+    if (this.mode !== 'lists') {
+      const { ids, rangeStart, rangeEnd } = await this.fetchIncrementalIds();
+      ids.forEach((id) => candidates.has(id) || candidates.set(id, 'new'));
+      incremental = { rangeStart, rangeEnd };
+    }
+
+    // Known stories younger than HN_TRACK_HOURS are polled again so their score/comment series keeps growing
+    const trackSince =
+      Math.floor(Date.now() / 1000) - this.trackHours * 60 * 60;
+    const { unknown, tracked } = await this.itemCache.partition(
+      Array.from(candidates.keys()),
+      trackSince,
+    );
+    const idsToFetch = [...unknown, ...tracked];
+    this.logger.log(
+      `📰 ${candidates.size} candidate items: ${unknown.length} new, ${tracked.length} tracked, ${candidates.size - idsToFetch.length} skipped`,
+    );
+
+    const results = await Promise.allSettled(
+      idsToFetch.map((id) => this.fetchItem(id)),
+    );
+    const items: ProcessedStory[] = [];
+    const fetchedItems: CachedItem[] = [];
+    const failedIds: number[] = [];
+    const missingIds: number[] = [];
+
+    results.forEach((result, index) => {
+      const id = idsToFetch[index];
+      if (result.status === 'rejected') {
+        failedIds.push(id);
+        return;
+      }
+      // New items can be null for a moment after maxitem reports them; they are retried next run
+      if (!result.value) {
+        missingIds.push(id);
+      } else {
+        const story = this.toProcessedStory(
+          result.value,
+          candidates.get(id) ?? 'new',
+        );
+        fetchedItems.push({ id, time: story ? story.time : 0 });
+        if (story) {
+          items.push(story);
+        }
+      }
+    });
+
+    if (failedIds.length > 0) {
+      this.logger.warn(
+        `⚠️ Failed to fetch ${failedIds.length} Hacker News items`,
+      );
+    }
+
+    // Resume the walk at the first item that failed or was not there yet, so nothing in the range is skipped
+    let cursor: number | null = null;
+    let retryAttempts: Record<number, number> = {};
+    if (incremental) {
+      const advance = advanceCursor(
+        incremental,
+        [...failedIds, ...missingIds],
+        await this.itemCache.getRetryAttempts(),
+        this.maxRetryAttempts,
+      );
+      if (advance.abandoned.length > 0) {
+        this.logger.warn(
+          `⚠️ Giving up on Hacker News items ${advance.abandoned.join(', ')} after ${this.maxRetryAttempts} attempts`,
+        );
+      }
+      cursor = advance.cursor;
+      retryAttempts = advance.attempts;
+    }
+
+    const checkpoint: HackerNewsCheckpoint = {
+      items: fetchedItems,
+      cursor,
+      retryAttempts,
+    };
+    return { items, checkpoint };
+  }
+
+  /**
+   * Remember fetched items and the incremental cursor once the stories are saved
+   */
+  async commit(_source: Source, checkpoint: unknown): Promise<void> {
+    const { items, cursor, retryAttempts } = checkpoint as HackerNewsCheckpoint;
+
+    await this.itemCache.markKnown(items);
+    if (cursor !== null) {
+      await this.itemCache.setCursor(cursor);
+      await this.itemCache.setRetryAttempts(retryAttempts);
+    }
+  }
+
+  /**
+   * Map Hacker News stories onto the normalized article shape
+   */
+  normalize(stories: ProcessedStory[]): NormalizedArticle[] {
+    return stories.map((story) => ({
+      externalId: String(story.id),
+      title: story.title,
+      url: story.sourceUrl,
+      author: story.author,
+      publishedAt: new Date(story.time * 1000).toISOString(), // Convert Unix timestamp to Date
+      score: story.score,
+      comments: story.comments,
+      hash: this.createContentHash(story),
+    }));
+  }
+
+  /**
+   * Create a content hash for idempotency using crypto.createHash
+   */
+  private createContentHash(story: ProcessedStory): string {
+    // Create a more robust hash using multiple story attributes
+    const content = JSON.stringify({
+      id: story.id,
+      title: normalizeTitle(story.title),
+      author: story.author?.toLowerCase() || 'unknown',
+      time: story.time,
+      url: story.sourceUrl,
+    });
+
+    // Use SHA-256 for better collision resistance
+    const hash = crypto.createHash('sha256').update(content).digest('hex');
+    return `hn_${hash.substring(0, 16)}`; // Use first 16 characters for shorter hash
+  }
+
   /**
    * Fetch top stories from Hacker News
    */
   async fetchTopStories(): Promise<ProcessedStory[]> {
     this.logger.log('📰 Fetching top stories from Hacker News...');
-    
+
     try {
-      const response = await axios.get(`${this.baseUrl}/topstories.json`);
-      const storyIds: number[] = response.data;
-      
+      const storyIds = await this.fetchStoryIds('top');
+
       this.logger.log(`📰 Found ${storyIds.length} top stories`);
-      
-      // Process first 20 stories to avoid rate limiting
-      const limitedIds = storyIds.slice(0, 20);
-      const stories = await this.processStories(limitedIds, 'top');
-      
-      this.logger.log(`✅ Successfully processed ${stories.length} top stories`);
+
+      const stories = await this.processStories(storyIds, 'top');
+
+      this.logger.log(
+        `✅ Successfully processed ${stories.length} top stories`,
+      );
       return stories;
     } catch (error) {
       this.logger.error(`❌ Failed to fetch top stories: ${error.message}`);
@@ -58,18 +292,17 @@ export class HackerNewsService {
    */
   async fetchBestStories(): Promise<ProcessedStory[]> {
     this.logger.log('⭐ Fetching best stories from Hacker News...');
-    
+
     try {
-      const response = await axios.get(`${this.baseUrl}/beststories.json`);
-      const storyIds: number[] = response.data;
-      
+      const storyIds = await this.fetchStoryIds('best');
+
       this.logger.log(`⭐ Found ${storyIds.length} best stories`);
-      
-      // Process first 20 stories to avoid rate limiting
-      const limitedIds = storyIds.slice(0, 20);
-      const stories = await this.processStories(limitedIds, 'best');
-      
-      this.logger.log(`✅ Successfully processed ${stories.length} best stories`);
+
+      const stories = await this.processStories(storyIds, 'best');
+
+      this.logger.log(
+        `✅ Successfully processed ${stories.length} best stories`,
+      );
       return stories;
     } catch (error) {
       this.logger.error(`❌ Failed to fetch best stories: ${error.message}`);
@@ -82,18 +315,17 @@ export class HackerNewsService {
    */
   async fetchNewStories(): Promise<ProcessedStory[]> {
     this.logger.log('🆕 Fetching new stories from Hacker News...');
-    
+
     try {
-      const response = await axios.get(`${this.baseUrl}/newstories.json`);
-      const storyIds: number[] = response.data;
-      
+      const storyIds = await this.fetchStoryIds('new');
+
       this.logger.log(`🆕 Found ${storyIds.length} new stories`);
-      
-      // Process first 20 stories to avoid rate limiting
-      const limitedIds = storyIds.slice(0, 20);
-      const stories = await this.processStories(limitedIds, 'new');
-      
-      this.logger.log(`✅ Successfully processed ${stories.length} new stories`);
+
+      const stories = await this.processStories(storyIds, 'new');
+
+      this.logger.log(
+        `✅ Successfully processed ${stories.length} new stories`,
+      );
       return stories;
     } catch (error) {
       this.logger.error(`❌ Failed to fetch new stories: ${error.message}`);
@@ -102,65 +334,137 @@ export class HackerNewsService {
   }
 
   /**
-   * Process multiple stories by their IDs
+   * Fetch the first N IDs of a story list, N being the configured depth for that list
+   */
+  private async fetchStoryIds(list: StoryList): Promise<number[]> {
+    const response = await this.http.get<number[]>(
+      `${this.baseUrl}/${list}stories.json`,
+      { responseType: 'json' },
+    );
+    return response.data.slice(0, this.depth[list]);
+  }
+
+  /**
+   * IDs walked upward from the cursor, at most HN_INCREMENTAL_MAX_ITEMS per run so a backlog
+   * after an outage is caught up over several runs, plus recently changed items from updates.json.
+   * Without a cursor the walk starts HN_INCREMENTAL_MAX_ITEMS below maxitem.
+   */
+  private async fetchIncrementalIds(): Promise<{
+    ids: number[];
+    rangeStart: number;
+    rangeEnd: number;
+  }> {
+    const [maxItemResponse, updatesResponse] = await Promise.all([
+      this.http.get<number>(`${this.baseUrl}/maxitem.json`, {
+        responseType: 'json',
+      }),
+      this.http.get<HackerNewsUpdates>(`${this.baseUrl}/updates.json`, {
+        responseType: 'json',
+      }),
+    ]);
+
+    const maxItem = maxItemResponse.data;
+    const cursor = await this.itemCache.getCursor();
+    const rangeStart =
+      (cursor ?? Math.max(maxItem - this.incrementalLimit, 0)) + 1;
+    // An empty range (maxitem not past the cursor) ends at the cursor, so it never moves back
+    const rangeEnd = Math.max(
+      Math.min(maxItem, rangeStart + this.incrementalLimit - 1),
+      rangeStart - 1,
+    );
+
+    const ids: number[] = [];
+    for (let id = rangeStart; id <= rangeEnd; id++) {
+      ids.push(id);
+    }
+    ids.push(...(updatesResponse.data?.items ?? []));
+
+    this.logger.log(
+      `🔎 Incremental scan: items ${rangeStart}..${rangeEnd} of ${maxItem} (cursor: ${cursor ?? 'none'}) plus ${updatesResponse.data?.items?.length ?? 0} updated items`,
+    );
+
+    return { ids, rangeStart, rangeEnd };
+  }
+
+  /**
+   * Process multiple stories by their IDs; pacing is left to the shared HTTP client
    */
-  private async processStories(storyIds: number[], storyType: 'top' | 'best' | 'new'): Promise<ProcessedStory[]> {
+  private async processStories(
+    storyIds: number[],
+    storyType: StoryList,
+  ): Promise<ProcessedStory[]> {
     const stories: ProcessedStory[] = [];
-    
-    // Process stories in batches to avoid overwhelming the API
-    const batchSize = 5;
-    for (let i = 0; i < storyIds.length; i += batchSize) {
-      const batch = storyIds.slice(i, i + batchSize);
-      
-      const batchPromises = batch.map(id => this.fetchStoryDetail(id, storyType));
-      const batchResults = await Promise.allSettled(batchPromises);
-      
-      batchResults.forEach((result, index) => {
-        if (result.status === 'fulfilled' && result.value) {
-          stories.push(result.value);
-        } else {
-          this.logger.warn(`⚠️ Failed to fetch story ${batch[index]}: ${result.status === 'rejected' ? result.reason : 'Unknown error'}`);
-        }
-      });
-      
-      // Add delay between batches to be respectful to the API
-      if (i + batchSize < storyIds.length) {
-        await new Promise(resolve => setTimeout(resolve, 100));
+
+    const results = await Promise.allSettled(
+      storyIds.map((id) => this.fetchStoryDetail(id, storyType)),
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled' && result.value) {
+        stories.push(result.value);
+      } else {
+        this.logger.warn(
+          `⚠️ Failed to fetch story ${storyIds[index]}: ${result.status === 'rejected' ? result.reason : 'Unknown error'}`,
+        );
       }
-    }
-    
+    });
+
     return stories;
   }
 
   /**
    * Fetch detailed information for a specific story
    */
-  private async fetchStoryDetail(storyId: number, storyType: 'top' | 'best' | 'new'): Promise<ProcessedStory | null> {
+  private async fetchStoryDetail(
+    storyId: number,
+    storyType: StoryList,
+  ): Promise<ProcessedStory | null> {
     try {
-      const response = await axios.get(`${this.baseUrl}/item/${storyId}.json`);
-      const story: HackerNewsStory = response.data;
-      
-      // Only process actual stories (not comments, polls, etc.)
-      if (story.type !== 'story' || !story.title) {
-        return null;
-      }
-      
-      return {
-        id: story.id,
-        title: story.title,
-        sourceUrl: story.url || `https://news.ycombinator.com/item?id=${story.id}`,
-        author: story.by,
-        score: story.score,
-        time: story.time,
-        comments: story.descendants || 0,
-        storyType
-      };
+      const item = await this.fetchItem(storyId);
+      return item ? this.toProcessedStory(item, storyType) : null;
     } catch (error) {
-      this.logger.warn(`⚠️ Failed to fetch story detail for ID ${storyId}: ${error.message}`);
+      this.logger.warn(
+        `⚠️ Failed to fetch story detail for ID ${storyId}: ${error.message}`,
+      );
       return null;
     }
   }
 
+  /**
+   * Fetch a raw item; null when it does not exist (yet)
+   */
+  private async fetchItem(itemId: number): Promise<HackerNewsStory | null> {
+    const response = await this.http.get<HackerNewsStory | null>(
+      `${this.baseUrl}/item/${itemId}.json`,
+      { responseType: 'json' },
+    );
+    return response.data;
+  }
+
+  /**
+   * Only process actual stories (not comments, polls, etc.)
+   */
+  private toProcessedStory(
+    story: HackerNewsStory,
+    storyType: StoryList,
+  ): ProcessedStory | null {
+    if (story.type !== 'story' || !story.title || story.deleted || story.dead) {
+      return null;
+    }
+
+    return {
+      id: story.id,
+      title: story.title,
+      sourceUrl:
+        story.url || `https://news.ycombinator.com/item?id=${story.id}`,
+      author: story.by,
+      score: story.score,
+      time: story.time,
+      comments: story.descendants || 0,
+      storyType,
+    };
+  }
+
   /**
    * Fetch all types of stories (top, best, new)
    */
@@ -170,23 +474,26 @@ export class HackerNewsService {
     new: ProcessedStory[];
   }> {
     this.logger.log('🚀 Fetching all story types from Hacker News...');
-    
+
     try {
       const [topStories, bestStories, newStories] = await Promise.allSettled([
         this.fetchTopStories(),
         this.fetchBestStories(),
-        this.fetchNewStories()
+        this.fetchNewStories(),
       ]);
-      
+
       const result = {
         top: topStories.status === 'fulfilled' ? topStories.value : [],
         best: bestStories.status === 'fulfilled' ? bestStories.value : [],
-        new: newStories.status === 'fulfilled' ? newStories.value : []
+        new: newStories.status === 'fulfilled' ? newStories.value : [],
       };
-      
-      const totalStories = result.top.length + result.best.length + result.new.length;
-      this.logger.log(`✅ Successfully fetched ${totalStories} total stories from Hacker News`);
-      
+
+      const totalStories =
+        result.top.length + result.best.length + result.new.length;
+      this.logger.log(
+        `✅ Successfully fetched ${totalStories} total stories from Hacker News`,
+      );
+
       return result;
     } catch (error) {
       this.logger.error(`❌ Failed to fetch all stories: ${error.message}`);
@@ -197,20 +504,32 @@ export class HackerNewsService {
   /**
    * Get service statistics
    */
-  getServiceStats(): {
-    name: string;
-    endpoints: string[];
-    rateLimit: string;
-  } {
+  getStats(): NewsSourceStats {
     return {
+      type: this.type,
       name: 'Hacker News API',
       endpoints: [
         '/topstories.json',
-        '/beststories.json', 
+        '/beststories.json',
         '/newstories.json',
-        '/{id}.json'
+        '/maxitem.json',
+        '/updates.json',
+        '/item/{id}.json',
       ],
-      rateLimit: 'Respectful batching with 100ms delays'
+      mode: this.mode,
+      depth: this.depth,
+      incrementalLimit: this.incrementalLimit,
+      trackHours: this.trackHours,
+      rateLimit: '10 requests/second through OutboundHttpService',
     };
   }
+
+  private readLimit(
+    configService: ConfigService,
+    key: string,
+    fallback: number,
+  ): number {
+    const value = parseInt(configService.get<string>(key) ?? '', 10);
+    return isNaN(value) || value <= 0 ? fallback : value;
+  }
 }
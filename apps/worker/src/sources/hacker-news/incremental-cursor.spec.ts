@@ -0,0 +1,34 @@
+import { advanceCursor } from './incremental-cursor';
+
+const range = { rangeStart: 101, rangeEnd: 200 };
+
+describe('advanceCursor', () => {
+  it('moves to the end of the range when every item was fetched', () => {
+    expect(advanceCursor(range, [], {}, 3)).toEqual({
+      cursor: 200,
+      attempts: {},
+      abandoned: [],
+    });
+  });
+
+  it('stops before the first item to retry and counts the attempts', () => {
+    expect(advanceCursor(range, [150, 120, 99, 250], { 150: 1 }, 3)).toEqual({
+      cursor: 119,
+      attempts: { 120: 1, 150: 2 },
+      abandoned: [],
+    });
+  });
+
+  it('gives up on an item still missing after the last attempt', () => {
+    expect(advanceCursor(range, [120, 150], { 120: 2, 150: 1 }, 3)).toEqual({
+      cursor: 149,
+      attempts: { 150: 2 },
+      abandoned: [120],
+    });
+    expect(advanceCursor(range, [120], { 120: 2 }, 3)).toEqual({
+      cursor: 200,
+      attempts: {},
+      abandoned: [120],
+    });
+  });
+});
@@ -0,0 +1,49 @@
+export interface IncrementalRange {
+  rangeStart: number;
+  rangeEnd: number;
+}
+
+export interface CursorAdvance {
+  cursor: number;
+  attempts: Record<number, number>; // runs each item past the cursor has been retried
+  abandoned: number[]; // retried `maxAttempts` times, no longer holding the cursor back
+}
+
+/**
+ * Where the next incremental walk resumes: just before the first item in the
+ * range that failed or was not there yet, so nothing is skipped. An item
+ * still missing after `maxAttempts` runs is given up on, so one bad item
+ * cannot pin the cursor. `attempts` are the counts from earlier runs.
+ */
+export function advanceCursor(
+  range: IncrementalRange,
+  retryIds: number[],
+  attempts: Record<number, number>,
+  maxAttempts: number,
+): CursorAdvance {
+  const counted: Record<number, number> = {};
+  const abandoned: number[] = [];
+  const waiting: number[] = [];
+
+  for (const id of retryIds) {
+    if (id < range.rangeStart || id > range.rangeEnd) {
+      continue;
+    }
+    counted[id] = (attempts[id] ?? 0) + 1;
+    if (counted[id] >= maxAttempts) {
+      abandoned.push(id);
+    } else {
+      waiting.push(id);
+    }
+  }
+
+  const cursor = waiting.length > 0 ? Math.min(...waiting) - 1 : range.rangeEnd;
+  // Items behind the cursor are not walked again
+  const kept: Record<number, number> = {};
+  for (const [id, count] of Object.entries(counted)) {
+    if (Number(id) > cursor) {
+      kept[Number(id)] = count;
+    }
+  }
+  return { cursor, attempts: kept, abandoned };
+}
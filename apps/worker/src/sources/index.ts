@@ -1 +1,5 @@
+export * from './news-source.registry';
 export * from './hacker-news/hacker-news.service';
+export * from './hacker-news/hacker-news-item-cache';
+export * from './rss/rss.service';
+export * from './rss/feed-parser';
@@ -0,0 +1,122 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { Source } from '@prisma/client';
+import {
+  NewsSourceAdapter,
+  SourceFetchResult,
+} from '../common/interfaces/news-source.interface';
+import { NewsStorageService } from '../database/news-storage.service';
+
+@Injectable()
+export class NewsSourceRegistry implements OnApplicationBootstrap {
+  private readonly logger = new Logger(NewsSourceRegistry.name);
+  private readonly adapters = new Map<string, NewsSourceAdapter>();
+
+  constructor(private readonly newsStorageService: NewsStorageService) {}
+
+  /**
+   * Adapters register themselves in onModuleInit, so by bootstrap time
+   * every adapter is known and its built-in Source rows can be upserted
+   */
+  async onApplicationBootstrap() {
+    for (const adapter of this.adapters.values()) {
+      if (!adapter.defaultSources?.length) {
+        continue;
+      }
+
+      try {
+        await this.newsStorageService.ensureSources(
+          adapter.type,
+          adapter.defaultSources,
+        );
+      } catch (error) {
+        this.logger.error(
+          `❌ Failed to ensure default sources for ${adapter.type}: ${error.message}`,
+        );
+      }
+    }
+
+    this.logger.log(
+      `🚀 News source registry initialized with ${this.adapters.size} adapter(s): ${this.getTypes().join(', ')}`,
+    );
+  }
+
+  /**
+   * Register an adapter for its Source.type
+   */
+  register(adapter: NewsSourceAdapter): void {
+    if (this.adapters.has(adapter.type)) {
+      this.logger.warn(
+        `⚠️ Replacing adapter already registered for type: ${adapter.type}`,
+      );
+    }
+    this.adapters.set(adapter.type, adapter);
+    this.logger.log(`📡 Registered news source adapter: ${adapter.type}`);
+  }
+
+  /**
+   * Get the adapter registered for a Source.type
+   */
+  get(type: string): NewsSourceAdapter | undefined {
+    return this.adapters.get(type);
+  }
+
+  /**
+   * Check if an adapter is registered for a Source.type
+   */
+  has(type: string): boolean {
+    return this.adapters.has(type);
+  }
+
+  /**
+   * Get all registered adapters
+   */
+  getAll(): NewsSourceAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  /**
+   * Get all registered Source.type keys
+   */
+  getTypes(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+
+  /**
+   * Fetch and normalize a Source row through its adapter.
+   * Validators are returned, not stored; callers persist them once the articles are handled.
+   */
+  async fetchSource(source: Source): Promise<SourceFetchResult> {
+    const adapter = this.adapters.get(source.type);
+    if (!adapter) {
+      throw new Error(
+        `No news source adapter registered for type: ${source.type}`,
+      );
+    }
+
+    const {
+      items,
+      notModified = false,
+      validators,
+      checkpoint,
+    } = await adapter.fetch(source);
+    return {
+      source,
+      articles: notModified ? [] : adapter.normalize(items, source),
+      notModified,
+      validators,
+      checkpoint,
+    };
+  }
+
+  /**
+   * Let the adapter persist its fetch progress once the articles are saved
+   */
+  async commitFetch(
+    result: Pick<SourceFetchResult, 'source' | 'checkpoint'>,
+  ): Promise<void> {
+    const adapter = this.adapters.get(result.source.type);
+    if (adapter?.commit && result.checkpoint !== undefined) {
+      await adapter.commit(result.source, result.checkpoint);
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { parseFeed } from './feed-parser';
+
+describe('parseFeed', () => {
+  it('should parse RSS 2.0 items', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+      <rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:atom="http://www.w3.org/2005/Atom">
+        <channel>
+          <title>BBC News</title>
+          <atom:link href="https://feeds.bbci.co.uk/news/rss.xml" rel="self" type="application/rss+xml"/>
+          <item>
+            <title><![CDATA[Markets rally after rate decision]]></title>
+            <link>https://www.bbc.co.uk/news/business-1</link>
+            <guid isPermaLink="false">business-1</guid>
+            <dc:creator>Jane Doe</dc:creator>
+            <pubDate>Mon, 18 Aug 2025 10:00:00 GMT</pubDate>
+            <description>&lt;p&gt;Stocks rose &amp;amp; bonds fell.&lt;/p&gt;</description>
+          </item>
+          <item>
+            <description>An item without a title is dropped</description>
+          </item>
+        </channel>
+      </rss>`;
+
+    const feed = parseFeed(xml);
+
+    expect(feed.format).toBe('rss');
+    expect(feed.title).toBe('BBC News');
+    expect(feed.entries).toHaveLength(1);
+    expect(feed.entries[0]).toEqual({
+      guid: 'business-1',
+      title: 'Markets rally after rate decision',
+      link: 'https://www.bbc.co.uk/news/business-1',
+      author: 'Jane Doe',
+      publishedAt: new Date('2025-08-18T10:00:00Z'),
+      summary: 'Stocks rose & bonds fell.',
+    });
+  });
+
+  it('should parse Atom entries and prefer the alternate link', () => {
+    const xml = `<?xml version="1.0" encoding="utf-8"?>
+      <feed xmlns="http://www.w3.org/2005/Atom">
+        <title type="text">Ars Technica</title>
+        <entry>
+          <id>tag:arstechnica.com,2025:1</id>
+          <title type="html">New chip &amp; old problems</title>
+          <link rel="self" href="https://arstechnica.com/feed/1"/>
+          <link rel="alternate" type="text/html" href="https://arstechnica.com/gadgets/1"/>
+          <author><name>John Smith</name></author>
+          <updated>2025-08-18T12:30:00Z</updated>
+          <summary>Summary text</summary>
+        </entry>
+      </feed>`;
+
+    const feed = parseFeed(xml);
+
+    expect(feed.format).toBe('atom');
+    expect(feed.entries[0]).toMatchObject({
+      guid: 'tag:arstechnica.com,2025:1',
+      title: 'New chip & old problems',
+      link: 'https://arstechnica.com/gadgets/1',
+      author: 'John Smith',
+      publishedAt: new Date('2025-08-18T12:30:00Z'),
+      summary: 'Summary text',
+    });
+  });
+
+  it('should parse RSS 1.0 (RDF) items', () => {
+    const xml = `<?xml version="1.0"?>
+      <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns="http://purl.org/rss/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+        <channel rdf:about="https://example.com/">
+          <title>Example RDF</title>
+        </channel>
+        <item rdf:about="https://example.com/story">
+          <title>RDF story</title>
+          <link>https://example.com/story</link>
+          <dc:date>2025-08-18T08:00:00Z</dc:date>
+        </item>
+      </rdf:RDF>`;
+
+    const feed = parseFeed(xml);
+
+    expect(feed.format).toBe('rdf');
+    expect(feed.title).toBe('Example RDF');
+    expect(feed.entries[0]).toMatchObject({
+      guid: 'https://example.com/story',
+      link: 'https://example.com/story',
+      publishedAt: new Date('2025-08-18T08:00:00Z'),
+    });
+  });
+
+  it('should decode escaped markup in summaries only once', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+      <rss version="2.0">
+        <channel>
+          <item>
+            <title>Formatting tips</title>
+            <link>https://example.com/tips</link>
+            <description><![CDATA[<p>Write &amp;lt;b&amp;gt; for &lt;b&gt; in bold.</p>]]></description>
+          </item>
+        </channel>
+      </rss>`;
+
+    expect(parseFeed(xml).entries[0].summary).toBe(
+      'Write &lt;b&gt; for <b> in bold.',
+    );
+  });
+
+  it('should reject documents that are not feeds', () => {
+    expect(() => parseFeed('<html><body>Not a feed</body></html>')).toThrow(
+      'Unrecognized feed format',
+    );
+  });
+});
@@ -0,0 +1,209 @@
+import { XMLParser } from 'fast-xml-parser';
+
+export type FeedFormat = 'rss' | 'atom' | 'rdf';
+
+export interface FeedEntry {
+  guid: string | null;
+  title: string;
+  link: string | null;
+  author: string | null;
+  publishedAt: Date | null;
+  summary: string | null;
+}
+
+export interface ParsedFeed {
+  format: FeedFormat;
+  title: string | null;
+  entries: FeedEntry[];
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true, // dc:creator -> creator, rdf:RDF -> RDF, content:encoded -> encoded
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (name) =>
+    ['item', 'entry', 'link', 'author', 'creator'].includes(name),
+});
+
+const ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  '#39': "'",
+};
+
+// A parsed element: child elements by name, attributes as "@_name", text as "#text"
+type XmlNode = Record<string, unknown>;
+
+/**
+ * Parse an RSS 2.0, Atom 1.0 or RSS 1.0 (RDF) document into feed entries.
+ * Entries without a title are dropped; everything else is best-effort.
+ */
+export function parseFeed(xml: string): ParsedFeed {
+  const doc = nodeOf(parser.parse(xml));
+
+  const channel = nodeOf(nodeOf(doc?.rss)?.channel);
+  if (channel) {
+    return {
+      format: 'rss',
+      title: textOf(channel.title),
+      entries: nodesOf(channel.item).map(parseRssItem).filter(isEntry),
+    };
+  }
+
+  const feed = nodeOf(doc?.feed);
+  if (feed) {
+    return {
+      format: 'atom',
+      title: textOf(feed.title),
+      entries: nodesOf(feed.entry).map(parseAtomEntry).filter(isEntry),
+    };
+  }
+
+  const rdf = nodeOf(doc?.RDF);
+  if (rdf) {
+    // RSS 1.0 keeps items as siblings of the channel rather than children
+    return {
+      format: 'rdf',
+      title: textOf(nodeOf(rdf.channel)?.title),
+      entries: nodesOf(rdf.item).map(parseRssItem).filter(isEntry),
+    };
+  }
+
+  throw new Error(
+    'Unrecognized feed format: expected <rss>, <feed> or <rdf:RDF> root',
+  );
+}
+
+function parseRssItem(item: XmlNode): FeedEntry | null {
+  const title = stripHtml(textOf(item.title));
+  if (!title) {
+    return null;
+  }
+
+  const link = firstLink(item.link) ?? attributeOf(item, 'about');
+  const guid = textOf(item.guid) ?? attributeOf(item, 'about');
+
+  return {
+    guid,
+    title,
+    link,
+    author: textOf(firstOf(item.creator)) ?? textOf(firstOf(item.author)),
+    publishedAt: parseDate(textOf(item.pubDate) ?? textOf(item.date)),
+    summary: stripHtml(textOf(item.description) ?? textOf(item.encoded)),
+  };
+}
+
+function parseAtomEntry(entry: XmlNode): FeedEntry | null {
+  const title = stripHtml(textOf(entry.title));
+  if (!title) {
+    return null;
+  }
+
+  const author = firstOf(entry.author);
+
+  return {
+    guid: textOf(entry.id),
+    title,
+    link: atomLink(entry.link),
+    author: textOf(nodeOf(author)?.name) ?? textOf(author),
+    publishedAt: parseDate(textOf(entry.published) ?? textOf(entry.updated)),
+    summary: stripHtml(textOf(entry.summary) ?? textOf(entry.content)),
+  };
+}
+
+/**
+ * Atom entries can carry several <link> elements; prefer rel="alternate"
+ * (the default when rel is omitted) over self/edit/enclosure links.
+ */
+function atomLink(links: unknown): string | null {
+  const candidates = toArray(links);
+  const alternate = candidates.find((link) => {
+    const rel = attributeOf(link, 'rel');
+    return !rel || rel === 'alternate';
+  });
+  const chosen = alternate ?? candidates[0];
+  return attributeOf(chosen, 'href') ?? textOf(chosen);
+}
+
+function firstLink(links: unknown): string | null {
+  for (const link of toArray(links)) {
+    // RSS 2.0 feeds frequently embed <atom:link rel="self" href="..."/> next to the real <link>
+    const value =
+      textOf(link) ??
+      (attributeOf(link, 'rel') === 'self' ? null : attributeOf(link, 'href'));
+    if (value) {
+      return value;
+    }
+  }
+  return null;
+}
+
+function textOf(node: unknown): string | null {
+  if (typeof node === 'string' || typeof node === 'number') {
+    const value = String(node).trim();
+    return value.length > 0 ? value : null;
+  }
+  const element = nodeOf(node);
+  return element && '#text' in element ? textOf(element['#text']) : null;
+}
+
+function attributeOf(node: unknown, name: string): string | null {
+  return textOf(nodeOf(node)?.[`@_${name}`]);
+}
+
+function nodeOf(value: unknown): XmlNode | null {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? (value as XmlNode)
+    : null;
+}
+
+// Child elements that are elements rather than bare text
+function nodesOf(value: unknown): XmlNode[] {
+  return toArray(value)
+    .map(nodeOf)
+    .filter((node) => node !== null);
+}
+
+function firstOf(node: unknown): unknown {
+  return Array.isArray(node) ? (node as unknown[])[0] : node;
+}
+
+function toArray(node: unknown): unknown[] {
+  if (node === undefined || node === null) {
+    return [];
+  }
+  return Array.isArray(node) ? (node as unknown[]) : [node];
+}
+
+function parseDate(value: string | null): Date | null {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function stripHtml(value: string | null): string | null {
+  if (!value) {
+    return null;
+  }
+  // One pass, so an escaped entity such as "&amp;lt;" is only decoded once
+  const text = value
+    .replace(/<[^>]*>/g, ' ')
+    .replace(
+      /&(nbsp|amp|lt|gt|quot|#39);/g,
+      (_, name: string) => ENTITIES[name],
+    )
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > 0 ? text : null;
+}
+
+function isEntry(entry: FeedEntry | null): entry is FeedEntry {
+  return entry !== null;
+}
@@ -0,0 +1,139 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Source } from '@prisma/client';
+import * as crypto from 'crypto';
+import { NormalizedArticle } from '../../common/interfaces/article.interface';
+import {
+  AdapterFetchResult,
+  NewsSourceAdapter,
+  NewsSourceStats,
+  SourceValidators,
+} from '../../common/interfaces/news-source.interface';
+import { OutboundHttpService } from '../../http';
+import { NewsSourceRegistry } from '../news-source.registry';
+import { FeedEntry, parseFeed } from './feed-parser';
+
+@Injectable()
+export class RssService implements NewsSourceAdapter<FeedEntry>, OnModuleInit {
+  private readonly logger = new Logger(RssService.name);
+  private readonly requestTimeout = 15000;
+
+  readonly type = 'rss';
+
+  constructor(
+    private readonly newsSourceRegistry: NewsSourceRegistry,
+    private readonly http: OutboundHttpService,
+  ) {}
+
+  onModuleInit() {
+    this.newsSourceRegistry.register(this);
+  }
+
+  /**
+   * Fetch and parse a single feed source. Sends the validators stored on the
+   * Source and skips parsing when the feed answers 304 or the body is unchanged.
+   */
+  async fetch(source: Source): Promise<AdapterFetchResult<FeedEntry>> {
+    const headers: Record<string, string> = {
+      Accept:
+        'application/rss+xml, application/atom+xml, application/rdf+xml, application/xml;q=0.9, text/xml;q=0.8',
+    };
+    if (source.etag) {
+      headers['If-None-Match'] = source.etag;
+    }
+    if (source.lastModified) {
+      headers['If-Modified-Since'] = source.lastModified;
+    }
+
+    const response = await this.http.get<string>(source.url, {
+      responseType: 'text',
+      timeout: this.requestTimeout,
+      headers,
+      validateStatus: (status) =>
+        (status >= 200 && status < 300) || status === 304,
+    });
+
+    if (response.status === 304) {
+      this.logger.debug(`⏭️ "${source.title}" not modified (304)`);
+      return {
+        items: [],
+        notModified: true,
+        // A 304 may carry refreshed validators; keep the stored ones otherwise
+        validators: {
+          etag: this.header(response.headers, 'etag') ?? source.etag,
+          lastModified:
+            this.header(response.headers, 'last-modified') ??
+            source.lastModified,
+          contentHash: source.contentHash,
+        },
+      };
+    }
+
+    const validators: SourceValidators = {
+      etag: this.header(response.headers, 'etag'),
+      lastModified: this.header(response.headers, 'last-modified'),
+      contentHash: crypto
+        .createHash('sha256')
+        .update(response.data)
+        .digest('hex'),
+    };
+
+    // Feeds without validators (or with unstable ones) still often serve identical bodies
+    if (source.contentHash && source.contentHash === validators.contentHash) {
+      this.logger.debug(`⏭️ "${source.title}" body unchanged since last fetch`);
+      return { items: [], notModified: true, validators };
+    }
+
+    const feed = parseFeed(response.data);
+    this.logger.debug(
+      `📰 Parsed ${feed.entries.length} ${feed.format} entries from "${source.title}"`,
+    );
+
+    return { items: feed.entries, validators };
+  }
+
+  /**
+   * Map parsed feed entries onto the normalized article shape
+   */
+  normalize(entries: FeedEntry[]): NormalizedArticle[] {
+    return entries
+      .map((entry) => this.normalizeEntry(entry))
+      .filter((article): article is NormalizedArticle => article !== null);
+  }
+
+  private normalizeEntry(entry: FeedEntry): NormalizedArticle | null {
+    const url =
+      entry.link ?? (entry.guid?.startsWith('http') ? entry.guid : null);
+    if (!url) {
+      return null;
+    }
+
+    return {
+      externalId: entry.guid ?? url,
+      title: entry.title,
+      url,
+      author: entry.author ?? undefined,
+      publishedAt: entry.publishedAt?.toISOString(),
+      summary: entry.summary ?? undefined,
+    };
+  }
+
+  private header(
+    headers: Record<string, unknown>,
+    name: string,
+  ): string | null {
+    const value = headers[name];
+    return typeof value === 'string' && value.length > 0 ? value : null;
+  }
+
+  /**
+   * Get service statistics
+   */
+  getStats(): NewsSourceStats {
+    return {
+      type: this.type,
+      name: 'RSS/Atom feeds',
+      formats: ['RSS 2.0', 'Atom 1.0', 'RSS 1.0 (RDF)'],
+      conditionalFetch: true,
+    };
+  }
+}
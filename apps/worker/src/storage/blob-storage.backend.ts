@@ -0,0 +1,10 @@
+/**
+ * Minimal object store contract. Keys are relative, slash-separated paths
+ * (e.g. "snapshots/ab/abcdef....html.gz") and never include the backend.
+ */
+export interface BlobStorageBackend {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  exists(key: string): Promise<boolean>;
+}
@@ -0,0 +1,106 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+import { BlobStorageBackend } from './blob-storage.backend';
+import { LocalBlobStorage } from './local-blob-storage';
+import { S3BlobStorage } from './s3-blob-storage';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+const EXTENSIONS: Array<[RegExp, string]> = [
+  [/html/, 'html'],
+  [/json/, 'json'],
+  [/xml/, 'xml'],
+  [/^text\//, 'txt'],
+];
+
+/**
+ * Archive of raw fetched payloads. Snapshots are gzip-compressed and
+ * content-addressed by the sha256 of the uncompressed body, so storing the
+ * same payload twice is a no-op and a key always identifies its bytes.
+ */
+@Injectable()
+export class BlobStorageService {
+  private readonly logger = new Logger(BlobStorageService.name);
+  private readonly backend: BlobStorageBackend;
+  private readonly stats = { stored: 0, deduplicated: 0, reads: 0, misses: 0 };
+
+  constructor(configService: ConfigService) {
+    const driver = configService.get<string>('BLOB_STORAGE_DRIVER', 'local');
+
+    if (driver === 's3') {
+      const bucket = configService.get<string>('S3_BUCKET');
+      if (!bucket) {
+        throw new Error('S3_BUCKET is required when BLOB_STORAGE_DRIVER=s3');
+      }
+      this.backend = new S3BlobStorage({
+        bucket,
+        region: configService.get<string>('S3_REGION', 'us-east-1'),
+        endpoint: configService.get<string>('S3_ENDPOINT') || undefined,
+        accessKeyId: configService.get<string>('S3_ACCESS_KEY_ID'),
+        secretAccessKey: configService.get<string>('S3_SECRET_ACCESS_KEY'),
+        forcePathStyle:
+          configService.get<string>('S3_FORCE_PATH_STYLE') === 'true',
+      });
+    } else {
+      this.backend = new LocalBlobStorage(
+        configService.get<string>('BLOB_STORAGE_LOCAL_DIR', './data/blobs'),
+      );
+    }
+
+    this.logger.log(`🗄️ Blob storage backend: ${this.backend.name}`);
+  }
+
+  /**
+   * Store a raw payload and return its key, e.g. "snapshots/3f/3fa9...html.gz"
+   */
+  async putSnapshot(
+    content: string | Buffer,
+    contentType: string,
+  ): Promise<string> {
+    const body =
+      typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+    const hash = crypto.createHash('sha256').update(body).digest('hex');
+    const key = `snapshots/${hash.slice(0, 2)}/${hash}.${this.extensionFor(contentType)}.gz`;
+
+    if (await this.backend.exists(key)) {
+      this.stats.deduplicated++;
+      return key;
+    }
+
+    await this.backend.put(key, await gzip(body), contentType);
+    this.stats.stored++;
+    this.logger.debug(`🗄️ Stored snapshot ${key} (${body.length} bytes)`);
+
+    return key;
+  }
+
+  /**
+   * Read a snapshot back as text, or null if the key is unknown
+   */
+  async getSnapshot(key: string): Promise<string | null> {
+    const compressed = await this.backend.get(key);
+    if (!compressed) {
+      this.stats.misses++;
+      return null;
+    }
+
+    this.stats.reads++;
+    return (await gunzip(compressed)).toString('utf8');
+  }
+
+  /**
+   * Get storage statistics
+   */
+  getStats() {
+    return { backend: this.backend.name, ...this.stats };
+  }
+
+  private extensionFor(contentType: string): string {
+    const type = contentType.toLowerCase();
+    return EXTENSIONS.find(([pattern]) => pattern.test(type))?.[1] ?? 'bin';
+  }
+}
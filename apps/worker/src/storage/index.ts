@@ -0,0 +1,4 @@
+export * from './blob-storage.backend';
+export * from './blob-storage.service';
+export * from './local-blob-storage';
+export * from './s3-blob-storage';
@@ -0,0 +1,3 @@
+export * from './summarization.service';
+export * from './text-rank';
+export * from './summarization.provider';
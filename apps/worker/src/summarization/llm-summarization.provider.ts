@@ -0,0 +1,43 @@
+import { Length } from '@prisma/client';
+import { OpenAiChatClient } from './openai-chat.client';
+import {
+  buildSummaryMessages,
+  OUTPUT_TOKENS,
+  parseSummaryResponse,
+} from './prompt-templates';
+import {
+  GeneratedSummary,
+  SummarizationProvider,
+} from './summarization.provider';
+import { SummaryArticle } from './text-rank';
+
+/**
+ * Abstractive summaries and neutral headlines from a model behind an
+ * OpenAI-compatible chat endpoint
+ */
+export class LlmSummarizationProvider implements SummarizationProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly client: OpenAiChatClient,
+    readonly maxInputTokens: number,
+  ) {
+    this.name = `openai-compatible/${client.model}`;
+  }
+
+  async summarize(
+    articles: SummaryArticle[],
+    length: Length,
+  ): Promise<GeneratedSummary> {
+    const completion = await this.client.complete(
+      buildSummaryMessages(articles, length),
+      OUTPUT_TOKENS[length],
+    );
+
+    return {
+      ...parseSummaryResponse(completion.content),
+      promptTokens: completion.promptTokens,
+      completionTokens: completion.completionTokens,
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import axios, { AxiosInstance } from 'axios';
+import { ChatMessage } from './prompt-templates';
+
+export interface OpenAiChatClientOptions {
+  baseUrl: string; // up to and including the version, e.g. https://api.openai.com/v1
+  apiKey?: string;
+  model: string;
+  timeoutMs: number;
+}
+
+export interface ChatCompletion {
+  content: string;
+  promptTokens: number | null;
+  completionTokens: number | null;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Minimal client for the chat completions endpoint of the OpenAI API, which
+ * local servers (llama.cpp, Ollama, vLLM) and mock servers speak as well.
+ * Not routed through `OutboundHttpService`: that one paces and checks robots
+ * for crawling, none of which applies to a model we call on purpose.
+ */
+export class OpenAiChatClient {
+  private readonly http: AxiosInstance;
+
+  constructor(private readonly options: OpenAiChatClientOptions) {
+    this.http = axios.create({
+      baseURL: options.baseUrl.replace(/\/+$/, ''),
+      timeout: options.timeoutMs,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey
+          ? { Authorization: `Bearer ${options.apiKey}` }
+          : {}),
+      },
+    });
+  }
+
+  get model(): string {
+    return this.options.model;
+  }
+
+  async complete(
+    messages: ChatMessage[],
+    maxTokens: number,
+  ): Promise<ChatCompletion> {
+    const { data } = await this.http.post<ChatCompletionResponse>(
+      '/chat/completions',
+      {
+        model: this.options.model,
+        messages,
+        max_tokens: maxTokens,
+        temperature: 0.2,
+      },
+    );
+
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error(`Chat completion from ${this.options.model} is empty`);
+    }
+    return {
+      content,
+      promptTokens: data.usage?.prompt_tokens ?? null,
+      completionTokens: data.usage?.completion_tokens ?? null,
+    };
+  }
+}
@@ -0,0 +1,90 @@
+import {
+  buildSummaryMessages,
+  estimateTokens,
+  fitArticles,
+  parseSummaryResponse,
+} from './prompt-templates';
+
+const sentence =
+  'The central bank raised its benchmark interest rate by a quarter point on Wednesday.';
+
+function article(id: string, sentences: number) {
+  return {
+    articleId: id,
+    title: `Central bank raises rates (${id})`,
+    url: `https://example.com/${id}`,
+    outlet: id === 'a1' ? 'Example News' : null,
+    text: new Array<string>(sentences).fill(sentence).join(' '),
+  };
+}
+
+describe('fitArticles', () => {
+  it('keeps the prompt within budget, giving the first article the larger share', () => {
+    const fitted = fitArticles(
+      [article('a1', 100), article('a2', 100), article('a3', 100)],
+      1250,
+    );
+
+    const tokens = fitted.map((a) => estimateTokens(a.title + a.text));
+    expect(fitted).toHaveLength(3);
+    expect(tokens.reduce((sum, t) => sum + t, 0)).toBeLessThanOrEqual(1000);
+    expect(tokens[0]).toBeGreaterThan(tokens[1]);
+    // Cut at a sentence end
+    expect(fitted[1].text.endsWith('Wednesday.')).toBe(true);
+  });
+
+  it('drops articles whose share would be too small, never the first', () => {
+    const articles = Array.from({ length: 8 }, (_, i) =>
+      article(`a${i + 1}`, 20),
+    );
+
+    const fitted = fitArticles(articles, 500);
+
+    expect(fitted[0].articleId).toBe('a1');
+    expect(fitted.length).toBeLessThan(8);
+    expect(fitArticles(articles.slice(0, 1), 100)).toHaveLength(1);
+  });
+
+  it('leaves short articles whole', () => {
+    const short = article('a1', 2);
+
+    expect(fitArticles([short], 3000)).toEqual([short]);
+  });
+});
+
+describe('buildSummaryMessages', () => {
+  it('numbers the excerpts with their outlet or host and states the length', () => {
+    const [system, user] = buildSummaryMessages(
+      [article('a1', 1), article('a2', 1)],
+      'SHORT',
+    );
+
+    expect(system.role).toBe('system');
+    expect(system.content).toContain('neutral');
+    expect(user.content).toContain('2 sentences');
+    expect(user.content).toContain(
+      '[1] Example News: Central bank raises rates (a1)',
+    );
+    expect(user.content).toContain(
+      '[2] example.com: Central bank raises rates (a2)',
+    );
+  });
+});
+
+describe('parseSummaryResponse', () => {
+  it('reads JSON inside a code fence or surrounding text', () => {
+    expect(
+      parseSummaryResponse(
+        'Here it is:\n```json\n{"headline": " Central bank\\n raises rates ", "summary": "It did. "}\n```',
+      ),
+    ).toEqual({ headline: 'Central bank raises rates', summary: 'It did.' });
+  });
+
+  it('rejects answers without a usable headline and summary', () => {
+    expect(() => parseSummaryResponse('I cannot help with that.')).toThrow();
+    expect(() => parseSummaryResponse('{"headline": "Rates"}')).toThrow();
+    expect(() =>
+      parseSummaryResponse('{"headline": " ", "summary": "Text"}'),
+    ).toThrow();
+  });
+});
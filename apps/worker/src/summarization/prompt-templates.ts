@@ -0,0 +1,158 @@
+import { Length } from '@prisma/client';
+import { splitSentences, SummaryArticle } from './text-rank';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ParsedSummary {
+  headline: string;
+  summary: string;
+}
+
+// Part of the summary cache key: changing the wording below must not serve
+// summaries written for the old prompt
+export const PROMPT_VERSION = 'story-summary-v1';
+
+// Completion budget per digest length, with room for the JSON around the text
+export const OUTPUT_TOKENS: Record<Length, number> = {
+  SHORT: 150,
+  STANDARD: 300,
+  DEEP: 600,
+};
+
+const LENGTH_GUIDANCE: Record<Length, string> = {
+  SHORT: '2 sentences, at most 50 words',
+  STANDARD: '3 to 5 sentences, about 100 words',
+  DEEP: 'two short paragraphs, about 200 words',
+};
+
+// Instructions, headers and the JSON answer format
+const PROMPT_OVERHEAD_TOKENS = 250;
+// An excerpt shorter than this says nothing the first ones did not
+const MIN_ARTICLE_TOKENS = 60;
+const MAX_HEADLINE_LENGTH = 150;
+
+const SYSTEM_PROMPT = [
+  'You are a news editor writing digest entries.',
+  'You receive excerpts of articles from different outlets about the same story.',
+  'Write a neutral, factual headline and a summary of the story.',
+  'Use only facts stated in the excerpts. Where outlets disagree, say so.',
+  'Do not take sides, speculate, or use sensational or loaded words.',
+  'Answer with JSON only: {"headline": "...", "summary": "..."}',
+].join(' ');
+
+/**
+ * Rough token count for budgeting: about four characters per token in
+ * English, on the safe side for most tokenizers
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Cut articles down to fit the prompt budget. The first article (a cluster's
+ * representative) gets half of it when there are others, the rest share the
+ * remainder; texts are cut at a sentence end. Articles whose share would be
+ * too small to be useful are left out, except the first.
+ */
+export function fitArticles(
+  articles: SummaryArticle[],
+  maxInputTokens: number,
+): SummaryArticle[] {
+  const budget = Math.max(maxInputTokens - PROMPT_OVERHEAD_TOKENS, 0);
+  if (articles.length === 0) {
+    return [];
+  }
+
+  let others = articles.length - 1;
+  while (others > 0 && budget / 2 / others < MIN_ARTICLE_TOKENS) {
+    others--;
+  }
+  const shares =
+    others === 0
+      ? [budget]
+      : [budget / 2, ...new Array<number>(others).fill(budget / 2 / others)];
+
+  return articles.slice(0, shares.length).map((article, i) => {
+    const room = Math.max(shares[i] - estimateTokens(article.title) - 10, 0);
+    return { ...article, text: truncateAtSentence(article.text, room * 4) };
+  });
+}
+
+export function buildSummaryMessages(
+  articles: SummaryArticle[],
+  length: Length,
+): ChatMessage[] {
+  const excerpts = articles.map((article, i) =>
+    [
+      `[${i + 1}] ${article.outlet ?? new URL(article.url).hostname}: ${article.title}`,
+      article.text,
+    ]
+      .filter(Boolean)
+      .join('\n'),
+  );
+
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: [
+        `Summary length: ${LENGTH_GUIDANCE[length]}.`,
+        `Headline: at most 12 words.`,
+        '',
+        ...excerpts.flatMap((excerpt) => [excerpt, '']),
+      ]
+        .join('\n')
+        .trim(),
+    },
+  ];
+}
+
+/**
+ * Headline and summary from the model's answer. Tolerates a code fence or
+ * text around the JSON object; throws when there is no usable answer.
+ */
+export function parseSummaryResponse(content: string): ParsedSummary {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('Summary response holds no JSON object');
+  }
+
+  const parsed: unknown = JSON.parse(content.slice(start, end + 1));
+  const { headline, summary } = (parsed ?? {}) as Record<string, unknown>;
+  if (typeof headline !== 'string' || typeof summary !== 'string') {
+    throw new Error('Summary response lacks a headline or summary');
+  }
+
+  const result = {
+    headline: headline.replace(/\s+/g, ' ').trim(),
+    summary: summary.trim(),
+  };
+  if (!result.headline || !result.summary) {
+    throw new Error('Summary response has an empty headline or summary');
+  }
+  if (result.headline.length > MAX_HEADLINE_LENGTH) {
+    result.headline = `${result.headline.slice(0, MAX_HEADLINE_LENGTH - 1).trimEnd()}…`;
+  }
+  return result;
+}
+
+function truncateAtSentence(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  let kept = '';
+  for (const sentence of splitSentences(text)) {
+    const next = kept ? `${kept} ${sentence}` : sentence;
+    if (next.length > maxLength) {
+      break;
+    }
+    kept = next;
+  }
+  // A first sentence longer than the room is cut at a word
+  return kept || text.slice(0, maxLength).replace(/\s+\S*$/, '');
+}
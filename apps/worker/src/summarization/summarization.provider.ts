@@ -0,0 +1,25 @@
+import { Length } from '@prisma/client';
+import { SummaryArticle } from './text-rank';
+
+export interface GeneratedSummary {
+  headline: string;
+  summary: string;
+  promptTokens: number | null;
+  completionTokens: number | null;
+}
+
+/**
+ * Writes an abstractive headline and summary for articles about one story,
+ * which arrive already cut to `maxInputTokens`. `name` identifies the model;
+ * it is part of the cache key, so switching models never serves another
+ * model's summaries. Implementations throw on any failure, and the caller
+ * falls back to the extractive summary.
+ */
+export interface SummarizationProvider {
+  readonly name: string;
+  readonly maxInputTokens: number;
+  summarize(
+    articles: SummaryArticle[],
+    length: Length,
+  ): Promise<GeneratedSummary>;
+}
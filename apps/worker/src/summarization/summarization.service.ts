@@ -0,0 +1,423 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Length, Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import { PrismaService } from '../database/prisma.service';
+import { LlmSummarizationProvider } from './llm-summarization.provider';
+import { OpenAiChatClient } from './openai-chat.client';
+import { fitArticles, PROMPT_VERSION } from './prompt-templates';
+import {
+  GeneratedSummary,
+  SummarizationProvider,
+} from './summarization.provider';
+import {
+  storyArticleIds,
+  summarizeArticle,
+  summarizeArticles,
+  summarySource,
+  SummaryArticle,
+  SummarySource,
+} from './text-rank';
+
+export interface ClusterSummaryResult {
+  clusterId: string;
+  length: Length;
+  version: number;
+  summary: string;
+  sources: SummarySource[];
+  cached: boolean;
+}
+
+export interface StorySummaryResult {
+  clusterId: string;
+  length: Length;
+  headline: string;
+  summary: string;
+  sources: SummarySource[];
+  provider: string; // 'extractive' when no model wrote it
+  cached: boolean;
+  fallback?: string; // why the configured model was not used
+}
+
+const articleSelect = {
+  id: true,
+  title: true,
+  url: true,
+  outlet: true,
+  cleanedText: true,
+} satisfies Prisma.ArticleSelect;
+
+/**
+ * Summaries in the shape of `DigestItem.summary` and `sources`. Extractive
+ * cluster summaries are kept in `ClusterSummary` per length and reused until
+ * the cluster's version moves on. With a `SUMMARIZATION_PROVIDER` configured,
+ * stories also get a model-written headline and summary, kept in
+ * `AbstractiveSummary` by a hash of the prompt input; whenever the model
+ * fails, the extractive summary stands in.
+ */
+@Injectable()
+export class SummarizationService {
+  private readonly logger = new Logger(SummarizationService.name);
+  // Members beyond these mostly repeat the story; the graph grows quadratically
+  private readonly maxClusterArticles = 8;
+  private readonly provider: SummarizationProvider | null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    configService: ConfigService,
+  ) {
+    const name = configService.get<string>(
+      'SUMMARIZATION_PROVIDER',
+      'extractive',
+    );
+
+    if (name === 'extractive') {
+      this.provider = null;
+    } else if (name === 'openai') {
+      const client = new OpenAiChatClient({
+        baseUrl: configService.get<string>(
+          'LLM_BASE_URL',
+          'https://api.openai.com/v1',
+        ),
+        apiKey: configService.get<string>('LLM_API_KEY'),
+        model: configService.get<string>('LLM_MODEL', 'gpt-4o-mini'),
+        timeoutMs: Number(configService.get('LLM_TIMEOUT_MS', 30000)),
+      });
+      this.provider = new LlmSummarizationProvider(
+        client,
+        Number(configService.get('LLM_MAX_INPUT_TOKENS', 3000)),
+      );
+    } else {
+      throw new Error(`Unknown SUMMARIZATION_PROVIDER '${name}'`);
+    }
+
+    this.logger.log(
+      `📝 Summarization provider: ${this.provider?.name ?? 'extractive'}`,
+    );
+  }
+
+  /**
+   * Summary across a cluster's members, the representative first and then the
+   * members closest to the story. Null when the cluster no longer exists.
+   */
+  async summarizeCluster(
+    clusterId: string,
+    length: Length,
+  ): Promise<ClusterSummaryResult | null> {
+    const cluster = await this.prisma.cluster.findUnique({
+      where: { id: clusterId },
+      select: {
+        version: true,
+        representativeId: true,
+        summaries: { where: { length } },
+      },
+    });
+    if (!cluster) {
+      return null;
+    }
+
+    const [cached] = cluster.summaries;
+    if (cached && cached.version === cluster.version) {
+      return {
+        clusterId,
+        length,
+        version: cached.version,
+        summary: cached.summary,
+        sources: cached.sources as unknown as SummarySource[],
+        cached: true,
+      };
+    }
+
+    const articles = await this.clusterArticles(
+      clusterId,
+      cluster.representativeId,
+    );
+    const { summary, sources } = summarizeArticles(articles, length);
+
+    const data = {
+      version: cluster.version,
+      summary,
+      sources: sources as unknown as Prisma.InputJsonValue,
+    };
+    await this.prisma.clusterSummary.upsert({
+      where: { clusterId_length: { clusterId, length } },
+      create: { clusterId, length, ...data },
+      update: { ...data, createdAt: new Date() },
+    });
+
+    this.logger.log(
+      `📝 Summarized cluster ${clusterId} v${cluster.version} (${length}) from ${sources.length} of ${articles.length} articles`,
+    );
+    return {
+      clusterId,
+      length,
+      version: cluster.version,
+      summary,
+      sources,
+      cached: false,
+    };
+  }
+
+  /**
+   * Headline and summary of a cluster's story from the configured model,
+   * reused while the articles it would be given stay the same. Falls back to
+   * the extractive summary under the representative's title when no model is
+   * configured or the model fails or times out. `articleIds` limits the story
+   * to those members, e.g. the ones a reader's filters let through; the
+   * headline then comes from the first of them. Null when the cluster no
+   * longer exists or none of those members is left.
+   */
+  async summarizeStory(
+    clusterId: string,
+    length: Length,
+    articleIds?: string[],
+  ): Promise<StorySummaryResult | null> {
+    if (!this.provider) {
+      return this.extractiveStory(clusterId, length, articleIds);
+    }
+
+    const cluster = await this.prisma.cluster.findUnique({
+      where: { id: clusterId },
+      select: { representativeId: true },
+    });
+    if (!cluster) {
+      return null;
+    }
+
+    const articles = fitArticles(
+      await this.clusterArticles(
+        clusterId,
+        cluster.representativeId,
+        articleIds,
+      ),
+      this.provider.maxInputTokens,
+    );
+    if (articles.length === 0) {
+      return null;
+    }
+    const hash = storyHash(this.provider.name, length, articles);
+
+    const cached = await this.prisma.abstractiveSummary.findUnique({
+      where: { hash },
+    });
+    if (cached) {
+      return {
+        clusterId,
+        length,
+        headline: cached.headline,
+        summary: cached.summary,
+        sources: cached.sources as unknown as SummarySource[],
+        provider: cached.provider,
+        cached: true,
+      };
+    }
+
+    let generated: GeneratedSummary;
+    try {
+      generated = await this.provider.summarize(articles, length);
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ ${this.provider.name} failed to summarize cluster ${clusterId}, using the extractive summary: ${error.message}`,
+      );
+      const fallback = await this.extractiveStory(
+        clusterId,
+        length,
+        articleIds,
+      );
+      return fallback && { ...fallback, fallback: error.message };
+    }
+
+    const sources = articles.map(summarySource);
+    const data = {
+      clusterId,
+      length,
+      provider: this.provider.name,
+      headline: generated.headline,
+      summary: generated.summary,
+      sources: sources as unknown as Prisma.InputJsonValue,
+      promptTokens: generated.promptTokens,
+      completionTokens: generated.completionTokens,
+    };
+    // The same input can come from another cluster, e.g. after a split
+    await this.prisma.abstractiveSummary.upsert({
+      where: { hash },
+      create: { hash, ...data },
+      update: { ...data, createdAt: new Date() },
+    });
+
+    this.logger.log(
+      `📝 ${this.provider.name} summarized cluster ${clusterId} (${length}) from ${articles.length} articles, ${generated.promptTokens ?? '?'}+${generated.completionTokens ?? '?'} tokens`,
+    );
+    return {
+      clusterId,
+      length,
+      headline: generated.headline,
+      summary: generated.summary,
+      sources,
+      provider: this.provider.name,
+      cached: false,
+    };
+  }
+
+  /**
+   * Summary of one article; cheap enough not to cache. Null when the article
+   * no longer exists.
+   */
+  async summarizeArticle(articleId: string, length: Length) {
+    const article = await this.prisma.article.findUnique({
+      where: { id: articleId },
+      select: articleSelect,
+    });
+    if (!article) {
+      return null;
+    }
+
+    const { summary, sources } = summarizeArticle(
+      toSummaryArticle(article),
+      length,
+    );
+    return { articleId, length, summary, sources };
+  }
+
+  private async extractiveStory(
+    clusterId: string,
+    length: Length,
+    articleIds?: string[],
+  ): Promise<StorySummaryResult | null> {
+    // The stored summary covers every member, so it only fits when none is left out
+    const excluded = articleIds
+      ? await this.prisma.clusterMember.count({
+          where: { clusterId, articleId: { notIn: articleIds } },
+        })
+      : 0;
+    if (excluded > 0) {
+      return this.partialExtractiveStory(clusterId, length, articleIds!);
+    }
+
+    const result = await this.summarizeCluster(clusterId, length);
+    if (!result) {
+      return null;
+    }
+
+    const cluster = await this.prisma.cluster.findUnique({
+      where: { id: clusterId },
+      select: { representative: { select: { title: true } } },
+    });
+    return {
+      clusterId,
+      length,
+      headline: cluster?.representative.title ?? result.sources[0]?.title ?? '',
+      summary: result.summary,
+      sources: result.sources,
+      provider: 'extractive',
+      cached: result.cached,
+    };
+  }
+
+  /**
+   * Extractive story from some of a cluster's members; too reader-specific to
+   * keep in `ClusterSummary`
+   */
+  private async partialExtractiveStory(
+    clusterId: string,
+    length: Length,
+    articleIds: string[],
+  ): Promise<StorySummaryResult | null> {
+    const cluster = await this.prisma.cluster.findUnique({
+      where: { id: clusterId },
+      select: { representativeId: true },
+    });
+    if (!cluster) {
+      return null;
+    }
+
+    const articles = await this.clusterArticles(
+      clusterId,
+      cluster.representativeId,
+      articleIds,
+    );
+    if (articles.length === 0) {
+      return null;
+    }
+    const { summary, sources } = summarizeArticles(articles, length);
+    return {
+      clusterId,
+      length,
+      headline: articles[0].title,
+      summary,
+      sources,
+      provider: 'extractive',
+      cached: false,
+    };
+  }
+
+  /**
+   * The representative and then the members closest to the story, only
+   * `articleIds` when given
+   */
+  private async clusterArticles(
+    clusterId: string,
+    representativeId: string,
+    articleIds?: string[],
+  ): Promise<SummaryArticle[]> {
+    const members = await this.prisma.clusterMember.findMany({
+      where: { clusterId },
+      orderBy: { similarity: 'desc' },
+      select: { articleId: true },
+    });
+    const ids = storyArticleIds(
+      representativeId,
+      members.map((member) => member.articleId),
+      this.maxClusterArticles,
+      articleIds,
+    );
+    const articles = await this.prisma.article.findMany({
+      where: { id: { in: ids } },
+      select: articleSelect,
+    });
+    const byId = new Map(articles.map((article) => [article.id, article]));
+
+    return ids
+      .map((id) => byId.get(id))
+      .filter((article) => article !== undefined)
+      .map(toSummaryArticle);
+  }
+}
+
+/**
+ * Cache key of an abstractive summary: everything the model is given, so a
+ * changed member, text, prompt or model asks it again
+ */
+function storyHash(
+  provider: string,
+  length: Length,
+  articles: SummaryArticle[],
+): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        provider,
+        PROMPT_VERSION,
+        length,
+        articles.map((article) => [
+          article.articleId,
+          article.outlet,
+          article.title,
+          article.text,
+        ]),
+      ]),
+    )
+    .digest('hex');
+}
+
+function toSummaryArticle(
+  article: Prisma.ArticleGetPayload<{ select: typeof articleSelect }>,
+): SummaryArticle {
+  return {
+    articleId: article.id,
+    title: article.title,
+    url: article.url,
+    outlet: article.outlet,
+    text: article.cleanedText,
+  };
+}
@@ -0,0 +1,131 @@
+import {
+  rankSentences,
+  splitSentences,
+  storyArticleIds,
+  summarizeArticle,
+  summarizeArticles,
+} from './text-rank';
+
+const rates = {
+  articleId: 'a1',
+  title: 'Central bank raises rates',
+  url: 'https://example.com/rates',
+  outlet: 'Example News',
+  text: [
+    'The central bank raised its benchmark interest rate by a quarter point on Wednesday, its tenth increase in a row.',
+    'Policymakers said inflation remains well above the 2% target and that further rate increases may be needed.',
+    'Photo: Reuters',
+    'The decision was widely expected by economists and markets, which had priced in the rate increase.',
+    'Mr. J. Smith, chief economist at U.S. Bank, said the central bank is close to the end of its rate increases.',
+    'Stocks rose 1.5% after the announcement, led by bank shares.',
+    'The committee will meet again in six weeks to review the data on inflation.',
+  ].join('\n'),
+};
+
+describe('splitSentences', () => {
+  it('keeps abbreviations, initials and decimals inside sentences', () => {
+    expect(
+      splitSentences(
+        'Mr. J. Smith of the U.S. Treasury spoke. Yields fell 0.5 points! "It is over," he said.\nNew paragraph here',
+      ),
+    ).toEqual([
+      'Mr. J. Smith of the U.S. Treasury spoke.',
+      'Yields fell 0.5 points!',
+      '"It is over," he said.',
+      'New paragraph here',
+    ]);
+  });
+});
+
+describe('rankSentences', () => {
+  it('ranks sentences sharing terms with the rest above an outlier', () => {
+    const scores = rankSentences(
+      [
+        ['rate', 'bank', 'inflation'],
+        ['rate', 'bank', 'market'],
+        ['rate', 'inflation', 'market'],
+        ['weather', 'sunny', 'beach'],
+      ].map((terms, position) => ({ terms: new Set(terms), position })),
+    );
+
+    expect(scores[3]).toBeLessThan(Math.min(...scores.slice(0, 3)));
+    expect(scores.reduce((sum, score) => sum + score, 0)).toBeCloseTo(1, 3);
+  });
+});
+
+describe('summarizeArticle', () => {
+  it('follows the length preference and keeps the text order', () => {
+    const short = summarizeArticle(rates, 'SHORT');
+    const standard = summarizeArticle(rates, 'STANDARD');
+
+    expect(short.sentences).toHaveLength(2);
+    expect(standard.sentences).toHaveLength(4);
+    expect(short.summary).toContain('The central bank raised its benchmark');
+    expect(standard.summary).not.toContain('Photo');
+
+    const order = standard.sentences.map((sentence) =>
+      rates.text.indexOf(sentence.text),
+    );
+    expect(order).toEqual([...order].sort((a, b) => a - b));
+    expect(short.sources).toEqual([
+      {
+        articleId: 'a1',
+        title: 'Central bank raises rates',
+        url: 'https://example.com/rates',
+        outlet: 'Example News',
+      },
+    ]);
+  });
+
+  it('falls back to the title without usable sentences', () => {
+    const summary = summarizeArticle(
+      { ...rates, text: 'Photo: Reuters' },
+      'DEEP',
+    );
+
+    expect(summary.summary).toBe('Central bank raises rates');
+    expect(summary.sources).toHaveLength(1);
+  });
+});
+
+describe('summarizeArticles', () => {
+  it('skips repeated sentences across articles and cites every source used', () => {
+    const copy = {
+      ...rates,
+      articleId: 'a2',
+      url: 'https://example.org/rates',
+      outlet: 'Wire',
+      text:
+        'The central bank raised its benchmark interest rate by a quarter point on Wednesday, its tenth straight increase.\n' +
+        'Mortgage lenders are expected to pass the higher rate on to borrowers within days, adding to pressure on households.',
+    };
+
+    const summary = summarizeArticles([rates, copy], 'DEEP');
+    const leads = summary.sentences.filter((sentence) =>
+      sentence.text.startsWith('The central bank raised'),
+    );
+
+    expect(leads).toHaveLength(1);
+    expect(summary.sources.map((source) => source.articleId)).toEqual([
+      'a1',
+      'a2',
+    ]);
+  });
+});
+
+describe('storyArticleIds', () => {
+  it('puts the representative first and caps the members', () => {
+    expect(storyArticleIds('a2', ['a1', 'a2', 'a3', 'a4'], 3)).toEqual([
+      'a2',
+      'a1',
+      'a3',
+    ]);
+  });
+
+  it('leaves out a representative from a blocked publisher', () => {
+    expect(storyArticleIds('a1', ['a1', 'a2', 'a3'], 8, ['a3', 'a2'])).toEqual([
+      'a2',
+      'a3',
+    ]);
+  });
+});
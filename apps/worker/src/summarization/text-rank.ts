@@ -0,0 +1,317 @@
+import { Length } from '@prisma/client';
+import { isStopword } from '../common/utils/text.util';
+
+export interface SummaryArticle {
+  articleId: string;
+  title: string;
+  url: string;
+  outlet: string | null;
+  text: string;
+}
+
+/**
+ * An article the summary quotes, in the `DigestItem.sources` shape
+ */
+export interface SummarySource {
+  articleId: string;
+  title: string;
+  url: string;
+  outlet: string | null;
+}
+
+export interface SummarySentence {
+  text: string;
+  articleId: string;
+}
+
+export interface ExtractiveSummary {
+  summary: string;
+  sentences: SummarySentence[];
+  sources: SummarySource[];
+}
+
+interface Sentence extends SummarySentence {
+  article: number; // index in the input
+  position: number; // index in its article
+  terms: Set<string>;
+}
+
+// Sentences per summary for each digest length preference
+export const SUMMARY_SENTENCES: Record<Length, number> = {
+  SHORT: 2,
+  STANDARD: 4,
+  DEEP: 8,
+};
+
+// The lead of a news story carries it; later sentences add little but cost
+// quadratic time in the graph
+const MAX_SENTENCES_PER_ARTICLE = 40;
+// Shorter is a dateline, caption or "Read more"; longer is a list run together
+const MIN_WORDS = 6;
+const MAX_WORDS = 60;
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 50;
+const TOLERANCE = 1e-6;
+// Term overlap at which a sentence repeats one already picked, as members of
+// a cluster often do
+const REDUNDANCY = 0.5;
+
+// A period after these does not end a sentence
+const ABBREVIATIONS = new Set(
+  (
+    'mr mrs ms dr prof sen rep gov gen lt col sgt st jr sr inc corp ltd co ' +
+    'vs no jan feb mar apr jun jul aug sep sept oct nov dec est approx dept'
+  ).split(' '),
+);
+
+/**
+ * Sentences of a text, one paragraph at a time. Periods of abbreviations,
+ * initials ("J. Powell", "U.S.") and decimals do not split.
+ */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+
+  for (const paragraph of text.split(/\n+/)) {
+    const pieces = paragraph
+      .trim()
+      .split(/(?<=[.!?]["'”’)\]]*)\s+(?=["'“‘(]?[\p{Lu}\d])/u);
+
+    let current = '';
+    for (const piece of pieces) {
+      current = current ? `${current} ${piece}` : piece;
+      if (!endsWithAbbreviation(current)) {
+        sentences.push(current.trim());
+        current = '';
+      }
+    }
+    if (current.trim()) {
+      sentences.push(current.trim());
+    }
+  }
+
+  return sentences.filter(Boolean);
+}
+
+/**
+ * TextRank: sentences are nodes, word overlap weighs the edges, and PageRank
+ * finds the sentences most of the text agrees with. The random jump favors
+ * early sentences, since news puts the essentials first.
+ */
+export function rankSentences(
+  sentences: Array<{ terms: Set<string>; position: number }>,
+): number[] {
+  const n = sentences.length;
+  if (n === 0) {
+    return [];
+  }
+
+  const weights = sentences.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const weight = similarity(sentences[i].terms, sentences[j].terms);
+      weights[i][j] = weight;
+      weights[j][i] = weight;
+    }
+  }
+  const outgoing = weights.map((row) => row.reduce((sum, w) => sum + w, 0));
+
+  const lead = sentences.map(({ position }) => 1 / Math.sqrt(position + 1));
+  const leadTotal = lead.reduce((sum, value) => sum + value, 0);
+  const jump = lead.map((value) => value / leadTotal);
+
+  let scores = [...jump];
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    // Sentences sharing no terms with any other pass their score on randomly
+    const dangling = scores.reduce(
+      (sum, score, i) => (outgoing[i] === 0 ? sum + score : sum),
+      0,
+    );
+    const next = jump.map((p, i) => {
+      let incoming = 0;
+      for (let j = 0; j < n; j++) {
+        if (weights[j][i] > 0) {
+          incoming += (weights[j][i] / outgoing[j]) * scores[j];
+        }
+      }
+      return (1 - DAMPING) * p + DAMPING * (incoming + dangling * p);
+    });
+
+    const change = next.reduce(
+      (sum, score, i) => sum + Math.abs(score - scores[i]),
+      0,
+    );
+    scores = next;
+    if (change < TOLERANCE) {
+      break;
+    }
+  }
+
+  return scores;
+}
+
+/**
+ * Extractive summary of one or more articles about the same story, e.g. the
+ * members of a cluster with its representative first. The best ranked
+ * sentences that do not repeat each other are kept, in the order of their
+ * articles and then of the text. Falls back to the first title when no text
+ * has a usable sentence.
+ */
+export function summarizeArticles(
+  articles: SummaryArticle[],
+  length: Length,
+): ExtractiveSummary {
+  const sentences: Sentence[] = [];
+  articles.forEach((article, index) => {
+    const candidates = splitSentences(article.text)
+      .filter((text) => {
+        const words = text.split(/\s+/).length;
+        return words >= MIN_WORDS && words <= MAX_WORDS;
+      })
+      .slice(0, MAX_SENTENCES_PER_ARTICLE);
+
+    candidates.forEach((text, position) => {
+      sentences.push({
+        text,
+        articleId: article.articleId,
+        article: index,
+        position,
+        terms: sentenceTerms(text),
+      });
+    });
+  });
+
+  const scores = rankSentences(sentences);
+  const ranked = sentences
+    .map((sentence, i) => ({ sentence, score: scores[i] }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.sentence.article - b.sentence.article ||
+        a.sentence.position - b.sentence.position,
+    );
+
+  const picked: Sentence[] = [];
+  for (const { sentence } of ranked) {
+    if (picked.length >= SUMMARY_SENTENCES[length]) {
+      break;
+    }
+    const repeats = picked.some(
+      (other) => overlap(other.terms, sentence.terms) >= REDUNDANCY,
+    );
+    if (!repeats && sentence.terms.size > 0) {
+      picked.push(sentence);
+    }
+  }
+  picked.sort((a, b) => a.article - b.article || a.position - b.position);
+
+  if (picked.length === 0) {
+    const [first] = articles;
+    return first
+      ? {
+          summary: first.title,
+          sentences: [{ text: first.title, articleId: first.articleId }],
+          sources: [summarySource(first)],
+        }
+      : { summary: '', sentences: [], sources: [] };
+  }
+
+  const cited = [...new Set(picked.map((sentence) => sentence.article))];
+  return {
+    summary: picked.map((sentence) => sentence.text).join(' '),
+    sentences: picked.map(({ text, articleId }) => ({ text, articleId })),
+    sources: cited.map((index) => summarySource(articles[index])),
+  };
+}
+
+export function summarizeArticle(
+  article: SummaryArticle,
+  length: Length,
+): ExtractiveSummary {
+  return summarizeArticles([article], length);
+}
+
+function sentenceTerms(text: string): Set<string> {
+  const terms = new Set<string>();
+  for (const word of text.toLowerCase().match(/\p{L}[\p{L}\p{N}]*/gu) ?? []) {
+    if (word.length > 2 && !isStopword(word)) {
+      terms.add(
+        word.length > 4 && word.endsWith('s') ? word.slice(0, -1) : word,
+      );
+    }
+  }
+  return terms;
+}
+
+/**
+ * Shared terms normalized by sentence length, as in the TextRank paper, so
+ * long sentences do not win by size alone
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size < 2 || b.size < 2) {
+    return 0;
+  }
+  let shared = 0;
+  for (const term of a) {
+    if (b.has(term)) {
+      shared++;
+    }
+  }
+  return shared / (Math.log(a.size) + Math.log(b.size));
+}
+
+/**
+ * Share of the shorter sentence's terms the other one has too
+ */
+function overlap(a: Set<string>, b: Set<string>): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  if (small.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const term of small) {
+    if (large.has(term)) {
+      shared++;
+    }
+  }
+  return shared / small.size;
+}
+
+function endsWithAbbreviation(text: string): boolean {
+  const last = text.match(/(\S+)\.["'”’)\]]*$/u)?.[1];
+  if (!last) {
+    return false;
+  }
+  // Initials and dotted abbreviations: "J.", "U.S.", "e.g."
+  if (/^(?:\p{L}\.)*\p{L}$/u.test(last)) {
+    return true;
+  }
+  return ABBREVIATIONS.has(last.toLowerCase());
+}
+
+export function summarySource(article: SummaryArticle): SummarySource {
+  return {
+    articleId: article.articleId,
+    title: article.title,
+    url: article.url,
+    outlet: article.outlet,
+  };
+}
+
+/**
+ * The articles a story is summarized from: the representative and then the
+ * members closest to it, limited to `allowedIds` when given
+ */
+export function storyArticleIds(
+  representativeId: string,
+  memberIds: string[],
+  limit: number,
+  allowedIds?: string[],
+): string[] {
+  const allowed = allowedIds && new Set(allowedIds);
+  return [
+    representativeId,
+    ...memberIds.filter((id) => id !== representativeId),
+  ]
+    .filter((id) => !allowed || allowed.has(id))
+    .slice(0, limit);
+}
@@ -1,17 +1,28 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
-import { HackerNewsService, ProcessedStory } from '../sources';
+import { NewsSourceRegistry } from '../sources';
 import { NewsStorageService } from '../database/news-storage.service';
 import { NewsQueueService } from '../services/news-queue.service';
+import { ClusteringQueueService } from '../services/clustering-queue.service';
+import { EnrichmentQueueService } from '../services/enrichment-queue.service';
+import { DigestQueueService } from '../services/digest-queue.service';
+import { DigestService } from '../digests';
+import { SourceFetchResult } from '../common/interfaces/news-source.interface';
+import { OutboundHttpService } from '../http';
 
 @Injectable()
 export class NewsSchedulerService {
   private readonly logger = new Logger(NewsSchedulerService.name);
 
   constructor(
-    private readonly hackerNewsService: HackerNewsService,
+    private readonly newsSourceRegistry: NewsSourceRegistry,
     private readonly newsStorageService: NewsStorageService,
-    private readonly newsQueueService: NewsQueueService
+    private readonly newsQueueService: NewsQueueService,
+    private readonly outboundHttpService: OutboundHttpService,
+    private readonly clusteringQueueService: ClusteringQueueService,
+    private readonly enrichmentQueueService: EnrichmentQueueService,
+    private readonly digestService: DigestService,
+    private readonly digestQueueService: DigestQueueService
   ) {}
 
   /**
@@ -25,21 +36,18 @@ export class NewsSchedulerService {
     
     try {
       // Step 1: Fetch news from configured sources
-      const fetchedStories = await this.fetchNewsFromSources();
+      const fetchResults = await this.fetchNewsFromSources();
       
       // Step 2: Queue news data for processing
-      await this.queueNewsForProcessing(fetchedStories);
+      await this.queueNewsForProcessing(fetchResults);
       
       // Step 3: Process and clean the news data
-      await this.processNewsData(fetchedStories);
+      await this.processNewsData(fetchResults);
       
       // Step 4: Update news clusters and entities
       await this.updateNewsClusters();
       
-      // Step 5: Generate user digests if needed
-      await this.generateUserDigests();
-      
-      // Step 6: Clean up old data
+      // Step 5: Clean up old data
       await this.cleanupOldData();
       
       this.logger.log(`✅ News aggregation job completed successfully at ${new Date().toISOString()}`);
@@ -50,26 +58,41 @@ export class NewsSchedulerService {
   }
 
   /**
-   * Fetch news from configured RSS feeds and API sources
+   * Fetch news from every enabled Source that has a registered adapter
    */
-  private async fetchNewsFromSources(): Promise<ProcessedStory[]> {
+  private async fetchNewsFromSources(): Promise<SourceFetchResult[]> {
     this.logger.log('📡 Fetching news from configured sources...');
     
     try {
-      // Fetch from Hacker News
-      const hackerNewsStories = await this.hackerNewsService.fetchAllStories();
+      const sources = await this.newsStorageService.getEnabledSources();
+      const results: SourceFetchResult[] = [];
       
-      // Combine all stories
-      const allStories = [
-        ...hackerNewsStories.top,
-        ...hackerNewsStories.best,
-        ...hackerNewsStories.new
-      ];
+      for (const source of sources) {
+        if (!this.newsSourceRegistry.has(source.type)) {
+          this.logger.warn(`⚠️ No adapter registered for source "${source.title}" (type: ${source.type}), skipping`);
+          continue;
+        }
+        
+        // One failing source should not stop the others from being fetched
+        try {
+          const result = await this.newsSourceRegistry.fetchSource(source);
+          results.push(result);
+          if (result.notModified) {
+            this.logger.log(`⏭️ "${source.title}" (${source.type}) not modified since last fetch`);
+          } else {
+            this.logger.log(`📡 Fetched ${result.articles.length} articles from "${source.title}" (${source.type})`);
+          }
+        } catch (error) {
+          this.logger.warn(`⚠️ Failed to fetch "${source.title}" (${source.type}): ${error.message}`);
+          results.push({ source, articles: [], error: error.message });
+        }
+      }
       
-      this.logger.log(`📡 Successfully fetched ${allStories.length} stories from Hacker News`);
-      this.logger.log(`📊 Breakdown: ${hackerNewsStories.top.length} top, ${hackerNewsStories.best.length} best, ${hackerNewsStories.new.length} new`);
+      const total = results.reduce((sum, result) => sum + result.articles.length, 0);
+      const notModified = results.filter(result => result.notModified).length;
+      this.logger.log(`📡 Successfully fetched ${total} articles from ${results.length} sources (${notModified} not modified)`);
       
-      return allStories;
+      return results;
     } catch (error) {
       this.logger.error(`❌ Failed to fetch news from sources: ${error.message}`);
       throw error;
@@ -77,16 +100,33 @@ export class NewsSchedulerService {
   }
 
   /**
-   * Queue news data for background processing
+   * Queue news data for background processing, one batch per source
    */
-  private async queueNewsForProcessing(stories: ProcessedStory[]): Promise<void> {
-    this.logger.log(`📤 Queuing ${stories.length} stories for background processing...`);
+  private async queueNewsForProcessing(results: SourceFetchResult[]): Promise<void> {
+    const total = results.reduce((sum, result) => sum + result.articles.length, 0);
+    this.logger.log(`📤 Queuing ${total} articles for background processing...`);
     
     try {
-      // Add stories to processing queue
-      const jobId = await this.newsQueueService.addNewsBatch(stories, 'hacker-news');
-      
-      this.logger.log(`📤 Successfully queued news batch with job ID: ${jobId}`);
+      for (const result of results) {
+        const { source, articles } = result;
+        if (result.error) {
+          continue;
+        }
+        
+        if (articles.length > 0) {
+          // Fetch progress rides along and is stored once the batch is saved, so a lost batch is refetched
+          const jobId = await this.newsQueueService.addNewsBatch(articles, source, {
+            validators: result.validators,
+            checkpoint: result.checkpoint
+          });
+          this.logger.log(`📤 Successfully queued news batch for "${source.title}" with job ID: ${jobId}`);
+          continue;
+        }
+        
+        // Nothing to save, so the fetch is done
+        await this.newsStorageService.recordSourceFetch(result);
+        await this.newsSourceRegistry.commitFetch(result);
+      }
     } catch (error) {
       this.logger.error(`❌ Failed to queue news for processing: ${error.message}`);
       throw error;
@@ -96,13 +136,13 @@ export class NewsSchedulerService {
   /**
    * Process and clean the fetched news data
    */
-  private async processNewsData(stories: ProcessedStory[]): Promise<void> {
+  private async processNewsData(results: SourceFetchResult[]): Promise<void> {
+    const stories = results.flatMap(result => result.articles);
     this.logger.log(`🔧 Processing and cleaning ${stories.length} news stories...`);
     
     try {
       // TODO: Implement data processing logic
       // - Parse article content
-      // - Extract entities (people, organizations, locations)
       // - Clean and normalize text
       // - Detect duplicates
       // - Calculate content hash
@@ -110,7 +150,7 @@ export class NewsSchedulerService {
       // For now, just log the stories
       stories.forEach((story, index) => {
         if (index < 5) { // Log first 5 stories as examples
-          this.logger.log(`📰 Story ${index + 1}: "${story.title}" by ${story.author} (${story.storyType})`);
+          this.logger.log(`📰 Story ${index + 1}: "${story.title}" by ${story.author ?? 'unknown'}`);
         }
       });
       
@@ -128,37 +168,61 @@ export class NewsSchedulerService {
   }
 
   /**
-   * Update news clusters and entity relationships
+   * Update news clusters. Saved batches queue their own clustering job; this
+   * sweep picks up anything those missed (failed jobs, bulk inserts).
    */
   private async updateNewsClusters(): Promise<void> {
-    this.logger.log('🔄 Updating news clusters and entities...');
+    this.logger.log('🔄 Updating news clusters...');
     
-    // TODO: Implement clustering logic
-    // - Group similar articles
-    // - Update entity relationships
-    // - Calculate cluster centroids
-    // - Merge or split clusters as needed
-    
-    // Simulate work for now
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    this.logger.log('🔄 News clusters updated successfully');
+    try {
+      const jobId = await this.clusteringQueueService.addSweepJob();
+      this.logger.log(`🔄 Queued clustering sweep with job ID: ${jobId}`);
+    } catch (error) {
+      this.logger.error(`❌ Failed to queue clustering sweep: ${error.message}`);
+      throw error;
+    }
   }
 
   /**
-   * Generate user digests based on preferences
+   * Cluster maintenance - runs every hour
+   * Freezes idle clusters, merges converged ones and splits drifted ones
    */
-  private async generateUserDigests(): Promise<void> {
-    this.logger.log('📰 Generating user digests...');
-    
-    // TODO: Implement digest generation logic
-    // - Check user preferences
-    // - Select relevant articles
-    // - Generate personalized content
-    // - Queue for delivery
-    
-    // Simulate work for now
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    this.logger.log('📰 User digests generated successfully');
+  @Cron(CronExpression.EVERY_HOUR)
+  async handleClusterMaintenance() {
+    try {
+      const jobId = await this.clusteringQueueService.addMaintenanceJob();
+      this.logger.log(`🧹 Queued cluster maintenance with job ID: ${jobId}`);
+    } catch (error) {
+      this.logger.error(`❌ Failed to queue cluster maintenance: ${error.message}`);
+    }
+  }
+
+  /**
+   * Propose entity merges for admins to review - runs nightly
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async handleEntityMergeSuggestions() {
+    try {
+      const jobId = await this.enrichmentQueueService.addMergeSuggestionJob();
+      this.logger.log(`🔀 Queued entity merge suggestions with job ID: ${jobId}`);
+    } catch (error) {
+      this.logger.error(`❌ Failed to queue entity merge suggestions: ${error.message}`);
+    }
+  }
+
+  /**
+   * Digest scheduling - runs every 10 minutes
+   * Queues each user's digest as a job delayed until their local delivery time
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async handleDigestScheduling() {
+    try {
+      const runs = await this.digestService.scheduleDigests();
+      const queued = await this.digestQueueService.addScheduledDigestJobs(runs);
+      this.logger.log(`📰 Scheduled ${queued} user digests`);
+    } catch (error) {
+      this.logger.error(`❌ Failed to schedule user digests: ${error.message}`);
+    }
   }
 
   /**
@@ -208,13 +272,41 @@ export class NewsSchedulerService {
   /**
    * Get news source statistics
    */
-  getNewsSourceStats(): any {
+  async getNewsSourceStats() {
+    const sources = await this.newsStorageService.getEnabledSources();
+    
     return {
-      hackerNews: this.hackerNewsService.getServiceStats(),
-      totalSources: 1
+      adapters: this.newsSourceRegistry.getAll().map(adapter => {
+        const adapterSources = sources.filter(source => source.type === adapter.type);
+        return {
+          ...adapter.getStats(),
+          enabledSources: adapterSources.length,
+          fetches: adapterSources.reduce((sum, source) => sum + source.fetchCount, 0),
+          notModified: adapterSources.reduce((sum, source) => sum + source.notModifiedCount, 0)
+        };
+      }),
+      sources: sources.map(source => ({
+        id: source.id,
+        title: source.title,
+        type: source.type,
+        lastFetchedAt: source.lastFetchedAt,
+        fetches: source.fetchCount,
+        notModified: source.notModifiedCount
+      })),
+      unsupportedSources: sources
+        .filter(source => !this.newsSourceRegistry.has(source.type))
+        .map(source => ({ id: source.id, title: source.title, type: source.type })),
+      totalSources: sources.length
     };
   }
 
+  /**
+   * Get outbound HTTP client statistics (rate limiting, robots.txt)
+   */
+  getHttpStats() {
+    return this.outboundHttpService.getStats();
+  }
+
   /**
    * Get database statistics
    */
@@ -225,8 +317,8 @@ export class NewsSchedulerService {
   /**
    * Get recent articles from database
    */
-  async getRecentArticles(limit: number = 10) {
-    return this.newsStorageService.getRecentHackerNewsArticles(limit);
+  async getRecentArticles(limit: number = 10, sourceType?: string, languages?: string[]) {
+    return this.newsStorageService.getRecentArticles(limit, sourceType, languages);
   }
 
   /**
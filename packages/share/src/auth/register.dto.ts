@@ -1,4 +1,4 @@
-import { IsEmail, IsOptional, IsString, MinLength } from 'class-validator'
+import { IsEmail, IsOptional, IsString, IsTimeZone, MinLength } from 'class-validator'
 
 export class RegisterUser {
     @IsEmail()
@@ -8,7 +8,9 @@ export class RegisterUser {
     @MinLength(6)
     password!: string
 
+    // IANA timezone of the client, e.g. "Europe/Berlin"
     @IsOptional()
     @IsString()
+    @IsTimeZone()
     timezone?: string
 }
\ No newline at end of file
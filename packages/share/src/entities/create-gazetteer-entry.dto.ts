@@ -0,0 +1,16 @@
+import { IsIn, IsString, MaxLength, MinLength } from 'class-validator'
+
+export const GAZETTEER_TYPES = ['person', 'org', 'place'] as const
+
+export type GazetteerType = (typeof GAZETTEER_TYPES)[number]
+
+export class CreateGazetteerEntryDto {
+    @IsIn(GAZETTEER_TYPES)
+    type!: GazetteerType
+
+    // Matched case-sensitively, exactly as written, e.g. "Deutsche Bank"
+    @IsString()
+    @MinLength(2)
+    @MaxLength(100)
+    name!: string
+}
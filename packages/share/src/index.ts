@@ -4,4 +4,8 @@ export * from './auth/register.dto'
 export * from './auth/regular-response.dto'
 export * from './auth/tokens.response'
 export * from './auth/jwt-payload.type'
-export * from './common/error-response.dto'
\ No newline at end of file
+export * from './common/error-response.dto'
+export * from './user/update-languages.dto'
+export * from './user/update-digest-schedule.dto'
+export * from './entities/create-gazetteer-entry.dto'
+export * from './topics/set-article-topics.dto'
@@ -0,0 +1,15 @@
+import { ArrayUnique, IsArray, IsIn } from 'class-validator'
+
+// Mirrors the Topic enum of the Prisma schema
+export const TOPICS = ['ECONOMICS', 'TECHNOLOGY', 'POLITICS'] as const
+
+export type TopicName = (typeof TOPICS)[number]
+
+export class SetArticleTopicsDto {
+    // Every topic the article is about; the ones left out count as wrong,
+    // so an empty list says it is about none of them
+    @IsArray()
+    @ArrayUnique()
+    @IsIn(TOPICS, { each: true })
+    topics!: TopicName[]
+}
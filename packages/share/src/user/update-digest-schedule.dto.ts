@@ -0,0 +1,25 @@
+import { ArrayMaxSize, ArrayUnique, IsArray, IsInt, IsMilitaryTime, IsOptional, IsTimeZone, Max, Min } from 'class-validator'
+
+// Defaults of Preference.digestTime and digestDays
+export const DEFAULT_DIGEST_TIME = '07:00'
+export const DEFAULT_DIGEST_DAYS = [1, 2, 3, 4, 5, 6, 7]
+
+export class UpdateDigestScheduleDto {
+    // Local delivery time, "HH:mm"
+    @IsMilitaryTime()
+    time!: string
+
+    // ISO weekdays, 1 = Monday ... 7 = Sunday; an empty list pauses digests
+    @IsArray()
+    @ArrayUnique()
+    @ArrayMaxSize(7)
+    @IsInt({ each: true })
+    @Min(1, { each: true })
+    @Max(7, { each: true })
+    days!: number[]
+
+    // IANA timezone, e.g. "Europe/Berlin"; the current one is kept when left out
+    @IsOptional()
+    @IsTimeZone()
+    timezone?: string
+}
@@ -0,0 +1,9 @@
+import { ArrayMaxSize, IsArray, Matches } from 'class-validator'
+
+export class UpdateLanguagesDto {
+    // ISO 639-1 codes, e.g. ["en", "fr"]; an empty list accepts every language
+    @IsArray()
+    @ArrayMaxSize(20)
+    @Matches(/^[a-z]{2}$/, { each: true, message: 'each language must be a lowercase ISO 639-1 code' })
+    languages!: string[]
+}
@@ -0,0 +1,4 @@
+-- Hacker News is now fetched through the adapter registered for Source.type "hacker-news"
+UPDATE "public"."Source"
+SET "type" = 'hacker-news', "title" = 'Hacker News'
+WHERE "url" = 'https://hacker-news.firebaseio.com/v0';
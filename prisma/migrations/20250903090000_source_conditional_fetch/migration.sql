@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."Source" ADD COLUMN     "contentHash" TEXT,
+ADD COLUMN     "etag" TEXT,
+ADD COLUMN     "fetchCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastFetchedAt" TIMESTAMP(3),
+ADD COLUMN     "lastModified" TEXT,
+ADD COLUMN     "notModifiedCount" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "public"."ArticleMetric" (
+    "id" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "score" INTEGER,
+    "comments" INTEGER,
+    "capturedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ArticleMetric_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ArticleMetric_articleId_capturedAt_idx" ON "public"."ArticleMetric"("articleId", "capturedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."ArticleMetric" ADD CONSTRAINT "ArticleMetric_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "public"."Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
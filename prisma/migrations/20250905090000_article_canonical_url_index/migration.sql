@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Article_canonicalUrl_idx" ON "public"."Article"("canonicalUrl");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."Article" ADD COLUMN     "langConfidence" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "public"."Preference" ADD COLUMN     "languages" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Rows ingested before detection were all stamped "en"; let extraction re-detect them
+UPDATE "public"."Article" SET "lang" = NULL WHERE "lang" = 'en';
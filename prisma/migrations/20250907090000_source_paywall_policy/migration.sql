@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "public"."PaywallPolicy" AS ENUM ('AUTO', 'ALWAYS', 'NEVER');
+
+-- AlterTable
+ALTER TABLE "public"."Source" ADD COLUMN     "paywallPolicy" "public"."PaywallPolicy" NOT NULL DEFAULT 'AUTO';
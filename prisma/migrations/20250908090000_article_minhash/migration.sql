@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."Article" ADD COLUMN     "lshBuckets" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "minhash" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
+
+-- CreateIndex
+CREATE INDEX "Article_lshBuckets_idx" ON "public"."Article" USING GIN ("lshBuckets");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Article" ADD COLUMN     "embeddingModel" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Cluster" ADD COLUMN     "centroidSize" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,21 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "vector";
+
+-- Embeddings are derived data: the old Bytes vectors are dropped and
+-- re-created by the embedding backfill (POST /v1/scheduler/embeddings/backfill)
+
+-- AlterTable
+ALTER TABLE "public"."Article" DROP COLUMN "embedding",
+ADD COLUMN     "embedding" vector(256);
+UPDATE "public"."Article" SET "embeddingModel" = NULL;
+
+-- AlterTable
+ALTER TABLE "public"."Cluster" DROP COLUMN "centroidEmbedding",
+ADD COLUMN     "centroidEmbedding" vector(256);
+UPDATE "public"."Cluster" SET "centroidSize" = 0;
+
+-- CreateIndex
+CREATE INDEX "Article_embedding_idx" ON "public"."Article" USING hnsw ("embedding" vector_cosine_ops);
+
+-- CreateIndex
+CREATE INDEX "Cluster_centroidEmbedding_idx" ON "public"."Cluster" USING hnsw ("centroidEmbedding" vector_cosine_ops);
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "public"."ClusterEvent" AS ENUM ('MERGED', 'SPLIT', 'FROZEN');
+
+-- AlterTable
+ALTER TABLE "public"."Cluster" ADD COLUMN     "frozenAt" TIMESTAMP(3),
+ADD COLUMN     "lastMemberAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing clusters: the latest member is the most recently stored one
+UPDATE "public"."Cluster" c SET "lastMemberAt" = s."lastMemberAt"
+FROM (
+  SELECT m."clusterId", max(a."createdAt") AS "lastMemberAt"
+  FROM "public"."ClusterMember" m
+  JOIN "public"."Article" a ON a."id" = m."articleId"
+  GROUP BY m."clusterId"
+) s
+WHERE c."id" = s."clusterId";
+
+-- CreateTable
+CREATE TABLE "public"."ClusterHistory" (
+    "id" TEXT NOT NULL,
+    "clusterId" TEXT NOT NULL,
+    "event" "public"."ClusterEvent" NOT NULL,
+    "relatedClusterId" TEXT,
+    "articleIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "similarity" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ClusterHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Cluster_frozenAt_lastMemberAt_idx" ON "public"."Cluster"("frozenAt", "lastMemberAt");
+
+-- CreateIndex
+CREATE INDEX "ClusterHistory_clusterId_createdAt_idx" ON "public"."ClusterHistory"("clusterId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ClusterHistory_relatedClusterId_idx" ON "public"."ClusterHistory"("relatedClusterId");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."DuplicateResolution" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "survivorId" TEXT NOT NULL,
+    "removedId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "similarity" DOUBLE PRECISION,
+    "snapshot" JSONB NOT NULL,
+    "resolvedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "undoneAt" TIMESTAMP(3),
+
+    CONSTRAINT "DuplicateResolution_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DuplicateResolution_batchId_idx" ON "public"."DuplicateResolution"("batchId");
+
+-- CreateIndex
+CREATE INDEX "DuplicateResolution_survivorId_idx" ON "public"."DuplicateResolution"("survivorId");
+
+-- CreateIndex
+CREATE INDEX "DuplicateResolution_removedId_idx" ON "public"."DuplicateResolution"("removedId");
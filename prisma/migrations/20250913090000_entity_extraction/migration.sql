@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "public"."GazetteerEntry" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GazetteerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."EntityExtraction" (
+    "articleId" TEXT NOT NULL,
+    "entities" INTEGER NOT NULL,
+    "mentions" INTEGER NOT NULL,
+    "byType" JSONB NOT NULL,
+    "byMethod" JSONB NOT NULL,
+    "extractedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EntityExtraction_pkey" PRIMARY KEY ("articleId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GazetteerEntry_type_name_key" ON "public"."GazetteerEntry"("type", "name");
+
+-- CreateIndex
+CREATE INDEX "EntityExtraction_extractedAt_idx" ON "public"."EntityExtraction"("extractedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."EntityExtraction" ADD CONSTRAINT "EntityExtraction_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "public"."Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "public"."MergeSuggestionStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "public"."EntityAlias" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EntityAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."EntityMergeSuggestion" (
+    "id" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "sourceType" TEXT NOT NULL,
+    "sourceValue" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetValue" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "nameSimilarity" DOUBLE PRECISION NOT NULL,
+    "cooccurrence" DOUBLE PRECISION NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "status" "public"."MergeSuggestionStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "decidedAt" TIMESTAMP(3),
+    "decidedBy" TEXT,
+
+    CONSTRAINT "EntityMergeSuggestion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EntityAlias_type_value_key" ON "public"."EntityAlias"("type", "value");
+
+-- CreateIndex
+CREATE INDEX "EntityAlias_entityId_idx" ON "public"."EntityAlias"("entityId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EntityMergeSuggestion_sourceId_targetId_key" ON "public"."EntityMergeSuggestion"("sourceId", "targetId");
+
+-- CreateIndex
+CREATE INDEX "EntityMergeSuggestion_status_score_idx" ON "public"."EntityMergeSuggestion"("status", "score");
+
+-- AddForeignKey
+ALTER TABLE "public"."EntityAlias" ADD CONSTRAINT "EntityAlias_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "public"."Entity"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "public"."Article" ADD COLUMN     "topicModelId" TEXT,
+ADD COLUMN     "topicScores" JSONB,
+ADD COLUMN     "topics" "public"."Topic"[] DEFAULT ARRAY[]::"public"."Topic"[];
+
+-- AlterTable
+ALTER TABLE "public"."Cluster" ADD COLUMN     "topicScores" JSONB,
+ADD COLUMN     "topics" "public"."Topic"[] DEFAULT ARRAY[]::"public"."Topic"[];
+
+-- CreateTable
+CREATE TABLE "public"."TopicLabel" (
+    "articleId" TEXT NOT NULL,
+    "topics" "public"."Topic"[],
+    "labeledBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TopicLabel_pkey" PRIMARY KEY ("articleId")
+);
+
+-- CreateTable
+CREATE TABLE "public"."TopicModel" (
+    "id" TEXT NOT NULL,
+    "params" JSONB NOT NULL,
+    "examples" JSONB NOT NULL,
+    "trainedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TopicModel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Article_topics_idx" ON "public"."Article" USING GIN ("topics");
+
+-- CreateIndex
+CREATE INDEX "Cluster_topics_idx" ON "public"."Cluster" USING GIN ("topics");
+
+-- CreateIndex
+CREATE INDEX "TopicModel_createdAt_idx" ON "public"."TopicModel"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."TopicLabel" ADD CONSTRAINT "TopicLabel_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "public"."Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "public"."Cluster" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "public"."ClusterSummary" (
+    "clusterId" TEXT NOT NULL,
+    "length" "public"."Length" NOT NULL,
+    "version" INTEGER NOT NULL,
+    "summary" TEXT NOT NULL,
+    "sources" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ClusterSummary_pkey" PRIMARY KEY ("clusterId","length")
+);
+
+-- AddForeignKey
+ALTER TABLE "public"."ClusterSummary" ADD CONSTRAINT "ClusterSummary_clusterId_fkey" FOREIGN KEY ("clusterId") REFERENCES "public"."Cluster"("id") ON DELETE CASCADE ON UPDATE CASCADE;
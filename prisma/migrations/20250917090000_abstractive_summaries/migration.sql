@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."AbstractiveSummary" (
+    "hash" TEXT NOT NULL,
+    "clusterId" TEXT NOT NULL,
+    "length" "public"."Length" NOT NULL,
+    "provider" TEXT NOT NULL,
+    "headline" TEXT NOT NULL,
+    "summary" TEXT NOT NULL,
+    "sources" JSONB NOT NULL,
+    "promptTokens" INTEGER,
+    "completionTokens" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AbstractiveSummary_pkey" PRIMARY KEY ("hash")
+);
+
+-- CreateIndex
+CREATE INDEX "AbstractiveSummary_clusterId_idx" ON "public"."AbstractiveSummary"("clusterId");
+
+-- AddForeignKey
+ALTER TABLE "public"."AbstractiveSummary" ADD CONSTRAINT "AbstractiveSummary_clusterId_fkey" FOREIGN KEY ("clusterId") REFERENCES "public"."Cluster"("id") ON DELETE CASCADE ON UPDATE CASCADE;
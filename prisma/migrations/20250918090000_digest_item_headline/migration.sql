@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."DigestItem" ADD COLUMN     "headline" TEXT;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."Preference" ADD COLUMN     "digestDays" INTEGER[] DEFAULT ARRAY[1, 2, 3, 4, 5, 6, 7]::INTEGER[],
+ADD COLUMN     "digestTime" TEXT NOT NULL DEFAULT '07:00';
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "nextDigestAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "User_nextDigestAt_idx" ON "public"."User"("nextDigestAt");